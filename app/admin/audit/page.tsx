@@ -0,0 +1,369 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, ChevronDown, ChevronRight, Download, Loader2, ScrollText } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS, AuditAction } from '@/lib/auditActions';
+import { ADMIN_ROLE_LABELS, AdminRole } from '@/lib/roles';
+
+interface AuditEntry {
+    id: string;
+    createdAt: string;
+    actorEmail: string;
+    actorRole: AdminRole | null;
+    action: AuditAction;
+    actionLabel: string;
+    targetType: string;
+    targetIds: string[];
+    eventId: string | null;
+    changes: Record<string, { before?: unknown; after?: unknown }> | null;
+    details: Record<string, unknown> | null;
+    ip: string | null;
+    userAgent: string | null;
+    method: string;
+    path: string;
+}
+
+interface Filters {
+    actor: string;
+    action: string;
+    eventId: string;
+    from: string;
+    to: string;
+}
+
+const EMPTY_FILTERS: Filters = { actor: '', action: '', eventId: '', from: '', to: '' };
+
+function buildQuery(filters: Filters, extra: Record<string, string> = {}): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries({ ...filters, ...extra })) {
+        if (value) params.set(key, value);
+    }
+    return params.toString();
+}
+
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '—';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export default function AuditLogPage() {
+    const router = useRouter();
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(1);
+    const [pageSize, setPageSize] = useState(50);
+    const [isLoading, setIsLoading] = useState(true);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+    const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS);
+    const [actors, setActors] = useState<Array<{ email: string; name: string }>>([]);
+    const [events, setEvents] = useState<Array<{ id: string; title: string }>>([]);
+
+    useEffect(() => {
+        Promise.all([
+            fetch('/api/admin/users', { credentials: 'include' }).then((r) => r.json()),
+            fetch('/api/admin/events', { credentials: 'include' }).then((r) => r.json()),
+        ])
+            .then(([usersData, eventsData]) => {
+                if (usersData.success) setActors(usersData.users);
+                if (eventsData.success) setEvents(eventsData.events);
+            })
+            .catch(() => {
+                // Filters still work by typing; the dropdown options are a convenience
+            });
+    }, []);
+
+    const fetchEntries = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const response = await fetch(`/api/admin/audit-logs?${buildQuery(appliedFilters, { page: String(page) })}`, {
+                credentials: 'include',
+            });
+
+            if (response.status === 401) {
+                router.push('/admin');
+                return;
+            }
+            if (response.status === 403) {
+                toast.error('Only owners can view the audit log');
+                router.push('/admin/dashboard');
+                return;
+            }
+
+            const data = await response.json();
+            if (!response.ok) {
+                toast.error(data.error || 'Failed to load audit log');
+                return;
+            }
+            setEntries(data.entries);
+            setTotal(data.total);
+            setPageSize(data.pageSize);
+        } catch (error) {
+            console.error('Failed to fetch audit log:', error);
+            toast.error('Failed to load audit log');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [appliedFilters, page, router]);
+
+    useEffect(() => {
+        fetchEntries();
+    }, [fetchEntries]);
+
+    const handleApplyFilters = (e: React.SubmitEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setPage(1);
+        setAppliedFilters(filters);
+    };
+
+    const handleResetFilters = () => {
+        setFilters(EMPTY_FILTERS);
+        setAppliedFilters(EMPTY_FILTERS);
+        setPage(1);
+    };
+
+    const eventTitles = new Map(events.map((event) => [event.id, event.title]));
+    const totalPages = Math.max(1, Math.ceil(total / pageSize));
+    const inputClass =
+        'bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white text-sm placeholder-slate-500 focus:outline-none focus:border-blue-500';
+
+    return (
+        <div className="min-h-screen bg-slate-950 p-8 pt-12">
+            <div className="max-w-7xl mx-auto">
+                {/* Header Section */}
+                <button
+                    onClick={() => router.push('/admin/dashboard')}
+                    className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors mb-6 cursor-pointer"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    Back to Dashboard
+                </button>
+                <div className="mb-8 flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-white mb-1 flex items-center gap-3">
+                            <ScrollText className="w-8 h-8 text-blue-400" />
+                            Audit Log
+                        </h1>
+                        <p className="text-slate-400">Every change made through the admin panel, newest first</p>
+                    </div>
+                    <a
+                        href={`/api/admin/audit-logs?${buildQuery(appliedFilters, { format: 'csv' })}`}
+                        className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors border border-slate-700 text-sm"
+                    >
+                        <Download className="w-4 h-4" />
+                        Export CSV
+                    </a>
+                </div>
+
+                {/* Filters */}
+                <form
+                    onSubmit={handleApplyFilters}
+                    className="bg-slate-900/50 border border-slate-800 rounded-2xl p-4 mb-6 grid grid-cols-1 md:grid-cols-6 gap-3"
+                >
+                    <select
+                        value={filters.actor}
+                        onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+                        className={inputClass}
+                    >
+                        <option value="">All admins</option>
+                        {actors.map((actor) => (
+                            <option key={actor.email} value={actor.email}>
+                                {actor.name} ({actor.email})
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={filters.action}
+                        onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+                        className={inputClass}
+                    >
+                        <option value="">All actions</option>
+                        {AUDIT_ACTIONS.map((action) => (
+                            <option key={action} value={action}>
+                                {AUDIT_ACTION_LABELS[action]}
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={filters.eventId}
+                        onChange={(e) => setFilters({ ...filters, eventId: e.target.value })}
+                        className={inputClass}
+                    >
+                        <option value="">All events</option>
+                        {events.map((event) => (
+                            <option key={event.id} value={event.id}>
+                                {event.title}
+                            </option>
+                        ))}
+                    </select>
+                    <input
+                        type="date"
+                        value={filters.from}
+                        onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                        aria-label="From date"
+                        className={inputClass}
+                    />
+                    <input
+                        type="date"
+                        value={filters.to}
+                        onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                        aria-label="To date"
+                        className={inputClass}
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            type="submit"
+                            className="flex-1 px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors cursor-pointer text-sm"
+                        >
+                            Apply
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleResetFilters}
+                            className="px-3 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors cursor-pointer text-sm"
+                        >
+                            Reset
+                        </button>
+                    </div>
+                </form>
+
+                {/* Entries */}
+                <div className="bg-slate-900/50 border border-slate-800 rounded-2xl overflow-hidden">
+                    {isLoading ? (
+                        <div className="p-8 flex justify-center">
+                            <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+                        </div>
+                    ) : entries.length === 0 ? (
+                        <p className="p-8 text-center text-slate-400">No audit entries match these filters</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="bg-slate-800/60 text-slate-300 text-left">
+                                    <th className="p-3 w-8" />
+                                    <th className="p-3">Time</th>
+                                    <th className="p-3">Admin</th>
+                                    <th className="p-3">Action</th>
+                                    <th className="p-3">Target</th>
+                                    <th className="p-3">Event</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {entries.map((entry) => {
+                                    const isExpanded = expandedId === entry.id;
+                                    return (
+                                        <React.Fragment key={entry.id}>
+                                            <tr
+                                                onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                                                className="border-t border-slate-800 hover:bg-slate-800/30 cursor-pointer"
+                                            >
+                                                <td className="p-3 text-slate-500">
+                                                    {isExpanded ? (
+                                                        <ChevronDown className="w-4 h-4" />
+                                                    ) : (
+                                                        <ChevronRight className="w-4 h-4" />
+                                                    )}
+                                                </td>
+                                                <td className="p-3 text-slate-300 whitespace-nowrap">
+                                                    {new Date(entry.createdAt).toLocaleString()}
+                                                </td>
+                                                <td className="p-3">
+                                                    <p className="text-white">{entry.actorEmail}</p>
+                                                    {entry.actorRole && (
+                                                        <p className="text-slate-500 text-xs">{ADMIN_ROLE_LABELS[entry.actorRole]}</p>
+                                                    )}
+                                                </td>
+                                                <td className="p-3 text-white">{entry.actionLabel}</td>
+                                                <td className="p-3 text-slate-400">
+                                                    {entry.targetIds.length === 1
+                                                        ? <span className="font-mono text-xs">{entry.targetIds[0]}</span>
+                                                        : `${entry.targetIds.length} ${entry.targetType.replace('_', ' ')}s`}
+                                                </td>
+                                                <td className="p-3 text-slate-400">
+                                                    {entry.eventId ? eventTitles.get(entry.eventId) || entry.eventId : '—'}
+                                                </td>
+                                            </tr>
+                                            {isExpanded && (
+                                                <tr className="bg-slate-950/40">
+                                                    <td />
+                                                    <td colSpan={5} className="p-4 space-y-3">
+                                                        {entry.changes && (
+                                                            <table className="text-xs w-full">
+                                                                <thead>
+                                                                    <tr className="text-slate-500 text-left">
+                                                                        <th className="pb-1 pr-4">Field</th>
+                                                                        <th className="pb-1 pr-4">Before</th>
+                                                                        <th className="pb-1">After</th>
+                                                                    </tr>
+                                                                </thead>
+                                                                <tbody>
+                                                                    {Object.entries(entry.changes).map(([field, change]) => (
+                                                                        <tr key={field}>
+                                                                            <td className="pr-4 py-1 text-slate-300 font-mono">{field}</td>
+                                                                            <td className="pr-4 py-1 text-red-300 break-all">
+                                                                                {formatValue(change.before)}
+                                                                            </td>
+                                                                            <td className="py-1 text-green-300 break-all">
+                                                                                {formatValue(change.after)}
+                                                                            </td>
+                                                                        </tr>
+                                                                    ))}
+                                                                </tbody>
+                                                            </table>
+                                                        )}
+                                                        {entry.details && (
+                                                            <pre className="text-xs text-slate-300 bg-slate-900 rounded-lg p-3 overflow-x-auto">
+                                                                {JSON.stringify(entry.details, null, 2)}
+                                                            </pre>
+                                                        )}
+                                                        {entry.targetIds.length > 1 && (
+                                                            <p className="text-xs text-slate-400 font-mono break-all">
+                                                                {entry.targetIds.join(', ')}
+                                                            </p>
+                                                        )}
+                                                        <p className="text-xs text-slate-500">
+                                                            {entry.method} {entry.path}
+                                                            {entry.ip && ` · ${entry.ip}`}
+                                                            {entry.userAgent && ` · ${entry.userAgent}`}
+                                                        </p>
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </React.Fragment>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {/* Pagination */}
+                {total > pageSize && (
+                    <div className="flex items-center justify-between mt-4 text-sm text-slate-400">
+                        <span>
+                            Page {page} of {totalPages} · {total} entries
+                        </span>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setPage((p) => p - 1)}
+                                disabled={page <= 1 || isLoading}
+                                className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                            >
+                                Previous
+                            </button>
+                            <button
+                                onClick={() => setPage((p) => p + 1)}
+                                disabled={page >= totalPages || isLoading}
+                                className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                            >
+                                Next
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -2,13 +2,18 @@
 
 import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { LogOut, Calendar, FileText, Layout } from 'lucide-react';
+import { LogOut, Calendar, FileText, Layout, ScrollText, Users } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { EventCard } from '@/components/EventCard';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
 import { EventFormModal } from '@/components/EventFormModal';
 import { CertificateFormModal } from '@/components/CertificateFormModal';
+import { ScheduledEmailsList } from '@/components/ScheduledEmailsList';
 import Image from 'next/image';
+import { ADMIN_ROLE_LABELS, AdminRole, hasRole } from '@/lib/roles';
+import type { CertificateNumberScheme } from '@/lib/certificateUtils';
+import type { AchievementType } from '@/lib/achievements';
+import type { TemplateSlotConfig } from '@/lib/templateSlotRules';
 
 interface Event {
     id: string;
@@ -18,6 +23,18 @@ interface Event {
     organizer: string;
     template: string;
     templateId?: string;
+    templateSlots?: TemplateSlotConfig[];
+    signatoryIds?: string[];
+    numberScheme?: CertificateNumberScheme | null;
+    privateDownloads?: boolean;
+    verifyCustomFields?: string[];
+}
+
+interface CurrentAdmin {
+    userId: string;
+    email: string;
+    name: string;
+    role: AdminRole;
 }
 
 interface GeneratedCertificate {
@@ -33,7 +50,9 @@ export default function AdminDashboard() {
     const [showEventForm, setShowEventForm] = useState(false);
     const [showCertForm, setShowCertForm] = useState(false);
     const [generatedCert, setGeneratedCert] = useState<GeneratedCertificate | null>(null);
+    const [currentAdmin, setCurrentAdmin] = useState<CurrentAdmin | null>(null);
     const router = useRouter();
+    const canManage = currentAdmin !== null && hasRole(currentAdmin.role, 'event_manager');
 
     // Event form state
     const [eventTitle, setEventTitle] = useState('');
@@ -43,6 +62,12 @@ export default function AdminDashboard() {
     const [eventOrganizer, setEventOrganizer] = useState('E-Cell');
     const [eventTemplate, setEventTemplate] = useState('certificate-default.html');
     const [eventTemplateId, setEventTemplateId] = useState('');
+    const [eventTemplateSlots, setEventTemplateSlots] = useState<TemplateSlotConfig[]>([]);
+    const [eventSignatoryIds, setEventSignatoryIds] = useState<string[]>([]);
+    const [eventNumberScheme, setEventNumberScheme] = useState<CertificateNumberScheme | null>(null);
+    const [eventPrivateDownloads, setEventPrivateDownloads] = useState(false);
+    // Comma-separated custom field names, as typed in the event form
+    const [eventVerifyCustomFields, setEventVerifyCustomFields] = useState('');
     const [isCreatingEvent, setIsCreatingEvent] = useState(false);
     const [eventError, setEventError] = useState('');
 
@@ -61,8 +86,23 @@ export default function AdminDashboard() {
 
     useEffect(() => {
         fetchEvents();
+        fetchCurrentAdmin();
     }, [router]);
 
+    const fetchCurrentAdmin = async () => {
+        try {
+            const response = await fetch('/api/admin/me', {
+                credentials: 'include',
+            });
+            const data = await response.json();
+            if (data.success) {
+                setCurrentAdmin(data.admin);
+            }
+        } catch (error) {
+            console.error('Failed to fetch current admin:', error);
+        }
+    };
+
     const fetchEvents = async () => {
         try {
             const response = await fetch('/api/admin/events', {
@@ -117,6 +157,11 @@ export default function AdminDashboard() {
                     organizer: eventOrganizer,
                     template: eventTemplate,
                     templateId: eventTemplateId || undefined,
+                    templateSlots: eventTemplateSlots,
+                    signatoryIds: eventSignatoryIds,
+                    numberScheme: eventNumberScheme,
+                    privateDownloads: eventPrivateDownloads,
+                    verifyCustomFields: eventVerifyCustomFields.split(','),
                 }),
             });
 
@@ -131,6 +176,11 @@ export default function AdminDashboard() {
                 setEventOrganizer('E-Cell');
                 setEventTemplate('certificate-default.html');
                 setEventTemplateId('');
+                setEventTemplateSlots([]);
+                setEventSignatoryIds([]);
+                setEventNumberScheme(null);
+                setEventPrivateDownloads(false);
+                setEventVerifyCustomFields('');
                 setShowEventForm(false);
                 // Refresh events list
                 await fetchEvents();
@@ -151,6 +201,8 @@ export default function AdminDashboard() {
         eventId: string;
         participantName: string;
         participantEmail?: string;
+        achievementType: AchievementType;
+        customFields?: Record<string, string>;
     }) => {
         setCertError('');
         setIsGenerating(true);
@@ -226,6 +278,11 @@ export default function AdminDashboard() {
             setEventOrganizer(event.organizer || 'E-Cell');
             setEventTemplate(event.template || 'certificate-default.html');
             setEventTemplateId(event.templateId || '');
+            setEventTemplateSlots(event.templateSlots || []);
+            setEventSignatoryIds(event.signatoryIds || []);
+            setEventNumberScheme(event.numberScheme || null);
+            setEventPrivateDownloads(!!event.privateDownloads);
+            setEventVerifyCustomFields((event.verifyCustomFields || []).join(', '));
             setShowEventForm(true);
         }
     };
@@ -249,6 +306,11 @@ export default function AdminDashboard() {
                     organizer: eventOrganizer,
                     template: eventTemplate,
                     templateId: eventTemplateId || undefined,
+                    templateSlots: eventTemplateSlots,
+                    signatoryIds: eventSignatoryIds,
+                    numberScheme: eventNumberScheme,
+                    privateDownloads: eventPrivateDownloads,
+                    verifyCustomFields: eventVerifyCustomFields.split(','),
                 }),
             });
 
@@ -313,6 +375,11 @@ export default function AdminDashboard() {
         setEventOrganizer('E-Cell');
         setEventTemplate('certificate-default.html');
         setEventTemplateId('');
+        setEventTemplateSlots([]);
+        setEventSignatoryIds([]);
+        setEventNumberScheme(null);
+        setEventPrivateDownloads(false);
+        setEventVerifyCustomFields('');
     };
 
     const closeCertForm = () => {
@@ -344,13 +411,39 @@ export default function AdminDashboard() {
                                 />
                                 <h1 className="text-xl sm:text-2xl font-bold text-white">Admin Dashboard</h1>
                             </div>
-                            <button
-                                onClick={handleLogout}
-                                className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-slate-800/50 hover:bg-slate-800 text-white rounded-lg transition-all border border-slate-700 cursor-pointer text-sm sm:text-base w-full sm:w-auto justify-center"
-                            >
-                                <LogOut className="w-4 h-4" />
-                                Logout
-                            </button>
+                            <div className="flex items-center gap-3 w-full sm:w-auto">
+                                {currentAdmin && (
+                                    <div className="text-right hidden sm:block">
+                                        <p className="text-sm text-white">{currentAdmin.name}</p>
+                                        <p className="text-xs text-slate-400">{ADMIN_ROLE_LABELS[currentAdmin.role]}</p>
+                                    </div>
+                                )}
+                                {currentAdmin?.role === 'owner' && (
+                                    <>
+                                        <button
+                                            onClick={() => router.push('/admin/audit')}
+                                            className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-slate-800/50 hover:bg-slate-800 text-white rounded-lg transition-all border border-slate-700 cursor-pointer text-sm sm:text-base flex-1 sm:flex-none justify-center"
+                                        >
+                                            <ScrollText className="w-4 h-4" />
+                                            Audit Log
+                                        </button>
+                                        <button
+                                            onClick={() => router.push('/admin/users')}
+                                            className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-slate-800/50 hover:bg-slate-800 text-white rounded-lg transition-all border border-slate-700 cursor-pointer text-sm sm:text-base flex-1 sm:flex-none justify-center"
+                                        >
+                                            <Users className="w-4 h-4" />
+                                            Admins
+                                        </button>
+                                    </>
+                                )}
+                                <button
+                                    onClick={handleLogout}
+                                    className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-slate-800/50 hover:bg-slate-800 text-white rounded-lg transition-all border border-slate-700 cursor-pointer text-sm sm:text-base flex-1 sm:flex-none justify-center"
+                                >
+                                    <LogOut className="w-4 h-4" />
+                                    Logout
+                                </button>
+                            </div>
                         </div>
                     </div>
                 </div>
@@ -376,7 +469,8 @@ export default function AdminDashboard() {
 
                         <button
                             onClick={() => setShowEventForm(true)}
-                            className="bg-slate-900/50 backdrop-blur-xl rounded-xl sm:rounded-2xl p-4 sm:p-6 border border-slate-800/50 hover:border-blue-900/50 transition-all text-left group cursor-pointer"
+                            disabled={!canManage}
+                            className="bg-slate-900/50 backdrop-blur-xl rounded-xl sm:rounded-2xl p-4 sm:p-6 border border-slate-800/50 hover:border-blue-900/50 transition-all text-left group disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
                         >
                             <div className="flex items-center gap-3 sm:gap-4">
                                 <div className="w-10 h-10 sm:w-12 sm:h-12 bg-gradient-to-br from-blue-600 to-cyan-600 rounded-full flex items-center justify-center shrink-0 group-hover:scale-110 transition-transform">
@@ -391,7 +485,7 @@ export default function AdminDashboard() {
 
                         <button
                             onClick={() => setShowCertForm(true)}
-                            disabled={events.length === 0}
+                            disabled={events.length === 0 || !canManage}
                             className="bg-slate-900/50 backdrop-blur-xl rounded-xl sm:rounded-2xl p-4 sm:p-6 border border-slate-800/50 hover:border-cyan-900/50 transition-all text-left group disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
                         >
                             <div className="flex items-center gap-3 sm:gap-4">
@@ -408,6 +502,8 @@ export default function AdminDashboard() {
                         </button>
                     </div>
 
+                    <ScheduledEmailsList canManage={canManage} />
+
                     {/* Events List */}
                     <div className="bg-slate-900/50 backdrop-blur-xl rounded-xl sm:rounded-2xl p-4 sm:p-6 border border-slate-800/50">
                         <h2 className="text-lg sm:text-xl font-bold text-white mb-4">Recent Events</h2>
@@ -448,6 +544,11 @@ export default function AdminDashboard() {
                     organizer: eventOrganizer,
                     template: eventTemplate,
                     templateId: eventTemplateId,
+                    templateSlots: eventTemplateSlots,
+                    signatoryIds: eventSignatoryIds,
+                    numberScheme: eventNumberScheme,
+                    privateDownloads: eventPrivateDownloads,
+                    verifyCustomFields: eventVerifyCustomFields,
                 }}
                 onFormChange={{
                     setTitle: setEventTitle,
@@ -457,6 +558,11 @@ export default function AdminDashboard() {
                     setOrganizer: setEventOrganizer,
                     setTemplate: setEventTemplate,
                     setTemplateId: setEventTemplateId,
+                    setTemplateSlots: setEventTemplateSlots,
+                    setSignatoryIds: setEventSignatoryIds,
+                    setNumberScheme: setEventNumberScheme,
+                    setPrivateDownloads: setEventPrivateDownloads,
+                    setVerifyCustomFields: setEventVerifyCustomFields,
                 }}
             />
 
@@ -3,7 +3,7 @@
 import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { ArrowLeft, Calendar, User, FileText, Trash2, Upload, Download, Search, Mail, Settings } from 'lucide-react';
+import { ArrowLeft, Calendar, User, FileText, Trash2, Upload, Download, Search, Mail, Settings, RefreshCw } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { CertificateTable } from '@/components/CertificateTable';
 import { ImportCertificatesModal } from '@/components/ImportCertificatesModal';
@@ -11,6 +11,11 @@ import { ConfirmDialog } from '@/components/ConfirmDialog';
 import { CertificateFormModal } from '@/components/CertificateFormModal';
 import { EmailTemplateModal } from '@/components/EmailTemplateModal';
 import { SendEmailModal } from '@/components/SendEmailModal';
+import { RevokeCertificateModal } from '@/components/RevokeCertificateModal';
+import { RegenerateCertificatesModal } from '@/components/RegenerateCertificatesModal';
+import { EditCertificateModal, CertificateDetailsUpdate, DetailChange } from '@/components/EditCertificateModal';
+import type { RevocationReason } from '@/lib/revocation';
+import type { AchievementType } from '@/lib/achievements';
 import { formatDateRange } from '@/lib/dateUtils';
 
 interface PageProps {
@@ -35,9 +40,37 @@ interface Certificate {
     certificateUrl: string;
     issuedAt: string;
     verificationUrl: string;
-    emailStatus?: 'sent' | 'failed' | 'pending' | null;
+    emailStatus?: 'sent' | 'failed' | 'pending' | 'queued' | 'retrying' | null;
     emailSentAt?: string | null;
     emailError?: string | null;
+    emailAttempts?: number | null;
+    emailOpenedAt?: string | null;
+    emailClickedAt?: string | null;
+    emailBouncedAt?: string | null;
+    emailBounceReason?: string | null;
+    revokedAt?: string | null;
+    revocationReason?: RevocationReason | null;
+    revocationNote?: string | null;
+    source?: 'generated' | 'uploaded';
+    regeneratedAt?: string | null;
+    pdfHistory?: Array<{ url: string; replacedAt: string }>;
+    detailHistory?: DetailChange[];
+    achievementType?: AchievementType;
+    customFields?: Record<string, string>;
+    teamName?: string;
+    teamMembers?: string[];
+    isTeamCertificate?: boolean;
+}
+
+type DeliveryFilter = 'all' | 'bounced' | 'never_opened';
+
+// "Never opened" only covers delivered emails: sent, not bounced, no open or click recorded
+function matchesDeliveryFilter(cert: Certificate, filter: DeliveryFilter): boolean {
+    if (filter === 'bounced') return Boolean(cert.emailBouncedAt);
+    if (filter === 'never_opened') {
+        return cert.emailStatus === 'sent' && !cert.emailBouncedAt && !cert.emailOpenedAt && !cert.emailClickedAt;
+    }
+    return true;
 }
 
 export default function EventCertificatesPage({ params }: PageProps) {
@@ -58,6 +91,7 @@ export default function EventCertificatesPage({ params }: PageProps) {
     const [showImportModal, setShowImportModal] = useState(false);
     const [isExporting, setIsExporting] = useState(false);
     const [searchTerm, setSearchTerm] = useState('');
+    const [deliveryFilter, setDeliveryFilter] = useState<DeliveryFilter>('all');
 
     // Single Certificate Form State
     const [showCertForm, setShowCertForm] = useState(false);
@@ -78,10 +112,24 @@ export default function EventCertificatesPage({ params }: PageProps) {
     const [showSendEmail, setShowSendEmail] = useState(false);
     const [emailTargets, setEmailTargets] = useState<Certificate[]>([]);
 
+    // Revocation State
+    const [revokeTarget, setRevokeTarget] = useState<Certificate | null>(null);
+    const [unrevokeTarget, setUnrevokeTarget] = useState<Certificate | null>(null);
+    const [isRevoking, setIsRevoking] = useState(false);
+
+    // Correction State
+    const [editTarget, setEditTarget] = useState<Certificate | null>(null);
+    const [isSavingEdit, setIsSavingEdit] = useState(false);
+
+    // Regeneration State (null IDs = whole event)
+    const [showRegenerate, setShowRegenerate] = useState(false);
+    const [regenerateIds, setRegenerateIds] = useState<string[] | null>(null);
+
     const filteredCertificates = certificates.filter(cert =>
-        cert.participantName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        (cert.participantName.toLowerCase().includes(searchTerm.toLowerCase()) ||
         cert.participantEmail?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        cert.certificateNumber.toLowerCase().includes(searchTerm.toLowerCase())
+        cert.certificateNumber.toLowerCase().includes(searchTerm.toLowerCase())) &&
+        matchesDeliveryFilter(cert, deliveryFilter)
     );
 
     const router = useRouter();
@@ -150,10 +198,96 @@ export default function EventCertificatesPage({ params }: PageProps) {
         }
     };
 
+    const handleRevokeCertificate = async (reason: RevocationReason, note: string) => {
+        if (!revokeTarget) return;
+
+        setIsRevoking(true);
+        try {
+            const response = await fetch(`/api/admin/certificates/${revokeTarget.id}/revoke`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ reason, note: note || undefined }),
+            });
+
+            if (response.ok) {
+                toast.success(`Certificate ${revokeTarget.certificateNumber} revoked`);
+                await fetchCertificates(eventId);
+                setRevokeTarget(null);
+            } else {
+                const data = await response.json();
+                toast.error(data.error || 'Failed to revoke certificate');
+            }
+        } catch (err) {
+            toast.error('Failed to revoke certificate');
+        } finally {
+            setIsRevoking(false);
+        }
+    };
+
+    const handleUnrevokeCertificate = async () => {
+        if (!unrevokeTarget) return;
+
+        setIsRevoking(true);
+        try {
+            const response = await fetch(`/api/admin/certificates/${unrevokeTarget.id}/revoke`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+
+            if (response.ok) {
+                toast.success(`Certificate ${unrevokeTarget.certificateNumber} restored`);
+                await fetchCertificates(eventId);
+                setUnrevokeTarget(null);
+            } else {
+                const data = await response.json();
+                toast.error(data.error || 'Failed to restore certificate');
+            }
+        } catch (err) {
+            toast.error('Failed to restore certificate');
+        } finally {
+            setIsRevoking(false);
+        }
+    };
+
+    const handleEditCertificate = async (update: CertificateDetailsUpdate) => {
+        if (!editTarget) return;
+
+        setIsSavingEdit(true);
+        try {
+            const response = await fetch(`/api/admin/certificates/${editTarget.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(update),
+            });
+            const data = await response.json();
+
+            if (response.ok) {
+                toast.success(`Certificate ${editTarget.certificateNumber} re-issued`);
+                if (data.email && !data.email.sent) {
+                    toast.error(`Email not sent: ${data.email.error}`);
+                } else if (data.email?.sent) {
+                    toast.success('Corrected certificate emailed');
+                }
+                await fetchCertificates(eventId);
+                setEditTarget(null);
+            } else {
+                toast.error(data.error || 'Failed to update certificate');
+            }
+        } catch (err) {
+            toast.error('Failed to update certificate');
+        } finally {
+            setIsSavingEdit(false);
+        }
+    };
+
     const handleGenerateCertificate = async (data: {
         eventId: string;
         participantName: string;
         participantEmail?: string;
+        achievementType: AchievementType;
+        customFields?: Record<string, string>;
     }) => {
         setCertError('');
         setIsGenerating(true);
@@ -422,6 +556,11 @@ export default function EventCertificatesPage({ params }: PageProps) {
         }
     };
 
+    const openRegenerate = (ids: string[] | null) => {
+        setRegenerateIds(ids);
+        setShowRegenerate(true);
+    };
+
     const handleIndividualEmail = (cert: Certificate) => {
         setEmailTargets([cert]);
         setShowSendEmail(true);
@@ -527,16 +666,28 @@ export default function EventCertificatesPage({ params }: PageProps) {
                                     <h2 className="text-xl font-bold text-white">Issued Certificates</h2>
 
                                     <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4">
-                                        {/* Search Bar */}
-                                        <div className="relative w-full lg:w-96">
-                                            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-                                            <input
-                                                type="text"
-                                                placeholder="Search by name, email, or certificate number..."
-                                                value={searchTerm}
-                                                onChange={(e) => setSearchTerm(e.target.value)}
-                                                className="w-full bg-slate-950/50 border border-slate-700/50 rounded-lg pl-10 pr-4 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-slate-500"
-                                            />
+                                        <div className="flex flex-col sm:flex-row gap-2 w-full lg:w-auto">
+                                            {/* Search Bar */}
+                                            <div className="relative w-full lg:w-96">
+                                                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                                                <input
+                                                    type="text"
+                                                    placeholder="Search by name, email, or certificate number..."
+                                                    value={searchTerm}
+                                                    onChange={(e) => setSearchTerm(e.target.value)}
+                                                    className="w-full bg-slate-950/50 border border-slate-700/50 rounded-lg pl-10 pr-4 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 placeholder:text-slate-500"
+                                                />
+                                            </div>
+                                            <select
+                                                value={deliveryFilter}
+                                                onChange={(e) => setDeliveryFilter(e.target.value as DeliveryFilter)}
+                                                className="bg-slate-950/50 border border-slate-700/50 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                                                title="Filter by email delivery"
+                                            >
+                                                <option value="all">All deliveries</option>
+                                                <option value="bounced">Bounced</option>
+                                                <option value="never_opened">Never opened</option>
+                                            </select>
                                         </div>
 
                                         <div className="flex flex-wrap items-center gap-2 justify-end w-full lg:w-auto mt-4 lg:mt-0">
@@ -589,6 +740,16 @@ export default function EventCertificatesPage({ params }: PageProps) {
                                                 <Download className="w-4 h-4" />
                                                 <span className="text-[10px] sm:text-sm font-bold sm:font-normal uppercase tracking-wider sm:tracking-normal">XLSX</span>
                                             </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => openRegenerate(null)}
+                                                disabled={certificates.length === 0}
+                                                className="flex items-center gap-1.5 sm:gap-2 px-3 py-2 bg-slate-700/50 hover:bg-slate-700 text-white rounded-lg transition-colors text-sm disabled:opacity-50 cursor-pointer"
+                                                title="Regenerate all certificates with the current event details and template"
+                                            >
+                                                <RefreshCw className="w-4 h-4" />
+                                                <span className="hidden sm:inline">Regenerate All</span>
+                                            </button>
                                             <button
                                                 type="button"
                                                 onClick={() => setShowDeleteAllConfirm(true)}
@@ -610,8 +771,12 @@ export default function EventCertificatesPage({ params }: PageProps) {
                                     onSelectAll={toggleSelectAll}
                                     onDelete={(id) => setDeleteConfirmId(id)}
                                     onBulkDelete={() => setShowBulkDeleteConfirm(true)}
+                                    onRegenerate={openRegenerate}
+                                    onEdit={setEditTarget}
                                     onExportSelected={handleExportSelected}
                                     onSendEmail={handleIndividualEmail}
+                                    onRevoke={setRevokeTarget}
+                                    onUnrevoke={setUnrevokeTarget}
                                     isLoading={isExporting}
                                 />
                             </div>
@@ -632,6 +797,27 @@ export default function EventCertificatesPage({ params }: PageProps) {
                 isLoading={isDeleting}
             />
 
+            {/* Revocation Dialogs */}
+            <RevokeCertificateModal
+                isOpen={revokeTarget !== null}
+                onClose={() => setRevokeTarget(null)}
+                onConfirm={handleRevokeCertificate}
+                certificateNumber={revokeTarget?.certificateNumber}
+                participantName={revokeTarget?.participantName}
+                isLoading={isRevoking}
+            />
+
+            <ConfirmDialog
+                isOpen={unrevokeTarget !== null}
+                onClose={() => setUnrevokeTarget(null)}
+                onConfirm={handleUnrevokeCertificate}
+                title="Restore Certificate?"
+                message={`Certificate ${unrevokeTarget?.certificateNumber ?? ''} will verify as valid again and can be emailed.`}
+                confirmText="Restore"
+                confirmVariant="primary"
+                isLoading={isRevoking}
+            />
+
             {/* Bulk Delete Confirmation Dialog */}
             <ConfirmDialog
                 isOpen={showBulkDeleteConfirm}
@@ -641,7 +827,7 @@ export default function EventCertificatesPage({ params }: PageProps) {
                 message={`You are about to delete ${selectedCertificates.size} certificate(s).
 
 This will:
-• Permanently delete ${selectedCertificates.size} certificate PDF(s) from Cloudinary
+• Permanently delete ${selectedCertificates.size} certificate PDF(s) from storage
 • Remove all database records
 • Break ${selectedCertificates.size} verification URL(s)
 
@@ -660,10 +846,10 @@ This action CANNOT be undone!`}
                 }}
                 onConfirm={handleDeleteAll}
                 title="🚨 Delete ALL Certificates?"
-                message={`You are about to delete ${filteredCertificates.length} certificate(s)${searchTerm ? ' matching your search' : ''}!
+                message={`You are about to delete ${filteredCertificates.length} certificate(s)${searchTerm || deliveryFilter !== 'all' ? ' matching your filters' : ''}!
 
 This will:
-• Permanently delete ${filteredCertificates.length} certificate PDFs from Cloudinary
+• Permanently delete ${filteredCertificates.length} certificate PDFs from storage
 • Remove all database records
 • Break ALL verification URLs for this event
 
@@ -678,6 +864,26 @@ Type "DELETE ALL" to confirm:`}
                 onConfirmTextChange={setDeleteAllConfirmText}
             />
 
+            <EditCertificateModal
+                isOpen={editTarget !== null}
+                onClose={() => setEditTarget(null)}
+                onConfirm={handleEditCertificate}
+                certificateNumber={editTarget?.certificateNumber}
+                participantName={editTarget?.participantName}
+                participantEmail={editTarget?.participantEmail}
+                detailHistory={editTarget?.detailHistory}
+                isLoading={isSavingEdit}
+            />
+
+            <RegenerateCertificatesModal
+                isOpen={showRegenerate}
+                onClose={() => setShowRegenerate(false)}
+                eventId={eventId}
+                eventTitle={event?.title}
+                certificateIds={regenerateIds}
+                onSuccess={() => fetchCertificates(eventId)}
+            />
+
             <ImportCertificatesModal
                 isOpen={showImportModal}
                 onClose={() => setShowImportModal(false)}
@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { UserPlus, Loader2, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface InviteDetails {
+    email: string;
+    name: string;
+    roleLabel: string;
+}
+
+export default function AcceptInvitePage() {
+    const { token } = useParams<{ token: string }>();
+    const router = useRouter();
+    const [invite, setInvite] = useState<InviteDetails | null>(null);
+    const [loadError, setLoadError] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    useEffect(() => {
+        fetch(`/api/admin/invite/${encodeURIComponent(token)}`)
+            .then(async (response) => {
+                const data = await response.json();
+                if (!response.ok) {
+                    setLoadError(data.error || 'This invite link is invalid or has expired');
+                    return;
+                }
+                setInvite(data.invite);
+            })
+            .catch(() => setLoadError('Failed to load invite'));
+    }, [token]);
+
+    const handleSubmit = async (e: React.SubmitEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setError('');
+
+        if (password !== confirmPassword) {
+            setError('Passwords do not match');
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const response = await fetch(`/api/admin/invite/${encodeURIComponent(token)}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ password }),
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                setError(data.error || 'Failed to accept invite');
+                setIsSubmitting(false);
+                return;
+            }
+
+            toast.success('Welcome aboard!');
+            router.push('/admin/dashboard');
+        } catch (err) {
+            setError('An error occurred. Please try again.');
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-slate-950 flex items-center justify-center p-4">
+            <div className="w-full max-w-md">
+                <div className="text-center mb-6 sm:mb-8">
+                    <div className="inline-flex items-center justify-center w-14 h-14 sm:w-16 sm:h-16 bg-gradient-to-br from-blue-600 to-cyan-600 rounded-full mb-4 shadow-lg shadow-blue-900/50">
+                        <UserPlus className="w-7 h-7 sm:w-8 sm:h-8 text-white" />
+                    </div>
+                    <h1 className="text-3xl font-bold text-white mb-2">Accept Invite</h1>
+                    {invite && (
+                        <p className="text-slate-400 text-sm sm:text-base">
+                            Hi {invite.name}, you have been invited as <strong className="text-white">{invite.roleLabel}</strong>.
+                            Choose a password for <span className="text-cyan-400">{invite.email}</span>.
+                        </p>
+                    )}
+                </div>
+
+                <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl p-6 sm:p-8 shadow-2xl border border-slate-800/50">
+                    {loadError ? (
+                        <div className="text-center">
+                            <AlertCircle className="w-10 h-10 text-red-400 mx-auto mb-3" />
+                            <p className="text-red-200 mb-4">{loadError}</p>
+                            <p className="text-slate-400 text-sm">Ask an owner to send you a new invite link.</p>
+                        </div>
+                    ) : !invite ? (
+                        <div className="flex justify-center py-6">
+                            <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+                        </div>
+                    ) : (
+                        <form onSubmit={handleSubmit} className="space-y-5">
+                            <div>
+                                <label htmlFor="password" className="block text-sm font-semibold text-slate-300 mb-3">
+                                    Password
+                                </label>
+                                <input
+                                    type="password"
+                                    id="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    placeholder="At least 10 characters"
+                                    autoComplete="new-password"
+                                    minLength={10}
+                                    required
+                                    disabled={isSubmitting}
+                                    className="w-full px-4 py-3 bg-slate-950/80 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="confirmPassword" className="block text-sm font-semibold text-slate-300 mb-3">
+                                    Confirm Password
+                                </label>
+                                <input
+                                    type="password"
+                                    id="confirmPassword"
+                                    value={confirmPassword}
+                                    onChange={(e) => setConfirmPassword(e.target.value)}
+                                    autoComplete="new-password"
+                                    required
+                                    disabled={isSubmitting}
+                                    className="w-full px-4 py-3 bg-slate-950/80 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+                                />
+                            </div>
+
+                            {error && (
+                                <div className="bg-red-950/50 border border-red-900/50 rounded-xl p-3">
+                                    <p className="text-red-200 text-sm">{error}</p>
+                                </div>
+                            )}
+
+                            <button
+                                type="submit"
+                                disabled={isSubmitting}
+                                className="w-full bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 disabled:from-slate-700 disabled:to-slate-700 text-white font-semibold py-3 px-6 rounded-xl transition-all flex items-center justify-center gap-2 cursor-pointer disabled:cursor-not-allowed"
+                            >
+                                {isSubmitting && <Loader2 className="w-5 h-5 animate-spin" />}
+                                {isSubmitting ? 'Setting up...' : 'Set Password & Sign In'}
+                            </button>
+                        </form>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
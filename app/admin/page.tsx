@@ -1,42 +1,54 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Lock, LogIn, Eye, EyeOff } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 export default function AdminPage() {
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [name, setName] = useState('');
     const [adminKey, setAdminKey] = useState('');
+    // First run: no admin accounts yet, so the ADMIN_KEY holder creates the owner
+    const [needsSetup, setNeedsSetup] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
     const [showPassword, setShowPassword] = useState(false);
     const router = useRouter();
 
+    useEffect(() => {
+        fetch('/api/admin/setup')
+            .then((response) => response.json())
+            .then((data) => setNeedsSetup(Boolean(data.needsSetup)))
+            .catch(() => setNeedsSetup(false));
+    }, []);
+
     const handleLogin = async (e: React.SubmitEvent<HTMLFormElement>) => {
         e.preventDefault();
         setError('');
         setIsLoading(true);
 
         try {
-            const response = await fetch('/api/admin/login', {
+            const response = await fetch(needsSetup ? '/api/admin/setup' : '/api/admin/login', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ adminKey }),
+                body: JSON.stringify(needsSetup ? { adminKey, name, email, password } : { email, password }),
             });
 
             const data = await response.json();
 
             if (!response.ok) {
                 setError(data.error || 'Login failed');
-                toast.error(data.error || 'Invalid admin key');
+                toast.error(data.error || 'Invalid email or password');
                 setIsLoading(false);
                 return;
             }
 
             // Cookie is set automatically by server
-            toast.success('Login successful!');
+            toast.success(needsSetup ? 'Owner account created!' : 'Login successful!');
             router.push('/admin/dashboard');
         } catch (err) {
             setError('An error occurred. Please try again.');
@@ -60,27 +72,96 @@ export default function AdminPage() {
                     <div className="inline-flex items-center justify-center w-14 h-14 sm:w-16 sm:h-16 bg-gradient-to-br from-blue-600 to-cyan-600 rounded-full mb-4 shadow-lg shadow-blue-900/50">
                         <Lock className="w-7 h-7 sm:w-8 sm:h-8 text-white" />
                     </div>
-                    <h1 className="text-3xl sm:text-4xl font-bold text-white mb-2">Admin Access</h1>
-                    <p className="text-slate-400 text-sm sm:text-base">Enter your admin key to continue</p>
+                    <h1 className="text-3xl sm:text-4xl font-bold text-white mb-2">
+                        {needsSetup ? 'Create Owner Account' : 'Admin Access'}
+                    </h1>
+                    <p className="text-slate-400 text-sm sm:text-base">
+                        {needsSetup
+                            ? 'No admins exist yet. Use the admin key to create the first owner.'
+                            : 'Sign in with your admin account'}
+                    </p>
                 </div>
 
                 {/* Login Card */}
                 <div className="bg-slate-900/50 backdrop-blur-xl rounded-2xl p-6 sm:p-8 shadow-2xl border border-slate-800/50">
                     <form onSubmit={handleLogin} className="space-y-5 sm:space-y-6">
+                        {needsSetup && (
+                            <>
+                                <div>
+                                    <label
+                                        htmlFor="adminKey"
+                                        className="block text-sm font-semibold text-slate-300 mb-3"
+                                    >
+                                        Admin Key
+                                    </label>
+                                    <input
+                                        type="password"
+                                        id="adminKey"
+                                        value={adminKey}
+                                        onChange={(e) => setAdminKey(e.target.value)}
+                                        placeholder="Enter the ADMIN_KEY"
+                                        className="w-full px-4 sm:px-5 py-3 sm:py-4 bg-slate-950/80 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+                                        required
+                                        disabled={isLoading}
+                                    />
+                                </div>
+                                <div>
+                                    <label
+                                        htmlFor="name"
+                                        className="block text-sm font-semibold text-slate-300 mb-3"
+                                    >
+                                        Your Name
+                                    </label>
+                                    <input
+                                        type="text"
+                                        id="name"
+                                        value={name}
+                                        onChange={(e) => setName(e.target.value)}
+                                        placeholder="Full name"
+                                        className="w-full px-4 sm:px-5 py-3 sm:py-4 bg-slate-950/80 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+                                        required
+                                        disabled={isLoading}
+                                    />
+                                </div>
+                            </>
+                        )}
+
+                        <div>
+                            <label
+                                htmlFor="email"
+                                className="block text-sm font-semibold text-slate-300 mb-3"
+                            >
+                                Email
+                            </label>
+                            <input
+                                type="email"
+                                id="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                placeholder="you@example.com"
+                                autoComplete="username"
+                                className="w-full px-4 sm:px-5 py-3 sm:py-4 bg-slate-950/80 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
+                                required
+                                disabled={isLoading}
+                            />
+                        </div>
+
                         <div>
                             <label
-                                htmlFor="adminKey"
+                                htmlFor="password"
                                 className="block text-sm font-semibold text-slate-300 mb-3"
                             >
-                                Admin Key
+                                Password
                             </label>
                             <div className="relative">
                                 <input
                                     type={showPassword ? 'text' : 'password'}
-                                    id="adminKey"
-                                    value={adminKey}
-                                    onChange={(e) => setAdminKey(e.target.value)}
-                                    placeholder="Enter your admin key"
+                                    id="password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    placeholder={needsSetup ? 'At least 10 characters' : 'Enter your password'}
+                                    autoComplete={needsSetup ? 'new-password' : 'current-password'}
+                                    minLength={needsSetup ? 10 : undefined}
                                     className="w-full px-4 sm:px-5 py-3 sm:py-4 pr-12 bg-slate-950/80 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-all"
                                     required
                                     disabled={isLoading}
@@ -115,12 +196,12 @@ export default function AdminPage() {
                             {isLoading ? (
                                 <>
                                     <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                                    Logging in...
+                                    {needsSetup ? 'Creating account...' : 'Logging in...'}
                                 </>
                             ) : (
                                 <>
                                     <LogIn className="w-5 h-5" />
-                                    Login
+                                    {needsSetup ? 'Create Owner & Login' : 'Login'}
                                 </>
                             )}
                         </button>
@@ -21,6 +21,7 @@ interface Template {
     category: string;
     backgroundUrl?: string;
     isArchived: boolean;
+    version?: number;
     updatedAt: string;
 }
 
@@ -109,13 +110,14 @@ export default function TemplatesPage() {
         setIsEditorOpen(true);
     };
 
-    const handleSave = async (data: { html: string; name: string; description: string; category: string; backgroundUrl?: string }) => {
+    const handleSave = async (data: { html: string; name: string; description: string; category: string; backgroundUrl?: string; note: string }) => {
         const payload = {
             name: data.name,
             description: data.description,
             html: data.html,
             category: data.category,
-            backgroundUrl: data.backgroundUrl
+            backgroundUrl: data.backgroundUrl,
+            note: data.note || undefined
         };
 
         try {
@@ -266,7 +268,7 @@ export default function TemplatesPage() {
                                     
                                     <div className="flex items-center justify-between mt-auto pt-4 border-t border-slate-800/50">
                                         <span className="text-[10px] text-slate-600 font-medium">
-                                            Last updated: {new Date(template.updatedAt).toLocaleDateString()}
+                                            {template.version && `v${template.version} · `}Last updated: {new Date(template.updatedAt).toLocaleDateString()}
                                         </span>
                                         <div className="flex gap-2">
                                             <button 
@@ -305,6 +307,7 @@ export default function TemplatesPage() {
             {/* Template Editor Fullscreen */}
             {isEditorOpen && (
                 <TemplateEditor 
+                    templateId={editingTemplate?._id}
                     title={editingTemplate?.name || 'New Blueprint'}
                     initialHtml={editingTemplate?.html || DEFAULT_STARTER_HTML}
                     initialName={editingTemplate?.name || ''}
@@ -313,6 +316,7 @@ export default function TemplatesPage() {
                     initialBackgroundUrl={editingTemplate?.backgroundUrl || ''}
                     onClose={() => setIsEditorOpen(false)}
                     onSave={handleSave}
+                    onVersionChange={fetchTemplates}
                 />
             )}
         </div>
@@ -0,0 +1,357 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Copy, Link2, Loader2, UserPlus, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ADMIN_ROLES, ADMIN_ROLE_DESCRIPTIONS, ADMIN_ROLE_LABELS, AdminRole } from '@/lib/roles';
+
+interface AdminUser {
+    id: string;
+    email: string;
+    name: string;
+    role: AdminRole;
+    status: 'invited' | 'active' | 'disabled';
+    inviteExpiresAt: string | null;
+    lastLoginAt: string | null;
+    createdAt: string;
+}
+
+const STATUS_STYLES: Record<AdminUser['status'], string> = {
+    active: 'bg-green-500/10 text-green-400 border-green-500/30',
+    invited: 'bg-blue-500/10 text-blue-400 border-blue-500/30',
+    disabled: 'bg-slate-500/10 text-slate-400 border-slate-500/30',
+};
+
+export default function AdminUsersPage() {
+    const router = useRouter();
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [busyUserId, setBusyUserId] = useState<string | null>(null);
+
+    // Invite form state
+    const [inviteName, setInviteName] = useState('');
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<AdminRole>('event_manager');
+    const [isInviting, setIsInviting] = useState(false);
+    const [inviteUrl, setInviteUrl] = useState('');
+
+    useEffect(() => {
+        fetchUsers();
+    }, []);
+
+    const fetchUsers = async () => {
+        try {
+            const [usersResponse, meResponse] = await Promise.all([
+                fetch('/api/admin/users', { credentials: 'include' }),
+                fetch('/api/admin/me', { credentials: 'include' }),
+            ]);
+
+            if (usersResponse.status === 401) {
+                router.push('/admin');
+                return;
+            }
+            if (usersResponse.status === 403) {
+                toast.error('Only owners can manage admins');
+                router.push('/admin/dashboard');
+                return;
+            }
+
+            const data = await usersResponse.json();
+            const me = await meResponse.json();
+            if (data.success) {
+                setUsers(data.users);
+            }
+            if (me.success) {
+                setCurrentUserId(me.admin.userId);
+            }
+        } catch (error) {
+            console.error('Failed to fetch admins:', error);
+            toast.error('Failed to load admins');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleInvite = async (e: React.SubmitEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        setIsInviting(true);
+        setInviteUrl('');
+
+        try {
+            const response = await fetch('/api/admin/users', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ name: inviteName, email: inviteEmail, role: inviteRole }),
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                toast.error(data.error || 'Failed to invite admin');
+                return;
+            }
+
+            toast.success(`Invite created for ${data.user.email}`);
+            setInviteUrl(data.inviteUrl);
+            setInviteName('');
+            setInviteEmail('');
+            setUsers((prev) => [...prev, data.user]);
+        } catch (error) {
+            toast.error('Failed to invite admin');
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const updateUser = async (user: AdminUser, changes: { role?: AdminRole; disabled?: boolean }) => {
+        setBusyUserId(user.id);
+        try {
+            const response = await fetch(`/api/admin/users/${user.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                toast.error(data.error || 'Failed to update admin');
+                return;
+            }
+
+            setUsers((prev) => prev.map((u) => (u.id === user.id ? data.user : u)));
+            toast.success(`Updated ${user.name}`);
+        } catch (error) {
+            toast.error('Failed to update admin');
+        } finally {
+            setBusyUserId(null);
+        }
+    };
+
+    const handleReissueInvite = async (user: AdminUser) => {
+        setBusyUserId(user.id);
+        try {
+            const response = await fetch(`/api/admin/users/${user.id}/invite`, {
+                method: 'POST',
+                credentials: 'include',
+            });
+            const data = await response.json();
+
+            if (!response.ok) {
+                toast.error(data.error || 'Failed to create invite link');
+                return;
+            }
+
+            setInviteUrl(data.inviteUrl);
+            setUsers((prev) => prev.map((u) => (u.id === user.id ? data.user : u)));
+            toast.success(`New invite link for ${user.email}`);
+        } catch (error) {
+            toast.error('Failed to create invite link');
+        } finally {
+            setBusyUserId(null);
+        }
+    };
+
+    const copyInviteUrl = async () => {
+        try {
+            await navigator.clipboard.writeText(inviteUrl);
+            toast.success('Invite link copied');
+        } catch {
+            toast.error('Could not copy the link');
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-slate-950 p-8 pt-12">
+            <div className="max-w-5xl mx-auto">
+                {/* Header Section */}
+                <button
+                    onClick={() => router.push('/admin/dashboard')}
+                    className="flex items-center gap-2 text-slate-400 hover:text-white transition-colors mb-6 cursor-pointer"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    Back to Dashboard
+                </button>
+                <div className="mb-8">
+                    <h1 className="text-3xl font-bold text-white mb-1 flex items-center gap-3">
+                        <Users className="w-8 h-8 text-blue-400" />
+                        Admins
+                    </h1>
+                    <p className="text-slate-400">Invite people, change their role or take access away</p>
+                </div>
+
+                {/* Invite Form */}
+                <form
+                    onSubmit={handleInvite}
+                    className="bg-slate-900/50 border border-slate-800 rounded-2xl p-6 mb-8 space-y-4"
+                >
+                    <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                        <UserPlus className="w-5 h-5" />
+                        Invite Admin
+                    </h2>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <input
+                            type="text"
+                            value={inviteName}
+                            onChange={(e) => setInviteName(e.target.value)}
+                            placeholder="Name"
+                            required
+                            disabled={isInviting}
+                            className="bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+                        />
+                        <input
+                            type="email"
+                            value={inviteEmail}
+                            onChange={(e) => setInviteEmail(e.target.value)}
+                            placeholder="Email"
+                            required
+                            disabled={isInviting}
+                            className="bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-blue-500"
+                        />
+                        <select
+                            value={inviteRole}
+                            onChange={(e) => setInviteRole(e.target.value as AdminRole)}
+                            disabled={isInviting}
+                            className="bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-blue-500"
+                        >
+                            {ADMIN_ROLES.map((role) => (
+                                <option key={role} value={role}>
+                                    {ADMIN_ROLE_LABELS[role]}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <p className="text-xs text-slate-500">{ADMIN_ROLE_DESCRIPTIONS[inviteRole]}</p>
+                    <button
+                        type="submit"
+                        disabled={isInviting}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                    >
+                        {isInviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                        {isInviting ? 'Inviting...' : 'Create Invite'}
+                    </button>
+
+                    {inviteUrl && (
+                        <div className="bg-slate-950/60 border border-blue-900/50 rounded-lg p-4">
+                            <p className="text-sm text-slate-300 mb-2 flex items-center gap-2">
+                                <Link2 className="w-4 h-4 text-blue-400" />
+                                Share this one-time link with the invitee. It expires in 7 days.
+                            </p>
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    readOnly
+                                    value={inviteUrl}
+                                    className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-xs text-cyan-300 font-mono"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={copyInviteUrl}
+                                    className="flex items-center gap-1 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors cursor-pointer text-sm"
+                                >
+                                    <Copy className="w-4 h-4" />
+                                    Copy
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </form>
+
+                {/* Admin List */}
+                <div className="bg-slate-900/50 border border-slate-800 rounded-2xl overflow-hidden">
+                    {isLoading ? (
+                        <div className="p-8 flex justify-center">
+                            <Loader2 className="w-6 h-6 animate-spin text-blue-400" />
+                        </div>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="bg-slate-800/60 text-slate-300 text-left">
+                                    <th className="p-3">Admin</th>
+                                    <th className="p-3">Role</th>
+                                    <th className="p-3">Status</th>
+                                    <th className="p-3">Last login</th>
+                                    <th className="p-3 text-right">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {users.map((user) => {
+                                    const isSelf = user.id === currentUserId;
+                                    const isBusy = busyUserId === user.id;
+                                    return (
+                                        <tr key={user.id} className="border-t border-slate-800">
+                                            <td className="p-3">
+                                                <p className="text-white">
+                                                    {user.name}
+                                                    {isSelf && <span className="text-slate-500"> (you)</span>}
+                                                </p>
+                                                <p className="text-slate-400 text-xs">{user.email}</p>
+                                            </td>
+                                            <td className="p-3">
+                                                <select
+                                                    value={user.role}
+                                                    onChange={(e) => updateUser(user, { role: e.target.value as AdminRole })}
+                                                    disabled={isSelf || isBusy}
+                                                    className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-blue-500 disabled:opacity-60"
+                                                >
+                                                    {ADMIN_ROLES.map((role) => (
+                                                        <option key={role} value={role}>
+                                                            {ADMIN_ROLE_LABELS[role]}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </td>
+                                            <td className="p-3">
+                                                <span className={`px-2 py-1 rounded-full text-xs border capitalize ${STATUS_STYLES[user.status]}`}>
+                                                    {user.status}
+                                                </span>
+                                            </td>
+                                            <td className="p-3 text-slate-400">
+                                                {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : '—'}
+                                            </td>
+                                            <td className="p-3 text-right space-x-2 whitespace-nowrap">
+                                                {user.status === 'invited' && (
+                                                    <button
+                                                        onClick={() => handleReissueInvite(user)}
+                                                        disabled={isBusy}
+                                                        className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                                                    >
+                                                        New link
+                                                    </button>
+                                                )}
+                                                {!isSelf && user.status !== 'invited' && (
+                                                    <button
+                                                        onClick={() => updateUser(user, { disabled: user.status === 'active' })}
+                                                        disabled={isBusy}
+                                                        className={`px-3 py-1 rounded-lg transition-colors disabled:opacity-50 cursor-pointer ${
+                                                            user.status === 'active'
+                                                                ? 'bg-red-600/20 hover:bg-red-600/30 text-red-300'
+                                                                : 'bg-green-600/20 hover:bg-green-600/30 text-green-300'
+                                                        }`}
+                                                    >
+                                                        {user.status === 'active' ? 'Disable' : 'Enable'}
+                                                    </button>
+                                                )}
+                                                {!isSelf && user.status === 'invited' && (
+                                                    <button
+                                                        onClick={() => updateUser(user, { disabled: true })}
+                                                        disabled={isBusy}
+                                                        className="px-3 py-1 bg-red-600/20 hover:bg-red-600/30 text-red-300 rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                                                    >
+                                                        Revoke invite
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,181 @@
+/**
+ * GET /api/admin/audit-logs
+ * List audit entries newest first, filtered by actor, action, event and date
+ * range. Pass format=csv to download every matching entry instead of a page.
+ */
+
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { AUDIT_ACTION_LABELS, isAuditAction } from "@/lib/auditActions";
+import connectDB from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { isForbiddenError, isUnauthorizedError } from "@/lib/requestValidation";
+import AuditLog, { IAuditLog } from "@/models/AuditLog";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const PAGE_SIZE = 50;
+const MAX_EXPORT_ROWS = 10_000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: string | null, endOfDay: boolean): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  // A bare date in "to" means the whole of that day
+  if (endOfDay && DATE_ONLY.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+function buildFilter(params: URLSearchParams): mongoose.QueryFilter<IAuditLog> {
+  const filter: mongoose.QueryFilter<IAuditLog> = {};
+
+  const actor = params.get("actor")?.trim().toLowerCase();
+  if (actor) filter.actorEmail = actor;
+
+  const action = params.get("action");
+  if (action) {
+    if (!isAuditAction(action)) throw new Error(`Unknown action: ${action}`);
+    filter.action = action;
+  }
+
+  const eventId = params.get("eventId");
+  if (eventId) {
+    if (!mongoose.isValidObjectId(eventId)) throw new Error("Invalid event ID");
+    filter.eventId = eventId;
+  }
+
+  const from = parseDate(params.get("from"), false);
+  const to = parseDate(params.get("to"), true);
+  if (from || to) {
+    filter.createdAt = {
+      ...(from ? { $gte: from } : {}),
+      ...(to ? { $lte: to } : {}),
+    };
+  }
+
+  return filter;
+}
+
+function serializeEntry(entry: IAuditLog) {
+  return {
+    id: entry._id.toString(),
+    createdAt: entry.createdAt,
+    actorEmail: entry.actorEmail,
+    actorRole: entry.actorRole ?? null,
+    action: entry.action,
+    actionLabel: AUDIT_ACTION_LABELS[entry.action] ?? entry.action,
+    targetType: entry.targetType,
+    targetIds: entry.targetIds,
+    eventId: entry.eventId?.toString() ?? null,
+    changes: entry.changes ?? null,
+    details: entry.details ?? null,
+    ip: entry.ip ?? null,
+    userAgent: entry.userAgent ?? null,
+    method: entry.method,
+    path: entry.path,
+  };
+}
+
+export async function GET(request: NextRequest) {
+  logger.apiRequest("GET", "/api/admin/audit-logs");
+  try {
+    await requireRole(request, "owner");
+
+    const params = request.nextUrl.searchParams;
+    let filter: mongoose.QueryFilter<IAuditLog>;
+    try {
+      filter = buildFilter(params);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: error instanceof Error ? error.message : "Invalid filter",
+        },
+        { status: 400 },
+      );
+    }
+
+    await connectDB();
+
+    if (params.get("format") === "csv") {
+      const entries: IAuditLog[] = await AuditLog.find(filter)
+        .sort({ createdAt: -1 })
+        .limit(MAX_EXPORT_ROWS)
+        .lean();
+
+      const data = entries.map((entry) => ({
+        Time: new Date(entry.createdAt).toISOString(),
+        Actor: entry.actorEmail,
+        Role: entry.actorRole ?? "",
+        Action: entry.action,
+        "Target Type": entry.targetType,
+        "Target IDs": entry.targetIds.join(" "),
+        "Event ID": entry.eventId?.toString() ?? "",
+        Changes: entry.changes ? JSON.stringify(entry.changes) : "",
+        Details: entry.details ? JSON.stringify(entry.details) : "",
+        IP: entry.ip ?? "",
+        "User Agent": entry.userAgent ?? "",
+        Request: `${entry.method} ${entry.path}`,
+      }));
+
+      const XLSX = await import("xlsx");
+      const worksheet = XLSX.utils.json_to_sheet(data);
+      const csv = XLSX.utils.sheet_to_csv(worksheet, { forceQuotes: true });
+
+      logger.apiSuccess("GET", "/api/admin/audit-logs", {
+        format: "csv",
+        count: data.length,
+      });
+      return new NextResponse(csv, {
+        status: 200,
+        headers: {
+          "Content-Disposition": `attachment; filename="audit-log-${Date.now()}.csv"`,
+          "Content-Type": "text/csv; charset=utf-8",
+        },
+      });
+    }
+
+    const page = Math.max(
+      1,
+      Number.parseInt(params.get("page") || "1", 10) || 1,
+    );
+    const [entries, total]: [IAuditLog[], number] = await Promise.all([
+      AuditLog.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * PAGE_SIZE)
+        .limit(PAGE_SIZE)
+        .lean(),
+      AuditLog.countDocuments(filter),
+    ]);
+
+    logger.apiSuccess("GET", "/api/admin/audit-logs", {
+      page,
+      count: entries.length,
+    });
+    return NextResponse.json({
+      success: true,
+      entries: entries.map(serializeEntry),
+      page,
+      pageSize: PAGE_SIZE,
+      total,
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/audit-logs", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch audit log" },
+      { status: 500 },
+    );
+  }
+}
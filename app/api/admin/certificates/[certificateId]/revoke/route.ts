@@ -0,0 +1,228 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isRecord,
+  isUnauthorizedError,
+  readOptionalString,
+  isForbiddenError,
+} from "@/lib/requestValidation";
+import { isRevocationReason, REVOCATION_REASONS } from "@/lib/revocation";
+import Certificate from "@/models/Certificate";
+
+interface RouteParams {
+  params: Promise<{
+    certificateId: string;
+  }>;
+}
+
+function serializeRevocation(certificate: {
+  _id: unknown;
+  certificateNumber: string;
+  revokedAt?: Date;
+  revokedBy?: string;
+  revocationReason?: string;
+  revocationNote?: string;
+}) {
+  return {
+    id: certificate._id,
+    certificateNumber: certificate.certificateNumber,
+    revokedAt: certificate.revokedAt ?? null,
+    revokedBy: certificate.revokedBy ?? null,
+    revocationReason: certificate.revocationReason ?? null,
+    revocationNote: certificate.revocationNote ?? null,
+  };
+}
+
+/**
+ * POST /api/admin/certificates/[certificateId]/revoke
+ * Revoke a certificate while keeping its record and PDF for the audit trail
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("POST", "/api/admin/certificates/[certificateId]/revoke");
+  try {
+    const admin = await requireRole(request, "event_manager");
+    const { certificateId } = await params;
+    if (!mongoose.isValidObjectId(certificateId)) {
+      return NextResponse.json(
+        { error: "Invalid certificate ID" },
+        { status: 400 },
+      );
+    }
+
+    const body: unknown = await request.json().catch(() => null);
+    if (!isRecord(body) || !isRevocationReason(body.reason)) {
+      return NextResponse.json(
+        {
+          error: `Reason must be one of: ${REVOCATION_REASONS.join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+    const note = readOptionalString(body.note, "Note", 500);
+
+    await connectDB();
+    const certificate = await Certificate.findOneAndUpdate(
+      { _id: certificateId, revokedAt: null },
+      {
+        $set: {
+          revokedAt: new Date(),
+          revokedBy: admin.email,
+          revocationReason: body.reason,
+          ...(note ? { revocationNote: note } : {}),
+        },
+        ...(note ? {} : { $unset: { revocationNote: "" } }),
+      },
+      { new: true },
+    );
+
+    if (!certificate) {
+      const exists = await Certificate.exists({ _id: certificateId });
+      return exists
+        ? NextResponse.json(
+            { error: "Certificate is already revoked" },
+            { status: 409 },
+          )
+        : NextResponse.json(
+            { error: "Certificate not found" },
+            { status: 404 },
+          );
+    }
+
+    await recordAudit(request, admin, {
+      action: "certificate.revoke",
+      targetType: "certificate",
+      targetIds: [certificate._id],
+      eventId: certificate.eventId.toString(),
+      before: { revokedAt: null, revocationReason: null, revocationNote: null },
+      after: {
+        revokedAt: certificate.revokedAt,
+        revocationReason: certificate.revocationReason,
+        revocationNote: certificate.revocationNote,
+      },
+    });
+
+    logger.apiSuccess(
+      "POST",
+      "/api/admin/certificates/[certificateId]/revoke",
+      {
+        certificateNumber: certificate.certificateNumber,
+        reason: body.reason,
+      },
+    );
+    return NextResponse.json({
+      success: true,
+      certificate: serializeRevocation(certificate),
+    });
+  } catch (error: unknown) {
+    logger.apiError(
+      "POST",
+      "/api/admin/certificates/[certificateId]/revoke",
+      error,
+    );
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const message = errorMessage(error);
+    if (message.includes("too long") || message.includes("must")) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Failed to revoke certificate" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/certificates/[certificateId]/revoke
+ * Lift a revocation, restoring the certificate to valid
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("DELETE", "/api/admin/certificates/[certificateId]/revoke");
+  try {
+    const admin = await requireRole(request, "event_manager");
+    const { certificateId } = await params;
+    if (!mongoose.isValidObjectId(certificateId)) {
+      return NextResponse.json(
+        { error: "Invalid certificate ID" },
+        { status: 400 },
+      );
+    }
+
+    await connectDB();
+    const previous = await Certificate.findByIdAndUpdate(
+      certificateId,
+      {
+        $unset: {
+          revokedAt: "",
+          revokedBy: "",
+          revocationReason: "",
+          revocationNote: "",
+        },
+      },
+      { new: false },
+    );
+    if (!previous) {
+      return NextResponse.json(
+        { error: "Certificate not found" },
+        { status: 404 },
+      );
+    }
+
+    if (previous.revokedAt) {
+      await recordAudit(request, admin, {
+        action: "certificate.restore",
+        targetType: "certificate",
+        targetIds: [previous._id],
+        eventId: previous.eventId.toString(),
+        before: {
+          revokedAt: previous.revokedAt,
+          revocationReason: previous.revocationReason,
+          revocationNote: previous.revocationNote,
+        },
+        after: {
+          revokedAt: null,
+          revocationReason: null,
+          revocationNote: null,
+        },
+      });
+    }
+
+    logger.apiSuccess(
+      "DELETE",
+      "/api/admin/certificates/[certificateId]/revoke",
+      { certificateNumber: previous.certificateNumber },
+    );
+    return NextResponse.json({
+      success: true,
+      certificate: serializeRevocation({
+        _id: previous._id,
+        certificateNumber: previous.certificateNumber,
+      }),
+    });
+  } catch (error: unknown) {
+    logger.apiError(
+      "DELETE",
+      "/api/admin/certificates/[certificateId]/revoke",
+      error,
+    );
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to restore certificate" },
+      { status: 500 },
+    );
+  }
+}
@@ -1,9 +1,31 @@
+import mongoose from "mongoose";
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import {
+  auditSnapshot,
+  CERTIFICATE_AUDIT_FIELDS,
+  recordAudit,
+} from "@/lib/audit";
+import {
+  isForbiddenError,
+  isRecord,
+  isUnauthorizedError,
+} from "@/lib/requestValidation";
 import connectDB from "@/lib/db";
-import Certificate from "@/models/Certificate";
+import Certificate, { ICertificate } from "@/models/Certificate";
+import Event from "@/models/Event";
 import { logger } from "@/lib/logger";
-import { deleteCertificatePDF } from "@/lib/cloudinary";
+import { regenerateCertificate } from "@/lib/certificateIssuer";
+import { deleteCertificateFiles, isStorageConfigured } from "@/lib/storage";
+import { buildDownloadUrl } from "@/lib/downloadLinks";
+import {
+  buildCertificateAttachments,
+  buildCertificateEmail,
+  sendCertificateEmail,
+} from "@/lib/email";
+import { loadEmailPartials } from "@/lib/emailPartials";
+import { resolveEmailTemplate } from "@/lib/emailTemplates";
+import { getSentEmailUpdate } from "@/lib/emailTracking";
 
 interface RouteParams {
   params: Promise<{
@@ -11,14 +33,218 @@ interface RouteParams {
   }>;
 }
 
+const MAX_NAME_LENGTH = 200;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * PATCH /api/admin/certificates/[certificateId]
+ * Correct the participant's name or email. The PDF is re-rendered under the
+ * same certificate number, the change is kept in detailHistory, and the
+ * certificate email can optionally be sent again.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("PATCH", "/api/admin/certificates/[certificateId]");
+  try {
+    const admin = await requireRole(request, "event_manager");
+    const { certificateId } = await params;
+    if (!mongoose.isValidObjectId(certificateId)) {
+      return NextResponse.json(
+        { error: "Invalid certificate ID" },
+        { status: 400 },
+      );
+    }
+
+    const body: unknown = await request.json().catch(() => null);
+    if (!isRecord(body)) {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+    }
+
+    let participantName: string | undefined;
+    if (body.participantName !== undefined) {
+      if (
+        typeof body.participantName !== "string" ||
+        !body.participantName.trim()
+      ) {
+        return NextResponse.json(
+          { error: "Participant name cannot be empty" },
+          { status: 400 },
+        );
+      }
+      participantName = body.participantName.trim();
+      if (participantName.length > MAX_NAME_LENGTH) {
+        return NextResponse.json(
+          { error: "Participant name is too long" },
+          { status: 400 },
+        );
+      }
+    }
+
+    // An empty string removes the address
+    let participantEmail: string | undefined;
+    if (body.participantEmail !== undefined && body.participantEmail !== null) {
+      if (typeof body.participantEmail !== "string") {
+        return NextResponse.json(
+          { error: "Participant email must be a string" },
+          { status: 400 },
+        );
+      }
+      participantEmail = body.participantEmail.trim().toLowerCase();
+      if (participantEmail && !EMAIL_PATTERN.test(participantEmail)) {
+        return NextResponse.json(
+          { error: "Invalid participant email" },
+          { status: 400 },
+        );
+      }
+    }
+    const resendEmail = body.resendEmail === true;
+
+    await connectDB();
+    const certificate: ICertificate | null =
+      await Certificate.findById(certificateId);
+    if (!certificate) {
+      return NextResponse.json(
+        { error: "Certificate not found" },
+        { status: 404 },
+      );
+    }
+
+    const nameChanged =
+      participantName !== undefined &&
+      participantName !== certificate.participantName;
+    const emailChanged =
+      participantEmail !== undefined &&
+      participantEmail !== (certificate.participantEmail ?? "");
+    if (!nameChanged && !emailChanged) {
+      return NextResponse.json(
+        { error: "No changes to participant details" },
+        { status: 400 },
+      );
+    }
+    if (certificate.revokedAt) {
+      return NextResponse.json(
+        { error: "Restore the certificate before correcting it" },
+        { status: 409 },
+      );
+    }
+    if (certificate.source === "uploaded") {
+      return NextResponse.json(
+        {
+          error:
+            "Uploaded certificates cannot be re-rendered. Upload a corrected PDF instead.",
+        },
+        { status: 409 },
+      );
+    }
+    if (!isStorageConfigured()) {
+      return NextResponse.json(
+        {
+          error: "File storage not configured. Please contact administrator.",
+        },
+        { status: 500 },
+      );
+    }
+
+    const event = await Event.findById(certificate.eventId);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const updated = await regenerateCertificate(event, certificate._id, {
+      participantName: nameChanged ? participantName : undefined,
+      participantEmail: emailChanged ? participantEmail : undefined,
+      changedBy: admin.email,
+    });
+
+    // Re-sending is best effort: the correction itself has already been saved
+    let email: { sent: boolean; error?: string } | null = null;
+    if (resendEmail) {
+      try {
+        const template = await resolveEmailTemplate(event);
+        const message = buildCertificateEmail(
+          updated,
+          event,
+          template,
+          await loadEmailPartials(),
+        );
+        const messageId = await sendCertificateEmail(
+          message.to,
+          message.subject,
+          message.htmlBody,
+          await buildCertificateAttachments(updated, template),
+        );
+        await Certificate.findByIdAndUpdate(
+          updated._id,
+          getSentEmailUpdate(messageId, 1),
+        );
+        email = { sent: true };
+      } catch (error: unknown) {
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        await Certificate.findByIdAndUpdate(updated._id, {
+          emailStatus: "failed",
+          emailError: message,
+          emailAttempts: 1,
+        });
+        email = { sent: false, error: message };
+      }
+    }
+
+    await recordAudit(request, admin, {
+      action: "certificate.update",
+      targetType: "certificate",
+      targetIds: [updated._id],
+      eventId: event._id,
+      before: auditSnapshot(certificate, CERTIFICATE_AUDIT_FIELDS),
+      after: auditSnapshot(updated, CERTIFICATE_AUDIT_FIELDS),
+      details: {
+        pdfVersion: (updated.pdfHistory?.length ?? 0) + 1,
+        ...(email ? { emailResent: email.sent } : {}),
+      },
+    });
+
+    logger.apiSuccess("PATCH", "/api/admin/certificates/[certificateId]", {
+      certificateId,
+      certificateNumber: updated.certificateNumber,
+      emailResent: email?.sent,
+    });
+    return NextResponse.json({
+      success: true,
+      certificate: {
+        id: updated._id.toString(),
+        certificateNumber: updated.certificateNumber,
+        participantName: updated.participantName,
+        participantEmail: updated.participantEmail ?? null,
+        certificateUrl: buildDownloadUrl(updated.certificateNumber),
+        detailHistory: updated.detailHistory ?? [],
+      },
+      email,
+    });
+  } catch (error: unknown) {
+    logger.apiError("PATCH", "/api/admin/certificates/[certificateId]", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to update certificate" },
+      { status: 500 },
+    );
+  }
+}
+
 /**
  * DELETE /api/admin/certificates/[certificateId]
- * Delete a certificate from database and Cloudinary
+ * Delete a certificate from database and file storage
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   logger.apiRequest("DELETE", "/api/admin/certificates/[certificateId]");
   try {
-    await requireAdmin(request);
+    const admin = await requireRole(request, "event_manager");
 
     const { certificateId } = await params;
 
@@ -34,34 +260,22 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     const certificateNumber = certificate.certificateNumber;
-    const cloudinaryPublicId = certificate.cloudinaryPublicId;
 
-    // Delete from Cloudinary first (only if publicId exists)
-    if (cloudinaryPublicId) {
-      try {
-        await deleteCertificatePDF(cloudinaryPublicId);
-        logger.success(
-          "CERT",
-          `Deleted from Cloudinary: ${cloudinaryPublicId}`,
-        );
-      } catch (cloudinaryError: unknown) {
-        const message =
-          cloudinaryError instanceof Error
-            ? cloudinaryError.message
-            : "Unknown error";
-        logger.warn("CERT", `Cloudinary deletion warning: ${message}`);
-        // Continue with database deletion even if Cloudinary fails
-      }
-    } else {
-      logger.warn(
-        "CERT",
-        "No Cloudinary public ID found for certificate, skipping Cloudinary deletion",
-      );
-    }
+    // Delete from storage first, along with any earlier versions kept after
+    // regeneration. Failures are logged and the record is deleted anyway.
+    await deleteCertificateFiles(certificate);
 
     // Delete from database
     await Certificate.findByIdAndDelete(certificateId);
 
+    await recordAudit(request, admin, {
+      action: "certificate.delete",
+      targetType: "certificate",
+      targetIds: [certificate._id],
+      eventId: certificate.eventId.toString(),
+      before: auditSnapshot(certificate, CERTIFICATE_AUDIT_FIELDS),
+    });
+
     logger.apiSuccess("DELETE", "/api/admin/certificates/[certificateId]", {
       certificateId,
       certificateNumber,
@@ -81,6 +295,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     return NextResponse.json(
       { error: "Failed to delete certificate" },
@@ -1,17 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/db';
 import Certificate from '@/models/Certificate';
-import { requireAdmin } from '@/lib/auth';
-import { deleteCertificatePDF } from '@/lib/cloudinary';
+import { requireRole } from '@/lib/auth';
+import { auditSnapshot, CERTIFICATE_AUDIT_FIELDS, recordAudit } from '@/lib/audit';
+import { isForbiddenError, isUnauthorizedError } from '@/lib/requestValidation';
+import { deleteCertificateFiles } from '@/lib/storage';
 import { logger } from '@/lib/logger';
 
-export const maxDuration = 60; // Allow sufficient time for Cloudinary deletes
+export const maxDuration = 60; // Allow sufficient time for storage deletes
 export const dynamic = 'force-dynamic';
 
 export async function DELETE(request: NextRequest) {
     try {
         // Verify admin authentication
-        await requireAdmin(request);
+        const admin = await requireRole(request, 'event_manager');
 
         logger.apiRequest('DELETE', '/api/admin/certificates/bulk-delete');
 
@@ -34,11 +36,12 @@ export async function DELETE(request: NextRequest) {
         let successCount = 0;
         let failureCount = 0;
         const errors: Array<{ certificateId: string; error: string }> = [];
+        const deleted: Array<{ id: string; eventId: string; snapshot: Record<string, unknown> | null }> = [];
 
         // Process each certificate
         for (const certId of certificateIds) {
             try {
-                // Fetch certificate to get cloudinaryPublicId
+                // Fetch certificate to get its stored files
                 const certificate = await Certificate.findById(certId);
 
                 if (!certificate) {
@@ -50,21 +53,18 @@ export async function DELETE(request: NextRequest) {
                     continue;
                 }
 
-                // Delete from Cloudinary
-                if (certificate.cloudinaryPublicId) {
-                    try {
-                        await deleteCertificatePDF(certificate.cloudinaryPublicId);
-                        logger.info('CLOUDINARY', `Deleted certificate from Cloudinary: ${certificate.cloudinaryPublicId}`);
-                    } catch (cloudinaryError) {
-                        const errorMsg = cloudinaryError instanceof Error ? cloudinaryError.message : 'Unknown error';
-                        logger.error('CLOUDINARY', 'Cloudinary deletion failed', errorMsg);
-                        // Continue with DB deletion even if Cloudinary fails
-                    }
-                }
+                // Delete from storage, including versions replaced by regeneration.
+                // Continue with DB deletion even if a file cannot be removed.
+                await deleteCertificateFiles(certificate);
 
                 // Delete from MongoDB
                 await Certificate.findByIdAndDelete(certId);
                 successCount++;
+                deleted.push({
+                    id: certificate._id.toString(),
+                    eventId: certificate.eventId.toString(),
+                    snapshot: auditSnapshot(certificate, CERTIFICATE_AUDIT_FIELDS),
+                });
                 logger.info('CERTIFICATE', `Deleted certificate: ${certificate.certificateNumber}`);
 
             } catch (error) {
@@ -78,6 +78,20 @@ export async function DELETE(request: NextRequest) {
             }
         }
 
+        if (deleted.length > 0) {
+            const eventIds = new Set(deleted.map((entry) => entry.eventId));
+            await recordAudit(request, admin, {
+                action: 'certificate.bulk_delete',
+                targetType: 'certificate',
+                targetIds: deleted.map((entry) => entry.id),
+                eventId: eventIds.size === 1 ? deleted[0].eventId : undefined,
+                details: {
+                    certificates: deleted.map((entry) => entry.snapshot),
+                    failed: failureCount,
+                },
+            });
+        }
+
         logger.apiSuccess('DELETE', '/api/admin/certificates/bulk-delete', {
             requested: certificateIds.length,
             deleted: successCount,
@@ -94,6 +108,12 @@ export async function DELETE(request: NextRequest) {
 
     } catch (error) {
         logger.apiError('DELETE', '/api/admin/certificates/bulk-delete', error);
+        if (isUnauthorizedError(error)) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+        if (isForbiddenError(error)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
         return NextResponse.json(
             { error: 'Failed to delete certificates' },
             { status: 500 }
@@ -5,20 +5,28 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/auth';
+import { requireRole } from '@/lib/auth';
+import { isForbiddenError } from '@/lib/requestValidation';
 import connectDB from '@/lib/db';
 import Certificate from '@/models/Certificate';
 import { logger } from '@/lib/logger';
+import { REVOCATION_REASON_LABELS, RevocationReason } from '@/lib/revocation';
+import { buildParticipantDownloadUrl } from '@/lib/downloadLinks';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 const BASE_URL = (process.env.NEXT_PUBLIC_APP_URL || '').replace(/\/+$/, '');
 
+interface ExportEvent {
+    title: string;
+    privateDownloads?: boolean;
+}
+
 export async function POST(request: NextRequest) {
     logger.apiRequest('POST', '/api/admin/certificates/export');
     try {
-        await requireAdmin(request);
+        await requireRole(request, 'viewer');
 
         const body = await request.json().catch(() => ({}));
         const { certificateIds, eventId, format } = body as {
@@ -34,11 +42,11 @@ export async function POST(request: NextRequest) {
         let certificates: Awaited<ReturnType<typeof Certificate.find>>;
         if (Array.isArray(certificateIds) && certificateIds.length > 0) {
             certificates = await Certificate.find({ _id: { $in: certificateIds } })
-                .populate<{ eventId: { title: string } }>('eventId')
+                .populate<{ eventId: ExportEvent }>('eventId')
                 .sort({ issuedAt: -1 });
         } else if (eventId) {
             certificates = await Certificate.find({ eventId })
-                .populate<{ eventId: { title: string } }>('eventId')
+                .populate<{ eventId: ExportEvent }>('eventId')
                 .sort({ issuedAt: -1 });
         } else {
             return NextResponse.json(
@@ -50,10 +58,19 @@ export async function POST(request: NextRequest) {
         const data = certificates.map((cert) => ({
             'Participant Name': cert.participantName,
             'Certificate Number': cert.certificateNumber,
-            'Event Name': (cert.eventId as { title: string })?.title ?? '',
+            'Event Name': (cert.eventId as ExportEvent | null)?.title ?? '',
             'Issued Date': cert.issuedAt ? new Date(cert.issuedAt).toISOString().slice(0, 10) : '',
+            'Status': cert.revokedAt ? 'Revoked' : 'Valid',
+            'Revoked Date': cert.revokedAt ? new Date(cert.revokedAt).toISOString().slice(0, 10) : '',
+            'Revocation Reason': cert.revokedAt
+                ? REVOCATION_REASON_LABELS[(cert.revocationReason as RevocationReason) || 'other']
+                : '',
             'Verification URL': `${BASE_URL}/verify/${cert.certificateNumber}`,
-            'Certificate URL': cert.certificateUrl,
+            'Certificate URL': cert.revokedAt
+                ? ''
+                : buildParticipantDownloadUrl(cert, {
+                    privateDownloads: (cert.eventId as ExportEvent | null)?.privateDownloads ?? true,
+                }),
         }));
 
         if (exportFormat === 'csv') {
@@ -92,6 +109,9 @@ export async function POST(request: NextRequest) {
         if (error instanceof Error && error.message === 'Unauthorized: Invalid or missing token') {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
+        if (isForbiddenError(error)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
         return NextResponse.json(
             { error: 'Export failed', details: error instanceof Error ? error.message : 'Unknown error' },
             { status: 500 }
@@ -1,22 +1,24 @@
 /**
  * POST /api/admin/certificates/generate
  * Bulk generate certificates from validated import rows.
- * Uses existing generateCertificatePDF + Cloudinary + MongoDB.
- * Max 20 rows per request; skips duplicates; no background jobs.
+ * Uses the shared certificate issuer (PDF + file storage + MongoDB).
+ * Max 5 rows per request; skips duplicates. Rows with a team name join that
+ * team, but team certificates are only issued by the background job queue
+ * (/api/admin/certificates/jobs), which large imports should use as well.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { isAchievementType, readCustomFields } from "@/lib/achievements";
+import { isForbiddenError } from "@/lib/requestValidation";
 import connectDB from "@/lib/db";
-import Certificate from "@/models/Certificate";
 import Event from "@/models/Event";
-import { generateCertificateNumber } from "@/lib/certificateUtils";
-import crypto from "crypto";
 import { logger } from "@/lib/logger";
-import { generateQRCode } from "@/lib/qr";
-import { generateCertificatePDF } from "@/lib/pdf";
-import { uploadCertificatePDF, isCloudinaryConfigured } from "@/lib/cloudinary";
+import { isStorageConfigured } from "@/lib/storage";
+import { issueCertificate } from "@/lib/certificateIssuer";
 import type { ImportRowData } from "@/lib/importValidation";
+import { saveImportTeams } from "@/lib/teams";
 
 export const runtime = "nodejs";
 export const maxDuration = 60; // Allow time for multiple PDFs
@@ -29,7 +31,7 @@ export async function POST(request: NextRequest) {
     context: "[BATCH_IMPORT]",
   });
   try {
-    await requireAdmin(request);
+    const admin = await requireRole(request, "event_manager");
 
     const body = await request.json();
     const { eventId, rows } = body as {
@@ -57,10 +59,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: true, generated: 0, failed: 0 });
     }
 
-    if (!isCloudinaryConfigured()) {
+    if (!isStorageConfigured()) {
       return NextResponse.json(
         {
-          error: "Cloud storage not configured. Please contact administrator.",
+          error: "File storage not configured. Please contact administrator.",
         },
         { status: 500 },
       );
@@ -72,100 +74,85 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    const { formatDateRange, formatSingleDate } =
-      await import("@/lib/dateUtils");
+    let teams;
+    try {
+      teams = await saveImportTeams(
+        event._id,
+        validRows
+          .map((row) => row.data)
+          .filter(
+            (data) =>
+              data.teamName === undefined || typeof data.teamName === "string",
+          ),
+      );
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 },
+      );
+    }
+
     let generated = 0;
     let failed = 0;
     const errors: string[] = [];
-
-    for (const { data } of validRows) {
-      const participantName = data.participantName?.trim() || "";
-      const participantEmail = data.participantEmail?.trim() || undefined;
-      let certificateNumber = (data.certificateNumber || "")
-        .trim()
-        .toUpperCase();
-
-      try {
-        if (certificateNumber) {
-          const existing = await Certificate.findOne({ certificateNumber });
-          if (existing) {
-            errors.push(
-              `Row "${participantName}": certificate ${certificateNumber} already exists; skipped.`,
-            );
-            failed++;
-            continue;
-          }
-        } else {
-          let isUnique = false;
-          let attempts = 0;
-          const maxAttempts = 10;
-          while (!isUnique && attempts < maxAttempts) {
-            certificateNumber = generateCertificateNumber();
-            const existing = await Certificate.findOne({ certificateNumber });
-            if (!existing) isUnique = true;
-            attempts++;
-          }
-          if (!isUnique) {
-            errors.push(
-              `Row "${participantName}": could not generate unique certificate number.`,
-            );
-            failed++;
-            continue;
-          }
+    const created: Array<{ id: string; certificateNumber: string }> = [];
+
+    // Rows render concurrently, up to the browser pool's render limit
+    await Promise.all(
+      validRows.map(async ({ data }) => {
+        const participantName = data.participantName?.trim() || "";
+        const participantEmail = data.participantEmail?.trim() || undefined;
+
+        try {
+          const certificate = await issueCertificate(event, {
+            participantName,
+            participantEmail,
+            certificateNumber: data.certificateNumber,
+            achievementType: isAchievementType(data.achievementType)
+              ? data.achievementType
+              : undefined,
+            customFields: readCustomFields(data.customFields),
+            team:
+              typeof data.teamName === "string"
+                ? teams.get(data.teamName.trim())
+                : undefined,
+          });
+          logger.info(
+            "CERT",
+            `[BATCH_IMPORT] Created ${certificate.certificateNumber}`,
+            {
+              participant: participantName,
+              email: participantEmail,
+            },
+          );
+          created.push({
+            id: certificate._id.toString(),
+            certificateNumber: certificate.certificateNumber,
+          });
+          generated++;
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : "Unknown error";
+          errors.push(`Row "${participantName}": ${msg}`);
+          failed++;
+          logger.error("CERT", "[BATCH_IMPORT] Row failed", {
+            participantName,
+            error: msg,
+          });
         }
+      }),
+    );
 
-        const qrCodeDataUrl = await generateQRCode(certificateNumber);
-
-        const certificateData = {
-          participantName,
-          eventName: event.title,
-          eventStartDate: formatSingleDate(event.startDate),
-          eventEndDate: formatSingleDate(event.endDate),
-          eventDateRange: formatDateRange(event.startDate, event.endDate),
-          certificateNumber,
-          issueDate: formatSingleDate(new Date()),
-          organizerName: event.organizer,
-          qrCodeDataUrl,
-          templateName: event.template,
-          templateHtml: event.templateHtml,
-          backgroundUrl: event.templateBackgroundUrl || undefined,
-        };
-
-        const pdfBuffer = await generateCertificatePDF(certificateData);
-        const uploadResult = await uploadCertificatePDF(
-          pdfBuffer,
-          certificateNumber,
-        );
-
-        const verificationHash = crypto
-          .createHash("sha256")
-          .update(certificateNumber + event._id.toString())
-          .digest("hex");
-
-        await Certificate.create({
-          certificateNumber,
-          participantName,
-          participantEmail,
-          eventId: event._id,
-          certificateUrl: uploadResult.url,
-          cloudinaryPublicId: uploadResult.publicId,
-          verificationHash,
-          issuedAt: new Date(),
-        });
-        logger.info("CERT", `[BATCH_IMPORT] Created ${certificateNumber}`, {
-          participant: participantName,
-          email: participantEmail,
-        });
-        generated++;
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : "Unknown error";
-        errors.push(`Row "${participantName}": ${msg}`);
-        failed++;
-        logger.error("CERT", "[BATCH_IMPORT] Row failed", {
-          participantName,
-          error: msg,
-        });
-      }
+    if (created.length > 0) {
+      await recordAudit(request, admin, {
+        action: "certificate.create",
+        targetType: "certificate",
+        targetIds: created.map((entry) => entry.id),
+        eventId: event._id,
+        details: {
+          certificateNumbers: created.map((entry) => entry.certificateNumber),
+          failed,
+        },
+      });
     }
 
     logger.apiSuccess("POST", "/api/admin/certificates/generate", {
@@ -188,6 +175,9 @@ export async function POST(request: NextRequest) {
     ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
     return NextResponse.json(
       {
         error: "Generate failed",
@@ -5,7 +5,8 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import { isForbiddenError } from "@/lib/requestValidation";
 import connectDB from "@/lib/db";
 import Certificate from "@/models/Certificate";
 import { validateImportRows } from "@/lib/importValidation";
@@ -20,7 +21,7 @@ export async function POST(request: NextRequest) {
   logger.apiRequest("POST", "/api/admin/certificates/import");
 
   try {
-    await requireAdmin(request);
+    await requireRole(request, "event_manager");
 
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
@@ -124,6 +125,9 @@ export async function POST(request: NextRequest) {
     ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     return NextResponse.json(
       {
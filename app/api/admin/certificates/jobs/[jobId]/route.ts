@@ -0,0 +1,111 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import connectDB from "@/lib/db";
+import {
+  cancelGenerationJob,
+  summarizeGenerationJob,
+} from "@/lib/generationJobs";
+import { logger } from "@/lib/logger";
+import { isUnauthorizedError, isForbiddenError } from "@/lib/requestValidation";
+import GenerationJob, { IGenerationJob } from "@/models/GenerationJob";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    jobId: string;
+  }>;
+}
+
+/**
+ * GET /api/admin/certificates/jobs/[jobId]
+ * Poll the progress of a generation job
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requireRole(request, "viewer");
+    const { jobId } = await params;
+    if (!mongoose.isValidObjectId(jobId)) {
+      return NextResponse.json({ error: "Invalid job ID" }, { status: 400 });
+    }
+
+    await connectDB();
+    const job: IGenerationJob | null = await GenerationJob.findById(jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: summarizeGenerationJob(job),
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/certificates/jobs/[jobId]", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch generation job" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/certificates/jobs/[jobId]
+ * Cancel the rows of a job that have not started yet
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("DELETE", "/api/admin/certificates/jobs/[jobId]");
+  try {
+    const admin = await requireRole(request, "event_manager");
+    const { jobId } = await params;
+    if (!mongoose.isValidObjectId(jobId)) {
+      return NextResponse.json({ error: "Invalid job ID" }, { status: 400 });
+    }
+
+    await connectDB();
+    const job = await cancelGenerationJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found or already finished" },
+        { status: 404 },
+      );
+    }
+
+    const summary = summarizeGenerationJob(job);
+    await recordAudit(request, admin, {
+      action: "generation_job.cancel",
+      targetType: "generation_job",
+      targetIds: [job._id],
+      eventId: job.eventId,
+      details: { succeeded: summary.succeeded, total: summary.total },
+    });
+
+    logger.apiSuccess("DELETE", "/api/admin/certificates/jobs/[jobId]", {
+      jobId,
+    });
+    return NextResponse.json({
+      success: true,
+      job: summary,
+    });
+  } catch (error: unknown) {
+    logger.apiError("DELETE", "/api/admin/certificates/jobs/[jobId]", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to cancel generation job" },
+      { status: 500 },
+    );
+  }
+}
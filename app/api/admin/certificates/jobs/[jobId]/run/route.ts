@@ -0,0 +1,68 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { runGenerationJob, summarizeGenerationJob } from "@/lib/generationJobs";
+import { logger } from "@/lib/logger";
+import { isUnauthorizedError, isForbiddenError } from "@/lib/requestValidation";
+import GenerationJob, { IGenerationJob } from "@/models/GenerationJob";
+
+export const runtime = "nodejs";
+export const maxDuration = 60; // Allow time for multiple PDFs
+export const dynamic = "force-dynamic";
+
+// Short slices keep the import modal progress moving; each call stops
+// claiming rows well before the platform would kill the function
+const RUN_BUDGET_MS = 15_000;
+
+interface RouteParams {
+  params: Promise<{
+    jobId: string;
+  }>;
+}
+
+/**
+ * POST /api/admin/certificates/jobs/[jobId]/run
+ * Work on a job for one time slice and return its progress. The import modal
+ * calls this repeatedly while open; the cron route keeps draining otherwise.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  logger.apiRequest("POST", "/api/admin/certificates/jobs/[jobId]/run");
+  try {
+    await requireRole(request, "event_manager");
+    const { jobId } = await params;
+    if (!mongoose.isValidObjectId(jobId)) {
+      return NextResponse.json({ error: "Invalid job ID" }, { status: 400 });
+    }
+
+    await connectDB();
+    const processed = await runGenerationJob(jobId, deadline);
+    const job: IGenerationJob | null = await GenerationJob.findById(jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    logger.apiSuccess("POST", "/api/admin/certificates/jobs/[jobId]/run", {
+      jobId,
+      processed,
+    });
+    return NextResponse.json({
+      success: true,
+      processed,
+      job: summarizeGenerationJob(job),
+    });
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/certificates/jobs/[jobId]/run", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to run generation job" },
+      { status: 500 },
+    );
+  }
+}
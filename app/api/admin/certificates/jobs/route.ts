@@ -0,0 +1,223 @@
+/**
+ * /api/admin/certificates/jobs
+ * POST: queue a background generation job from validated import rows,
+ *       creating the teams they name.
+ * GET:  list jobs for an event (optionally only unfinished ones, or only one
+ *       kind) so the import and regenerate modals can pick up progress
+ *       after a reload.
+ */
+
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { isAchievementType, readCustomFields } from "@/lib/achievements";
+import connectDB from "@/lib/db";
+import {
+  createGenerationJob,
+  MAX_ROWS_PER_JOB,
+  summarizeGenerationJob,
+} from "@/lib/generationJobs";
+import type { ImportRowData } from "@/lib/importValidation";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isRecord,
+  isUnauthorizedError,
+  isForbiddenError,
+} from "@/lib/requestValidation";
+import { isStorageConfigured } from "@/lib/storage";
+import { DEFAULT_TEAM_ISSUE_MODE, isTeamIssueMode } from "@/lib/teamIssueModes";
+import { saveImportTeams } from "@/lib/teams";
+import Event from "@/models/Event";
+import GenerationJob, { IGenerationJob } from "@/models/GenerationJob";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/admin/certificates/jobs");
+  try {
+    const admin = await requireRole(request, "event_manager");
+
+    const body: unknown = await request.json().catch(() => null);
+    if (
+      !isRecord(body) ||
+      typeof body.eventId !== "string" ||
+      !Array.isArray(body.rows)
+    ) {
+      return NextResponse.json(
+        { error: "eventId and rows (array) are required." },
+        { status: 400 },
+      );
+    }
+    if (!mongoose.isValidObjectId(body.eventId)) {
+      return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+    }
+    const teamMode = body.teamMode ?? DEFAULT_TEAM_ISSUE_MODE;
+    if (!isTeamIssueMode(teamMode)) {
+      return NextResponse.json(
+        { error: "teamMode must be both, team or members" },
+        { status: 400 },
+      );
+    }
+
+    const validRows = (body.rows as unknown[])
+      .filter(isRecord)
+      .filter(
+        (row) =>
+          row.isValid === true &&
+          isRecord(row.data) &&
+          typeof row.data.participantName === "string" &&
+          row.data.participantName.trim() !== "",
+      );
+    let rows: Array<{ index: number; data: ImportRowData }>;
+    try {
+      rows = validRows.map((row, position) => {
+        const data = row.data as Record<string, unknown>;
+        return {
+          index: typeof row.index === "number" ? row.index : position + 1,
+          data: {
+            ...(data as unknown as ImportRowData),
+            achievementType: isAchievementType(data.achievementType)
+              ? data.achievementType
+              : undefined,
+            customFields: readCustomFields(data.customFields),
+            teamName:
+              typeof data.teamName === "string" && data.teamName.trim()
+                ? data.teamName.trim()
+                : undefined,
+          },
+        };
+      });
+    } catch (error) {
+      return NextResponse.json({ error: errorMessage(error) }, { status: 400 });
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "No valid rows to generate." },
+        { status: 400 },
+      );
+    }
+    if (rows.length > MAX_ROWS_PER_JOB) {
+      return NextResponse.json(
+        { error: `Maximum ${MAX_ROWS_PER_JOB} rows per job.` },
+        { status: 400 },
+      );
+    }
+    if (!isStorageConfigured()) {
+      return NextResponse.json(
+        {
+          error: "File storage not configured. Please contact administrator.",
+        },
+        { status: 500 },
+      );
+    }
+
+    await connectDB();
+    const event = await Event.findById(body.eventId);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    let teams;
+    try {
+      teams = await saveImportTeams(
+        event._id,
+        rows.map(({ data }) => data),
+      );
+    } catch (error) {
+      return NextResponse.json({ error: errorMessage(error) }, { status: 400 });
+    }
+    const job = await createGenerationJob(event._id, rows, teams, teamMode);
+
+    await recordAudit(request, admin, {
+      action: "generation_job.create",
+      targetType: "generation_job",
+      targetIds: [job._id],
+      eventId: event._id,
+      details: {
+        rows: rows.length,
+        ...(teams.size > 0 ? { teams: teams.size, teamMode } : {}),
+      },
+    });
+
+    logger.apiSuccess("POST", "/api/admin/certificates/jobs", {
+      jobId: job._id.toString(),
+      eventId: body.eventId,
+      rows: rows.length,
+    });
+    return NextResponse.json(
+      { success: true, job: summarizeGenerationJob(job) },
+      { status: 201 },
+    );
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/certificates/jobs", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to create generation job" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  logger.apiRequest("GET", "/api/admin/certificates/jobs");
+  try {
+    await requireRole(request, "viewer");
+
+    const eventId = request.nextUrl.searchParams.get("eventId");
+    const activeOnly = request.nextUrl.searchParams.get("active") === "true";
+    const kind = request.nextUrl.searchParams.get("kind");
+    if (!eventId || !mongoose.isValidObjectId(eventId)) {
+      return NextResponse.json(
+        { error: "A valid eventId is required" },
+        { status: 400 },
+      );
+    }
+    if (kind && kind !== "issue" && kind !== "regenerate") {
+      return NextResponse.json(
+        { error: "kind must be issue or regenerate" },
+        { status: 400 },
+      );
+    }
+
+    await connectDB();
+    const jobs: IGenerationJob[] = await GenerationJob.find({
+      eventId,
+      ...(activeOnly ? { status: { $in: ["queued", "running"] } } : {}),
+      // Jobs created before regeneration existed have no kind
+      ...(kind === "regenerate" ? { kind: "regenerate" } : {}),
+      ...(kind === "issue" ? { kind: { $ne: "regenerate" } } : {}),
+    })
+      .sort({ createdAt: -1 })
+      .limit(20);
+
+    logger.apiSuccess("GET", "/api/admin/certificates/jobs", {
+      eventId,
+      count: jobs.length,
+    });
+    return NextResponse.json({
+      success: true,
+      jobs: jobs.map(summarizeGenerationJob),
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/certificates/jobs", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch generation jobs" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * POST /api/admin/certificates/regenerate
+ * Queue a background job that re-renders certificates of an event with its
+ * current details and template snapshot. Pass certificateIds for a selection,
+ * or omit them to regenerate the whole event. Progress is reported through
+ * the generation job endpoints.
+ */
+
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import connectDB from "@/lib/db";
+import {
+  createRegenerationJob,
+  getPendingRegenerationIds,
+  MAX_ROWS_PER_JOB,
+  summarizeGenerationJob,
+} from "@/lib/generationJobs";
+import { logger } from "@/lib/logger";
+import {
+  isForbiddenError,
+  isRecord,
+  isUnauthorizedError,
+} from "@/lib/requestValidation";
+import { isStorageConfigured } from "@/lib/storage";
+import Certificate, { ICertificate } from "@/models/Certificate";
+import Event from "@/models/Event";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/admin/certificates/regenerate");
+  try {
+    const admin = await requireRole(request, "event_manager");
+
+    const body: unknown = await request.json().catch(() => null);
+    if (!isRecord(body) || typeof body.eventId !== "string") {
+      return NextResponse.json(
+        { error: "eventId is required." },
+        { status: 400 },
+      );
+    }
+    if (!mongoose.isValidObjectId(body.eventId)) {
+      return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+    }
+
+    let certificateIds: string[] | null = null;
+    if (body.certificateIds !== undefined) {
+      if (
+        !Array.isArray(body.certificateIds) ||
+        body.certificateIds.length === 0 ||
+        !body.certificateIds.every(
+          (id) => typeof id === "string" && mongoose.isValidObjectId(id),
+        )
+      ) {
+        return NextResponse.json(
+          { error: "certificateIds must be a non-empty array of IDs." },
+          { status: 400 },
+        );
+      }
+      certificateIds = body.certificateIds as string[];
+    }
+
+    if (!isStorageConfigured()) {
+      return NextResponse.json(
+        {
+          error: "File storage not configured. Please contact administrator.",
+        },
+        { status: 500 },
+      );
+    }
+
+    await connectDB();
+    const event = await Event.findById(body.eventId);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const candidates: ICertificate[] = await Certificate.find(
+      {
+        eventId: event._id,
+        ...(certificateIds ? { _id: { $in: certificateIds } } : {}),
+      },
+      { participantName: 1, certificateNumber: 1, revokedAt: 1, source: 1 },
+    ).sort({ issuedAt: 1 });
+
+    // Revoked and uploaded certificates keep their PDFs, and certificates
+    // already waiting in another regeneration job are not queued twice
+    const pending = await getPendingRegenerationIds(event._id);
+    const certificates = candidates.filter(
+      (certificate) =>
+        !certificate.revokedAt &&
+        certificate.source !== "uploaded" &&
+        !pending.has(certificate._id.toString()),
+    );
+    const skipped = candidates.length - certificates.length;
+
+    if (certificates.length === 0) {
+      return NextResponse.json(
+        {
+          error:
+            candidates.length === 0
+              ? "No certificates found for this event."
+              : "None of these certificates can be regenerated. Revoked and uploaded certificates are skipped.",
+        },
+        { status: 400 },
+      );
+    }
+    if (certificates.length > MAX_ROWS_PER_JOB) {
+      return NextResponse.json(
+        {
+          error: `Maximum ${MAX_ROWS_PER_JOB} certificates per job. Select fewer certificates.`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const job = await createRegenerationJob(event._id, certificates);
+
+    await recordAudit(request, admin, {
+      action: "certificate.regenerate",
+      targetType: "certificate",
+      targetIds: certificates.map((certificate) => certificate._id),
+      eventId: event._id,
+      details: {
+        jobId: job._id.toString(),
+        scope: certificateIds ? "selection" : "event",
+        count: certificates.length,
+        skipped,
+      },
+    });
+
+    logger.apiSuccess("POST", "/api/admin/certificates/regenerate", {
+      jobId: job._id.toString(),
+      eventId: body.eventId,
+      count: certificates.length,
+      skipped,
+    });
+    return NextResponse.json(
+      { success: true, job: summarizeGenerationJob(job), skipped },
+      { status: 201 },
+    );
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/certificates/regenerate", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to queue regeneration" },
+      { status: 500 },
+    );
+  }
+}
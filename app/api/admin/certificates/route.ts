@@ -1,14 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import {
+  auditSnapshot,
+  CERTIFICATE_AUDIT_FIELDS,
+  recordAudit,
+} from "@/lib/audit";
+import { isForbiddenError } from "@/lib/requestValidation";
+import { isAchievementType, readCustomFields } from "@/lib/achievements";
 import connectDB from "@/lib/db";
+import { buildDownloadUrl } from "@/lib/downloadLinks";
 import Certificate from "@/models/Certificate";
 import Event from "@/models/Event";
-import { generateCertificateNumber } from "@/lib/certificateUtils";
-import crypto from "crypto";
 import { logger } from "@/lib/logger";
-import { generateQRCode } from "@/lib/qr";
-import { generateCertificatePDF } from "@/lib/pdf";
-import { uploadCertificatePDF, isCloudinaryConfigured } from "@/lib/cloudinary";
+import { isStorageConfigured } from "@/lib/storage";
+import { issueCertificate } from "@/lib/certificateIssuer";
 
 // Force Node.js runtime (required for Puppeteer)
 export const runtime = "nodejs";
@@ -21,7 +26,7 @@ export async function POST(request: NextRequest) {
   });
   try {
     // Verify admin authentication
-    await requireAdmin(request);
+    const admin = await requireRole(request, "event_manager");
 
     const body = await request.json();
     const { eventId, participantName, participantEmail } = body;
@@ -48,12 +53,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate Cloudinary configuration
-    if (!isCloudinaryConfigured()) {
-      logger.error("PDF", "Cloudinary not configured");
+    if (
+      body.achievementType !== undefined &&
+      !isAchievementType(body.achievementType)
+    ) {
+      return NextResponse.json(
+        { error: "Invalid achievement type" },
+        { status: 400 },
+      );
+    }
+    let customFields: Record<string, string> | undefined;
+    try {
+      customFields = readCustomFields(body.customFields);
+    } catch (error) {
+      return NextResponse.json(
+        { error: (error as Error).message },
+        { status: 400 },
+      );
+    }
+
+    // Validate storage configuration
+    if (!isStorageConfigured()) {
+      logger.error("PDF", "File storage not configured");
       return NextResponse.json(
         {
-          error: "Cloud storage not configured. Please contact administrator.",
+          error: "File storage not configured. Please contact administrator.",
         },
         { status: 500 },
       );
@@ -68,99 +92,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
-    let certificateNumber = "";
-    let finalCertUrl = "";
-    let finalCloudinaryId = "";
-
-    // Generate unique certificate number
-    let isUnique = false;
-    let attempts = 0;
-    const maxAttempts = 10;
-
-    while (!isUnique && attempts < maxAttempts) {
-      certificateNumber = generateCertificateNumber();
-      const existing = await Certificate.findOne({ certificateNumber });
-      if (!existing) {
-        isUnique = true;
-      }
-      attempts++;
-    }
-
-    if (!isUnique) {
-      return NextResponse.json(
-        { error: "Failed to generate unique certificate number" },
-        { status: 500 },
-      );
-    }
-
     logger.info("CERT", "[MANUAL_CREATE] Generating certificate", {
-      certificateNumber,
       participantName,
       eventId,
     });
 
-    // Step 1: Generate QR Code
-    const qrCodeDataUrl = await generateQRCode(certificateNumber);
-    logger.success("CERT", "QR code generated");
-
-    // Step 2: Prepare certificate data with multi-day event support
-    const { formatDateRange, formatSingleDate } =
-      await import("@/lib/dateUtils");
-
-    const certificateData = {
+    // Generate, upload, sign and save through the shared issuer
+    const certificate = await issueCertificate(event, {
       participantName,
       participantEmail: participantEmail || undefined,
-      eventName: event.title,
-      eventStartDate: formatSingleDate(event.startDate),
-      eventEndDate: formatSingleDate(event.endDate),
-      eventDateRange: formatDateRange(event.startDate, event.endDate),
-      certificateNumber,
-      issueDate: formatSingleDate(new Date()),
-      organizerName: event.organizer,
-      qrCodeDataUrl,
-      templateName: event.template,
-      templateHtml: event.templateHtml, // Use snapshot if available
-      backgroundUrl: event.templateBackgroundUrl || undefined,
-    };
-
-    // Step 3: Generate PDF
-    const pdfBuffer = await generateCertificatePDF(certificateData);
-    logger.success("CERT", "PDF generated", {
-      size: `${(pdfBuffer.length / 1024).toFixed(2)} KB`,
+      achievementType: body.achievementType,
+      customFields,
     });
-
-    // Step 4: Upload to Cloudinary
-    const uploadResult = await uploadCertificatePDF(
-      pdfBuffer,
-      certificateNumber,
-    );
-    logger.success("CERT", "PDF uploaded to cloud", {
-      url: uploadResult.url,
+    logger.success("CERT", "Certificate issued", {
+      certificateNumber: certificate.certificateNumber,
+      url: certificate.certificateUrl,
     });
-    finalCertUrl = uploadResult.url;
-    finalCloudinaryId = uploadResult.publicId;
-
-    // Step 5: Generate verification hash
-    const verificationHash = crypto
-      .createHash("sha256")
-      .update(certificateNumber + event._id.toString())
-      .digest("hex");
-
-    // Step 6: Save to database
-    const certificate = await Certificate.create({
-      certificateNumber,
-      participantName,
-      participantEmail: participantEmail || undefined,
+
+    await recordAudit(request, admin, {
+      action: "certificate.create",
+      targetType: "certificate",
+      targetIds: [certificate._id],
       eventId: event._id,
-      certificateUrl: finalCertUrl,
-      cloudinaryPublicId: finalCloudinaryId,
-      verificationHash,
-      issuedAt: new Date(),
+      after: auditSnapshot(certificate, CERTIFICATE_AUDIT_FIELDS),
     });
 
-    // Populate event details
-    await certificate.populate("eventId");
-
     logger.apiSuccess("POST", "/api/admin/certificates", {
       context: "[MANUAL_CREATE]",
       certificateNumber: certificate.certificateNumber,
@@ -173,7 +129,7 @@ export async function POST(request: NextRequest) {
         id: certificate._id,
         certificateNumber: certificate.certificateNumber,
         participantName: certificate.participantName,
-        certificateUrl: certificate.certificateUrl,
+        certificateUrl: buildDownloadUrl(certificate.certificateNumber),
         event: {
           id: event._id,
           title: event.title,
@@ -194,6 +150,9 @@ export async function POST(request: NextRequest) {
     ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     return NextResponse.json(
       { error: "Failed to create certificate" },
@@ -206,7 +165,7 @@ export async function GET(request: NextRequest) {
   logger.apiRequest("GET", "/api/admin/certificates");
   try {
     // Verify admin authentication
-    await requireAdmin(request);
+    await requireRole(request, "viewer");
 
     // Connect to database
     await connectDB();
@@ -226,7 +185,7 @@ export async function GET(request: NextRequest) {
         id: cert._id,
         certificateNumber: cert.certificateNumber,
         participantName: cert.participantName,
-        certificateUrl: cert.certificateUrl,
+        certificateUrl: buildDownloadUrl(cert.certificateNumber),
         event: cert.eventId,
         verificationHash: cert.verificationHash,
         issuedAt: cert.issuedAt,
@@ -241,6 +200,9 @@ export async function GET(request: NextRequest) {
     ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     return NextResponse.json(
       { error: "Failed to fetch certificates" },
@@ -1,15 +1,22 @@
 import crypto from "crypto";
 import mongoose from "mongoose";
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
 import {
-  deleteCertificatePDF,
-  isCloudinaryConfigured,
-  uploadCertificatePDF,
-} from "@/lib/cloudinary";
-import { isValidCertificateNumber } from "@/lib/certificateUtils";
+  auditSnapshot,
+  CERTIFICATE_AUDIT_FIELDS,
+  recordAudit,
+} from "@/lib/audit";
+import { isAchievementType, readCustomFields } from "@/lib/achievements";
+import {
+  isCheckCharacterValid,
+  isValidCertificateNumber,
+  MAX_CERTIFICATE_NUMBER_LENGTH,
+} from "@/lib/certificateUtils";
 import connectDB from "@/lib/db";
+import { buildDownloadUrl } from "@/lib/downloadLinks";
 import { logger } from "@/lib/logger";
+import { signCertificate } from "@/lib/signing";
 import {
   errorMessage,
   isUnauthorizedError,
@@ -17,7 +24,14 @@ import {
   readRequiredString,
   validatePdfFile,
   validatePdfSignature,
+  isForbiddenError,
 } from "@/lib/requestValidation";
+import {
+  deleteStoredFile,
+  isStorageConfigured,
+  StoredFile,
+  uploadCertificatePDF,
+} from "@/lib/storage";
 import Certificate from "@/models/Certificate";
 import Event from "@/models/Event";
 
@@ -26,13 +40,13 @@ export const dynamic = "force-dynamic";
 
 export async function POST(request: NextRequest) {
   logger.apiRequest("POST", "/api/admin/certificates/upload");
-  let uploadedPublicId: string | null = null;
+  let uploadedFile: StoredFile | null = null;
 
   try {
-    await requireAdmin(request);
-    if (!isCloudinaryConfigured()) {
+    const admin = await requireRole(request, "event_manager");
+    if (!isStorageConfigured()) {
       return NextResponse.json(
-        { error: "Cloud storage is not configured" },
+        { error: "File storage is not configured" },
         { status: 500 },
       );
     }
@@ -49,7 +63,7 @@ export async function POST(request: NextRequest) {
     const certificateNumber = readRequiredString(
       formData.get("certificateNumber"),
       "Certificate number",
-      32,
+      MAX_CERTIFICATE_NUMBER_LENGTH,
     ).toUpperCase();
     const eventId = readRequiredString(formData.get("eventId"), "Event ID", 64);
     const participantName = readRequiredString(
@@ -62,10 +76,53 @@ export async function POST(request: NextRequest) {
       "Participant email",
       320,
     )?.toLowerCase();
+    const achievementType = readOptionalString(
+      formData.get("achievementType"),
+      "Achievement type",
+      40,
+    );
+    if (achievementType && !isAchievementType(achievementType)) {
+      return NextResponse.json(
+        { error: "Invalid achievement type" },
+        { status: 400 },
+      );
+    }
+    // Sent as JSON, as FormData has no nested values
+    const customFieldsJson = readOptionalString(
+      formData.get("customFields"),
+      "Custom fields",
+      20_000,
+    );
+    let customFields: Record<string, string> | undefined;
+    if (customFieldsJson) {
+      try {
+        customFields = readCustomFields(JSON.parse(customFieldsJson));
+      } catch (error) {
+        return NextResponse.json(
+          {
+            error:
+              error instanceof SyntaxError
+                ? "customFields must be valid JSON"
+                : errorMessage(error),
+          },
+          { status: 400 },
+        );
+      }
+    }
 
     if (!isValidCertificateNumber(certificateNumber)) {
       return NextResponse.json(
-        { error: "Certificate number must match ECELL-YYYY-XXXXX" },
+        {
+          error:
+            "Certificate number must be letters and digits in hyphen-separated segments",
+        },
+        { status: 400 },
+      );
+    }
+    // A trailing one-character segment is read as a check character on verify
+    if (!isCheckCharacterValid(certificateNumber)) {
+      return NextResponse.json(
+        { error: "Certificate number's check character does not match" },
         { status: 400 },
       );
     }
@@ -92,24 +149,45 @@ export async function POST(request: NextRequest) {
     }
 
     const uploadResult = await uploadCertificatePDF(buffer, certificateNumber);
-    uploadedPublicId = uploadResult.publicId;
+    uploadedFile = uploadResult;
 
     const verificationHash = crypto
       .createHash("sha256")
       .update(certificateNumber + event._id.toString())
       .digest("hex");
+    const issuedAt = new Date();
+    const signed = signCertificate({
+      certificateNumber,
+      participantName,
+      eventId: event._id.toString(),
+      issuedAt,
+    });
 
     const certificate = await Certificate.create({
       certificateNumber,
       participantName,
       participantEmail,
       eventId: event._id,
+      achievementType: achievementType || undefined,
+      customFields,
       certificateUrl: uploadResult.url,
       cloudinaryPublicId: uploadResult.publicId,
+      storageBackend: uploadResult.backend,
+      source: "uploaded",
       verificationHash,
-      issuedAt: new Date(),
+      signature: signed?.signature,
+      signatureKeyId: signed?.keyId,
+      issuedAt,
+    });
+    uploadedFile = null;
+
+    await recordAudit(request, admin, {
+      action: "certificate.upload",
+      targetType: "certificate",
+      targetIds: [certificate._id],
+      eventId: event._id,
+      after: auditSnapshot(certificate, CERTIFICATE_AUDIT_FIELDS),
     });
-    uploadedPublicId = null;
 
     logger.apiSuccess("POST", "/api/admin/certificates/upload", {
       certificateNumber,
@@ -121,15 +199,15 @@ export async function POST(request: NextRequest) {
         id: certificate._id,
         certificateNumber: certificate.certificateNumber,
         participantName: certificate.participantName,
-        certificateUrl: certificate.certificateUrl,
+        certificateUrl: buildDownloadUrl(certificate.certificateNumber),
         issuedAt: certificate.issuedAt,
       },
     });
   } catch (error: unknown) {
     logger.apiError("POST", "/api/admin/certificates/upload", error);
-    if (uploadedPublicId) {
+    if (uploadedFile) {
       try {
-        await deleteCertificatePDF(uploadedPublicId);
+        await deleteStoredFile(uploadedFile);
       } catch (cleanupError: unknown) {
         logger.error(
           "PDF_UPLOAD",
@@ -141,6 +219,9 @@ export async function POST(request: NextRequest) {
     if (isUnauthorizedError(error)) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     const message = errorMessage(error);
     if (
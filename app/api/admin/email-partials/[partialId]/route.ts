@@ -0,0 +1,172 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  auditSnapshot,
+  EMAIL_PARTIAL_AUDIT_FIELDS,
+  recordAudit,
+} from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { countPartialUses, findPartialProblems } from "@/lib/emailPartials";
+import EmailPartial from "@/models/EmailPartial";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isRecord,
+  isForbiddenError,
+  isUnauthorizedError,
+  readOptionalString,
+  validateTemplateHtml,
+} from "@/lib/requestValidation";
+
+interface RouteParams {
+  params: Promise<{
+    partialId: string;
+  }>;
+}
+
+/**
+ * PUT /api/admin/email-partials/[partialId]
+ * Update the `html` or `description` of a partial. Names cannot change,
+ * since email templates include partials by name.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { partialId } = await params;
+  logger.apiRequest("PUT", `/api/admin/email-partials/${partialId}`);
+  try {
+    const admin = await requireRole(request, "event_manager");
+    if (!mongoose.isValidObjectId(partialId))
+      return NextResponse.json(
+        { error: "Invalid partial ID" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const body: unknown = await request.json();
+    if (!isRecord(body))
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+
+    const updates: Record<string, string> = {};
+    if ("html" in body) {
+      updates.html = validateTemplateHtml(body.html);
+      const problems = findPartialProblems(updates.html);
+      if (problems.length > 0)
+        return NextResponse.json(
+          { error: `Partial has problems: ${problems.join("; ")}`, problems },
+          { status: 400 },
+        );
+    }
+    if ("description" in body)
+      updates.description =
+        readOptionalString(body.description, "Description", 200) || "";
+    if (Object.keys(updates).length === 0)
+      return NextResponse.json(
+        { error: "No valid fields to update" },
+        { status: 400 },
+      );
+
+    const previous = await EmailPartial.findById(partialId);
+    const partial = previous
+      ? await EmailPartial.findByIdAndUpdate(partialId, updates, {
+          new: true,
+          runValidators: true,
+        })
+      : null;
+
+    if (!partial) {
+      return NextResponse.json({ error: "Partial not found" }, { status: 404 });
+    }
+
+    await recordAudit(request, admin, {
+      action: "email_partial.update",
+      targetType: "email_partial",
+      targetIds: [partial._id],
+      before: auditSnapshot(previous, EMAIL_PARTIAL_AUDIT_FIELDS),
+      after: auditSnapshot(partial, EMAIL_PARTIAL_AUDIT_FIELDS),
+      details:
+        "html" in updates && previous?.html !== partial.html
+          ? { htmlChanged: true }
+          : undefined,
+    });
+
+    logger.apiSuccess("PUT", `/api/admin/email-partials/${partialId}`);
+    return NextResponse.json({ success: true, partial });
+  } catch (error: unknown) {
+    logger.apiError("PUT", `/api/admin/email-partials/${partialId}`, error);
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const message = errorMessage(error);
+    return NextResponse.json(
+      {
+        error:
+          message === "Unknown error"
+            ? "Failed to update email partial"
+            : message,
+      },
+      { status: message === "Unknown error" ? 500 : 400 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/email-partials/[partialId]
+ * Delete a partial that no event email template includes
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { partialId } = await params;
+  logger.apiRequest("DELETE", `/api/admin/email-partials/${partialId}`);
+  try {
+    const admin = await requireRole(request, "event_manager");
+    if (!mongoose.isValidObjectId(partialId))
+      return NextResponse.json(
+        { error: "Invalid partial ID" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const partial = await EmailPartial.findById(partialId);
+    if (!partial) {
+      return NextResponse.json({ error: "Partial not found" }, { status: 404 });
+    }
+
+    // Emails of those events would fail to render
+    const uses = await countPartialUses(partial.name);
+    if (uses > 0)
+      return NextResponse.json(
+        {
+          error: `"${partial.name}" is used by ${uses} email template(s). Remove it from them first.`,
+        },
+        { status: 409 },
+      );
+
+    await EmailPartial.deleteOne({ _id: partial._id });
+
+    await recordAudit(request, admin, {
+      action: "email_partial.delete",
+      targetType: "email_partial",
+      targetIds: [partial._id],
+      before: auditSnapshot(partial, EMAIL_PARTIAL_AUDIT_FIELDS),
+    });
+
+    logger.info("EMAIL", `Email partial deleted: ${partial.name}`);
+    return NextResponse.json({
+      success: true,
+      message: "Email partial deleted successfully",
+    });
+  } catch (error: unknown) {
+    logger.apiError("DELETE", `/api/admin/email-partials/${partialId}`, error);
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    return NextResponse.json(
+      { error: "Failed to delete email partial" },
+      { status: 500 },
+    );
+  }
+}
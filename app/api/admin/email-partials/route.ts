@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  auditSnapshot,
+  EMAIL_PARTIAL_AUDIT_FIELDS,
+  recordAudit,
+} from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { findPartialProblems } from "@/lib/emailPartials";
+import { isValidPartialName } from "@/lib/emailRendering";
+import EmailPartial from "@/models/EmailPartial";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isRecord,
+  isForbiddenError,
+  isUnauthorizedError,
+  readOptionalString,
+  readRequiredString,
+  validateTemplateHtml,
+} from "@/lib/requestValidation";
+
+/**
+ * GET /api/admin/email-partials
+ * List the shared partials of certificate emails
+ */
+export async function GET(request: NextRequest) {
+  logger.apiRequest("GET", "/api/admin/email-partials");
+  try {
+    await requireRole(request, "viewer");
+    await connectDB();
+
+    const partials = await EmailPartial.find({}).sort({ name: 1 });
+
+    logger.apiSuccess("GET", "/api/admin/email-partials", {
+      count: partials.length,
+    });
+    return NextResponse.json({ success: true, partials });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/email-partials", error);
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const unauthorized = isUnauthorizedError(error);
+    return NextResponse.json(
+      {
+        error: unauthorized ? "Unauthorized" : "Failed to fetch email partials",
+      },
+      { status: unauthorized ? 401 : 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/email-partials
+ * Create a partial from `name`, `html` and an optional `description`
+ */
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/admin/email-partials");
+  try {
+    const admin = await requireRole(request, "event_manager");
+    await connectDB();
+
+    const body: unknown = await request.json();
+    if (!isRecord(body))
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+
+    const name = readRequiredString(body.name, "Name", 50);
+    if (!isValidPartialName(name))
+      return NextResponse.json(
+        {
+          error:
+            "Name must start with a letter and contain only letters, digits, _ and -",
+        },
+        { status: 400 },
+      );
+    const html = validateTemplateHtml(body.html);
+    const description = readOptionalString(
+      body.description,
+      "Description",
+      200,
+    );
+
+    const problems = findPartialProblems(html);
+    if (problems.length > 0)
+      return NextResponse.json(
+        { error: `Partial has problems: ${problems.join("; ")}`, problems },
+        { status: 400 },
+      );
+
+    if (await EmailPartial.exists({ name }))
+      return NextResponse.json(
+        { error: `A partial named "${name}" already exists` },
+        { status: 409 },
+      );
+
+    const partial = await EmailPartial.create({ name, html, description });
+
+    await recordAudit(request, admin, {
+      action: "email_partial.create",
+      targetType: "email_partial",
+      targetIds: [partial._id],
+      after: auditSnapshot(partial, EMAIL_PARTIAL_AUDIT_FIELDS),
+    });
+
+    logger.apiSuccess("POST", "/api/admin/email-partials", {
+      partialId: partial._id,
+    });
+    return NextResponse.json({ success: true, partial }, { status: 201 });
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/email-partials", error);
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const unauthorized = isUnauthorizedError(error);
+    const message = errorMessage(error);
+    return NextResponse.json(
+      {
+        error: unauthorized
+          ? "Unauthorized"
+          : message === "Unknown error"
+            ? "Failed to create email partial"
+            : message,
+      },
+      { status: unauthorized ? 401 : message === "Unknown error" ? 500 : 400 },
+    );
+  }
+}
@@ -0,0 +1,254 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  auditSnapshot,
+  EMAIL_TEMPLATE_AUDIT_FIELDS,
+  recordAudit,
+} from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { findEmailContentProblems } from "@/lib/emailTemplates";
+import EmailTemplate, { IEmailTemplate } from "@/models/EmailTemplate";
+import Event from "@/models/Event";
+import { logger } from "@/lib/logger";
+import mongoose from "mongoose";
+import {
+  errorMessage,
+  isRecord,
+  isForbiddenError,
+  isUnauthorizedError,
+  readOptionalString,
+  readRequiredString,
+  validateTemplateHtml,
+} from "@/lib/requestValidation";
+
+interface RouteParams {
+  params: Promise<{
+    emailTemplateId: string;
+  }>;
+}
+
+/**
+ * GET /api/admin/email-templates/[emailTemplateId]
+ * Fetch a library template and the number of events using it
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { emailTemplateId } = await params;
+  logger.apiRequest("GET", `/api/admin/email-templates/${emailTemplateId}`);
+  try {
+    await requireRole(request, "viewer");
+    if (!mongoose.isValidObjectId(emailTemplateId))
+      return NextResponse.json(
+        { error: "Invalid email template ID" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const template = await EmailTemplate.findById(emailTemplateId);
+    if (!template) {
+      return NextResponse.json(
+        { error: "Email template not found" },
+        { status: 404 },
+      );
+    }
+    const eventCount = await Event.countDocuments({ emailTemplateId });
+
+    return NextResponse.json({ success: true, template, eventCount });
+  } catch (error: unknown) {
+    logger.apiError(
+      "GET",
+      `/api/admin/email-templates/${emailTemplateId}`,
+      error,
+    );
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    return NextResponse.json(
+      { error: "Failed to fetch email template" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT /api/admin/email-templates/[emailTemplateId]
+ * Update a library template. Events using it pick up the change for emails
+ * queued from now on; queued and sent emails keep their snapshot.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { emailTemplateId } = await params;
+  logger.apiRequest("PUT", `/api/admin/email-templates/${emailTemplateId}`);
+  try {
+    const admin = await requireRole(request, "event_manager");
+    if (!mongoose.isValidObjectId(emailTemplateId))
+      return NextResponse.json(
+        { error: "Invalid email template ID" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const body: unknown = await request.json();
+    if (!isRecord(body))
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+
+    const updates: Record<string, string | boolean | undefined> = {};
+    if ("name" in body)
+      updates.name = readRequiredString(body.name, "Name", 120);
+    if ("description" in body)
+      updates.description =
+        readOptionalString(body.description, "Description", 500) || "";
+    if ("category" in body)
+      updates.category =
+        readOptionalString(body.category, "Category", 80) || "General";
+    if ("subject" in body)
+      updates.subject = readRequiredString(body.subject, "Subject", 300);
+    if ("body" in body) updates.body = validateTemplateHtml(body.body);
+    for (const field of ["attachPdf", "inlineQr", "isArchived"] as const) {
+      if (!(field in body)) continue;
+      if (typeof body[field] !== "boolean")
+        return NextResponse.json(
+          { error: `${field} must be a boolean` },
+          { status: 400 },
+        );
+      updates[field] = body[field];
+    }
+    if (Object.keys(updates).length === 0)
+      return NextResponse.json(
+        { error: "No valid fields to update" },
+        { status: 400 },
+      );
+
+    const previous: IEmailTemplate | null =
+      await EmailTemplate.findById(emailTemplateId);
+    if (!previous) {
+      return NextResponse.json(
+        { error: "Email template not found" },
+        { status: 404 },
+      );
+    }
+
+    const problems = await findEmailContentProblems({
+      subject: (updates.subject as string | undefined) ?? previous.subject,
+      body: (updates.body as string | undefined) ?? previous.body,
+    });
+    if (problems.length > 0)
+      return NextResponse.json(
+        { error: `Template has problems: ${problems.join("; ")}`, problems },
+        { status: 400 },
+      );
+
+    const template = await EmailTemplate.findByIdAndUpdate(
+      emailTemplateId,
+      updates,
+      { new: true, runValidators: true },
+    );
+    if (!template) {
+      return NextResponse.json(
+        { error: "Email template not found" },
+        { status: 404 },
+      );
+    }
+
+    await recordAudit(request, admin, {
+      action: "email_template.update",
+      targetType: "email_template",
+      targetIds: [template._id],
+      before: auditSnapshot(previous, EMAIL_TEMPLATE_AUDIT_FIELDS),
+      after: auditSnapshot(template, EMAIL_TEMPLATE_AUDIT_FIELDS),
+      // Bodies are too large to diff usefully; just note the edit
+      details:
+        "body" in updates && previous.body !== template.body
+          ? { bodyChanged: true }
+          : undefined,
+    });
+
+    logger.apiSuccess("PUT", `/api/admin/email-templates/${emailTemplateId}`);
+    return NextResponse.json({ success: true, template });
+  } catch (error: unknown) {
+    logger.apiError(
+      "PUT",
+      `/api/admin/email-templates/${emailTemplateId}`,
+      error,
+    );
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const message = errorMessage(error);
+    return NextResponse.json(
+      {
+        error:
+          message === "Unknown error"
+            ? "Failed to update email template"
+            : message,
+      },
+      { status: message === "Unknown error" ? 500 : 400 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/email-templates/[emailTemplateId]
+ * Archive a library template. Events already using it keep sending it, but
+ * it can no longer be picked for other events.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { emailTemplateId } = await params;
+  logger.apiRequest("DELETE", `/api/admin/email-templates/${emailTemplateId}`);
+  try {
+    const admin = await requireRole(request, "event_manager");
+    if (!mongoose.isValidObjectId(emailTemplateId))
+      return NextResponse.json(
+        { error: "Invalid email template ID" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    // Soft delete: move to archived
+    const template = await EmailTemplate.findByIdAndUpdate(
+      emailTemplateId,
+      { isArchived: true },
+      { new: false },
+    );
+
+    if (!template) {
+      return NextResponse.json(
+        { error: "Email template not found" },
+        { status: 404 },
+      );
+    }
+
+    if (!template.isArchived) {
+      await recordAudit(request, admin, {
+        action: "email_template.archive",
+        targetType: "email_template",
+        targetIds: [template._id],
+        before: { isArchived: false },
+        after: { isArchived: true },
+      });
+    }
+
+    logger.info("EMAIL", `Email template archived: ${emailTemplateId}`);
+    return NextResponse.json({
+      success: true,
+      message: "Email template archived successfully",
+    });
+  } catch (error: unknown) {
+    logger.apiError(
+      "DELETE",
+      `/api/admin/email-templates/${emailTemplateId}`,
+      error,
+    );
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    return NextResponse.json(
+      { error: "Failed to archive email template" },
+      { status: 500 },
+    );
+  }
+}
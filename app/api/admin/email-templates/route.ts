@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  auditSnapshot,
+  EMAIL_TEMPLATE_AUDIT_FIELDS,
+  recordAudit,
+} from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { findEmailContentProblems } from "@/lib/emailTemplates";
+import EmailTemplate from "@/models/EmailTemplate";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isRecord,
+  isForbiddenError,
+  isUnauthorizedError,
+  readOptionalString,
+  readRequiredString,
+  validateTemplateHtml,
+} from "@/lib/requestValidation";
+
+/**
+ * GET /api/admin/email-templates
+ * List the email template library, archived templates included
+ */
+export async function GET(request: NextRequest) {
+  logger.apiRequest("GET", "/api/admin/email-templates");
+  try {
+    await requireRole(request, "viewer");
+    await connectDB();
+
+    // Frontend filters by isArchived, like certificate templates
+    const templates = await EmailTemplate.find({}).sort({
+      category: 1,
+      name: 1,
+    });
+
+    logger.apiSuccess("GET", "/api/admin/email-templates", {
+      count: templates.length,
+    });
+    return NextResponse.json({ success: true, templates });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/email-templates", error);
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const unauthorized = isUnauthorizedError(error);
+    return NextResponse.json(
+      {
+        error: unauthorized
+          ? "Unauthorized"
+          : "Failed to fetch email templates",
+      },
+      { status: unauthorized ? 401 : 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/email-templates
+ * Add a template to the library from `name`, `subject`, `body` and optional
+ * `description`, `category`, `attachPdf` and `inlineQr`
+ */
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/admin/email-templates");
+  try {
+    const admin = await requireRole(request, "event_manager");
+    await connectDB();
+
+    const body: unknown = await request.json();
+    if (!isRecord(body))
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+
+    const name = readRequiredString(body.name, "Name", 120);
+    const description = readOptionalString(
+      body.description,
+      "Description",
+      500,
+    );
+    const category =
+      readOptionalString(body.category, "Category", 80) || "General";
+    const subject = readRequiredString(body.subject, "Subject", 300);
+    const html = validateTemplateHtml(body.body);
+    if (
+      (body.attachPdf !== undefined && typeof body.attachPdf !== "boolean") ||
+      (body.inlineQr !== undefined && typeof body.inlineQr !== "boolean")
+    )
+      return NextResponse.json(
+        { error: "attachPdf and inlineQr must be booleans" },
+        { status: 400 },
+      );
+
+    const problems = await findEmailContentProblems({ subject, body: html });
+    if (problems.length > 0)
+      return NextResponse.json(
+        { error: `Template has problems: ${problems.join("; ")}`, problems },
+        { status: 400 },
+      );
+
+    const template = await EmailTemplate.create({
+      name,
+      description,
+      category,
+      subject,
+      body: html,
+      attachPdf: body.attachPdf ?? false,
+      inlineQr: body.inlineQr ?? false,
+    });
+
+    await recordAudit(request, admin, {
+      action: "email_template.create",
+      targetType: "email_template",
+      targetIds: [template._id],
+      after: auditSnapshot(template, EMAIL_TEMPLATE_AUDIT_FIELDS),
+    });
+
+    logger.apiSuccess("POST", "/api/admin/email-templates", {
+      emailTemplateId: template._id,
+    });
+    return NextResponse.json({ success: true, template }, { status: 201 });
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/email-templates", error);
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const unauthorized = isUnauthorizedError(error);
+    const message = errorMessage(error);
+    return NextResponse.json(
+      {
+        error: unauthorized
+          ? "Unauthorized"
+          : message === "Unknown error"
+            ? "Failed to create email template"
+            : message,
+      },
+      { status: unauthorized ? 401 : message === "Unknown error" ? 500 : 400 },
+    );
+  }
+}
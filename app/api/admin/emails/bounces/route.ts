@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { parseMailbox } from "@/lib/bounceParser";
+import { isForbiddenError, isUnauthorizedError } from "@/lib/requestValidation";
+import connectDB from "@/lib/db";
+import { recordBounces } from "@/lib/emailTracking";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_MAILBOX_BYTES = 25 * 1024 * 1024;
+
+/**
+ * POST /api/admin/emails/bounces
+ * Import bounce messages from the sending mailbox, for transports without a
+ * bounce webhook (SMTP). Send an .mbox export or a single .eml message in
+ * FormData under "file".
+ */
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/admin/emails/bounces");
+  try {
+    const admin = await requireRole(request, "event_manager");
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json(
+        {
+          error:
+            'Missing or invalid file. Send a file in FormData under key "file".',
+        },
+        { status: 400 },
+      );
+    }
+    if (file.size > MAX_MAILBOX_BYTES) {
+      return NextResponse.json(
+        { error: "Mailbox export is too large. Maximum size is 25MB." },
+        { status: 400 },
+      );
+    }
+
+    const reports = parseMailbox(await file.text());
+    if (reports.length === 0) {
+      return NextResponse.json(
+        { error: "No bounce messages found in the file." },
+        { status: 400 },
+      );
+    }
+
+    await connectDB();
+    const { certificateIds, ...result } = await recordBounces(reports, "mbox");
+
+    await recordAudit(request, admin, {
+      action: "email.bounce_import",
+      targetType: "certificate",
+      targetIds: certificateIds,
+      details: { file: file.name, reports: reports.length, ...result },
+    });
+
+    logger.apiSuccess("POST", "/api/admin/emails/bounces", result);
+    return NextResponse.json({
+      success: true,
+      reports: reports.length,
+      ...result,
+    });
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/emails/bounces", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to import bounces" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { cancelEmailJob, summarizeEmailJob } from "@/lib/emailJobs";
+import { logger } from "@/lib/logger";
+import { isUnauthorizedError, isForbiddenError } from "@/lib/requestValidation";
+import EmailJob, { IEmailJob } from "@/models/EmailJob";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    jobId: string;
+  }>;
+}
+
+/**
+ * GET /api/admin/emails/jobs/[jobId]
+ * Poll the delivery progress of an email job
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requireRole(request, "viewer");
+    const { jobId } = await params;
+    if (!mongoose.isValidObjectId(jobId)) {
+      return NextResponse.json({ error: "Invalid job ID" }, { status: 400 });
+    }
+
+    await connectDB();
+    const job: IEmailJob | null = await EmailJob.findById(jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      job: summarizeEmailJob(job),
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/emails/jobs/[jobId]", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch email job" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/emails/jobs/[jobId]
+ * Cancel the emails of a job that have not been sent yet
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("DELETE", "/api/admin/emails/jobs/[jobId]");
+  try {
+    const admin = await requireRole(request, "event_manager");
+    const { jobId } = await params;
+    if (!mongoose.isValidObjectId(jobId)) {
+      return NextResponse.json({ error: "Invalid job ID" }, { status: 400 });
+    }
+
+    await connectDB();
+    const job = await cancelEmailJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: "Job not found or already finished" },
+        { status: 404 },
+      );
+    }
+
+    const summary = summarizeEmailJob(job);
+    await recordAudit(request, admin, {
+      action: "email_job.cancel",
+      targetType: "email_job",
+      targetIds: [job._id],
+      eventId: job.eventId,
+      details: { sent: summary.sent, total: summary.total },
+    });
+
+    logger.apiSuccess("DELETE", "/api/admin/emails/jobs/[jobId]", {
+      jobId,
+    });
+    return NextResponse.json({
+      success: true,
+      job: summary,
+    });
+  } catch (error: unknown) {
+    logger.apiError("DELETE", "/api/admin/emails/jobs/[jobId]", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to cancel email job" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { runEmailJob, summarizeEmailJob } from "@/lib/emailJobs";
+import { logger } from "@/lib/logger";
+import { isUnauthorizedError, isForbiddenError } from "@/lib/requestValidation";
+import EmailJob, { IEmailJob } from "@/models/EmailJob";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+
+// Short slices keep the send dialog progress moving; a slow SMTP server can
+// hold the last send well past the budget, hence the headroom
+const RUN_BUDGET_MS = 15_000;
+
+interface RouteParams {
+  params: Promise<{
+    jobId: string;
+  }>;
+}
+
+/**
+ * POST /api/admin/emails/jobs/[jobId]/run
+ * Send due emails of a job for one time slice and return its progress. The
+ * send dialog calls this repeatedly while open; the cron route keeps
+ * delivering and retrying otherwise.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  logger.apiRequest("POST", "/api/admin/emails/jobs/[jobId]/run");
+  try {
+    await requireRole(request, "event_manager");
+    const { jobId } = await params;
+    if (!mongoose.isValidObjectId(jobId)) {
+      return NextResponse.json({ error: "Invalid job ID" }, { status: 400 });
+    }
+
+    await connectDB();
+    const processed = await runEmailJob(jobId, deadline);
+    const job: IEmailJob | null = await EmailJob.findById(jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    logger.apiSuccess("POST", "/api/admin/emails/jobs/[jobId]/run", {
+      jobId,
+      processed,
+    });
+    return NextResponse.json({
+      success: true,
+      processed,
+      job: summarizeEmailJob(job),
+    });
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/emails/jobs/[jobId]/run", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to run email job" },
+      { status: 500 },
+    );
+  }
+}
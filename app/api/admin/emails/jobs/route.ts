@@ -0,0 +1,62 @@
+/**
+ * GET /api/admin/emails/jobs
+ * List email jobs for an event (optionally only unfinished ones) so the send
+ * dialog can pick up delivery progress after a reload.
+ */
+
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { summarizeEmailJob } from "@/lib/emailJobs";
+import { logger } from "@/lib/logger";
+import { isUnauthorizedError, isForbiddenError } from "@/lib/requestValidation";
+import EmailJob, { IEmailJob } from "@/models/EmailJob";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  logger.apiRequest("GET", "/api/admin/emails/jobs");
+  try {
+    await requireRole(request, "viewer");
+
+    const eventId = request.nextUrl.searchParams.get("eventId");
+    const activeOnly = request.nextUrl.searchParams.get("active") === "true";
+    if (!eventId || !mongoose.isValidObjectId(eventId)) {
+      return NextResponse.json(
+        { error: "A valid eventId is required" },
+        { status: 400 },
+      );
+    }
+
+    await connectDB();
+    const jobs: IEmailJob[] = await EmailJob.find({
+      eventId,
+      ...(activeOnly ? { status: { $in: ["queued", "running"] } } : {}),
+    })
+      .sort({ createdAt: -1 })
+      .limit(20);
+
+    logger.apiSuccess("GET", "/api/admin/emails/jobs", {
+      eventId,
+      count: jobs.length,
+    });
+    return NextResponse.json({
+      success: true,
+      jobs: jobs.map(summarizeEmailJob),
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/emails/jobs", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch email jobs" },
+      { status: 500 },
+    );
+  }
+}
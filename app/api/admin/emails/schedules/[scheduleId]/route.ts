@@ -0,0 +1,167 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { parseSendAt, summarizeEmailSchedule } from "@/lib/emailSchedules";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isForbiddenError,
+  isRecord,
+  isUnauthorizedError,
+} from "@/lib/requestValidation";
+import EmailSchedule, { IEmailSchedule } from "@/models/EmailSchedule";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    scheduleId: string;
+  }>;
+}
+
+/**
+ * PATCH /api/admin/emails/schedules/[scheduleId]
+ * Move a pending scheduled send to a new `sendAt`
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("PATCH", "/api/admin/emails/schedules/[scheduleId]");
+  try {
+    const admin = await requireRole(request, "event_manager");
+    const { scheduleId } = await params;
+    if (!mongoose.isValidObjectId(scheduleId)) {
+      return NextResponse.json(
+        { error: "Invalid schedule ID" },
+        { status: 400 },
+      );
+    }
+
+    const body: unknown = await request.json();
+    if (!isRecord(body)) {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+    }
+    const sendAt = parseSendAt(body.sendAt);
+
+    await connectDB();
+    // Only pending schedules can change; the scheduler may claim one any time
+    const schedule: IEmailSchedule | null =
+      await EmailSchedule.findOneAndUpdate(
+        { _id: scheduleId, status: "pending" },
+        { $set: { sendAt } },
+        { new: false },
+      );
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found or no longer pending" },
+        { status: 404 },
+      );
+    }
+
+    await recordAudit(request, admin, {
+      action: "email_schedule.update",
+      targetType: "email_schedule",
+      targetIds: [schedule._id],
+      eventId: schedule.eventId,
+      before: { sendAt: schedule.sendAt },
+      after: { sendAt },
+    });
+    schedule.sendAt = sendAt;
+
+    logger.apiSuccess("PATCH", "/api/admin/emails/schedules/[scheduleId]", {
+      scheduleId,
+      sendAt,
+    });
+    return NextResponse.json({
+      success: true,
+      schedule: summarizeEmailSchedule(schedule),
+    });
+  } catch (error: unknown) {
+    logger.apiError("PATCH", "/api/admin/emails/schedules/[scheduleId]", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const message = errorMessage(error);
+    return NextResponse.json(
+      {
+        error:
+          message === "Unknown error"
+            ? "Failed to update scheduled emails"
+            : message,
+      },
+      { status: message === "Unknown error" ? 500 : 400 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/emails/schedules/[scheduleId]
+ * Cancel a pending scheduled send. Once queued, cancel its email jobs
+ * instead.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("DELETE", "/api/admin/emails/schedules/[scheduleId]");
+  try {
+    const admin = await requireRole(request, "event_manager");
+    const { scheduleId } = await params;
+    if (!mongoose.isValidObjectId(scheduleId)) {
+      return NextResponse.json(
+        { error: "Invalid schedule ID" },
+        { status: 400 },
+      );
+    }
+
+    await connectDB();
+    const schedule: IEmailSchedule | null =
+      await EmailSchedule.findOneAndUpdate(
+        { _id: scheduleId, status: "pending" },
+        { $set: { status: "cancelled" } },
+        { new: true },
+      );
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Schedule not found or no longer pending" },
+        { status: 404 },
+      );
+    }
+
+    await recordAudit(request, admin, {
+      action: "email_schedule.cancel",
+      targetType: "email_schedule",
+      targetIds: [schedule._id],
+      eventId: schedule.eventId,
+      details: { sendAt: schedule.sendAt },
+    });
+
+    logger.apiSuccess("DELETE", "/api/admin/emails/schedules/[scheduleId]", {
+      scheduleId,
+    });
+    return NextResponse.json({
+      success: true,
+      schedule: summarizeEmailSchedule(schedule),
+    });
+  } catch (error: unknown) {
+    logger.apiError(
+      "DELETE",
+      "/api/admin/emails/schedules/[scheduleId]",
+      error,
+    );
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to cancel scheduled emails" },
+      { status: 500 },
+    );
+  }
+}
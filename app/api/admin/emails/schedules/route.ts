@@ -0,0 +1,212 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { MAX_EMAILS_PER_JOB } from "@/lib/emailJobs";
+import { parseSendAt, summarizeEmailSchedule } from "@/lib/emailSchedules";
+import { isEmailConfigured } from "@/lib/emailTransport";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isForbiddenError,
+  isRecord,
+  isUnauthorizedError,
+} from "@/lib/requestValidation";
+import Certificate from "@/models/Certificate";
+import EmailSchedule, {
+  EmailScheduleStatus,
+  IEmailSchedule,
+} from "@/models/EmailSchedule";
+import Event, { IEvent } from "@/models/Event";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const SCHEDULE_STATUSES: EmailScheduleStatus[] = [
+  "pending",
+  "queueing",
+  "queued",
+  "cancelled",
+  "failed",
+];
+
+/**
+ * GET /api/admin/emails/schedules
+ * List scheduled sends, soonest first, optionally for one event
+ * (`eventId`) and in one `status`
+ */
+export async function GET(request: NextRequest) {
+  logger.apiRequest("GET", "/api/admin/emails/schedules");
+  try {
+    await requireRole(request, "viewer");
+
+    const eventId = request.nextUrl.searchParams.get("eventId");
+    const status = request.nextUrl.searchParams.get("status");
+    if (eventId && !mongoose.isValidObjectId(eventId)) {
+      return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+    }
+    if (status && !SCHEDULE_STATUSES.includes(status as EmailScheduleStatus)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    await connectDB();
+    const schedules: IEmailSchedule[] = await EmailSchedule.find({
+      ...(eventId ? { eventId } : {}),
+      ...(status ? { status } : {}),
+    })
+      .sort({ sendAt: 1 })
+      .limit(100);
+
+    const events: IEvent[] = await Event.find({
+      _id: { $in: schedules.map((schedule) => schedule.eventId) },
+    }).select("title");
+    const titles = new Map(
+      events.map((event) => [event._id.toString(), event.title]),
+    );
+
+    logger.apiSuccess("GET", "/api/admin/emails/schedules", {
+      count: schedules.length,
+    });
+    return NextResponse.json({
+      success: true,
+      schedules: schedules.map((schedule) =>
+        summarizeEmailSchedule(
+          schedule,
+          titles.get(schedule.eventId.toString()) ?? null,
+        ),
+      ),
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/emails/schedules", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch scheduled emails" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/emails/schedules
+ * Schedule certificate emails for `sendAt`: the given `certificateIds` of
+ * `eventId`, or every certificate of the event when they are omitted
+ */
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/admin/emails/schedules");
+  try {
+    const admin = await requireRole(request, "event_manager");
+
+    const body: unknown = await request.json();
+    if (!isRecord(body)) {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+    }
+    const { eventId, certificateIds } = body;
+    if (typeof eventId !== "string" || !mongoose.isValidObjectId(eventId)) {
+      return NextResponse.json(
+        { error: "A valid eventId is required" },
+        { status: 400 },
+      );
+    }
+    if (
+      certificateIds !== undefined &&
+      (!Array.isArray(certificateIds) ||
+        certificateIds.length === 0 ||
+        !certificateIds.every(
+          (id) => typeof id === "string" && mongoose.isValidObjectId(id),
+        ))
+    ) {
+      return NextResponse.json(
+        { error: "certificateIds must be a non-empty array of IDs" },
+        { status: 400 },
+      );
+    }
+    if (certificateIds && certificateIds.length > MAX_EMAILS_PER_JOB) {
+      return NextResponse.json(
+        { error: `Maximum ${MAX_EMAILS_PER_JOB} emails per request.` },
+        { status: 400 },
+      );
+    }
+    const sendAt = parseSendAt(body.sendAt);
+
+    if (!isEmailConfigured()) {
+      logger.error("EMAIL", "Email transport not configured");
+      return NextResponse.json(
+        {
+          error: "Email service not configured. Please contact administrator.",
+        },
+        { status: 500 },
+      );
+    }
+
+    await connectDB();
+
+    const event: IEvent | null = await Event.findById(eventId);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+    if (certificateIds) {
+      const found = await Certificate.countDocuments({
+        _id: { $in: certificateIds },
+        eventId,
+      });
+      if (found !== new Set(certificateIds).size) {
+        return NextResponse.json(
+          { error: "Some certificates do not belong to this event" },
+          { status: 400 },
+        );
+      }
+    }
+
+    const schedule: IEmailSchedule = await EmailSchedule.create({
+      eventId,
+      certificateIds,
+      sendAt,
+      createdBy: admin.email,
+    });
+
+    await recordAudit(request, admin, {
+      action: "email_schedule.create",
+      targetType: "email_schedule",
+      targetIds: [schedule._id],
+      eventId: event._id,
+      after: { sendAt, certificateCount: certificateIds?.length ?? null },
+    });
+
+    logger.apiSuccess("POST", "/api/admin/emails/schedules", {
+      scheduleId: schedule._id.toString(),
+      sendAt,
+    });
+    return NextResponse.json(
+      {
+        success: true,
+        schedule: summarizeEmailSchedule(schedule, event.title),
+      },
+      { status: 201 },
+    );
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/emails/schedules", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const message = errorMessage(error);
+    return NextResponse.json(
+      {
+        error:
+          message === "Unknown error" ? "Failed to schedule emails" : message,
+      },
+      { status: message === "Unknown error" ? 500 : 400 },
+    );
+  }
+}
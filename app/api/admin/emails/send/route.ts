@@ -1,24 +1,30 @@
+import mongoose from "mongoose";
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { isForbiddenError, isUnauthorizedError } from "@/lib/requestValidation";
 import connectDB from "@/lib/db";
-import Certificate from "@/models/Certificate";
-import Event, { IEvent } from "@/models/Event"; // Required for model registration/population
+import Certificate, { ICertificate } from "@/models/Certificate";
 import {
-  renderEmailTemplate,
-  sendCertificateEmail,
-  EmailVariables,
-} from "@/lib/email";
+  createEmailJob,
+  MAX_EMAILS_PER_JOB,
+  summarizeEmailJob,
+} from "@/lib/emailJobs";
+import { isEmailConfigured } from "@/lib/emailTransport";
 import { logger } from "@/lib/logger";
 
-// Force node runtime for nodemailer compatibility
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
-export const maxDuration = 60; // Allow enough time for batch processing
 
+/**
+ * POST /api/admin/emails/send
+ * Queue certificate emails. Delivery happens in the email job, driven by
+ * /api/admin/emails/jobs/[jobId]/run and the cron worker.
+ */
 export async function POST(request: NextRequest) {
   logger.apiRequest("POST", "/api/admin/emails/send");
   try {
-    await requireAdmin(request);
+    const admin = await requireRole(request, "event_manager");
 
     const body = await request.json();
     const { certificateIds } = body as { certificateIds: string[] };
@@ -26,138 +32,95 @@ export async function POST(request: NextRequest) {
     if (
       !certificateIds ||
       !Array.isArray(certificateIds) ||
-      certificateIds.length === 0
+      certificateIds.length === 0 ||
+      !certificateIds.every((id) => mongoose.isValidObjectId(id))
     ) {
       return NextResponse.json(
         { error: "Invalid request. certificateIds array is required." },
         { status: 400 },
       );
     }
+    if (certificateIds.length > MAX_EMAILS_PER_JOB) {
+      return NextResponse.json(
+        { error: `Maximum ${MAX_EMAILS_PER_JOB} emails per request.` },
+        { status: 400 },
+      );
+    }
+
+    if (!isEmailConfigured()) {
+      logger.error("EMAIL", "Email transport not configured");
+      return NextResponse.json(
+        {
+          error: "Email service not configured. Please contact administrator.",
+        },
+        { status: 500 },
+      );
+    }
 
     await connectDB();
 
-    // 1. Fetch certificates and aggressively populate event details including the emailTemplate
-    const certificates = await Certificate.find({
+    const certificates: ICertificate[] = await Certificate.find({
       _id: { $in: certificateIds },
-    }).populate<{ eventId: IEvent }>("eventId");
-
-    let successCount = 0;
-    let failureCount = 0;
-    const errors: Array<{ certificateId: string; error: string }> = [];
-
-    const { formatDateRange, formatSingleDate } =
-      await import("@/lib/dateUtils");
-    const BASE_URL = (process.env.NEXT_PUBLIC_APP_URL || "").replace(
-      /\/+$/,
-      "",
-    );
-
-    // 2. Process each certificate
-    for (const cert of certificates) {
-      const certIdStr = cert._id.toString();
-      const event = cert.eventId;
-
-      try {
-        // Pre-flight checks per certificate
-        if (!event) {
-          throw new Error("Event data not found for certificate");
-        }
-
-        if (
-          !event.emailTemplate ||
-          !event.emailTemplate.subject ||
-          !event.emailTemplate.body
-        ) {
-          throw new Error("No email template configured for this event");
-        }
-
-        if (!cert.participantEmail) {
-          throw new Error("Participant has no email address configured");
-        }
-
-        // Prepare variable payload for templating
-        const variables: EmailVariables = {
-          participantName: cert.participantName,
-          eventName: event.title,
-          eventDate: formatDateRange(event.startDate, event.endDate),
-          certificateNumber: cert.certificateNumber,
-          certificateLink: cert.certificateUrl,
-          verificationLink: `${BASE_URL}/verify/${cert.certificateNumber}`,
-          issueDate: formatSingleDate(cert.issuedAt || new Date()),
-          organizer: event.organizer || "Event Organizer",
-        };
-
-        // Render dynamic Subject and Body
-        const subject = renderEmailTemplate(
-          event.emailTemplate.subject,
-          variables,
-        );
-        const htmlBody = renderEmailTemplate(
-          event.emailTemplate.body,
-          variables,
-        );
-
-        // Disptach Email (Nodemailer)
-        await sendCertificateEmail(cert.participantEmail, subject, htmlBody);
-
-        // Update database strictly on success
-        await Certificate.findByIdAndUpdate(cert._id, {
-          emailSentAt: new Date(),
-          emailStatus: "sent",
-          emailError: "",
-        });
-
-        successCount++;
-        logger.info(
-          "EMAIL",
-          `Sent certificate email to ${cert.participantEmail}`,
-        );
-      } catch (error: unknown) {
-        failureCount++;
-        const errorMessage =
-          error instanceof Error ? error.message : "Unknown error";
-
-        // Track failure on certificate
-        await Certificate.findByIdAndUpdate(cert._id, {
-          emailStatus: "failed",
-          emailError: errorMessage,
-        });
-
-        errors.push({
-          certificateId: certIdStr,
-          error: errorMessage,
-        });
-        logger.error(
-          "EMAIL",
-          `Failed to send email to cert ${certIdStr}`,
-          errorMessage,
-        );
-      }
+    }).select("_id eventId revokedAt");
+
+    // Revoked certificates are never mailed out, and their email status is left untouched
+    const sendable = certificates.filter((cert) => !cert.revokedAt);
+    const skipped = certificates
+      .filter((cert) => cert.revokedAt)
+      .map((cert) => ({
+        certificateId: cert._id.toString(),
+        error: "Certificate has been revoked",
+      }));
+
+    if (sendable.length === 0) {
+      return NextResponse.json(
+        { error: "No sendable certificates found.", skipped },
+        { status: 400 },
+      );
     }
 
+    const job = await createEmailJob(sendable);
+
+    const eventIds = new Set(sendable.map((cert) => cert.eventId.toString()));
+    await recordAudit(request, admin, {
+      action: "email.send",
+      targetType: "certificate",
+      targetIds: sendable.map((cert) => cert._id),
+      eventId: eventIds.size === 1 ? [...eventIds][0] : undefined,
+      details: {
+        jobId: job._id.toString(),
+        queued: sendable.length,
+        skipped: skipped.length,
+      },
+    });
+
     logger.apiSuccess("POST", "/api/admin/emails/send", {
       requested: certificateIds.length,
-      sent: successCount,
-      failed: failureCount,
+      jobId: job._id.toString(),
+      queued: sendable.length,
+      skipped: skipped.length,
     });
 
-    return NextResponse.json({
-      success: true,
-      sent: successCount,
-      failed: failureCount,
-      total: certificateIds.length,
-      errors: errors.length > 0 ? errors : undefined,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        job: summarizeEmailJob(job),
+        queued: sendable.length,
+        skipped: skipped.length,
+        errors: skipped.length > 0 ? skipped : undefined,
+      },
+      { status: 201 },
+    );
   } catch (error: unknown) {
     logger.apiError("POST", "/api/admin/emails/send", error);
-    if (
-      error instanceof Error &&
-      error.message === "Unauthorized: Invalid or missing token"
-    ) {
+    if (isUnauthorizedError(error)) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
     return NextResponse.json(
-      { error: "System error occurred while sending emails" },
+      { error: "System error occurred while queueing emails" },
       { status: 500 },
     );
   }
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/auth';
+import { requireRole } from '@/lib/auth';
+import { isForbiddenError } from '@/lib/requestValidation';
 import connectDB from '@/lib/db';
-import Certificate from '@/models/Certificate';
+import Certificate, { IDetailChange, IPdfVersion } from '@/models/Certificate';
 import Event from '@/models/Event';
+import type { ITeamMember } from '@/models/Team';
 import { logger } from '@/lib/logger';
+import { buildDownloadUrl } from '@/lib/downloadLinks';
+import { customFieldsToObject, DEFAULT_ACHIEVEMENT_TYPE } from '@/lib/achievements';
 
 interface RouteParams {
     params: Promise<{
@@ -18,7 +22,7 @@ export async function GET(
     logger.apiRequest('GET', '/api/admin/events/[eventId]/certificates');
     try {
         // Verify admin authentication
-        await requireAdmin(request);
+        await requireRole(request, 'viewer');
 
         const { eventId } = await params;
 
@@ -37,7 +41,7 @@ export async function GET(
         // Get all certificates for this event
         const certificates = await Certificate.find({ eventId })
             .sort({ issuedAt: -1 })
-            .select('certificateNumber participantName participantEmail certificateUrl issuedAt verificationHash emailStatus emailSentAt emailError');
+            .select('certificateNumber participantName participantEmail certificateUrl issuedAt verificationHash emailStatus emailSentAt emailError emailAttempts emailOpenedAt emailClickedAt emailBouncedAt emailBounceReason revokedAt revocationReason revocationNote source pdfHistory regeneratedAt detailHistory achievementType customFields teamName teamMembers isTeamCertificate');
 
         logger.apiSuccess('GET', '/api/admin/events/[eventId]/certificates', {
             eventId,
@@ -58,12 +62,38 @@ export async function GET(
                 certificateNumber: cert.certificateNumber,
                 participantName: cert.participantName,
                 participantEmail: cert.participantEmail || undefined,
-                certificateUrl: cert.certificateUrl,
+                certificateUrl: buildDownloadUrl(cert.certificateNumber),
                 verificationUrl: `${(process.env.NEXT_PUBLIC_APP_URL || '').replace(/\/+$/, '')}/verify/${cert.certificateNumber}`,
                 issuedAt: cert.issuedAt.toISOString(),
                 emailStatus: cert.emailStatus,
                 emailSentAt: cert.emailSentAt ? cert.emailSentAt.toISOString() : undefined,
                 emailError: cert.emailError,
+                emailAttempts: cert.emailAttempts,
+                emailOpenedAt: cert.emailOpenedAt ? cert.emailOpenedAt.toISOString() : undefined,
+                emailClickedAt: cert.emailClickedAt ? cert.emailClickedAt.toISOString() : undefined,
+                emailBouncedAt: cert.emailBouncedAt ? cert.emailBouncedAt.toISOString() : undefined,
+                emailBounceReason: cert.emailBounceReason,
+                revokedAt: cert.revokedAt ? cert.revokedAt.toISOString() : undefined,
+                revocationReason: cert.revocationReason,
+                revocationNote: cert.revocationNote,
+                source: cert.source || 'generated',
+                achievementType: cert.achievementType || DEFAULT_ACHIEVEMENT_TYPE,
+                customFields: customFieldsToObject(cert.customFields),
+                teamName: cert.teamName,
+                teamMembers: (cert.teamMembers || []).map((member: ITeamMember) => member.name),
+                isTeamCertificate: !!cert.isTeamCertificate,
+                regeneratedAt: cert.regeneratedAt ? cert.regeneratedAt.toISOString() : undefined,
+                pdfHistory: (cert.pdfHistory || []).map((version: IPdfVersion) => ({
+                    url: version.url,
+                    replacedAt: version.replacedAt.toISOString(),
+                })),
+                detailHistory: (cert.detailHistory || []).map((change: IDetailChange) => ({
+                    field: change.field,
+                    before: change.before,
+                    after: change.after,
+                    changedAt: change.changedAt.toISOString(),
+                    changedBy: change.changedBy,
+                })),
             })),
         });
     } catch (error: any) {
@@ -75,6 +105,9 @@ export async function GET(
                 { status: 401 }
             );
         }
+        if (isForbiddenError(error)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
 
         return NextResponse.json(
             { error: 'Failed to fetch certificates' },
@@ -1,6 +1,11 @@
+import mongoose from 'mongoose';
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/auth';
+import { requireRole } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { isForbiddenError } from '@/lib/requestValidation';
 import connectDB from '@/lib/db';
+import { findEmailContentProblems, getEmailTemplateOverrides, mergeEmailTemplate } from '@/lib/emailTemplates';
+import EmailTemplate, { IEmailTemplate } from '@/models/EmailTemplate';
 import Event from '@/models/Event';
 import { logger } from '@/lib/logger';
 
@@ -12,24 +17,29 @@ interface RouteParams {
 
 /**
  * GET /api/admin/events/[eventId]/email-template
- * Fetch the configured email template for an event
+ * Fetch the email template an event sends, with the library template it is
+ * based on, if any
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
     logger.apiRequest('GET', '/api/admin/events/[eventId]/email-template');
     try {
-        await requireAdmin(request);
+        await requireRole(request, 'viewer');
         const { eventId } = await params;
         
         await connectDB();
-        const event = await Event.findById(eventId).select('emailTemplate title startDate organizer');
+        const event = await Event.findById(eventId).select('emailTemplate emailTemplateId title startDate organizer');
         
         if (!event) {
             return NextResponse.json({ error: 'Event not found' }, { status: 404 });
         }
+        const libraryTemplate: IEmailTemplate | null = event.emailTemplateId
+            ? await EmailTemplate.findById(event.emailTemplateId)
+            : null;
 
         return NextResponse.json({
             success: true,
-            emailTemplate: event.emailTemplate || null,
+            emailTemplate: mergeEmailTemplate(libraryTemplate, event.emailTemplate),
+            libraryTemplate,
             event: {
                 title: event.title,
                 startDate: event.startDate,
@@ -41,21 +51,27 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         if (error.message === 'Unauthorized: Invalid or missing token') {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
+        if (isForbiddenError(error)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
         return NextResponse.json({ error: 'Failed to fetch email template' }, { status: 500 });
     }
 }
 
 /**
  * PUT /api/admin/events/[eventId]/email-template
- * Update the configured email template for an event
+ * Update the email template of an event. With `emailTemplateId` the event
+ * uses that library template (null to stop using one), and only the fields
+ * that differ from it are stored as the event's overrides. Templates with
+ * syntax errors, unknown variables or missing partials are rejected.
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
     logger.apiRequest('PUT', '/api/admin/events/[eventId]/email-template');
     try {
-        await requireAdmin(request);
+        const admin = await requireRole(request, 'event_manager');
         const { eventId } = await params;
         const body = await request.json();
-        const { subject, body: htmlBody } = body;
+        const { subject, body: htmlBody, attachPdf, inlineQr, emailTemplateId } = body;
 
         // Basic validation
         if (!subject || !htmlBody) {
@@ -64,17 +80,62 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
                 { status: 400 }
             );
         }
+        if (
+            (attachPdf !== undefined && typeof attachPdf !== 'boolean') ||
+            (inlineQr !== undefined && typeof inlineQr !== 'boolean')
+        ) {
+            return NextResponse.json(
+                { error: 'attachPdf and inlineQr must be booleans' },
+                { status: 400 }
+            );
+        }
+
+        if (emailTemplateId && !mongoose.isValidObjectId(emailTemplateId)) {
+            return NextResponse.json({ error: 'Invalid email template ID' }, { status: 400 });
+        }
 
         await connectDB();
-        
-        const event = await Event.findByIdAndUpdate(
-            eventId,
+
+        const problems = await findEmailContentProblems({ subject, body: htmlBody });
+        if (problems.length > 0) {
+            return NextResponse.json(
+                { error: `Template has problems: ${problems.join('; ')}`, problems },
+                { status: 400 }
+            );
+        }
+
+        const previous = await Event.findById(eventId).select('emailTemplate emailTemplateId');
+        if (!previous) {
+            return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+        }
+
+        // Without emailTemplateId in the request the event keeps its library template
+        const libraryTemplateId = emailTemplateId === undefined ? previous.emailTemplateId : emailTemplateId;
+        const libraryTemplate: IEmailTemplate | null = libraryTemplateId
+            ? await EmailTemplate.findById(libraryTemplateId)
+            : null;
+        if (libraryTemplateId && !libraryTemplate) {
+            return NextResponse.json({ error: 'Library email template not found' }, { status: 404 });
+        }
+        if (libraryTemplate?.isArchived && !libraryTemplate._id.equals(previous.emailTemplateId)) {
+            return NextResponse.json({ error: 'This email template is archived' }, { status: 400 });
+        }
+
+        const overrides = getEmailTemplateOverrides(
             {
-                emailTemplate: {
-                    subject,
-                    body: htmlBody
-                }
+                subject,
+                body: htmlBody,
+                attachPdf: attachPdf ?? previous.emailTemplate?.attachPdf ?? libraryTemplate?.attachPdf ?? false,
+                inlineQr: inlineQr ?? previous.emailTemplate?.inlineQr ?? libraryTemplate?.inlineQr ?? false,
             },
+            libraryTemplate
+        );
+
+        const event = await Event.findByIdAndUpdate(
+            eventId,
+            libraryTemplate
+                ? { $set: { emailTemplate: overrides, emailTemplateId: libraryTemplate._id } }
+                : { $set: { emailTemplate: overrides }, $unset: { emailTemplateId: '' } },
             { new: true, runValidators: true }
         );
 
@@ -82,11 +143,27 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
             return NextResponse.json({ error: 'Event not found' }, { status: 404 });
         }
 
+        await recordAudit(request, admin, {
+            action: 'email_template.update',
+            targetType: 'event',
+            targetIds: [event._id],
+            eventId: event._id,
+            before: {
+                emailTemplateId: previous.emailTemplateId ?? null,
+                emailTemplate: previous.emailTemplate ?? null,
+            },
+            after: {
+                emailTemplateId: event.emailTemplateId ?? null,
+                emailTemplate: event.emailTemplate,
+            },
+        });
+
         logger.apiSuccess('PUT', '/api/admin/events/[eventId]/email-template', { eventId });
 
         return NextResponse.json({
             success: true,
-            emailTemplate: event.emailTemplate,
+            emailTemplate: mergeEmailTemplate(libraryTemplate, event.emailTemplate),
+            libraryTemplate,
             message: 'Email template updated successfully'
         });
     } catch (error: any) {
@@ -94,6 +171,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         if (error.message === 'Unauthorized: Invalid or missing token') {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
+        if (isForbiddenError(error)) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
         return NextResponse.json({ error: 'Failed to update email template' }, { status: 500 });
     }
 }
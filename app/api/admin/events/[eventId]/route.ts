@@ -1,11 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import { auditSnapshot, EVENT_AUDIT_FIELDS, recordAudit } from "@/lib/audit";
+import { isForbiddenError } from "@/lib/requestValidation";
 import connectDB from "@/lib/db";
-import Event, { IEvent } from "@/models/Event";
+import Event, { ITemplateSlot, IEvent } from "@/models/Event";
+import Team from "@/models/Team";
 import Template from "@/models/Template";
 import Certificate from "@/models/Certificate";
 import { logger } from "@/lib/logger";
 import { validateTemplate, isValidTemplateFilename } from "@/lib/templateUtils";
+import {
+  CertificateNumberScheme,
+  normalizeNumberScheme,
+} from "@/lib/certificateUtils";
+import {
+  snapshotTemplateSlots,
+  summarizeTemplateSlots,
+} from "@/lib/templateSlots";
+import { readSignatoryIds, summarizeSignatoryIds } from "@/lib/signatories";
+import { readCustomFieldKeys } from "@/lib/achievements";
 import mongoose from "mongoose";
 
 interface RouteParams {
@@ -21,7 +34,7 @@ interface RouteParams {
 export async function GET(request: NextRequest, { params }: RouteParams) {
   logger.apiRequest("GET", "/api/admin/events/[eventId]");
   try {
-    await requireAdmin(request);
+    await requireRole(request, "viewer");
 
     const { eventId } = await params;
     if (!mongoose.isValidObjectId(eventId))
@@ -45,8 +58,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         organizer: event.organizer,
         template: event.template,
         templateId: event.templateId,
+        templateVersion: event.templateVersion ?? null,
         templateHtml: event.templateHtml,
         templateBackgroundUrl: event.templateBackgroundUrl,
+        templateSlots: summarizeTemplateSlots(event),
+        signatoryIds: summarizeSignatoryIds(event),
+        numberScheme: event.numberScheme ?? null,
+        privateDownloads: !!event.privateDownloads,
+        verifyCustomFields: event.verifyCustomFields ?? [],
         createdAt: event.createdAt,
         updatedAt: event.updatedAt,
       },
@@ -60,6 +79,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     return NextResponse.json(
       { error: "Failed to fetch event" },
@@ -75,7 +97,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   logger.apiRequest("PUT", "/api/admin/events/[eventId]");
   try {
-    await requireAdmin(request);
+    const admin = await requireRole(request, "event_manager");
 
     const { eventId } = await params;
     if (!mongoose.isValidObjectId(eventId))
@@ -109,6 +131,22 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // A null scheme switches the event back to the default number format.
+    // Changing it only affects certificates issued from now on.
+    let numberScheme: CertificateNumberScheme | null | undefined;
+    if (body.numberScheme === null) {
+      numberScheme = null;
+    } else if (body.numberScheme !== undefined) {
+      try {
+        numberScheme = normalizeNumberScheme(body.numberScheme);
+      } catch (error) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status: 400 },
+        );
+      }
+    }
+
     await connectDB();
 
     const currentEvent = await Event.findById(eventId);
@@ -118,6 +156,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
     let templateHtml = currentEvent.templateHtml || "";
     let templateBackgroundUrl = currentEvent.templateBackgroundUrl || "";
+    let templateVersion = currentEvent.templateVersion;
     let templateName = currentEvent.template;
     let finalTemplateId = currentEvent.templateId;
 
@@ -143,6 +182,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         }
         templateHtml = blueprint.html;
         templateBackgroundUrl = blueprint.backgroundUrl || "";
+        templateVersion = blueprint.version;
       }
       templateName = "";
       finalTemplateId = templateId;
@@ -169,6 +209,48 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       finalTemplateId = undefined;
     }
 
+    // Omitted keeps the current slots; an empty list removes them
+    let templateSlots: ITemplateSlot[] | undefined;
+    if (body.templateSlots !== undefined) {
+      try {
+        templateSlots = await snapshotTemplateSlots(
+          body.templateSlots,
+          currentEvent.templateSlots,
+        );
+      } catch (error) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status: 400 },
+        );
+      }
+    }
+
+    // Omitted keeps the current signatories; an empty list removes them
+    let signatoryIds: mongoose.Types.ObjectId[] | undefined;
+    if (body.signatoryIds !== undefined) {
+      try {
+        signatoryIds = await readSignatoryIds(body.signatoryIds);
+      } catch (error) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status: 400 },
+        );
+      }
+    }
+
+    // Omitted keeps the current list; an empty list hides every custom field
+    let verifyCustomFields: string[] | undefined;
+    if (body.verifyCustomFields !== undefined) {
+      try {
+        verifyCustomFields = readCustomFieldKeys(body.verifyCustomFields);
+      } catch (error) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status: 400 },
+        );
+      }
+    }
+
     const templateUpdate: mongoose.UpdateQuery<IEvent> = finalTemplateId
       ? {
           $set: {
@@ -176,13 +258,31 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
             templateId: finalTemplateId,
             templateHtml,
             templateBackgroundUrl,
+            ...(templateVersion !== undefined ? { templateVersion } : {}),
           },
+          // Blueprints saved before version history have no version
+          ...(templateVersion === undefined
+            ? { $unset: { templateVersion: 1 } }
+            : {}),
         }
       : {
           $set: { template: templateName },
-          $unset: { templateId: 1, templateHtml: 1, templateBackgroundUrl: 1 },
+          $unset: {
+            templateId: 1,
+            templateVersion: 1,
+            templateHtml: 1,
+            templateBackgroundUrl: 1,
+          },
         };
 
+    const $unset = {
+      ...templateUpdate.$unset,
+      ...(numberScheme === null ? { numberScheme: 1 } : {}),
+      ...(templateSlots?.length === 0 ? { templateSlots: 1 } : {}),
+      ...(signatoryIds?.length === 0 ? { signatoryIds: 1 } : {}),
+      ...(verifyCustomFields?.length === 0 ? { verifyCustomFields: 1 } : {}),
+    };
+
     // Explicitly unset snapshot fields when switching back to a legacy template.
     const event = await Event.findByIdAndUpdate(
       eventId,
@@ -194,7 +294,15 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
           startDate: new Date(startDate),
           endDate: new Date(eventEndDate),
           organizer,
+          ...(numberScheme ? { numberScheme } : {}),
+          ...(templateSlots?.length ? { templateSlots } : {}),
+          ...(signatoryIds?.length ? { signatoryIds } : {}),
+          ...(verifyCustomFields?.length ? { verifyCustomFields } : {}),
+          ...(typeof body.privateDownloads === "boolean"
+            ? { privateDownloads: body.privateDownloads }
+            : {}),
         },
+        ...(Object.keys($unset).length > 0 ? { $unset } : {}),
       },
       { new: true, runValidators: true },
     );
@@ -203,6 +311,15 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: "Event not found" }, { status: 404 });
     }
 
+    await recordAudit(request, admin, {
+      action: "event.update",
+      targetType: "event",
+      targetIds: [event._id],
+      eventId: event._id,
+      before: auditSnapshot(currentEvent, EVENT_AUDIT_FIELDS),
+      after: auditSnapshot(event, EVENT_AUDIT_FIELDS),
+    });
+
     logger.apiSuccess("PUT", "/api/admin/events/[eventId]", {
       eventId,
       title: event.title,
@@ -217,6 +334,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         endDate: event.endDate,
         organizer: event.organizer,
         template: event.template,
+        templateSlots: summarizeTemplateSlots(event),
+        signatoryIds: summarizeSignatoryIds(event),
+        numberScheme: event.numberScheme ?? null,
+        privateDownloads: !!event.privateDownloads,
+        verifyCustomFields: event.verifyCustomFields ?? [],
         updatedAt: event.updatedAt,
       },
     });
@@ -229,6 +351,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     return NextResponse.json(
       { error: "Failed to update event" },
@@ -244,7 +369,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   logger.apiRequest("DELETE", "/api/admin/events/[eventId]");
   try {
-    await requireAdmin(request);
+    const admin = await requireRole(request, "event_manager");
 
     const { eventId } = await params;
 
@@ -270,6 +395,15 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
     // Delete event
     await Event.findByIdAndDelete(eventId);
+    await Team.deleteMany({ eventId });
+
+    await recordAudit(request, admin, {
+      action: "event.delete",
+      targetType: "event",
+      targetIds: [event._id],
+      eventId: event._id,
+      before: auditSnapshot(event, EVENT_AUDIT_FIELDS),
+    });
 
     logger.apiSuccess("DELETE", "/api/admin/events/[eventId]", {
       eventId,
@@ -289,6 +423,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     return NextResponse.json(
       { error: "Failed to delete event" },
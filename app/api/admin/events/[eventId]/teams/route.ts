@@ -0,0 +1,61 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { isForbiddenError, isUnauthorizedError } from "@/lib/requestValidation";
+import { summarizeTeam } from "@/lib/teams";
+import Event from "@/models/Event";
+import Team, { ITeam } from "@/models/Team";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    eventId: string;
+  }>;
+}
+
+/**
+ * GET /api/admin/events/[eventId]/teams
+ * Teams of an event with their members, by name
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("GET", "/api/admin/events/[eventId]/teams");
+  try {
+    await requireRole(request, "viewer");
+    const { eventId } = await params;
+    if (!mongoose.isValidObjectId(eventId)) {
+      return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+    }
+
+    await connectDB();
+    if (!(await Event.exists({ _id: eventId }))) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const teams: ITeam[] = await Team.find({ eventId }).sort({ name: 1 });
+
+    logger.apiSuccess("GET", "/api/admin/events/[eventId]/teams", {
+      eventId,
+      count: teams.length,
+    });
+    return NextResponse.json({
+      success: true,
+      teams: teams.map(summarizeTeam),
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/events/[eventId]/teams", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch teams" },
+      { status: 500 },
+    );
+  }
+}
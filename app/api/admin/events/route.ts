@@ -1,17 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import { auditSnapshot, EVENT_AUDIT_FIELDS, recordAudit } from "@/lib/audit";
+import { isForbiddenError } from "@/lib/requestValidation";
 import connectDB from "@/lib/db";
-import Event from "@/models/Event";
+import Event, { ITemplateSlot } from "@/models/Event";
 import Template from "@/models/Template";
 import { logger } from "@/lib/logger";
 import { validateTemplate, isValidTemplateFilename } from "@/lib/templateUtils";
+import {
+  CertificateNumberScheme,
+  normalizeNumberScheme,
+} from "@/lib/certificateUtils";
+import {
+  snapshotTemplateSlots,
+  summarizeTemplateSlots,
+} from "@/lib/templateSlots";
+import { readSignatoryIds, summarizeSignatoryIds } from "@/lib/signatories";
+import { readCustomFieldKeys } from "@/lib/achievements";
 import mongoose from "mongoose";
 
 export async function POST(request: NextRequest) {
   logger.apiRequest("POST", "/api/admin/events");
   try {
     // Verify admin authentication
-    await requireAdmin(request);
+    const admin = await requireRole(request, "event_manager");
 
     const body = await request.json();
     const { title, startDate, endDate, organizer, template, templateId } = body;
@@ -42,11 +54,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let numberScheme: CertificateNumberScheme | undefined;
+    if (body.numberScheme) {
+      try {
+        numberScheme = normalizeNumberScheme(body.numberScheme);
+      } catch (error) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status: 400 },
+        );
+      }
+    }
+
     // Connect to database
     await connectDB();
 
     let templateHtml = "";
     let templateBackgroundUrl = "";
+    let templateVersion: number | undefined;
     let templateName = template || "certificate-default.html";
 
     if (templateId) {
@@ -69,6 +94,7 @@ export async function POST(request: NextRequest) {
       }
       templateHtml = blueprint.html;
       templateBackgroundUrl = blueprint.backgroundUrl || "";
+      templateVersion = blueprint.version;
       templateName = ""; // Mark as not file-based
     } else {
       // Legacy File-based approach
@@ -87,6 +113,42 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    let templateSlots: ITemplateSlot[] = [];
+    if (body.templateSlots !== undefined) {
+      try {
+        templateSlots = await snapshotTemplateSlots(body.templateSlots);
+      } catch (error) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status: 400 },
+        );
+      }
+    }
+
+    let signatoryIds: mongoose.Types.ObjectId[] = [];
+    if (body.signatoryIds !== undefined) {
+      try {
+        signatoryIds = await readSignatoryIds(body.signatoryIds);
+      } catch (error) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status: 400 },
+        );
+      }
+    }
+
+    let verifyCustomFields: string[] = [];
+    if (body.verifyCustomFields !== undefined) {
+      try {
+        verifyCustomFields = readCustomFieldKeys(body.verifyCustomFields);
+      } catch (error) {
+        return NextResponse.json(
+          { error: (error as Error).message },
+          { status: 400 },
+        );
+      }
+    }
+
     // Create event
     const event = await Event.create({
       title,
@@ -95,8 +157,23 @@ export async function POST(request: NextRequest) {
       organizer,
       template: templateName,
       templateId: templateId || undefined,
+      templateVersion,
       templateHtml: templateHtml || undefined,
       templateBackgroundUrl: templateBackgroundUrl || undefined,
+      templateSlots: templateSlots.length > 0 ? templateSlots : undefined,
+      signatoryIds: signatoryIds.length > 0 ? signatoryIds : undefined,
+      numberScheme,
+      privateDownloads: body.privateDownloads === true,
+      verifyCustomFields:
+        verifyCustomFields.length > 0 ? verifyCustomFields : undefined,
+    });
+
+    await recordAudit(request, admin, {
+      action: "event.create",
+      targetType: "event",
+      targetIds: [event._id],
+      eventId: event._id,
+      after: auditSnapshot(event, EVENT_AUDIT_FIELDS),
     });
 
     logger.apiSuccess("POST", "/api/admin/events", {
@@ -115,6 +192,11 @@ export async function POST(request: NextRequest) {
         organizer: event.organizer,
         template: event.template,
         templateId: event.templateId,
+        templateSlots: summarizeTemplateSlots(event),
+        signatoryIds: summarizeSignatoryIds(event),
+        numberScheme: event.numberScheme ?? null,
+        privateDownloads: !!event.privateDownloads,
+        verifyCustomFields: event.verifyCustomFields ?? [],
         createdAt: event.createdAt,
       },
     });
@@ -127,6 +209,9 @@ export async function POST(request: NextRequest) {
     ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     return NextResponse.json(
       { error: "Failed to create event" },
@@ -139,7 +224,7 @@ export async function GET(request: NextRequest) {
   logger.apiRequest("GET", "/api/admin/events");
   try {
     // Verify admin authentication
-    await requireAdmin(request);
+    await requireRole(request, "viewer");
 
     // Connect to database
     await connectDB();
@@ -158,6 +243,11 @@ export async function GET(request: NextRequest) {
         organizer: event.organizer,
         template: event.template,
         templateId: event.templateId,
+        templateSlots: summarizeTemplateSlots(event),
+        signatoryIds: summarizeSignatoryIds(event),
+        numberScheme: event.numberScheme ?? null,
+        privateDownloads: !!event.privateDownloads,
+        verifyCustomFields: event.verifyCustomFields ?? [],
         createdAt: event.createdAt,
       })),
     });
@@ -170,6 +260,9 @@ export async function GET(request: NextRequest) {
     ) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
 
     return NextResponse.json(
       { error: "Failed to fetch events" },
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { setAuthCookie } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import {
+  hashInviteToken,
+  hashPassword,
+  validatePassword,
+} from "@/lib/adminUsers";
+import connectDB from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { errorMessage, isRecord } from "@/lib/requestValidation";
+import { ADMIN_ROLE_LABELS } from "@/lib/roles";
+import AdminUser, { IAdminUser } from "@/models/AdminUser";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+async function findPendingInvite(token: string): Promise<IAdminUser | null> {
+  await connectDB();
+  return AdminUser.findOne({
+    inviteTokenHash: hashInviteToken(token),
+    status: "invited",
+    inviteExpiresAt: { $gt: new Date() },
+  });
+}
+
+/**
+ * GET /api/admin/invite/[token]
+ * Look up a pending invite so the accept page can greet the invitee
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params;
+    const user = await findPendingInvite(token);
+    if (!user) {
+      return NextResponse.json(
+        { error: "This invite link is invalid or has expired" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      invite: {
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        roleLabel: ADMIN_ROLE_LABELS[user.role],
+      },
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/invite/[token]", error);
+    return NextResponse.json(
+      { error: "Failed to load invite" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/invite/[token]
+ * Accept an invite by choosing a password; signs the new admin in
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("POST", "/api/admin/invite/[token]");
+  try {
+    const { token } = await params;
+    const body: unknown = await request.json().catch(() => null);
+    if (!isRecord(body)) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+    const password = validatePassword(body.password);
+
+    const pending = await findPendingInvite(token);
+    if (!pending) {
+      return NextResponse.json(
+        { error: "This invite link is invalid or has expired" },
+        { status: 404 },
+      );
+    }
+
+    // Guard on the token hash so a link can only be redeemed once
+    const user: IAdminUser | null = await AdminUser.findOneAndUpdate(
+      {
+        _id: pending._id,
+        status: "invited",
+        inviteTokenHash: hashInviteToken(token),
+      },
+      {
+        $set: {
+          status: "active",
+          passwordHash: await hashPassword(password),
+          lastLoginAt: new Date(),
+        },
+        $unset: { inviteTokenHash: "", inviteExpiresAt: "" },
+      },
+      { new: true },
+    );
+    if (!user) {
+      return NextResponse.json(
+        { error: "This invite link is invalid or has expired" },
+        { status: 404 },
+      );
+    }
+
+    await recordAudit(
+      request,
+      { userId: user._id.toString(), email: user.email, role: user.role },
+      {
+        action: "admin.invite_accept",
+        targetType: "admin_user",
+        targetIds: [user._id],
+        before: { status: "invited" },
+        after: { status: user.status },
+      },
+    );
+
+    const response = NextResponse.json({
+      success: true,
+      message: "Invite accepted",
+    });
+    setAuthCookie(response, user);
+
+    logger.authSuccess(user.email);
+    return response;
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/invite/[token]", error);
+    const message = errorMessage(error);
+    if (message.startsWith("Password")) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Failed to accept invite" },
+      { status: 500 },
+    );
+  }
+}
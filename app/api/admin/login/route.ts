@@ -1,31 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAdminKey, generateToken } from '@/lib/auth';
+import { setAuthCookie } from '@/lib/auth';
+import { verifyPassword } from '@/lib/adminUsers';
+import connectDB from '@/lib/db';
 import { logger } from '@/lib/logger';
+import AdminUser, { IAdminUser } from '@/models/AdminUser';
 
 export async function POST(request: NextRequest) {
     logger.apiRequest('POST', '/api/admin/login');
     try {
         const body = await request.json();
-        const { adminKey } = body;
+        const { email, password } = body;
 
-        if (!adminKey) {
+        if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
             return NextResponse.json(
-                { error: 'Admin key is required' },
+                { error: 'Email and password are required' },
                 { status: 400 }
             );
         }
 
-        // Verify admin key
-        if (!verifyAdminKey(adminKey)) {
-            logger.authFailure('admin', 'Invalid admin key');
+        const normalizedEmail = email.trim().toLowerCase();
+        logger.authAttempt(normalizedEmail);
+
+        await connectDB();
+        const user: IAdminUser | null = await AdminUser.findOne({ email: normalizedEmail }, '+passwordHash');
+
+        // Verify password (runs even for unknown emails to keep timing uniform)
+        const isValid = await verifyPassword(password, user?.passwordHash);
+        if (!user || !isValid) {
+            logger.authFailure(normalizedEmail, 'Invalid email or password');
             return NextResponse.json(
-                { error: 'Invalid admin key' },
+                { error: 'Invalid email or password' },
                 { status: 401 }
             );
         }
 
-        // Generate JWT token
-        const token = generateToken('3h');
+        if (user.status !== 'active') {
+            logger.authFailure(normalizedEmail, `Account is ${user.status}`);
+            return NextResponse.json(
+                { error: 'This account has been disabled' },
+                { status: 403 }
+            );
+        }
+
+        await AdminUser.updateOne({ _id: user._id }, { $set: { lastLoginAt: new Date() } });
 
         // Create response
         const response = NextResponse.json({
@@ -34,15 +51,9 @@ export async function POST(request: NextRequest) {
         });
 
         // Set HTTP-only cookie
-        response.cookies.set('authToken', token, {
-            httpOnly: true,
-            sameSite: 'strict',
-            secure: process.env.NODE_ENV === 'production',
-            maxAge: 60 * 60 * 3, // 3 hours
-            path: '/',
-        });
+        setAuthCookie(response, user);
 
-        logger.authSuccess('admin');
+        logger.authSuccess(normalizedEmail);
         return response;
     } catch (error) {
         logger.apiError('POST', '/api/admin/login', error);
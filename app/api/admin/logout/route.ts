@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { AUTH_COOKIE_NAME } from '@/lib/auth';
 import { logger } from '@/lib/logger';
 
 export async function POST() {
@@ -11,7 +12,7 @@ export async function POST() {
         });
 
         // Clear the authentication cookie
-        response.cookies.delete('authToken');
+        response.cookies.delete(AUTH_COOKIE_NAME);
 
         return response;
     } catch (error) {
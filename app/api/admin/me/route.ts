@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { isUnauthorizedError } from "@/lib/requestValidation";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/admin/me
+ * The signed-in admin, so the UI can adapt to their role
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireRole(request);
+    return NextResponse.json({ success: true, admin });
+  } catch (error: unknown) {
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return NextResponse.json(
+      { error: "Failed to load account" },
+      { status: 500 },
+    );
+  }
+}
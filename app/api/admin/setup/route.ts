@@ -0,0 +1,112 @@
+/**
+ * /api/admin/setup
+ * One-time bootstrap: while no admin accounts exist, the holder of ADMIN_KEY
+ * can create the first owner. Afterwards owners invite everyone else.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { setAuthCookie, verifyAdminKey } from "@/lib/auth";
+import {
+  ADMIN_USER_AUDIT_FIELDS,
+  auditSnapshot,
+  recordAudit,
+} from "@/lib/audit";
+import {
+  hashPassword,
+  validateEmail,
+  validatePassword,
+} from "@/lib/adminUsers";
+import connectDB from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isRecord,
+  readRequiredString,
+} from "@/lib/requestValidation";
+import AdminUser from "@/models/AdminUser";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    await connectDB();
+    const needsSetup = (await AdminUser.countDocuments()) === 0;
+    return NextResponse.json({ needsSetup });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/setup", error);
+    return NextResponse.json(
+      { error: "Failed to check setup status" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/admin/setup");
+  try {
+    const body: unknown = await request.json().catch(() => null);
+    if (!isRecord(body)) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+
+    if (typeof body.adminKey !== "string" || !verifyAdminKey(body.adminKey)) {
+      logger.authFailure("setup", "Invalid admin key");
+      return NextResponse.json({ error: "Invalid admin key" }, { status: 401 });
+    }
+
+    const name = readRequiredString(body.name, "Name", 100);
+    const email = validateEmail(body.email);
+    const password = validatePassword(body.password);
+
+    await connectDB();
+    if ((await AdminUser.countDocuments()) > 0) {
+      return NextResponse.json(
+        { error: "Setup has already been completed" },
+        { status: 409 },
+      );
+    }
+
+    const owner = await AdminUser.create({
+      email,
+      name,
+      role: "owner",
+      status: "active",
+      passwordHash: await hashPassword(password),
+      lastLoginAt: new Date(),
+    });
+
+    await recordAudit(
+      request,
+      { userId: owner._id.toString(), email: owner.email, role: owner.role },
+      {
+        action: "admin.setup",
+        targetType: "admin_user",
+        targetIds: [owner._id],
+        after: auditSnapshot(owner, ADMIN_USER_AUDIT_FIELDS),
+      },
+    );
+
+    const response = NextResponse.json(
+      { success: true, message: "Owner account created" },
+      { status: 201 },
+    );
+    setAuthCookie(response, owner);
+
+    logger.apiSuccess("POST", "/api/admin/setup", { email });
+    return response;
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/setup", error);
+    const message = errorMessage(error);
+    if (
+      message.includes("required") ||
+      message.includes("must") ||
+      message.includes("too long")
+    ) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Failed to create owner account" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  auditSnapshot,
+  recordAudit,
+  SIGNATORY_AUDIT_FIELDS,
+} from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { countSignatoryUses, summarizeSignatory } from "@/lib/signatories";
+import Signatory, { ISignatory } from "@/models/Signatory";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isRecord,
+  isForbiddenError,
+  isUnauthorizedError,
+  readRequiredString,
+  validateOptionalHttpUrl,
+} from "@/lib/requestValidation";
+
+interface RouteParams {
+  params: Promise<{
+    signatoryId: string;
+  }>;
+}
+
+/**
+ * PUT /api/admin/signatories/[signatoryId]
+ * Update the `name`, `designation` or `signatureUrl` of a signatory. Issued
+ * certificates keep the details they were signed with.
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const { signatoryId } = await params;
+  logger.apiRequest("PUT", `/api/admin/signatories/${signatoryId}`);
+  try {
+    const admin = await requireRole(request, "event_manager");
+    if (!mongoose.isValidObjectId(signatoryId))
+      return NextResponse.json(
+        { error: "Invalid signatory ID" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const body: unknown = await request.json();
+    if (!isRecord(body))
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+
+    const updates: Record<string, string> = {};
+    if ("name" in body)
+      updates.name = readRequiredString(body.name, "Name", 100);
+    if ("designation" in body)
+      updates.designation = readRequiredString(
+        body.designation,
+        "Designation",
+        100,
+      );
+    if ("signatureUrl" in body) {
+      const signatureUrl = validateOptionalHttpUrl(
+        body.signatureUrl,
+        "Signature image URL",
+      );
+      if (!signatureUrl)
+        return NextResponse.json(
+          { error: "Signature image is required" },
+          { status: 400 },
+        );
+      updates.signatureUrl = signatureUrl;
+    }
+    if (Object.keys(updates).length === 0)
+      return NextResponse.json(
+        { error: "No valid fields to update" },
+        { status: 400 },
+      );
+
+    const previous: ISignatory | null = await Signatory.findById(signatoryId);
+    const signatory: ISignatory | null = previous
+      ? await Signatory.findByIdAndUpdate(signatoryId, updates, {
+          new: true,
+          runValidators: true,
+        })
+      : null;
+
+    if (!signatory) {
+      return NextResponse.json(
+        { error: "Signatory not found" },
+        { status: 404 },
+      );
+    }
+
+    await recordAudit(request, admin, {
+      action: "signatory.update",
+      targetType: "signatory",
+      targetIds: [signatory._id],
+      before: auditSnapshot(previous, SIGNATORY_AUDIT_FIELDS),
+      after: auditSnapshot(signatory, SIGNATORY_AUDIT_FIELDS),
+    });
+
+    logger.apiSuccess("PUT", `/api/admin/signatories/${signatoryId}`);
+    return NextResponse.json({
+      success: true,
+      signatory: summarizeSignatory(signatory),
+    });
+  } catch (error: unknown) {
+    logger.apiError("PUT", `/api/admin/signatories/${signatoryId}`, error);
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const message = errorMessage(error);
+    return NextResponse.json(
+      {
+        error:
+          message === "Unknown error" ? "Failed to update signatory" : message,
+      },
+      { status: message === "Unknown error" ? 500 : 400 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/signatories/[signatoryId]
+ * Delete a signatory that no event uses. The signature image is kept, since
+ * issued certificates still link to it.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { signatoryId } = await params;
+  logger.apiRequest("DELETE", `/api/admin/signatories/${signatoryId}`);
+  try {
+    const admin = await requireRole(request, "event_manager");
+    if (!mongoose.isValidObjectId(signatoryId))
+      return NextResponse.json(
+        { error: "Invalid signatory ID" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const signatory: ISignatory | null = await Signatory.findById(signatoryId);
+    if (!signatory) {
+      return NextResponse.json(
+        { error: "Signatory not found" },
+        { status: 404 },
+      );
+    }
+
+    const uses = await countSignatoryUses(signatory._id);
+    if (uses > 0)
+      return NextResponse.json(
+        {
+          error: `${signatory.name} signs the certificates of ${uses} event(s). Remove them from those events first.`,
+        },
+        { status: 409 },
+      );
+
+    await Signatory.deleteOne({ _id: signatory._id });
+
+    await recordAudit(request, admin, {
+      action: "signatory.delete",
+      targetType: "signatory",
+      targetIds: [signatory._id],
+      before: auditSnapshot(signatory, SIGNATORY_AUDIT_FIELDS),
+    });
+
+    logger.info("SIGNATORY", `Signatory deleted: ${signatory.name}`);
+    return NextResponse.json({
+      success: true,
+      message: "Signatory deleted successfully",
+    });
+  } catch (error: unknown) {
+    logger.apiError("DELETE", `/api/admin/signatories/${signatoryId}`, error);
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    return NextResponse.json(
+      { error: "Failed to delete signatory" },
+      { status: 500 },
+    );
+  }
+}
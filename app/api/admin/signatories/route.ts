@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  auditSnapshot,
+  recordAudit,
+  SIGNATORY_AUDIT_FIELDS,
+} from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { summarizeSignatory } from "@/lib/signatories";
+import Signatory, { ISignatory } from "@/models/Signatory";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isRecord,
+  isForbiddenError,
+  isUnauthorizedError,
+  readRequiredString,
+  validateOptionalHttpUrl,
+} from "@/lib/requestValidation";
+
+/**
+ * GET /api/admin/signatories
+ * List the people who can sign certificates
+ */
+export async function GET(request: NextRequest) {
+  logger.apiRequest("GET", "/api/admin/signatories");
+  try {
+    await requireRole(request, "viewer");
+    await connectDB();
+
+    const signatories: ISignatory[] = await Signatory.find({}).sort({
+      name: 1,
+    });
+
+    logger.apiSuccess("GET", "/api/admin/signatories", {
+      count: signatories.length,
+    });
+    return NextResponse.json({
+      success: true,
+      signatories: signatories.map(summarizeSignatory),
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/signatories", error);
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const unauthorized = isUnauthorizedError(error);
+    return NextResponse.json(
+      {
+        error: unauthorized ? "Unauthorized" : "Failed to fetch signatories",
+      },
+      { status: unauthorized ? 401 : 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/signatories
+ * Create a signatory from `name`, `designation` and the `signatureUrl` of
+ * an image uploaded with purpose=signature
+ */
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/admin/signatories");
+  try {
+    const admin = await requireRole(request, "event_manager");
+    await connectDB();
+
+    const body: unknown = await request.json();
+    if (!isRecord(body))
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+
+    const name = readRequiredString(body.name, "Name", 100);
+    const designation = readRequiredString(
+      body.designation,
+      "Designation",
+      100,
+    );
+    const signatureUrl = validateOptionalHttpUrl(
+      body.signatureUrl,
+      "Signature image URL",
+    );
+    if (!signatureUrl)
+      return NextResponse.json(
+        { error: "Signature image is required" },
+        { status: 400 },
+      );
+
+    const signatory: ISignatory = await Signatory.create({
+      name,
+      designation,
+      signatureUrl,
+    });
+
+    await recordAudit(request, admin, {
+      action: "signatory.create",
+      targetType: "signatory",
+      targetIds: [signatory._id],
+      after: auditSnapshot(signatory, SIGNATORY_AUDIT_FIELDS),
+    });
+
+    logger.apiSuccess("POST", "/api/admin/signatories", {
+      signatoryId: signatory._id,
+    });
+    return NextResponse.json(
+      { success: true, signatory: summarizeSignatory(signatory) },
+      { status: 201 },
+    );
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/signatories", error);
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const unauthorized = isUnauthorizedError(error);
+    const message = errorMessage(error);
+    return NextResponse.json(
+      {
+        error: unauthorized
+          ? "Unauthorized"
+          : message === "Unknown error"
+            ? "Failed to create signatory"
+            : message,
+      },
+      { status: unauthorized ? 401 : message === "Unknown error" ? 500 : 400 },
+    );
+  }
+}
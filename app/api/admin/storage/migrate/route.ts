@@ -0,0 +1,170 @@
+/**
+ * POST /api/admin/storage/migrate
+ * Copy certificate PDFs from one storage backend to another and rewrite
+ * certificateUrl/cloudinaryPublicId. Each call works for one time slice;
+ * repeat it with the returned cursor until `remaining` is 0. Body:
+ * { from, to, eventId?, after?, deleteSource? }
+ */
+
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isForbiddenError,
+  isRecord,
+  isUnauthorizedError,
+} from "@/lib/requestValidation";
+import {
+  getStorageBackend,
+  isStorageBackendName,
+  STORAGE_BACKENDS,
+} from "@/lib/storage";
+import { migrateCertificateStorage } from "@/lib/storageMigration";
+import Certificate, { ICertificate } from "@/models/Certificate";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+
+// Stop starting new certificates well before the platform kills the function
+const RUN_BUDGET_MS = 40_000;
+const BATCH_SIZE = 20;
+
+export async function POST(request: NextRequest) {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  logger.apiRequest("POST", "/api/admin/storage/migrate");
+  try {
+    const admin = await requireRole(request, "owner");
+
+    const body: unknown = await request.json().catch(() => null);
+    if (
+      !isRecord(body) ||
+      !isStorageBackendName(body.from) ||
+      !isStorageBackendName(body.to)
+    ) {
+      return NextResponse.json(
+        { error: `from and to must be one of: ${STORAGE_BACKENDS.join(", ")}` },
+        { status: 400 },
+      );
+    }
+    const { from, to } = body;
+    if (from === to) {
+      return NextResponse.json(
+        { error: "from and to must be different backends" },
+        { status: 400 },
+      );
+    }
+    for (const id of [body.eventId, body.after]) {
+      if (
+        id !== undefined &&
+        (typeof id !== "string" || !mongoose.isValidObjectId(id))
+      ) {
+        return NextResponse.json(
+          { error: "eventId and after must be valid IDs" },
+          { status: 400 },
+        );
+      }
+    }
+    if (!getStorageBackend(from).isConfigured()) {
+      return NextResponse.json(
+        { error: `Storage backend "${from}" is not configured` },
+        { status: 400 },
+      );
+    }
+    if (!getStorageBackend(to).isConfigured()) {
+      return NextResponse.json(
+        { error: `Storage backend "${to}" is not configured` },
+        { status: 400 },
+      );
+    }
+    const deleteSource = body.deleteSource === true;
+
+    await connectDB();
+    // Certificates stored before backends were configurable have no
+    // storageBackend and live on Cloudinary
+    const filter: mongoose.QueryFilter<ICertificate> = {
+      storageBackend: from === "cloudinary" ? { $in: [null, from] } : from,
+      ...(typeof body.eventId === "string" ? { eventId: body.eventId } : {}),
+    };
+    let cursor = typeof body.after === "string" ? body.after : null;
+    const migratedIds: mongoose.Types.ObjectId[] = [];
+    const failed: Array<{ certificateNumber: string; error: string }> = [];
+
+    while (Date.now() < deadline) {
+      const batch: ICertificate[] = await Certificate.find({
+        ...filter,
+        ...(cursor ? { _id: { $gt: cursor } } : {}),
+      })
+        .sort({ _id: 1 })
+        .limit(BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      for (const certificate of batch) {
+        if (Date.now() >= deadline) break;
+        try {
+          await migrateCertificateStorage(certificate, to, deleteSource);
+          migratedIds.push(certificate._id);
+        } catch (error: unknown) {
+          logger.error(
+            "STORAGE",
+            `Failed to migrate ${certificate.certificateNumber}`,
+            error,
+          );
+          failed.push({
+            certificateNumber: certificate.certificateNumber,
+            error: errorMessage(error),
+          });
+        }
+        cursor = certificate._id.toString();
+      }
+    }
+
+    // Failed certificates stay behind the cursor; run again without `after`
+    // to retry them
+    const remaining = await Certificate.countDocuments({
+      ...filter,
+      ...(cursor ? { _id: { $gt: cursor } } : {}),
+    });
+
+    if (migratedIds.length > 0) {
+      await recordAudit(request, admin, {
+        action: "storage.migrate",
+        targetType: "certificate",
+        targetIds: migratedIds,
+        eventId: typeof body.eventId === "string" ? body.eventId : null,
+        details: { from, to, deleteSource, failed: failed.length },
+      });
+    }
+
+    logger.apiSuccess("POST", "/api/admin/storage/migrate", {
+      from,
+      to,
+      migrated: migratedIds.length,
+      failed: failed.length,
+      remaining,
+    });
+    return NextResponse.json({
+      success: true,
+      migrated: migratedIds.length,
+      failed,
+      remaining,
+      cursor,
+    });
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/storage/migrate", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to migrate storage" },
+      { status: 500 },
+    );
+  }
+}
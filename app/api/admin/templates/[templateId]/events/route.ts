@@ -0,0 +1,163 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isForbiddenError,
+  isRecord,
+  isUnauthorizedError,
+} from "@/lib/requestValidation";
+import { listTemplateEvents, pushTemplateUpdate } from "@/lib/templateVersions";
+import Template, { ITemplate } from "@/models/Template";
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+/**
+ * GET /api/admin/templates/[templateId]/events
+ * Events using the blueprint, with the version each of them snapshotted
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { templateId } = await params;
+  logger.apiRequest("GET", `/api/admin/templates/${templateId}/events`);
+  try {
+    await requireRole(request, "viewer");
+    if (!mongoose.isValidObjectId(templateId))
+      return NextResponse.json(
+        { error: "Invalid template ID" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const template: ITemplate | null = await Template.findById(templateId);
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 },
+      );
+    }
+
+    const events = await listTemplateEvents(template);
+
+    logger.apiSuccess("GET", `/api/admin/templates/${templateId}/events`, {
+      count: events.length,
+    });
+    return NextResponse.json({
+      success: true,
+      currentVersion: template.version ?? null,
+      events,
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", `/api/admin/templates/${templateId}/events`, error);
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    return NextResponse.json(
+      { error: "Failed to fetch template events" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/admin/templates/[templateId]/events
+ * Push the blueprint's current version to the events in `eventIds`, or to
+ * every event with an outdated snapshot. Issued certificates change only
+ * when they are regenerated.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { templateId } = await params;
+  logger.apiRequest("POST", `/api/admin/templates/${templateId}/events`);
+  try {
+    const admin = await requireRole(request, "event_manager");
+    if (!mongoose.isValidObjectId(templateId))
+      return NextResponse.json(
+        { error: "Invalid template ID" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const body: unknown = await request.json().catch(() => ({}));
+    if (!isRecord(body))
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+    const { eventIds } = body;
+    if (
+      eventIds !== undefined &&
+      (!Array.isArray(eventIds) ||
+        !eventIds.every(
+          (id) => typeof id === "string" && mongoose.isValidObjectId(id),
+        ))
+    )
+      return NextResponse.json(
+        { error: "eventIds must be a list of event IDs" },
+        { status: 400 },
+      );
+
+    const template: ITemplate | null = await Template.findById(templateId);
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 },
+      );
+    }
+    if (template.isArchived) {
+      return NextResponse.json(
+        { error: "Restore the blueprint before pushing it to events" },
+        { status: 400 },
+      );
+    }
+
+    const requested = eventIds ? new Set<string>(eventIds) : null;
+    const outdated = (await listTemplateEvents(template)).filter(
+      (event) =>
+        event.isOutdated && (requested === null || requested.has(event.id)),
+    );
+    if (outdated.length > 0) {
+      await pushTemplateUpdate(
+        template,
+        outdated.map((event) => new mongoose.Types.ObjectId(event.id)),
+      );
+    }
+
+    await recordAudit(request, admin, {
+      action: "template.push",
+      targetType: "template",
+      targetIds: [template._id],
+      details: {
+        version: template.version ?? null,
+        eventIds: outdated.map((event) => event.id),
+      },
+    });
+
+    logger.apiSuccess("POST", `/api/admin/templates/${templateId}/events`, {
+      updated: outdated.length,
+    });
+    return NextResponse.json({ success: true, updated: outdated.length });
+  } catch (error: unknown) {
+    logger.apiError("POST", `/api/admin/templates/${templateId}/events`, error);
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const message = errorMessage(error);
+    return NextResponse.json(
+      {
+        error:
+          message === "Unknown error"
+            ? "Failed to push template update"
+            : message,
+      },
+      { status: message === "Unknown error" ? 500 : 400 },
+    );
+  }
+}
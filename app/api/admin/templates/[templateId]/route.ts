@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import { auditSnapshot, recordAudit, TEMPLATE_AUDIT_FIELDS } from "@/lib/audit";
 import connectDB from "@/lib/db";
-import Template from "@/models/Template";
+import Template, { ITemplate } from "@/models/Template";
 import { logger } from "@/lib/logger";
+import {
+  isSameDesign,
+  isTemplateVersionConflict,
+  saveTemplateVersion,
+} from "@/lib/templateVersions";
 import mongoose from "mongoose";
 import {
   errorMessage,
   isRecord,
+  isForbiddenError,
   isUnauthorizedError,
   readOptionalString,
   readRequiredString,
@@ -24,7 +31,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   const { templateId } = await params;
   logger.apiRequest("GET", `/api/admin/templates/${templateId}`);
   try {
-    await requireAdmin(request);
+    await requireRole(request, "viewer");
     if (!mongoose.isValidObjectId(templateId))
       return NextResponse.json(
         { error: "Invalid template ID" },
@@ -45,6 +52,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     logger.apiError("GET", `/api/admin/templates/${templateId}`, error);
     if (isUnauthorizedError(error))
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     return NextResponse.json(
       { error: "Failed to fetch template" },
       { status: 500 },
@@ -52,11 +61,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 }
 
+/**
+ * PUT /api/admin/templates/[templateId]
+ * Update a blueprint. A changed `html` or `backgroundUrl` is saved as a new
+ * version, with an optional version `note`.
+ */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   const { templateId } = await params;
   logger.apiRequest("PUT", `/api/admin/templates/${templateId}`);
   try {
-    await requireAdmin(request);
+    const admin = await requireRole(request, "event_manager");
     if (!mongoose.isValidObjectId(templateId))
       return NextResponse.json(
         { error: "Invalid template ID" },
@@ -94,16 +108,33 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         );
       updates.isArchived = body.isArchived;
     }
+    const note = readOptionalString(body.note, "Version note", 200);
     if (Object.keys(updates).length === 0)
       return NextResponse.json(
         { error: "No valid fields to update" },
         { status: 400 },
       );
 
-    const template = await Template.findByIdAndUpdate(templateId, updates, {
-      new: true,
-      runValidators: true,
-    });
+    const previous: ITemplate | null = await Template.findById(templateId);
+    let template: ITemplate | null = null;
+    if (previous) {
+      const design = {
+        html: typeof updates.html === "string" ? updates.html : previous.html,
+        backgroundUrl:
+          typeof updates.backgroundUrl === "string"
+            ? updates.backgroundUrl
+            : previous.backgroundUrl,
+      };
+      template = isSameDesign(design, previous)
+        ? await Template.findByIdAndUpdate(templateId, updates, {
+            new: true,
+            runValidators: true,
+          })
+        : await saveTemplateVersion(previous, design, admin.email, {
+            note,
+            changes: updates,
+          });
+    }
 
     if (!template) {
       return NextResponse.json(
@@ -112,13 +143,30 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    await recordAudit(request, admin, {
+      action: "template.update",
+      targetType: "template",
+      targetIds: [template._id],
+      before: auditSnapshot(previous, TEMPLATE_AUDIT_FIELDS),
+      after: auditSnapshot(template, TEMPLATE_AUDIT_FIELDS),
+      // HTML bodies are too large to diff usefully; just note the edit
+      details:
+        "html" in updates && previous?.html !== template.html
+          ? { htmlChanged: true }
+          : undefined,
+    });
+
     logger.apiSuccess("PUT", `/api/admin/templates/${templateId}`);
     return NextResponse.json({ success: true, template });
   } catch (error: unknown) {
     logger.apiError("PUT", `/api/admin/templates/${templateId}`, error);
     if (isUnauthorizedError(error))
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     const message = errorMessage(error);
+    if (isTemplateVersionConflict(error))
+      return NextResponse.json({ error: message }, { status: 409 });
     return NextResponse.json(
       {
         error:
@@ -133,7 +181,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
   const { templateId } = await params;
   logger.apiRequest("DELETE", `/api/admin/templates/${templateId}`);
   try {
-    await requireAdmin(request);
+    const admin = await requireRole(request, "event_manager");
     if (!mongoose.isValidObjectId(templateId))
       return NextResponse.json(
         { error: "Invalid template ID" },
@@ -145,7 +193,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     const template = await Template.findByIdAndUpdate(
       templateId,
       { isArchived: true },
-      { new: true },
+      { new: false },
     );
 
     if (!template) {
@@ -155,6 +203,16 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    if (!template.isArchived) {
+      await recordAudit(request, admin, {
+        action: "template.archive",
+        targetType: "template",
+        targetIds: [template._id],
+        before: { isArchived: false },
+        after: { isArchived: true },
+      });
+    }
+
     logger.info("TEMPLATE", `Template archived: ${templateId}`);
     return NextResponse.json({
       success: true,
@@ -164,6 +222,8 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     logger.apiError("DELETE", `/api/admin/templates/${templateId}`, error);
     if (isUnauthorizedError(error))
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     return NextResponse.json(
       { error: "Failed to archive template" },
       { status: 500 },
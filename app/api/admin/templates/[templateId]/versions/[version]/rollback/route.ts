@@ -0,0 +1,120 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { auditSnapshot, recordAudit, TEMPLATE_AUDIT_FIELDS } from "@/lib/audit";
+import connectDB from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isForbiddenError,
+  isRecord,
+  isUnauthorizedError,
+  readOptionalString,
+} from "@/lib/requestValidation";
+import {
+  isSameDesign,
+  isTemplateVersionConflict,
+  saveTemplateVersion,
+} from "@/lib/templateVersions";
+import Template, { ITemplate } from "@/models/Template";
+import TemplateVersion, { ITemplateVersion } from "@/models/TemplateVersion";
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+    version: string;
+  }>;
+}
+
+/**
+ * POST /api/admin/templates/[templateId]/versions/[version]/rollback
+ * Bring back the design of an earlier version. It is saved as a new version,
+ * so the history stays intact and the rollback can itself be undone. Events
+ * keep their snapshots until the update is pushed to them.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { templateId, version } = await params;
+  const path = `/api/admin/templates/${templateId}/versions/${version}/rollback`;
+  logger.apiRequest("POST", path);
+  try {
+    const admin = await requireRole(request, "event_manager");
+    if (!mongoose.isValidObjectId(templateId))
+      return NextResponse.json(
+        { error: "Invalid template ID" },
+        { status: 400 },
+      );
+    if (!/^[1-9][0-9]*$/.test(version))
+      return NextResponse.json(
+        { error: "Invalid version number" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const body: unknown = await request.json().catch(() => ({}));
+    if (!isRecord(body))
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 },
+      );
+    const note = readOptionalString(body.note, "Version note", 200);
+
+    const previous: ITemplate | null = await Template.findById(templateId);
+    if (!previous) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 },
+      );
+    }
+    const target: ITemplateVersion | null = await TemplateVersion.findOne({
+      templateId: previous._id,
+      version: Number(version),
+    });
+    if (!target) {
+      return NextResponse.json(
+        { error: "Template version not found" },
+        { status: 404 },
+      );
+    }
+    if (isSameDesign(target, previous)) {
+      return NextResponse.json(
+        { error: `The blueprint already has the design of version ${version}` },
+        { status: 400 },
+      );
+    }
+
+    const template = await saveTemplateVersion(previous, target, admin.email, {
+      note: note || `Rolled back to version ${target.version}`,
+      restoredFrom: target.version,
+    });
+
+    await recordAudit(request, admin, {
+      action: "template.rollback",
+      targetType: "template",
+      targetIds: [template._id],
+      before: auditSnapshot(previous, TEMPLATE_AUDIT_FIELDS),
+      after: auditSnapshot(template, TEMPLATE_AUDIT_FIELDS),
+      details: { restoredFrom: target.version },
+    });
+
+    logger.apiSuccess("POST", path, { version: template.version });
+    return NextResponse.json({ success: true, template });
+  } catch (error: unknown) {
+    logger.apiError("POST", path, error);
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    const message = errorMessage(error);
+    if (isTemplateVersionConflict(error))
+      return NextResponse.json({ error: message }, { status: 409 });
+    return NextResponse.json(
+      {
+        error:
+          message === "Unknown error"
+            ? "Failed to roll back template"
+            : message,
+      },
+      { status: message === "Unknown error" ? 500 : 400 },
+    );
+  }
+}
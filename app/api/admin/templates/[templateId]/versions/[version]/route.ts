@@ -0,0 +1,69 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { isForbiddenError, isUnauthorizedError } from "@/lib/requestValidation";
+import { summarizeTemplateVersion } from "@/lib/templateVersions";
+import TemplateVersion, { ITemplateVersion } from "@/models/TemplateVersion";
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+    version: string;
+  }>;
+}
+
+/**
+ * GET /api/admin/templates/[templateId]/versions/[version]
+ * One version of a blueprint with its design
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { templateId, version } = await params;
+  const path = `/api/admin/templates/${templateId}/versions/${version}`;
+  logger.apiRequest("GET", path);
+  try {
+    await requireRole(request, "viewer");
+    if (!mongoose.isValidObjectId(templateId))
+      return NextResponse.json(
+        { error: "Invalid template ID" },
+        { status: 400 },
+      );
+    if (!/^[1-9][0-9]*$/.test(version))
+      return NextResponse.json(
+        { error: "Invalid version number" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const saved: ITemplateVersion | null = await TemplateVersion.findOne({
+      templateId,
+      version: Number(version),
+    });
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Template version not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      version: {
+        ...summarizeTemplateVersion(saved),
+        html: saved.html,
+        backgroundUrl: saved.backgroundUrl ?? "",
+      },
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", path, error);
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    return NextResponse.json(
+      { error: "Failed to fetch template version" },
+      { status: 500 },
+    );
+  }
+}
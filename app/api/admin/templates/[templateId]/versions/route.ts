@@ -0,0 +1,69 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { isForbiddenError, isUnauthorizedError } from "@/lib/requestValidation";
+import { summarizeTemplateVersion } from "@/lib/templateVersions";
+import Template, { ITemplate } from "@/models/Template";
+import TemplateVersion, { ITemplateVersion } from "@/models/TemplateVersion";
+
+interface RouteParams {
+  params: Promise<{
+    templateId: string;
+  }>;
+}
+
+/**
+ * GET /api/admin/templates/[templateId]/versions
+ * Version history of a blueprint, newest first, without the designs
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { templateId } = await params;
+  logger.apiRequest("GET", `/api/admin/templates/${templateId}/versions`);
+  try {
+    await requireRole(request, "viewer");
+    if (!mongoose.isValidObjectId(templateId))
+      return NextResponse.json(
+        { error: "Invalid template ID" },
+        { status: 400 },
+      );
+    await connectDB();
+
+    const template: ITemplate | null = await Template.findById(templateId);
+    if (!template) {
+      return NextResponse.json(
+        { error: "Template not found" },
+        { status: 404 },
+      );
+    }
+
+    const versions: ITemplateVersion[] = await TemplateVersion.find(
+      { templateId: template._id },
+      { html: 0 },
+    ).sort({ version: -1 });
+
+    logger.apiSuccess("GET", `/api/admin/templates/${templateId}/versions`, {
+      count: versions.length,
+    });
+    return NextResponse.json({
+      success: true,
+      currentVersion: template.version ?? null,
+      versions: versions.map(summarizeTemplateVersion),
+    });
+  } catch (error: unknown) {
+    logger.apiError(
+      "GET",
+      `/api/admin/templates/${templateId}/versions`,
+      error,
+    );
+    if (isUnauthorizedError(error))
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    return NextResponse.json(
+      { error: "Failed to fetch template versions" },
+      { status: 500 },
+    );
+  }
+}
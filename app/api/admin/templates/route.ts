@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
+import { requireRole } from "@/lib/auth";
+import { auditSnapshot, recordAudit, TEMPLATE_AUDIT_FIELDS } from "@/lib/audit";
 import connectDB from "@/lib/db";
 import Template from "@/models/Template";
 import { logger } from "@/lib/logger";
+import { recordInitialVersion } from "@/lib/templateVersions";
 import {
   errorMessage,
   isRecord,
+  isForbiddenError,
   isUnauthorizedError,
   readOptionalString,
   readRequiredString,
@@ -16,7 +19,7 @@ import {
 export async function GET(request: NextRequest) {
   logger.apiRequest("GET", "/api/admin/templates");
   try {
-    await requireAdmin(request);
+    await requireRole(request, "viewer");
     await connectDB();
 
     // Get all templates (frontend will filter by isArchived)
@@ -28,6 +31,8 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ success: true, templates });
   } catch (error: unknown) {
     logger.apiError("GET", "/api/admin/templates", error);
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     const unauthorized = isUnauthorizedError(error);
     return NextResponse.json(
       { error: unauthorized ? "Unauthorized" : "Failed to fetch templates" },
@@ -39,7 +44,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   logger.apiRequest("POST", "/api/admin/templates");
   try {
-    await requireAdmin(request);
+    const admin = await requireRole(request, "event_manager");
     await connectDB();
 
     const body: unknown = await request.json();
@@ -59,6 +64,7 @@ export async function POST(request: NextRequest) {
     const category =
       readOptionalString(body.category, "Category", 80) || "General";
     const backgroundUrl = validateOptionalHttpUrl(body.backgroundUrl);
+    const note = readOptionalString(body.note, "Version note", 200);
 
     const template = await Template.create({
       name,
@@ -66,6 +72,15 @@ export async function POST(request: NextRequest) {
       html,
       category,
       backgroundUrl,
+      version: 1,
+    });
+    await recordInitialVersion(template, admin.email, note);
+
+    await recordAudit(request, admin, {
+      action: "template.create",
+      targetType: "template",
+      targetIds: [template._id],
+      after: auditSnapshot(template, TEMPLATE_AUDIT_FIELDS),
     });
 
     logger.apiSuccess("POST", "/api/admin/templates", {
@@ -74,6 +89,8 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ success: true, template });
   } catch (error: unknown) {
     logger.apiError("POST", "/api/admin/templates", error);
+    if (isForbiddenError(error))
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     const unauthorized = isUnauthorizedError(error);
     const message = errorMessage(error);
     return NextResponse.json(
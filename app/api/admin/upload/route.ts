@@ -1,27 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
-import { requireAdmin } from "@/lib/auth";
-import { uploadImage, isCloudinaryConfigured } from "@/lib/cloudinary";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 import { logger } from "@/lib/logger";
 import {
   errorMessage,
   isUnauthorizedError,
   validateImageFile,
   validateImageSignature,
+  isForbiddenError,
 } from "@/lib/requestValidation";
+import { isStorageConfigured, uploadImage } from "@/lib/storage";
 
+/**
+ * POST /api/admin/upload
+ * Upload a template image, or a signatory's signature with
+ * `purpose=signature`
+ */
 export async function POST(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    const admin = await requireRole(req, "event_manager");
 
-    if (!isCloudinaryConfigured()) {
+    if (!isStorageConfigured()) {
       return NextResponse.json(
-        { error: "Cloudinary not configured" },
+        { error: "File storage not configured" },
         { status: 500 },
       );
     }
 
     const formData = await req.formData();
     const file = formData.get("file");
+    const isSignature = formData.get("purpose") === "signature";
 
     if (!(file instanceof File)) {
       return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
@@ -30,7 +38,18 @@ export async function POST(req: NextRequest) {
     validateImageFile(file);
     const buffer = Buffer.from(await file.arrayBuffer());
     validateImageSignature(buffer, file.type);
-    const result = await uploadImage(buffer, "templates");
+    const result = await uploadImage(
+      buffer,
+      isSignature ? "signatures" : "templates",
+      file.type,
+    );
+
+    await recordAudit(req, admin, {
+      action: isSignature ? "signature_image.upload" : "template_image.upload",
+      targetType: isSignature ? "signature_image" : "template_image",
+      targetIds: [result.publicId],
+      details: { url: result.url, fileName: file.name, size: file.size },
+    });
 
     return NextResponse.json({
       success: true,
@@ -42,6 +61,9 @@ export async function POST(req: NextRequest) {
     if (isUnauthorizedError(error)) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
     const message = errorMessage(error);
     const isValidationError =
       message.includes("must") ||
@@ -50,7 +72,7 @@ export async function POST(req: NextRequest) {
       message.includes("match");
     return NextResponse.json(
       {
-        error: isValidationError ? message : "Failed to upload template image",
+        error: isValidationError ? message : "Failed to upload image",
       },
       { status: isValidationError ? 400 : 500 },
     );
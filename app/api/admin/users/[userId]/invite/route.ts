@@ -0,0 +1,84 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import {
+  buildInviteUrl,
+  createInviteToken,
+  INVITE_TTL_MS,
+  toAdminUserSummary,
+} from "@/lib/adminUsers";
+import { logger } from "@/lib/logger";
+import { isForbiddenError, isUnauthorizedError } from "@/lib/requestValidation";
+import AdminUser, { IAdminUser } from "@/models/AdminUser";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    userId: string;
+  }>;
+}
+
+/**
+ * POST /api/admin/users/[userId]/invite
+ * Issue a fresh invite link for an admin who has not accepted yet (owner only).
+ * Any previous link for the account stops working.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("POST", "/api/admin/users/[userId]/invite");
+  try {
+    const admin = await requireRole(request, "owner");
+    const { userId } = await params;
+    if (!mongoose.isValidObjectId(userId)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+    }
+
+    const { token, tokenHash } = createInviteToken();
+    const user: IAdminUser | null = await AdminUser.findOneAndUpdate(
+      { _id: userId, status: "invited" },
+      {
+        $set: {
+          inviteTokenHash: tokenHash,
+          inviteExpiresAt: new Date(Date.now() + INVITE_TTL_MS),
+        },
+      },
+      { new: true },
+    );
+    if (!user) {
+      return NextResponse.json(
+        { error: "No pending invite for this admin" },
+        { status: 404 },
+      );
+    }
+
+    await recordAudit(request, admin, {
+      action: "admin.invite_reissue",
+      targetType: "admin_user",
+      targetIds: [user._id],
+      details: { email: user.email, expiresAt: user.inviteExpiresAt },
+    });
+
+    logger.apiSuccess("POST", "/api/admin/users/[userId]/invite", {
+      userId,
+      reissuedBy: admin.email,
+    });
+    return NextResponse.json({
+      success: true,
+      user: toAdminUserSummary(user),
+      inviteUrl: buildInviteUrl(token),
+    });
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/users/[userId]/invite", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to reissue invite" },
+      { status: 500 },
+    );
+  }
+}
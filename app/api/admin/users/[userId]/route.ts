@@ -0,0 +1,128 @@
+import mongoose from "mongoose";
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  ADMIN_USER_AUDIT_FIELDS,
+  auditSnapshot,
+  recordAudit,
+} from "@/lib/audit";
+import { toAdminUserSummary } from "@/lib/adminUsers";
+import { logger } from "@/lib/logger";
+import {
+  isForbiddenError,
+  isRecord,
+  isUnauthorizedError,
+} from "@/lib/requestValidation";
+import { ADMIN_ROLES, isAdminRole } from "@/lib/roles";
+import AdminUser, { IAdminUser } from "@/models/AdminUser";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    userId: string;
+  }>;
+}
+
+/**
+ * PATCH /api/admin/users/[userId]
+ * Change an admin's role and/or disable or re-enable their account (owner only).
+ * Owners cannot change their own account, so there is always an active owner.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("PATCH", "/api/admin/users/[userId]");
+  try {
+    const admin = await requireRole(request, "owner");
+    const { userId } = await params;
+    if (!mongoose.isValidObjectId(userId)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+    }
+    if (userId === admin.userId) {
+      return NextResponse.json(
+        { error: "You cannot change your own role or status" },
+        { status: 400 },
+      );
+    }
+
+    const body: unknown = await request.json().catch(() => null);
+    if (!isRecord(body)) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+
+    const updates: Partial<Pick<IAdminUser, "role" | "status">> = {};
+    if (body.role !== undefined) {
+      if (!isAdminRole(body.role)) {
+        return NextResponse.json(
+          { error: `Role must be one of: ${ADMIN_ROLES.join(", ")}` },
+          { status: 400 },
+        );
+      }
+      updates.role = body.role;
+    }
+    if (body.disabled !== undefined) {
+      if (typeof body.disabled !== "boolean") {
+        return NextResponse.json(
+          { error: "disabled must be a boolean" },
+          { status: 400 },
+        );
+      }
+      updates.status = body.disabled ? "disabled" : "active";
+    }
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+    }
+
+    const user: IAdminUser | null = await AdminUser.findById(
+      userId,
+      "+passwordHash",
+    );
+    if (!user) {
+      return NextResponse.json({ error: "Admin not found" }, { status: 404 });
+    }
+    if (
+      updates.status === "active" &&
+      (user.status === "invited" || !user.passwordHash)
+    ) {
+      return NextResponse.json(
+        { error: "Invited admins become active when they accept the invite" },
+        { status: 409 },
+      );
+    }
+
+    const updated: IAdminUser | null = await AdminUser.findByIdAndUpdate(
+      userId,
+      { $set: updates },
+      { new: true },
+    );
+
+    await recordAudit(request, admin, {
+      action: "admin.update",
+      targetType: "admin_user",
+      targetIds: [user._id],
+      before: auditSnapshot(user, ADMIN_USER_AUDIT_FIELDS),
+      after: auditSnapshot(updated, ADMIN_USER_AUDIT_FIELDS),
+    });
+
+    logger.apiSuccess("PATCH", "/api/admin/users/[userId]", {
+      userId,
+      ...updates,
+      changedBy: admin.email,
+    });
+    return NextResponse.json({
+      success: true,
+      user: toAdminUserSummary(updated!),
+    });
+  } catch (error: unknown) {
+    logger.apiError("PATCH", "/api/admin/users/[userId]", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to update admin" },
+      { status: 500 },
+    );
+  }
+}
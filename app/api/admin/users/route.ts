@@ -0,0 +1,139 @@
+/**
+ * /api/admin/users
+ * GET:  list admin accounts (owner only)
+ * POST: invite a new admin (owner only). Returns a one-time invite link that
+ *       the owner shares with the invitee.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import {
+  ADMIN_USER_AUDIT_FIELDS,
+  auditSnapshot,
+  recordAudit,
+} from "@/lib/audit";
+import {
+  buildInviteUrl,
+  createInviteToken,
+  INVITE_TTL_MS,
+  toAdminUserSummary,
+  validateEmail,
+} from "@/lib/adminUsers";
+import { logger } from "@/lib/logger";
+import {
+  errorMessage,
+  isForbiddenError,
+  isRecord,
+  isUnauthorizedError,
+  readRequiredString,
+} from "@/lib/requestValidation";
+import { ADMIN_ROLES, isAdminRole } from "@/lib/roles";
+import AdminUser, { IAdminUser } from "@/models/AdminUser";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  logger.apiRequest("GET", "/api/admin/users");
+  try {
+    await requireRole(request, "owner");
+
+    const users: IAdminUser[] = await AdminUser.find().sort({ createdAt: 1 });
+
+    logger.apiSuccess("GET", "/api/admin/users", { count: users.length });
+    return NextResponse.json({
+      success: true,
+      users: users.map(toAdminUserSummary),
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/admin/users", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch admins" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/admin/users");
+  try {
+    const admin = await requireRole(request, "owner");
+
+    const body: unknown = await request.json().catch(() => null);
+    if (!isRecord(body)) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+    if (!isAdminRole(body.role)) {
+      return NextResponse.json(
+        { error: `Role must be one of: ${ADMIN_ROLES.join(", ")}` },
+        { status: 400 },
+      );
+    }
+    const email = validateEmail(body.email);
+    const name = readRequiredString(body.name, "Name", 100);
+
+    if (await AdminUser.exists({ email })) {
+      return NextResponse.json(
+        { error: "An admin with this email already exists" },
+        { status: 409 },
+      );
+    }
+
+    const { token, tokenHash } = createInviteToken();
+    const user = await AdminUser.create({
+      email,
+      name,
+      role: body.role,
+      status: "invited",
+      inviteTokenHash: tokenHash,
+      inviteExpiresAt: new Date(Date.now() + INVITE_TTL_MS),
+      invitedBy: admin.userId,
+    });
+
+    await recordAudit(request, admin, {
+      action: "admin.invite",
+      targetType: "admin_user",
+      targetIds: [user._id],
+      after: auditSnapshot(user, ADMIN_USER_AUDIT_FIELDS),
+    });
+
+    logger.apiSuccess("POST", "/api/admin/users", {
+      email,
+      role: body.role,
+      invitedBy: admin.email,
+    });
+    return NextResponse.json(
+      {
+        success: true,
+        user: toAdminUserSummary(user),
+        inviteUrl: buildInviteUrl(token),
+      },
+      { status: 201 },
+    );
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/admin/users", error);
+    if (isUnauthorizedError(error)) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (isForbiddenError(error)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const message = errorMessage(error);
+    if (
+      message.includes("required") ||
+      message.includes("must") ||
+      message.includes("too long")
+    ) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Failed to invite admin" },
+      { status: 500 },
+    );
+  }
+}
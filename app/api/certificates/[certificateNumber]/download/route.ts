@@ -0,0 +1,138 @@
+/**
+ * GET /api/certificates/[certificateNumber]/download
+ * Stream a certificate PDF from storage. Revoked certificates are not
+ * served, and certificates of private events need a valid `token` from a
+ * signed download link; signed-in admins may download both. Add `inline=1` to
+ * display the PDF instead of saving it. This is the only route that serves
+ * certificate PDFs: storage URLs are never handed out.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth";
+import { isValidCertificateNumber } from "@/lib/certificateUtils";
+import connectDB from "@/lib/db";
+import { verifyDownloadToken } from "@/lib/downloadLinks";
+import { logger } from "@/lib/logger";
+import { getCertificateFiles, readStoredFile } from "@/lib/storage";
+import Certificate, { ICertificate } from "@/models/Certificate";
+import type { IEvent } from "@/models/Event";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    certificateNumber: string;
+  }>;
+}
+
+/** Whether the request comes from a signed-in admin */
+async function isAdminRequest(request: NextRequest): Promise<boolean> {
+  return requireRole(request, "viewer").then(
+    () => true,
+    () => false,
+  );
+}
+
+/**
+ * Content-Disposition with an ASCII fallback and the full UTF-8 name
+ */
+function contentDisposition(
+  type: "inline" | "attachment",
+  filename: string,
+): string {
+  const fallback = filename.replace(/[^\w .-]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { certificateNumber: rawNumber } = await params;
+  const certificateNumber = rawNumber.trim().toUpperCase();
+  logger.apiRequest("GET", "/api/certificates/[certificateNumber]/download", {
+    certificateNumber,
+  });
+
+  try {
+    if (!isValidCertificateNumber(certificateNumber)) {
+      return NextResponse.json(
+        { error: "Certificate not found" },
+        { status: 404 },
+      );
+    }
+
+    await connectDB();
+    const certificate:
+      | (ICertificate & { eventId: Pick<IEvent, "privateDownloads"> | null })
+      | null = await Certificate.findOne({ certificateNumber }).populate(
+      "eventId",
+      "privateDownloads",
+    );
+    if (!certificate) {
+      return NextResponse.json(
+        { error: "Certificate not found" },
+        { status: 404 },
+      );
+    }
+    const isRestricted =
+      certificate.eventId?.privateDownloads &&
+      !verifyDownloadToken(
+        certificateNumber,
+        request.nextUrl.searchParams.get("token"),
+      );
+    if (
+      (certificate.revokedAt || isRestricted) &&
+      !(await isAdminRequest(request))
+    ) {
+      return certificate.revokedAt
+        ? NextResponse.json(
+            { error: "This certificate has been revoked" },
+            { status: 410 },
+          )
+        : NextResponse.json(
+            { error: "This download link is invalid or has expired" },
+            { status: 403 },
+          );
+    }
+
+    let body: Buffer;
+    try {
+      body = await readStoredFile(getCertificateFiles(certificate)[0]);
+    } catch (error: unknown) {
+      logger.error("DOWNLOAD", "Failed to read certificate from storage", {
+        certificateNumber,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return NextResponse.json(
+        { error: "Certificate file is unavailable" },
+        { status: 502 },
+      );
+    }
+
+    const filename = `${certificate.participantName} - ${certificate.certificateNumber}.pdf`;
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Length": body.length.toString(),
+        "Content-Disposition": contentDisposition(
+          request.nextUrl.searchParams.get("inline") === "1"
+            ? "inline"
+            : "attachment",
+          filename,
+        ),
+        // Not cached, so revocation and regeneration apply immediately
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error: unknown) {
+    logger.apiError(
+      "GET",
+      "/api/certificates/[certificateNumber]/download",
+      error,
+    );
+    return NextResponse.json(
+      { error: "Failed to download certificate" },
+      { status: 500 },
+    );
+  }
+}
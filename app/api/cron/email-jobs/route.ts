@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { runPendingEmailJobs } from "@/lib/emailJobs";
+import { startDueEmailSchedules } from "@/lib/emailSchedules";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+
+const RUN_BUDGET_MS = 40_000;
+
+/**
+ * GET /api/cron/email-jobs
+ * Scheduled worker: queues scheduled sends that are due, delivers queued
+ * certificate emails and retries transient failures once their backoff has
+ * passed, with or without the send dialog open.
+ */
+export async function GET(request: NextRequest) {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  logger.apiRequest("GET", "/api/cron/email-jobs");
+
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await connectDB();
+    const schedules = await startDueEmailSchedules();
+    const result = await runPendingEmailJobs(deadline);
+
+    logger.apiSuccess("GET", "/api/cron/email-jobs", { schedules, ...result });
+    return NextResponse.json({ success: true, schedules, ...result });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/cron/email-jobs", error);
+    return NextResponse.json(
+      { error: "Failed to run email jobs" },
+      { status: 500 },
+    );
+  }
+}
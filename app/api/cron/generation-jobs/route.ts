@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyCronRequest } from "@/lib/auth";
+import connectDB from "@/lib/db";
+import { runPendingGenerationJobs } from "@/lib/generationJobs";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+
+const RUN_BUDGET_MS = 40_000;
+
+/**
+ * GET /api/cron/generation-jobs
+ * Scheduled worker: drains queued certificate generation jobs so imports
+ * finish even after the admin closes the browser tab.
+ */
+export async function GET(request: NextRequest) {
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  logger.apiRequest("GET", "/api/cron/generation-jobs");
+
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    await connectDB();
+    const result = await runPendingGenerationJobs(deadline);
+
+    logger.apiSuccess("GET", "/api/cron/generation-jobs", result);
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/cron/generation-jobs", error);
+    return NextResponse.json(
+      { error: "Failed to run generation jobs" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyEmailWebhookRequest } from "@/lib/auth";
+import { getSnsSubscribeUrl, parseBounceWebhook } from "@/lib/bounceParser";
+import connectDB from "@/lib/db";
+import { recordBounces } from "@/lib/emailTracking";
+import { logger } from "@/lib/logger";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/email/bounces?secret=<EMAIL_WEBHOOK_SECRET>
+ * Bounce webhook for the email provider: SES notifications through an SNS
+ * HTTPS subscription, Mailgun "failed" events, or plain JSON reports (see
+ * parseBounceWebhook). Other event types are acknowledged and ignored.
+ */
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/email/bounces");
+
+  if (!verifyEmailWebhookRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // SNS posts JSON as text/plain, so the body is parsed by hand
+  let payload: unknown;
+  try {
+    payload = JSON.parse(await request.text());
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const subscribeUrl = getSnsSubscribeUrl(payload);
+    if (subscribeUrl) {
+      const response = await fetch(subscribeUrl);
+      logger.info("EMAIL", "Confirmed SNS bounce subscription", {
+        status: response.status,
+      });
+      return NextResponse.json({ success: true, confirmed: response.ok });
+    }
+
+    const reports = parseBounceWebhook(payload);
+    if (reports.length === 0) {
+      return NextResponse.json({ success: true, recorded: 0 });
+    }
+
+    await connectDB();
+    const { certificateIds, ...result } = await recordBounces(
+      reports,
+      "webhook",
+    );
+
+    // The certificate IDs go to the log, not back to the webhook caller
+    logger.apiSuccess("POST", "/api/email/bounces", {
+      ...result,
+      certificateIds,
+    });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/email/bounces", error);
+    return NextResponse.json(
+      { error: "Failed to record bounces" },
+      { status: 500 },
+    );
+  }
+}
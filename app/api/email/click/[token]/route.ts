@@ -0,0 +1,73 @@
+/**
+ * GET /api/email/click/[token]?link=certificate|verification
+ * Click redirect of certificate emails. Records the click and forwards to
+ * the certificate download (with the signed `download` token of private
+ * events) or the verification page. The target is built from the
+ * certificate, never taken from the query, so this is not an open redirect.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/db";
+import {
+  getClickTarget,
+  isTrackedLink,
+  recordEngagement,
+  verifyTrackingToken,
+} from "@/lib/emailTracking";
+import { logger } from "@/lib/logger";
+import Certificate, { ICertificate } from "@/models/Certificate";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+  const link = request.nextUrl.searchParams.get("link");
+
+  try {
+    const certificateId = verifyTrackingToken(token);
+    if (!certificateId || !isTrackedLink(link)) {
+      return NextResponse.json({ error: "Link not found" }, { status: 404 });
+    }
+
+    await connectDB();
+    const certificate: ICertificate | null =
+      await Certificate.findById(certificateId);
+    if (!certificate) {
+      return NextResponse.json(
+        { error: "Certificate not found" },
+        { status: 404 },
+      );
+    }
+
+    // Tracking is best effort; the participant still gets to the link
+    try {
+      await recordEngagement(certificate, "click", {
+        link,
+        userAgent: request.headers.get("user-agent"),
+      });
+    } catch (error: unknown) {
+      logger.error("EMAIL", "Failed to record email click", {
+        certificateId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
+    // Resolved against the request in case NEXT_PUBLIC_APP_URL is unset
+    const target = getClickTarget(
+      certificate.certificateNumber,
+      link,
+      request.nextUrl.searchParams.get("download") || undefined,
+    );
+    return NextResponse.redirect(new URL(target, request.url));
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/email/click/[token]", error);
+    return NextResponse.json({ error: "Failed to open link" }, { status: 500 });
+  }
+}
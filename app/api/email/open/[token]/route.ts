@@ -0,0 +1,55 @@
+/**
+ * GET /api/email/open/[token]
+ * Open pixel of certificate emails. Always answers with the pixel so mail
+ * clients show nothing unusual; only valid tokens are recorded.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/db";
+import {
+  recordEngagement,
+  TRACKING_PIXEL,
+  verifyTrackingToken,
+} from "@/lib/emailTracking";
+import { logger } from "@/lib/logger";
+import Certificate, { ICertificate } from "@/models/Certificate";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { token } = await params;
+
+  try {
+    const certificateId = verifyTrackingToken(token);
+    if (certificateId) {
+      await connectDB();
+      const certificate: ICertificate | null =
+        await Certificate.findById(certificateId);
+      if (certificate) {
+        await recordEngagement(certificate, "open", {
+          userAgent: request.headers.get("user-agent"),
+        });
+      }
+    }
+  } catch (error: unknown) {
+    logger.error("EMAIL", "Failed to record email open", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  return new NextResponse(new Uint8Array(TRACKING_PIXEL), {
+    headers: {
+      "Content-Type": "image/gif",
+      "Content-Length": TRACKING_PIXEL.length.toString(),
+      // Every load reaches the server, so repeat opens are recorded
+      "Cache-Control": "no-store, max-age=0",
+    },
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * GET /api/files/[...key]
+ * Serve an image written by the local filesystem storage backend. Certificate
+ * PDFs are not served here: they go through the download route.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  LOCAL_IMAGE_CONTENT_TYPES,
+  resolveLocalFilePath,
+} from "@/lib/localFileStorage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    key: string[];
+  }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { key } = await params;
+  const filePath =
+    key[0] === "certificates" ? null : resolveLocalFilePath(key.join("/"));
+  const contentType =
+    LOCAL_IMAGE_CONTENT_TYPES[path.extname(key[key.length - 1]).slice(1)];
+  if (!filePath || !contentType) {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  try {
+    const body = await fs.readFile(filePath);
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Length": body.length.toString(),
+        "Cache-Control": "public, max-age=3600",
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+}
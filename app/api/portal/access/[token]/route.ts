@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  redeemPortalToken,
+  setPortalSessionCookie,
+} from "@/lib/participantPortal";
+
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+/**
+ * POST /api/portal/access/[token]
+ * Redeem a portal link and start a participant session. This is a POST
+ * rather than a page load so link scanners in mail clients cannot use up
+ * the link before the participant opens it.
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  logger.apiRequest("POST", "/api/portal/access/[token]");
+  try {
+    const { token } = await params;
+    const email = await redeemPortalToken(token);
+    if (!email) {
+      return NextResponse.json(
+        { error: "This link is invalid, has expired or was already used" },
+        { status: 404 },
+      );
+    }
+
+    const response = NextResponse.json({ success: true });
+    setPortalSessionCookie(response, email);
+
+    logger.apiSuccess("POST", "/api/portal/access/[token]", { email });
+    return response;
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/portal/access/[token]", error);
+    return NextResponse.json({ error: "Failed to open link" }, { status: 500 });
+  }
+}
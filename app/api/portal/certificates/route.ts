@@ -0,0 +1,65 @@
+/**
+ * GET /api/portal/certificates
+ * List every certificate issued to the signed-in participant's email address,
+ * newest first. Download links are signed, so they also work for private
+ * events; revoked certificates are listed without one.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "@/lib/db";
+import { buildParticipantDownloadUrl } from "@/lib/downloadLinks";
+import { logger } from "@/lib/logger";
+import { getPortalSessionEmail } from "@/lib/participantPortal";
+import Certificate, { ICertificate } from "@/models/Certificate";
+import type { IEvent } from "@/models/Event";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const email = getPortalSessionEmail(request);
+    if (!email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectDB();
+    const certificates: Array<ICertificate & { eventId: IEvent | null }> =
+      await Certificate.find({ participantEmail: email })
+        .populate(
+          "eventId",
+          "title startDate endDate organizer privateDownloads",
+        )
+        .sort({ issuedAt: -1 });
+
+    return NextResponse.json({
+      success: true,
+      email,
+      certificates: certificates.map((certificate) => ({
+        certificateNumber: certificate.certificateNumber,
+        participantName: certificate.participantName,
+        issuedAt: certificate.issuedAt,
+        certificateUrl: certificate.revokedAt
+          ? null
+          : buildParticipantDownloadUrl(certificate, {
+              privateDownloads: certificate.eventId?.privateDownloads ?? true,
+            }),
+        revoked: Boolean(certificate.revokedAt),
+        event: certificate.eventId
+          ? {
+              title: certificate.eventId.title,
+              startDate: certificate.eventId.startDate,
+              endDate: certificate.eventId.endDate,
+              organizer: certificate.eventId.organizer,
+            }
+          : null,
+      })),
+    });
+  } catch (error: unknown) {
+    logger.apiError("GET", "/api/portal/certificates", error);
+    return NextResponse.json(
+      { error: "Failed to load certificates" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * POST /api/portal/link
+ * Ask for a one-time link to the participant certificate portal. The answer
+ * is the same whether or not the address has certificates, and the lookup
+ * and email happen after the response so timing does not reveal it either.
+ */
+
+import { after, NextRequest, NextResponse } from "next/server";
+import { validateEmail } from "@/lib/adminUsers";
+import { logger } from "@/lib/logger";
+import { issuePortalLink } from "@/lib/participantPortal";
+import { errorMessage, isRecord } from "@/lib/requestValidation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  logger.apiRequest("POST", "/api/portal/link");
+  try {
+    const body: unknown = await request.json().catch(() => null);
+    if (!isRecord(body)) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+    const email = validateEmail(body.email);
+
+    after(async () => {
+      try {
+        await issuePortalLink(email);
+      } catch (error: unknown) {
+        logger.error("PORTAL", "Failed to send portal link", error);
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message:
+        "If certificates have been issued to this address, a link to view them is on its way.",
+    });
+  } catch (error: unknown) {
+    logger.apiError("POST", "/api/portal/link", error);
+    const message = errorMessage(error);
+    if (message.startsWith("Email")) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    return NextResponse.json(
+      { error: "Failed to request link" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * DELETE /api/portal/session
+ * End the participant portal session
+ */
+
+import { NextResponse } from "next/server";
+import { clearPortalSessionCookie } from "@/lib/participantPortal";
+
+export const dynamic = "force-dynamic";
+
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  clearPortalSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { getSigningPublicKey } from "@/lib/signing";
+
+export const runtime = "nodejs";
+
+/**
+ * GET /api/public-key
+ * Publishes the issuer's public key so certificate signatures can be checked
+ * offline against the payload returned by /api/verify/[certificateNumber].
+ */
+export async function GET() {
+  logger.apiRequest("GET", "/api/public-key");
+  try {
+    const publicKey = getSigningPublicKey();
+    if (!publicKey) {
+      return NextResponse.json(
+        { error: "Certificate signing is not configured" },
+        { status: 404 },
+      );
+    }
+
+    logger.apiSuccess("GET", "/api/public-key", { keyId: publicKey.keyId });
+    return NextResponse.json(publicKey, {
+      headers: { "Cache-Control": "public, max-age=3600" },
+    });
+  } catch (error) {
+    logger.apiError("GET", "/api/public-key", error);
+    return NextResponse.json(
+      { error: "Failed to load public key" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,8 +2,46 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/db';
 import Certificate from '@/models/Certificate';
 import Event from '@/models/Event'; // Import to register schema
-import { isValidCertificateNumber } from '@/lib/certificateUtils';
+import type { ITeamMember } from '@/models/Team';
+import {
+    getNearMatchCandidates,
+    isCheckCharacterValid,
+    isValidCertificateNumber,
+} from '@/lib/certificateUtils';
+import { buildDownloadUrl } from '@/lib/downloadLinks';
 import { logger } from '@/lib/logger';
+import {
+    SIGNATURE_ALGORITHM,
+    buildCanonicalPayload,
+    verifyCertificateSignature,
+} from '@/lib/signing';
+import { REVOCATION_REASON_LABELS, RevocationReason } from '@/lib/revocation';
+import {
+    ACHIEVEMENT_TYPE_LABELS,
+    AchievementType,
+    customFieldLabel,
+    customFieldsToObject,
+    DEFAULT_ACHIEVEMENT_TYPE,
+} from '@/lib/achievements';
+
+// Always read the current record so corrected details and regenerated PDFs show up immediately
+export const dynamic = 'force-dynamic';
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Issued certificate numbers that differ from the given one by one character
+ */
+async function findSuggestions(certificateNumber: string): Promise<string[]> {
+    const candidates = getNearMatchCandidates(certificateNumber);
+    if (candidates.length === 0) return [];
+
+    const matches = await Certificate.find({ certificateNumber: { $in: candidates } })
+        .select('certificateNumber')
+        .limit(MAX_SUGGESTIONS)
+        .lean<Array<{ certificateNumber: string }>>();
+    return matches.map((match) => match.certificateNumber);
+}
 
 interface RouteParams {
     params: Promise<{
@@ -31,6 +69,24 @@ export async function GET(
             );
         }
 
+        // A wrong check character means a typo; skip the lookup and suggest fixes
+        const normalizedNumber = certificateNumber.toUpperCase();
+        if (!isCheckCharacterValid(normalizedNumber)) {
+            await connectDB();
+            const suggestions = await findSuggestions(normalizedNumber);
+            logger.apiSuccess('GET', `/api/verify/${certificateNumber}`, {
+                valid: false,
+                status: 'invalid_check',
+                suggestions: suggestions.length,
+            });
+            return NextResponse.json({
+                valid: false,
+                status: 'invalid_check',
+                message: 'This certificate number contains a typo: its last character does not match the rest of the number.',
+                suggestions,
+            });
+        }
+
         // Connect to database
         await connectDB();
 
@@ -41,28 +97,83 @@ export async function GET(
 
         // Find certificate and populate event details
         const certificate = await Certificate.findOne({
-            certificateNumber: certificateNumber.toUpperCase(),
+            certificateNumber: normalizedNumber,
         }).populate('eventId');
 
         if (!certificate) {
             return NextResponse.json({
                 valid: false,
+                status: 'not_found',
                 message: 'Certificate not found',
+                suggestions: await findSuggestions(normalizedNumber),
             });
         }
 
+        // Check the issuer signature over the canonical payload
+        const signable = {
+            certificateNumber: certificate.certificateNumber,
+            participantName: certificate.participantName,
+            eventId: certificate.eventId._id.toString(),
+            issuedAt: certificate.issuedAt,
+        };
+        const signatureStatus = verifyCertificateSignature(
+            signable,
+            certificate.signature,
+            certificate.signatureKeyId
+        );
+
+        // A revoked certificate is still returned so the page can explain why
+        const isRevoked = !!certificate.revokedAt;
+        // Private events only hand out PDFs through signed participant links
+        const downloadRestricted = !!certificate.eventId.privateDownloads;
+        const revocationReason: RevocationReason = certificate.revocationReason || 'other';
+        const achievementType: AchievementType = certificate.achievementType || DEFAULT_ACHIEVEMENT_TYPE;
+        // Custom fields can hold registration details, so only the ones the event opts into are public
+        const customFields = new Map(Object.entries(customFieldsToObject(certificate.customFields)));
+        const verifyCustomFields: string[] = certificate.eventId.verifyCustomFields || [];
+
         // Return certificate details
         logger.apiSuccess('GET', `/api/verify/${certificateNumber}`, {
-            valid: true,
-            certificateNumber: certificate.certificateNumber
+            valid: !isRevoked,
+            certificateNumber: certificate.certificateNumber,
+            signatureStatus,
         });
 
         return NextResponse.json({
-            valid: true,
+            valid: !isRevoked,
+            status: isRevoked ? 'revoked' : 'valid',
+            revocation: isRevoked
+                ? {
+                    revokedAt: certificate.revokedAt,
+                    reason: revocationReason,
+                    reasonLabel: REVOCATION_REASON_LABELS[revocationReason],
+                    note: certificate.revocationNote || null,
+                }
+                : null,
             certificate: {
                 certificateNumber: certificate.certificateNumber,
                 participantName: certificate.participantName,
-                certificateUrl: certificate.certificateUrl,
+                achievementType,
+                achievement: ACHIEVEMENT_TYPE_LABELS[achievementType],
+                customFields: verifyCustomFields.flatMap((key) => {
+                    const value = customFields.get(key);
+                    return value ? [{ key, label: customFieldLabel(key), value }] : [];
+                }),
+                // Member emails stay private; only names are shown
+                team: certificate.teamName
+                    ? {
+                        name: certificate.teamName,
+                        isTeamCertificate: !!certificate.isTeamCertificate,
+                        members: (certificate.teamMembers || []).map(
+                            (member: ITeamMember) => member.name
+                        ),
+                    }
+                    : null,
+                certificateUrl:
+                    isRevoked || downloadRestricted
+                        ? null
+                        : buildDownloadUrl(certificate.certificateNumber),
+                downloadRestricted,
                 event: {
                     title: certificate.eventId.title,
                     startDate: certificate.eventId.startDate,
@@ -72,6 +183,15 @@ export async function GET(
                 issuedAt: certificate.issuedAt,
                 verificationHash: certificate.verificationHash,
             },
+            signature: {
+                status: signatureStatus,
+                algorithm: SIGNATURE_ALGORITHM,
+                keyId: certificate.signatureKeyId || null,
+                value: certificate.signature || null,
+                payload: certificate.signature
+                    ? buildCanonicalPayload(signable)
+                    : null,
+            },
         });
     } catch (error) {
         logger.apiError('GET', `/api/verify/${(await params).certificateNumber}`, error);
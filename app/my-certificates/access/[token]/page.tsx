@@ -0,0 +1,73 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { AlertCircle, Award } from "lucide-react";
+
+export default function PortalAccessPage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState("");
+
+  // Redeeming needs a click so mail scanners that prefetch links cannot use
+  // up the one-time token
+  const handleOpen = async () => {
+    setIsOpening(true);
+    setError("");
+    try {
+      const res = await fetch(
+        `/api/portal/access/${encodeURIComponent(token)}`,
+        { method: "POST", credentials: "include" },
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to open link");
+      router.replace("/my-certificates");
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to open link");
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-slate-950 flex items-center justify-center p-4 font-sans">
+      <div className="w-full max-w-md bg-slate-900/80 rounded-2xl p-8 border border-slate-800 text-center">
+        {error ? (
+          <>
+            <AlertCircle className="w-12 h-12 text-red-400 mx-auto mb-4" />
+            <h1 className="text-xl font-bold text-white mb-2">
+              Link Unavailable
+            </h1>
+            <p className="text-slate-400 text-sm mb-6">{error}</p>
+            <Link
+              href="/my-certificates"
+              className="inline-block px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors"
+            >
+              Request a new link
+            </Link>
+          </>
+        ) : (
+          <>
+            <Award className="w-12 h-12 text-cyan-400 mx-auto mb-4" />
+            <h1 className="text-xl font-bold text-white mb-2">
+              View My Certificates
+            </h1>
+            <p className="text-slate-400 text-sm mb-6">
+              This link can only be used once. Continue to see every certificate
+              issued to your email address.
+            </p>
+            <button
+              type="button"
+              onClick={handleOpen}
+              disabled={isOpening}
+              className="w-full bg-linear-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white font-medium py-3 rounded-xl transition-all disabled:opacity-50 cursor-pointer"
+            >
+              {isOpening ? "Opening..." : "Continue"}
+            </button>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,279 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import {
+  ArrowLeft,
+  Ban,
+  Calendar,
+  Download,
+  ExternalLink,
+  Loader2,
+  LogOut,
+  Mail,
+} from "lucide-react";
+import toast from "react-hot-toast";
+import { formatDateRange } from "@/lib/dateUtils";
+
+interface PortalCertificate {
+  certificateNumber: string;
+  participantName: string;
+  issuedAt: string;
+  certificateUrl: string | null;
+  revoked: boolean;
+  event: {
+    title: string;
+    startDate: string;
+    endDate: string;
+    organizer: string;
+  } | null;
+}
+
+interface PortalSession {
+  email: string;
+  certificates: PortalCertificate[];
+}
+
+export default function MyCertificatesPage() {
+  const [session, setSession] = useState<PortalSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sentMessage, setSentMessage] = useState("");
+  const [error, setError] = useState("");
+
+  const loadCertificates = useCallback(async () => {
+    try {
+      const res = await fetch("/api/portal/certificates", {
+        credentials: "include",
+      });
+      if (res.status === 401) {
+        setSession(null);
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load");
+      setSession({ email: data.email, certificates: data.certificates });
+    } catch (err: unknown) {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to load certificates",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCertificates();
+  }, [loadCertificates]);
+
+  const handleRequestLink = async (e: React.SubmitEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError("");
+    try {
+      const res = await fetch("/api/portal/link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to send link");
+      setSentMessage(data.message);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to send link");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await fetch("/api/portal/session", {
+      method: "DELETE",
+      credentials: "include",
+    }).catch(() => null);
+    setSession(null);
+    setSentMessage("");
+    setEmail("");
+  };
+
+  return (
+    <main className="min-h-screen bg-slate-950 flex items-center justify-center p-4 relative overflow-hidden font-sans">
+      <div className="absolute inset-0 bg-[radial-gradient(#334155_1px,transparent_1px)] bg-size-[16px_16px] opacity-20"></div>
+
+      <div className="w-full max-w-2xl relative z-10 mx-auto">
+        <Link
+          href="/"
+          className="inline-flex items-center gap-2 text-slate-400 hover:text-white text-sm mb-4 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to verification
+        </Link>
+
+        <div className="bg-slate-900/80 backdrop-blur-xl rounded-2xl sm:rounded-3xl p-6 sm:p-10 shadow-[0_8px_30px_rgb(0,0,0,0.5)] border border-slate-800 relative overflow-hidden">
+          <div className="absolute top-0 left-0 w-full h-1.5 bg-linear-to-r from-blue-600 via-cyan-500 to-blue-600"></div>
+
+          <div className="flex justify-center mb-6 sm:mb-8">
+            <Image
+              src="/assets/ECell_Full_Logo.png"
+              alt="E-Cell RGPV Logo"
+              width={200}
+              height={80}
+              className="object-contain w-32 sm:w-40"
+              priority
+            />
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="w-8 h-8 animate-spin text-cyan-500" />
+            </div>
+          ) : session ? (
+            <div>
+              <div className="flex items-start justify-between gap-4 mb-6">
+                <div>
+                  <h1 className="text-xl sm:text-2xl font-bold text-white tracking-tight">
+                    My Certificates
+                  </h1>
+                  <p className="text-slate-400 text-sm mt-1 break-all">
+                    {session.email}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleSignOut}
+                  className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 text-sm rounded-lg transition-colors cursor-pointer"
+                >
+                  <LogOut className="w-4 h-4" />
+                  Sign out
+                </button>
+              </div>
+
+              {session.certificates.length === 0 ? (
+                <p className="text-slate-400 text-center py-8">
+                  No certificates have been issued to this address.
+                </p>
+              ) : (
+                <ul className="space-y-3">
+                  {session.certificates.map((certificate) => (
+                    <li
+                      key={certificate.certificateNumber}
+                      className="bg-slate-950/50 border border-slate-800 rounded-xl p-4"
+                    >
+                      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                        <div className="min-w-0">
+                          <p className="text-white font-medium">
+                            {certificate.event?.title || "Event"}
+                          </p>
+                          {certificate.event && (
+                            <p className="text-slate-400 text-xs mt-1 flex items-center gap-1.5">
+                              <Calendar className="w-3.5 h-3.5" />
+                              {formatDateRange(
+                                certificate.event.startDate,
+                                certificate.event.endDate,
+                              )}
+                            </p>
+                          )}
+                          <p className="text-cyan-400 text-xs font-mono mt-1">
+                            {certificate.certificateNumber}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {certificate.revoked ? (
+                            <span className="flex items-center gap-1.5 px-3 py-1.5 bg-red-950/50 border border-red-900/50 text-red-300 text-xs rounded-lg">
+                              <Ban className="w-3.5 h-3.5" />
+                              Revoked
+                            </span>
+                          ) : (
+                            certificate.certificateUrl && (
+                              <a
+                                href={certificate.certificateUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-1.5 px-3 py-1.5 bg-linear-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white text-xs rounded-lg transition-all"
+                              >
+                                <Download className="w-3.5 h-3.5" />
+                                Download
+                              </a>
+                            )
+                          )}
+                          <Link
+                            href={`/verify/${certificate.certificateNumber}`}
+                            className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded-lg transition-colors"
+                          >
+                            <ExternalLink className="w-3.5 h-3.5" />
+                            Verify
+                          </Link>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ) : (
+            <div>
+              <div className="text-center mb-8">
+                <h1 className="text-xl sm:text-2xl font-bold text-white tracking-tight">
+                  Find My Certificates
+                </h1>
+                <p className="text-slate-400 text-sm sm:text-base mt-3">
+                  Enter the email address your certificates were issued to and
+                  we&apos;ll send you a one-time link to view them all.
+                </p>
+              </div>
+
+              {sentMessage ? (
+                <div className="bg-blue-950/40 border border-blue-900/50 rounded-xl p-4 text-blue-100 text-sm flex gap-3">
+                  <Mail className="w-5 h-5 text-blue-400 shrink-0" />
+                  <div>
+                    <p>{sentMessage}</p>
+                    <p className="text-blue-300/70 mt-2 text-xs">
+                      The link expires in 15 minutes and can be used once.
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <form onSubmit={handleRequestLink} className="space-y-4">
+                  <div>
+                    <label
+                      htmlFor="portalEmail"
+                      className="block text-sm font-semibold text-slate-300 mb-2 ml-1"
+                    >
+                      Email Address
+                    </label>
+                    <input
+                      type="email"
+                      id="portalEmail"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="you@example.com"
+                      className="w-full px-4 sm:px-5 py-3 bg-slate-950/50 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all"
+                      required
+                    />
+                  </div>
+
+                  {error && (
+                    <div className="bg-red-950/50 border border-red-900/50 rounded-lg p-3 text-red-200 text-sm">
+                      {error}
+                    </div>
+                  )}
+
+                  <button
+                    type="submit"
+                    disabled={isSending}
+                    className="w-full bg-linear-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white font-medium py-3 px-6 rounded-xl transition-all disabled:opacity-50 cursor-pointer flex justify-center items-center gap-2"
+                  >
+                    <Mail className="w-5 h-5" />
+                    {isSending ? "Sending..." : "Email Me a Link"}
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import React, { useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Info, Shield, QrCode } from "lucide-react";
 
@@ -86,7 +87,7 @@ export default function Home() {
                   id="certificateNumber"
                   value={certificateNumber}
                   onChange={(e) => setCertificateNumber(e.target.value)}
-                  placeholder="e.g. ECELL-2025-ABCD1"
+                  placeholder="e.g. ECELL-2025-ABCD1-H"
                   className="w-full px-4 sm:px-5 py-3 sm:py-4 bg-slate-950/50 border border-slate-700 rounded-xl sm:rounded-2xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-500 transition-all uppercase font-mono tracking-wide text-sm sm:text-lg"
                   required
                 />
@@ -129,6 +130,16 @@ export default function Home() {
             Scan QR Code
           </button>
 
+          <p className="mt-6 text-center text-sm text-slate-400">
+            Lost your certificate number?{" "}
+            <Link
+              href="/my-certificates"
+              className="text-blue-400 hover:text-blue-300 font-medium"
+            >
+              Find my certificates
+            </Link>
+          </p>
+
           {/* Info Section */}
           <div className="mt-8 pt-6 border-t border-slate-800 text-center">
             <p className="text-slate-400 text-xs sm:text-sm flex items-center justify-center gap-2">
@@ -13,6 +13,11 @@ import {
   Download,
   ExternalLink,
   Copy,
+  ShieldCheck,
+  ShieldAlert,
+  Ban,
+  Award,
+  Users,
 } from "lucide-react";
 import toast from "react-hot-toast";
 import { formatDateRange } from "@/lib/dateUtils";
@@ -26,10 +31,26 @@ interface VerifyPageProps {
 
 interface CertificateData {
   valid: boolean;
+  status?: "valid" | "revoked" | "not_found" | "invalid_check";
+  revocation?: {
+    revokedAt: string;
+    reason: string;
+    reasonLabel: string;
+    note: string | null;
+  } | null;
   certificate?: {
     certificateNumber: string;
     participantName: string;
-    certificateUrl: string;
+    achievementType?: string;
+    achievement?: string;
+    customFields?: Array<{ key: string; label: string; value: string }>;
+    team?: {
+      name: string;
+      isTeamCertificate: boolean;
+      members: string[];
+    } | null;
+    certificateUrl: string | null;
+    downloadRestricted?: boolean;
     event: {
       title: string;
       startDate: string;
@@ -39,7 +60,15 @@ interface CertificateData {
     issuedAt: string;
     verificationHash: string;
   };
+  signature?: {
+    status: "valid" | "invalid" | "unsigned" | "unknown_key";
+    algorithm: string;
+    keyId: string | null;
+    value: string | null;
+    payload: string | null;
+  };
   message?: string;
+  suggestions?: string[];
   error?: string;
 }
 
@@ -339,53 +368,142 @@ export default function VerifyPage({ params }: VerifyPageProps) {
                   );
                 })()}
 
+                {data.certificate?.team && (
+                  <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4 sm:p-6 text-left">
+                    <div className="flex items-start gap-3">
+                      <Users className="w-5 h-5 text-violet-400 mt-0.5 shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-slate-400 text-sm">
+                          {data.certificate.team.isTeamCertificate
+                            ? "Team Members"
+                            : "Team"}
+                        </p>
+                        {data.certificate.team.isTeamCertificate ? (
+                          <ul className="mt-1 space-y-1">
+                            {data.certificate.team.members.map(
+                              (member, index) => (
+                                <li
+                                  key={index}
+                                  className="text-white font-semibold wrap-break-word"
+                                >
+                                  {member}
+                                </li>
+                              ),
+                            )}
+                          </ul>
+                        ) : (
+                          <p className="text-white font-semibold wrap-break-word">
+                            {data.certificate.team.name}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {data.certificate &&
+                  (data.certificate.achievementType !== "participant" ||
+                    (data.certificate.customFields?.length ?? 0) > 0) && (
+                    <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4 sm:p-6 space-y-4 text-left">
+                      {data.certificate.achievement &&
+                        data.certificate.achievementType !== "participant" && (
+                          <div className="flex items-start gap-3">
+                            <Award className="w-5 h-5 text-amber-400 mt-0.5 shrink-0" />
+                            <div className="min-w-0 flex-1">
+                              <p className="text-slate-400 text-sm">
+                                Achievement
+                              </p>
+                              <p className="text-white font-semibold">
+                                {data.certificate.achievement}
+                              </p>
+                            </div>
+                          </div>
+                        )}
+                      {data.certificate.customFields?.map((field) => (
+                        <div key={field.key} className="flex items-start gap-3">
+                          <Info className="w-5 h-5 text-slate-400 mt-0.5 shrink-0" />
+                          <div className="min-w-0 flex-1">
+                            <p className="text-slate-400 text-sm">
+                              {field.label}
+                            </p>
+                            <p className="text-white font-semibold wrap-break-word">
+                              {field.value}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                {data.signature && data.signature.status !== "unsigned" && (
+                  <div
+                    className={`flex items-start gap-3 rounded-xl p-4 text-left border ${
+                      data.signature.status === "valid"
+                        ? "bg-emerald-500/5 border-emerald-500/20"
+                        : "bg-amber-500/5 border-amber-500/20"
+                    }`}
+                  >
+                    {data.signature.status === "valid" ? (
+                      <ShieldCheck className="w-5 h-5 text-emerald-400 mt-0.5 shrink-0" />
+                    ) : (
+                      <ShieldAlert className="w-5 h-5 text-amber-400 mt-0.5 shrink-0" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <p
+                        className={`font-semibold text-sm ${
+                          data.signature.status === "valid"
+                            ? "text-emerald-300"
+                            : "text-amber-300"
+                        }`}
+                      >
+                        {data.signature.status === "valid"
+                          ? "Digital signature verified"
+                          : data.signature.status === "unknown_key"
+                            ? "Signed with a key that is no longer published"
+                            : "Digital signature does not match"}
+                      </p>
+                      <p className="text-slate-400 text-xs mt-1 wrap-break-word">
+                        {data.signature.algorithm} · Key{" "}
+                        <span className="font-mono">
+                          {data.signature.keyId}
+                        </span>{" "}
+                        ·{" "}
+                        <a
+                          href="/api/public-key"
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline hover:text-white"
+                        >
+                          Issuer public key
+                        </a>
+                      </p>
+                    </div>
+                  </div>
+                )}
+
                 {data.certificate?.certificateUrl && (
-                  <button
-                    onClick={async () => {
-                      if (!data.certificate?.certificateUrl) return;
-                      try {
-                        const toastId = toast.loading("Initiating download...");
-
-                        const response = await fetch(
-                          data.certificate.certificateUrl,
-                        );
-                        if (!response.ok)
-                          throw new Error("Failed to fetch certificate");
-
-                        const blob = await response.blob();
-                        const blobUrl = window.URL.createObjectURL(blob);
-
-                        const a = document.createElement("a");
-                        a.style.display = "none";
-                        a.href = blobUrl;
-                        const safeName =
-                          data.certificate.participantName.replace(
-                            /[^a-z0-9]/gi,
-                            "_",
-                          );
-                        a.download = `${safeName}_${data.certificate.certificateNumber}.pdf`;
-
-                        document.body.appendChild(a);
-                        a.click();
-
-                        window.URL.revokeObjectURL(blobUrl);
-                        document.body.removeChild(a);
-                        toast.success("Download started!", { id: toastId });
-                      } catch (error) {
-                        console.error("Download error:", error);
-                        const attachUrl =
-                          data.certificate.certificateUrl.replace(
-                            "/upload/",
-                            "/upload/fl_attachment/",
-                          );
-                        window.open(attachUrl, "_blank");
-                      }
-                    }}
+                  <a
+                    href={data.certificate.certificateUrl}
+                    download
                     className="inline-flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 active:scale-[0.98] text-white font-medium py-3 px-6 sm:px-8 rounded-xl transition-all duration-300 border border-slate-700 hover:border-slate-600 shadow-md cursor-pointer text-sm sm:text-base w-full sm:w-auto mt-4"
                   >
                     <Download className="w-4 h-4 shrink-0" />
                     <span>Download Certificate</span>
-                  </button>
+                  </a>
+                )}
+                {data.certificate?.downloadRestricted && (
+                  <p className="text-slate-400 text-sm mt-4">
+                    Downloads for this event are private. The participant can
+                    download the PDF from the link in their certificate email or
+                    from{" "}
+                    <Link
+                      href="/my-certificates"
+                      className="text-blue-400 hover:text-blue-300 underline"
+                    >
+                      My Certificates
+                    </Link>
+                    .
+                  </p>
                 )}
               </div>
 
@@ -396,7 +514,7 @@ export default function VerifyPage({ params }: VerifyPageProps) {
                       Certificate Preview
                     </h3>
                     <a
-                      href={data.certificate.certificateUrl}
+                      href={`${data.certificate.certificateUrl}?inline=1`}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-slate-400 hover:text-white transition-colors text-sm flex items-center gap-1.5 cursor-pointer w-full sm:w-auto bg-slate-800 hover:bg-slate-700 py-1.5 px-3 rounded-lg border border-slate-700"
@@ -407,7 +525,7 @@ export default function VerifyPage({ params }: VerifyPageProps) {
                   </div>
                   <div className="bg-slate-900 rounded-lg overflow-hidden relative w-full pt-[70%] sm:pt-0 sm:h-150 border border-slate-800">
                     <iframe
-                      src={`https://docs.google.com/viewer?url=${encodeURIComponent(data.certificate.certificateUrl)}&embedded=true`}
+                      src={`https://docs.google.com/viewer?url=${encodeURIComponent(`${data.certificate.certificateUrl}?inline=1`)}&embedded=true`}
                       className="absolute top-0 left-0 w-full h-full sm:relative sm:w-full sm:h-full border-0"
                       title="Certificate Preview"
                     />
@@ -415,6 +533,76 @@ export default function VerifyPage({ params }: VerifyPageProps) {
                 </div>
               )}
             </div>
+          ) : data?.status === "revoked" && data.certificate ? (
+            <div className="space-y-8 py-4">
+              <div className="flex justify-center">
+                <div className="w-20 h-20 bg-rose-500/10 rounded-full flex items-center justify-center border border-rose-500/30 mb-2">
+                  <Ban className="w-10 h-10 text-rose-400" strokeWidth={2} />
+                </div>
+              </div>
+
+              <div className="space-y-6 text-center">
+                <h2 className="text-3xl font-bold text-white">
+                  Certificate Revoked
+                </h2>
+                <p className="text-slate-400 text-base max-w-lg mx-auto">
+                  This certificate was issued by{" "}
+                  {data.certificate.event.organizer} but has since been revoked
+                  and is no longer valid.
+                </p>
+
+                <div className="bg-rose-950/30 border border-rose-900/50 rounded-xl p-4 sm:p-6 space-y-4 text-left">
+                  <div className="flex items-start gap-3">
+                    <Info className="w-5 h-5 text-rose-400 mt-0.5 shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-rose-300/80 text-sm">Reason</p>
+                      <p className="text-white font-semibold">
+                        {data.revocation?.reasonLabel}
+                      </p>
+                      {data.revocation?.note && (
+                        <p className="text-slate-300 text-sm mt-1 wrap-break-word">
+                          {data.revocation.note}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  {data.revocation?.revokedAt && (
+                    <div className="flex items-start gap-3">
+                      <Calendar className="w-5 h-5 text-rose-400 mt-0.5 shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-rose-300/80 text-sm">Revoked On</p>
+                        <p className="text-white font-semibold">
+                          {new Date(
+                            data.revocation.revokedAt,
+                          ).toLocaleDateString()}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4 sm:p-6 space-y-4 text-left">
+                  <div className="flex items-start gap-3">
+                    <User className="w-5 h-5 text-slate-400 mt-0.5 shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-slate-400 text-sm">Issued To</p>
+                      <p className="text-slate-200 font-semibold wrap-break-word">
+                        {data.certificate.participantName}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-start gap-3">
+                    <Calendar className="w-5 h-5 text-slate-400 mt-0.5 shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-slate-400 text-sm">Event</p>
+                      <p className="text-slate-200 font-semibold wrap-break-word">
+                        {data.certificate.event.title}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
           ) : (
             <div className="text-center space-y-8 py-4">
               <div className="flex justify-center">
@@ -428,13 +616,34 @@ export default function VerifyPage({ params }: VerifyPageProps) {
 
               <div className="space-y-4 max-w-lg mx-auto">
                 <h2 className="text-2xl font-bold text-white">
-                  Certificate Not Found
+                  {data?.status === "invalid_check"
+                    ? "Possible Typo"
+                    : "Certificate Not Found"}
                 </h2>
                 <p className="text-slate-400 text-base">
                   {data?.message ||
                     data?.error ||
                     "This certificate number is not registered in our system."}
                 </p>
+                {data?.suggestions && data.suggestions.length > 0 && (
+                  <div className="bg-blue-950/30 border border-blue-900/50 rounded-xl p-5 text-left">
+                    <p className="text-slate-300 text-sm font-semibold mb-3">
+                      Did you mean:
+                    </p>
+                    <ul className="space-y-2">
+                      {data.suggestions.map((suggestion) => (
+                        <li key={suggestion}>
+                          <Link
+                            href={`/verify/${suggestion}`}
+                            className="font-mono text-cyan-400 hover:text-cyan-300 underline underline-offset-4"
+                          >
+                            {suggestion}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 <div className="bg-slate-950/50 border border-slate-800 rounded-xl p-5 mt-8 text-left">
                   <div className="flex items-start gap-3">
                     <Info className="w-5 h-5 text-slate-500 shrink-0" />
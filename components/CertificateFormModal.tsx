@@ -9,7 +9,17 @@ import {
   ExternalLink,
   Upload,
   Loader2,
+  Plus,
+  Trash2,
 } from "lucide-react";
+import {
+  ACHIEVEMENT_TYPE_LABELS,
+  ACHIEVEMENT_TYPES,
+  AchievementType,
+  DEFAULT_ACHIEVEMENT_TYPE,
+  MAX_CUSTOM_FIELDS,
+  normalizeCustomFieldKey,
+} from "@/lib/achievements";
 
 interface Event {
   id: string;
@@ -38,6 +48,8 @@ interface CertificateFormModalProps {
     eventId: string;
     participantName: string;
     participantEmail?: string;
+    achievementType: AchievementType;
+    customFields?: Record<string, string>;
   }) => Promise<void>;
   onUploadSuccess: (certificate: UploadedCertificateResponse) => void;
   isLoading: boolean;
@@ -75,10 +87,37 @@ export function CertificateFormModal({
   const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState("");
+  const [achievementType, setAchievementType] = useState<AchievementType>(
+    DEFAULT_ACHIEVEMENT_TYPE,
+  );
+  const [customFieldRows, setCustomFieldRows] = useState<
+    Array<{ name: string; value: string }>
+  >([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   if (!isOpen) return null;
 
+  // Field names are typed as labels ("Hours Attended") and stored as keys
+  const buildCustomFields = (): Record<string, string> | undefined => {
+    const fields: Record<string, string> = {};
+    for (const row of customFieldRows) {
+      const key = normalizeCustomFieldKey(row.name);
+      if (key && row.value.trim()) fields[key] = row.value.trim();
+    }
+    return Object.keys(fields).length > 0 ? fields : undefined;
+  };
+
+  const updateCustomFieldRow = (
+    index: number,
+    changes: Partial<{ name: string; value: string }>,
+  ) => {
+    setCustomFieldRows(
+      customFieldRows.map((row, i) =>
+        i === index ? { ...row, ...changes } : row,
+      ),
+    );
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setUploadError("");
@@ -109,6 +148,11 @@ export function CertificateFormModal({
             formData.participantEmail.trim(),
           );
         }
+        uploadData.append("achievementType", achievementType);
+        const customFields = buildCustomFields();
+        if (customFields) {
+          uploadData.append("customFields", JSON.stringify(customFields));
+        }
 
         const res = await fetch("/api/admin/certificates/upload", {
           method: "POST",
@@ -128,6 +172,8 @@ export function CertificateFormModal({
         // Clear states on success
         setPdfFile(null);
         setCustomCertificateNumber("");
+        setAchievementType(DEFAULT_ACHIEVEMENT_TYPE);
+        setCustomFieldRows([]);
       } catch (err: unknown) {
         setUploadError(err instanceof Error ? err.message : "Upload failed");
       } finally {
@@ -138,6 +184,8 @@ export function CertificateFormModal({
         eventId: formData.selectedEventId,
         participantName: formData.participantName,
         participantEmail: formData.participantEmail || undefined,
+        achievementType,
+        customFields: buildCustomFields(),
       });
     }
   };
@@ -261,6 +309,94 @@ export function CertificateFormModal({
                 </p>
               </div>
 
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-slate-300 mb-1.5">
+                  Achievement
+                </label>
+                <select
+                  value={achievementType}
+                  onChange={(e) =>
+                    setAchievementType(e.target.value as AchievementType)
+                  }
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 sm:px-4 py-2 text-sm text-white focus:outline-none focus:border-cyan-500"
+                >
+                  {ACHIEVEMENT_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {ACHIEVEMENT_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-slate-300 mb-1.5">
+                  Custom Fields{" "}
+                  <span className="text-slate-500">(Optional)</span>
+                </label>
+                <div className="space-y-2">
+                  {customFieldRows.map((row, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={row.name}
+                        onChange={(e) =>
+                          updateCustomFieldRow(index, { name: e.target.value })
+                        }
+                        className="w-2/5 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-cyan-500"
+                        placeholder="e.g., Position"
+                      />
+                      <input
+                        type="text"
+                        value={row.value}
+                        onChange={(e) =>
+                          updateCustomFieldRow(index, { value: e.target.value })
+                        }
+                        className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-cyan-500"
+                        placeholder="e.g., 1st Place"
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setCustomFieldRows(
+                            customFieldRows.filter((_, i) => i !== index),
+                          )
+                        }
+                        className="text-slate-400 hover:text-red-400 transition-colors cursor-pointer p-1"
+                        aria-label="Remove field"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                  {customFieldRows.length < MAX_CUSTOM_FIELDS && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setCustomFieldRows([
+                          ...customFieldRows,
+                          { name: "", value: "" },
+                        ])
+                      }
+                      className="flex items-center gap-1.5 text-xs sm:text-sm text-cyan-400 hover:text-cyan-300 transition-colors cursor-pointer"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add field
+                    </button>
+                  )}
+                </div>
+                <p className="text-[10px] sm:text-xs text-slate-500 mt-1.5 leading-relaxed">
+                  Templates print a field named{" "}
+                  <span className="text-slate-400 font-mono">
+                    Hours Attended
+                  </span>{" "}
+                  with{" "}
+                  <span className="text-cyan-400 font-mono">
+                    {"{{customFields.hoursAttended}}"}
+                  </span>
+                  . The verify page only shows the fields the event lists.
+                </p>
+              </div>
+
               {mode === "upload" && (
                 <>
                   <div>
@@ -278,7 +414,8 @@ export function CertificateFormModal({
                       placeholder="e.g., ECELL-2026-PASS01"
                     />
                     <p className="text-[10px] sm:text-xs text-slate-400 mt-1">
-                      Must match standard pattern (e.g. ECELL-YYYY-XXXXX)
+                      Letters and digits in hyphen-separated segments (e.g.
+                      ECELL-2026-KD93Q-V or ECELL-HACK24-0001)
                     </p>
                   </div>
 
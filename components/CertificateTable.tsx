@@ -1,7 +1,10 @@
 'use client';
 
-import { Download, ExternalLink, Copy, Calendar, User, Hash, Trash2, FileDown, Mail } from 'lucide-react';
+import { Download, ExternalLink, Copy, Calendar, User, Hash, Trash2, FileDown, Mail, Ban, RotateCcw, RefreshCw, Pencil } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { REVOCATION_REASON_LABELS, RevocationReason } from '@/lib/revocation';
+import { ACHIEVEMENT_TYPE_LABELS, AchievementType, customFieldLabel } from '@/lib/achievements';
+import type { DetailChange } from './EditCertificateModal';
 
 interface Certificate {
     id: string;
@@ -11,9 +14,26 @@ interface Certificate {
     certificateUrl: string;
     issuedAt: string;
     verificationUrl: string;
-    emailStatus?: 'sent' | 'failed' | 'pending' | null;
+    emailStatus?: 'sent' | 'failed' | 'pending' | 'queued' | 'retrying' | null;
     emailSentAt?: string | null;
     emailError?: string | null;
+    emailAttempts?: number | null;
+    emailOpenedAt?: string | null;
+    emailClickedAt?: string | null;
+    emailBouncedAt?: string | null;
+    emailBounceReason?: string | null;
+    revokedAt?: string | null;
+    revocationReason?: RevocationReason | null;
+    revocationNote?: string | null;
+    source?: 'generated' | 'uploaded';
+    regeneratedAt?: string | null;
+    pdfHistory?: Array<{ url: string; replacedAt: string }>;
+    detailHistory?: DetailChange[];
+    achievementType?: AchievementType;
+    customFields?: Record<string, string>;
+    teamName?: string;
+    teamMembers?: string[];
+    isTeamCertificate?: boolean;
 }
 
 interface CertificateTableProps {
@@ -23,8 +43,12 @@ interface CertificateTableProps {
     onSelectAll: () => void;
     onDelete: (id: string) => void;
     onBulkDelete: () => void;
+    onRegenerate: (ids: string[]) => void;
+    onEdit: (certificate: Certificate) => void;
     onExportSelected: (format: 'csv' | 'xlsx') => void;
     onSendEmail: (certificate: Certificate) => void;
+    onRevoke: (certificate: Certificate) => void;
+    onUnrevoke: (certificate: Certificate) => void;
     isLoading?: boolean;
 }
 
@@ -35,8 +59,12 @@ export function CertificateTable({
     onSelectAll,
     onDelete,
     onBulkDelete,
+    onRegenerate,
+    onEdit,
     onExportSelected,
     onSendEmail,
+    onRevoke,
+    onUnrevoke,
     isLoading = false,
 }: CertificateTableProps) {
     const allSelected = certificates.length > 0 && certificates.every(c => selectedIds.has(c.id));
@@ -96,6 +124,16 @@ export function CertificateTable({
                         <Download className="w-4 h-4" />
                         XLSX
                     </button>
+                    <button
+                        type="button"
+                        disabled={selectedIds.size === 0}
+                        onClick={() => onRegenerate(Array.from(selectedIds))}
+                        className="flex items-center gap-2 px-3 py-2 bg-cyan-900/40 hover:bg-cyan-700/50 text-cyan-200 hover:text-white border border-cyan-800/50 rounded-lg transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+                        title="Re-render selected certificates with the current event details and template"
+                    >
+                        <RefreshCw className="w-4 h-4" />
+                        Regenerate ({selectedIds.size})
+                    </button>
                     <button
                         disabled={selectedIds.size === 0}
                         onClick={onBulkDelete}
@@ -140,9 +178,32 @@ export function CertificateTable({
                                         <User className="w-4 h-4 text-emerald-400 shrink-0" />
                                         <div>
                                             <span className="font-medium text-white">{cert.participantName}</span>
+                                            {cert.achievementType && cert.achievementType !== 'participant' && (
+                                                <span className="ml-2 px-1.5 py-0.5 bg-amber-950/50 text-amber-400 rounded text-xs border border-amber-900/50">
+                                                    {ACHIEVEMENT_TYPE_LABELS[cert.achievementType]}
+                                                </span>
+                                            )}
+                                            {cert.isTeamCertificate && (
+                                                <span
+                                                    className="ml-2 px-1.5 py-0.5 bg-violet-950/50 text-violet-400 rounded text-xs border border-violet-900/50"
+                                                    title={(cert.teamMembers || []).join(', ')}
+                                                >
+                                                    Team · {cert.teamMembers?.length ?? 0} members
+                                                </span>
+                                            )}
                                             {cert.participantEmail && (
                                                 <p className="text-slate-400 text-xs">{cert.participantEmail}</p>
                                             )}
+                                            {cert.teamName && !cert.isTeamCertificate && (
+                                                <p className="text-slate-500 text-xs">Team {cert.teamName}</p>
+                                            )}
+                                            {cert.customFields && Object.keys(cert.customFields).length > 0 && (
+                                                <p className="text-slate-500 text-xs">
+                                                    {Object.entries(cert.customFields)
+                                                        .map(([key, value]) => `${customFieldLabel(key)}: ${value}`)
+                                                        .join(' · ')}
+                                                </p>
+                                            )}
                                         </div>
                                     </div>
                                 </td>
@@ -158,18 +219,69 @@ export function CertificateTable({
                                         >
                                             <Copy className="w-3.5 h-3.5" />
                                         </button>
+                                        {cert.revokedAt && (
+                                            <span
+                                                className="flex items-center whitespace-nowrap gap-1.5 px-2 py-0.5 bg-rose-950/50 text-rose-400 rounded text-xs border border-rose-900/50"
+                                                title={[
+                                                    REVOCATION_REASON_LABELS[cert.revocationReason || 'other'],
+                                                    cert.revocationNote,
+                                                    `Revoked ${new Date(cert.revokedAt).toLocaleString()}`,
+                                                ].filter(Boolean).join(' · ')}
+                                            >
+                                                <Ban className="w-3 h-3 shrink-0" /> Revoked
+                                            </span>
+                                        )}
+                                        {cert.pdfHistory && cert.pdfHistory.length > 0 && (
+                                            <span
+                                                className="px-1.5 py-0.5 bg-slate-800 text-slate-300 rounded text-xs border border-slate-700"
+                                                title={[
+                                                    cert.regeneratedAt ? `Regenerated ${new Date(cert.regeneratedAt).toLocaleString()}` : '',
+                                                    ...cert.pdfHistory.map((version, i) => `v${i + 1} replaced ${new Date(version.replacedAt).toLocaleString()}`),
+                                                ].filter(Boolean).join('\n')}
+                                            >
+                                                v{cert.pdfHistory.length + 1}
+                                            </span>
+                                        )}
                                     </div>
                                 </td>
                                 <td className="p-3">
                                     <div className="flex items-center gap-2">
-                                        {cert.emailStatus === 'sent' ? (
-                                            <span className="flex items-center whitespace-nowrap gap-1.5 px-2 py-1 bg-emerald-950/50 text-emerald-400 rounded text-xs border border-emerald-900/50" title={cert.emailSentAt ? new Date(cert.emailSentAt).toLocaleString() : ''}>
-                                                <div className="w-1.5 h-1.5 shrink-0 rounded-full bg-emerald-400"></div> Sent
+                                        {cert.emailStatus === 'sent' && cert.emailBouncedAt ? (
+                                            <span className="flex items-center whitespace-nowrap gap-1.5 px-2 py-1 bg-red-950/50 text-red-400 rounded text-xs border border-red-900/50" title={`Bounced ${new Date(cert.emailBouncedAt).toLocaleString()}: ${cert.emailBounceReason || 'Unknown reason'}`}>
+                                                <div className="w-1.5 h-1.5 shrink-0 rounded-full bg-red-400"></div> Bounced
                                             </span>
+                                        ) : cert.emailStatus === 'sent' ? (
+                                            <>
+                                                <span className="flex items-center whitespace-nowrap gap-1.5 px-2 py-1 bg-emerald-950/50 text-emerald-400 rounded text-xs border border-emerald-900/50" title={cert.emailSentAt ? new Date(cert.emailSentAt).toLocaleString() : ''}>
+                                                    <div className="w-1.5 h-1.5 shrink-0 rounded-full bg-emerald-400"></div> Sent
+                                                </span>
+                                                {/* Delivery tracking: opens and link clicks of the latest send */}
+                                                {cert.emailClickedAt ? (
+                                                    <span className="px-1.5 py-0.5 bg-slate-800 text-emerald-300 rounded text-xs border border-slate-700 whitespace-nowrap" title={`First click ${new Date(cert.emailClickedAt).toLocaleString()}`}>
+                                                        Clicked
+                                                    </span>
+                                                ) : cert.emailOpenedAt ? (
+                                                    <span className="px-1.5 py-0.5 bg-slate-800 text-slate-300 rounded text-xs border border-slate-700 whitespace-nowrap" title={`First opened ${new Date(cert.emailOpenedAt).toLocaleString()}`}>
+                                                        Opened
+                                                    </span>
+                                                ) : (
+                                                    <span className="px-1.5 py-0.5 bg-slate-900 text-slate-500 rounded text-xs border border-slate-800 whitespace-nowrap" title="No open recorded; some mail clients block tracking images">
+                                                        Not opened
+                                                    </span>
+                                                )}
+                                            </>
                                         ) : cert.emailStatus === 'failed' ? (
                                             <span className="flex items-center whitespace-nowrap gap-1.5 px-2 py-1 bg-red-950/50 text-red-400 rounded text-xs border border-red-900/50" title={cert.emailError || 'Failed to send'}>
                                                 <div className="w-1.5 h-1.5 shrink-0 rounded-full bg-red-400"></div> Failed
                                             </span>
+                                        ) : cert.emailStatus === 'queued' ? (
+                                            <span className="flex items-center whitespace-nowrap gap-1.5 px-2 py-1 bg-blue-950/50 text-blue-400 rounded text-xs border border-blue-900/50" title="Waiting to be sent">
+                                                <div className="w-1.5 h-1.5 shrink-0 rounded-full bg-blue-400"></div> Queued
+                                            </span>
+                                        ) : cert.emailStatus === 'retrying' ? (
+                                            <span className="flex items-center whitespace-nowrap gap-1.5 px-2 py-1 bg-amber-950/50 text-amber-400 rounded text-xs border border-amber-900/50" title={`Attempt ${cert.emailAttempts ?? 1} failed: ${cert.emailError || 'Unknown error'}`}>
+                                                <div className="w-1.5 h-1.5 shrink-0 rounded-full bg-amber-400"></div> Retrying
+                                            </span>
                                         ) : !cert.participantEmail ? (
                                             <span className="flex items-center whitespace-nowrap gap-1.5 px-2 py-1 bg-slate-900 text-slate-500 rounded text-xs border border-slate-800" title="No email address">
                                                 <div className="w-1.5 h-1.5 shrink-0 rounded-full bg-slate-600"></div> No Email
@@ -192,8 +304,9 @@ export function CertificateTable({
                                         <button
                                             type="button"
                                             onClick={() => onSendEmail(cert)}
-                                            className="flex items-center gap-1.5 px-2 py-1.5 bg-blue-900/40 hover:bg-blue-600/50 text-blue-300 hover:text-white border border-blue-800/50 rounded transition-colors text-xs cursor-pointer"
-                                            title="Send Email"
+                                            disabled={!!cert.revokedAt}
+                                            className="flex items-center gap-1.5 px-2 py-1.5 bg-blue-900/40 hover:bg-blue-600/50 text-blue-300 hover:text-white border border-blue-800/50 rounded transition-colors text-xs cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                            title={cert.revokedAt ? 'Revoked certificates cannot be emailed' : 'Send Email'}
                                         >
                                             <Mail className="w-3.5 h-3.5" />
                                             <span className="hidden xl:inline">Email</span>
@@ -227,6 +340,55 @@ export function CertificateTable({
                                             <ExternalLink className="w-3.5 h-3.5" />
                                             <span className="hidden xl:inline">View</span>
                                         </a>
+                                        <button
+                                            type="button"
+                                            onClick={() => onEdit(cert)}
+                                            disabled={!!cert.revokedAt || cert.source === 'uploaded'}
+                                            className="flex items-center gap-1.5 px-2 py-1.5 bg-slate-700/50 hover:bg-slate-700 text-white rounded transition-colors text-xs cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                            title={cert.revokedAt
+                                                ? 'Restore the certificate before editing it'
+                                                : cert.source === 'uploaded'
+                                                    ? 'Uploaded certificates cannot be re-rendered'
+                                                    : 'Edit participant details'}
+                                        >
+                                            <Pencil className="w-3.5 h-3.5" />
+                                            <span className="hidden xl:inline">Edit</span>
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => onRegenerate([cert.id])}
+                                            disabled={!!cert.revokedAt || cert.source === 'uploaded'}
+                                            className="flex items-center gap-1.5 px-2 py-1.5 bg-cyan-900/40 hover:bg-cyan-700/50 text-cyan-300 hover:text-white border border-cyan-800/50 rounded transition-colors text-xs cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                                            title={cert.revokedAt
+                                                ? 'Revoked certificates cannot be regenerated'
+                                                : cert.source === 'uploaded'
+                                                    ? 'Uploaded certificates cannot be regenerated'
+                                                    : 'Regenerate PDF'}
+                                        >
+                                            <RefreshCw className="w-3.5 h-3.5" />
+                                            <span className="hidden xl:inline">Regenerate</span>
+                                        </button>
+                                        {cert.revokedAt ? (
+                                            <button
+                                                type="button"
+                                                onClick={() => onUnrevoke(cert)}
+                                                className="flex items-center gap-1.5 px-2 py-1.5 bg-emerald-900/40 hover:bg-emerald-600/50 text-emerald-300 hover:text-white border border-emerald-800/50 rounded transition-colors text-xs cursor-pointer"
+                                                title="Restore certificate"
+                                            >
+                                                <RotateCcw className="w-3.5 h-3.5" />
+                                                <span className="hidden xl:inline">Restore</span>
+                                            </button>
+                                        ) : (
+                                            <button
+                                                type="button"
+                                                onClick={() => onRevoke(cert)}
+                                                className="flex items-center gap-1.5 px-2 py-1.5 bg-amber-900/40 hover:bg-amber-600/50 text-amber-300 hover:text-white border border-amber-800/50 rounded transition-colors text-xs cursor-pointer"
+                                                title="Revoke certificate"
+                                            >
+                                                <Ban className="w-3.5 h-3.5" />
+                                                <span className="hidden xl:inline">Revoke</span>
+                                            </button>
+                                        )}
                                         <button
                                             type="button"
                                             onClick={() => onDelete(cert.id)}
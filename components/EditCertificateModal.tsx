@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Pencil } from 'lucide-react';
+
+export interface DetailChange {
+    field: 'participantName' | 'participantEmail';
+    before?: string;
+    after?: string;
+    changedAt: string;
+    changedBy: string;
+}
+
+export interface CertificateDetailsUpdate {
+    participantName: string;
+    participantEmail: string;
+    resendEmail: boolean;
+}
+
+interface EditCertificateModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onConfirm: (update: CertificateDetailsUpdate) => void;
+    certificateNumber?: string;
+    participantName?: string;
+    participantEmail?: string;
+    detailHistory?: DetailChange[];
+    isLoading?: boolean;
+}
+
+const FIELD_LABELS: Record<DetailChange['field'], string> = {
+    participantName: 'Name',
+    participantEmail: 'Email',
+};
+
+export function EditCertificateModal({
+    isOpen,
+    onClose,
+    onConfirm,
+    certificateNumber,
+    participantName = '',
+    participantEmail = '',
+    detailHistory = [],
+    isLoading = false,
+}: EditCertificateModalProps) {
+    const [name, setName] = useState(participantName);
+    const [email, setEmail] = useState(participantEmail);
+    const [resendEmail, setResendEmail] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setName(participantName);
+            setEmail(participantEmail);
+            setResendEmail(false);
+        }
+    }, [isOpen, participantName, participantEmail]);
+
+    if (!isOpen) return null;
+
+    const hasChanges = name.trim() !== participantName || email.trim().toLowerCase() !== participantEmail;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="bg-slate-900 rounded-2xl p-6 max-w-md w-full border border-slate-800 max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                        <Pencil className="w-5 h-5 text-cyan-400" />
+                        Edit Participant Details
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        disabled={isLoading}
+                        className="text-slate-400 hover:text-white transition-colors disabled:opacity-50 cursor-pointer"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <p className="text-slate-300 mb-6">
+                    The PDF for <span className="font-mono text-cyan-400">{certificateNumber}</span> is re-rendered
+                    with the corrected details. The certificate number stays the same, so links already shared keep
+                    working and show the latest version.
+                </p>
+
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        onConfirm({ participantName: name.trim(), participantEmail: email.trim(), resendEmail });
+                    }}
+                    className="space-y-4"
+                >
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">Participant Name</label>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            disabled={isLoading}
+                            required
+                            maxLength={200}
+                            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-blue-500"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Participant Email <span className="text-slate-500">(optional)</span>
+                        </label>
+                        <input
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            disabled={isLoading}
+                            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-blue-500"
+                        />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-slate-300">
+                        <input
+                            type="checkbox"
+                            checked={resendEmail}
+                            onChange={(e) => setResendEmail(e.target.checked)}
+                            disabled={isLoading || !email.trim()}
+                            className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-blue-600 focus:ring-blue-500"
+                        />
+                        Send the corrected certificate by email
+                    </label>
+
+                    {detailHistory.length > 0 && (
+                        <div className="border border-slate-800 rounded-lg p-3">
+                            <p className="text-xs font-semibold text-slate-400 mb-2">Previous corrections</p>
+                            <ul className="space-y-1.5 text-xs text-slate-400 max-h-32 overflow-y-auto">
+                                {[...detailHistory].reverse().map((change, i) => (
+                                    <li key={i}>
+                                        <span className="text-slate-300">{FIELD_LABELS[change.field]}:</span>{' '}
+                                        <span className="line-through">{change.before || '(none)'}</span> →{' '}
+                                        <span className="text-slate-200">{change.after || '(none)'}</span>
+                                        <span className="block text-slate-500">
+                                            {new Date(change.changedAt).toLocaleString()} by {change.changedBy}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="flex gap-3">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            disabled={isLoading}
+                            className="flex-1 bg-slate-800 hover:bg-slate-700 text-white py-2 rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={isLoading || !hasChanges || !name.trim()}
+                            className="flex-1 bg-linear-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white py-2 rounded-lg transition-all disabled:opacity-50 cursor-pointer"
+                        >
+                            {isLoading ? 'Re-issuing...' : 'Save & Re-issue'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Save, Plus, Trash2, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ConfirmDialog } from './ConfirmDialog';
+import { findTemplateProblems, isValidPartialName } from '@/lib/emailRendering';
+
+export interface EmailPartial {
+    _id: string;
+    name: string;
+    html: string;
+    description?: string;
+}
+
+interface EmailPartialsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    partials: EmailPartial[];
+    /** Called after a partial is created, updated or deleted */
+    onChange: () => void;
+}
+
+const NEW_PARTIAL_HTML = `<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+    <p style="color: #64748b; font-size: 12px;">{{organizer}}</p>
+</div>`;
+
+/**
+ * Manage the shared header/footer partials that email templates include
+ * with {{> name}}
+ */
+export function EmailPartialsModal({ isOpen, onClose, partials, onChange }: EmailPartialsModalProps) {
+    // null = creating a new partial
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [html, setHtml] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const selectPartial = (partial: EmailPartial | null) => {
+        setSelectedId(partial?._id ?? null);
+        setName(partial?.name ?? '');
+        setDescription(partial?.description ?? '');
+        setHtml(partial?.html ?? NEW_PARTIAL_HTML);
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            selectPartial(partials[0] ?? null);
+        }
+        // Only reset when the dialog opens, not after every save
+    }, [isOpen]);
+
+    // Partials cannot include other partials, so none are allowed here
+    const problems = findTemplateProblems(html, { partials: [] });
+
+    const handleSave = async () => {
+        if (!selectedId && !isValidPartialName(name)) {
+            toast.error('Name must start with a letter and contain only letters, digits, _ and -');
+            return;
+        }
+        if (!html.trim()) {
+            toast.error('Partial HTML is required');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const res = await fetch(
+                selectedId ? `/api/admin/email-partials/${selectedId}` : '/api/admin/email-partials',
+                {
+                    method: selectedId ? 'PUT' : 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    credentials: 'include',
+                    body: JSON.stringify(selectedId ? { html, description } : { name, html, description }),
+                }
+            );
+            const data = await res.json();
+            if (res.ok && data.success) {
+                toast.success(selectedId ? 'Partial updated' : 'Partial created');
+                setSelectedId(data.partial._id);
+                onChange();
+            } else {
+                toast.error(data.error || 'Failed to save partial');
+            }
+        } catch (error) {
+            toast.error('Network error occurred');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selectedId) return;
+        setIsDeleting(true);
+        try {
+            const res = await fetch(`/api/admin/email-partials/${selectedId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const data = await res.json();
+            if (res.ok && data.success) {
+                toast.success('Partial deleted');
+                setShowDeleteConfirm(false);
+                selectPartial(partials.find((partial) => partial._id !== selectedId) ?? null);
+                onChange();
+            } else {
+                toast.error(data.error || 'Failed to delete partial');
+                setShowDeleteConfirm(false);
+            }
+        } catch (error) {
+            toast.error('Network error occurred');
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[60] sm:p-4">
+            <div className="bg-slate-900 w-full h-[100dvh] sm:h-auto sm:rounded-2xl max-w-4xl border-y sm:border border-slate-700/50 shadow-2xl flex flex-col sm:max-h-[85vh]">
+
+                {/* Header */}
+                <div className="flex items-start sm:items-center justify-between p-3 sm:p-4 border-b border-slate-800">
+                    <div className="pr-2">
+                        <h3 className="text-lg sm:text-xl font-bold text-white leading-tight">Email Partials</h3>
+                        <p className="text-xs sm:text-sm text-slate-400 mt-0.5">Shared headers and footers, included in any event&apos;s email with {'{{> name}}'}</p>
+                    </div>
+                    <button onClick={onClose} className="p-1.5 sm:p-2 text-slate-400 hover:text-white transition-colors cursor-pointer rounded-lg hover:bg-slate-800 shrink-0">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 flex flex-col md:flex-row min-h-0 overflow-hidden">
+                    {/* Partial List */}
+                    <div className="md:w-56 border-b md:border-b-0 md:border-r border-slate-800 p-3 space-y-1 overflow-y-auto">
+                        <button
+                            type="button"
+                            onClick={() => selectPartial(null)}
+                            className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm cursor-pointer transition-colors ${selectedId === null ? 'bg-blue-600/20 text-blue-300' : 'text-slate-300 hover:bg-slate-800'}`}
+                        >
+                            <Plus className="w-4 h-4" /> New Partial
+                        </button>
+                        {partials.map((partial) => (
+                            <button
+                                key={partial._id}
+                                type="button"
+                                onClick={() => selectPartial(partial)}
+                                className={`w-full text-left px-3 py-2 rounded-lg text-sm cursor-pointer transition-colors ${selectedId === partial._id ? 'bg-blue-600/20 text-blue-300' : 'text-slate-300 hover:bg-slate-800'}`}
+                            >
+                                <span className="block font-mono truncate">{partial.name}</span>
+                                {partial.description && <span className="block text-xs text-slate-500 truncate">{partial.description}</span>}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Editor */}
+                    <div className="flex-1 flex flex-col p-4 gap-3 min-h-0 overflow-y-auto">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Name</label>
+                                <input
+                                    type="text"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    disabled={selectedId !== null}
+                                    className="w-full bg-slate-950/50 border border-slate-700 rounded-lg px-3 py-2 text-white font-mono focus:outline-none focus:border-blue-500 disabled:opacity-60"
+                                    placeholder="header"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Description</label>
+                                <input
+                                    type="text"
+                                    value={description}
+                                    onChange={(e) => setDescription(e.target.value)}
+                                    className="w-full bg-slate-950/50 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+                                    placeholder="E-Cell branded header"
+                                />
+                            </div>
+                        </div>
+                        {name && (
+                            <p className="text-xs text-slate-500">
+                                Include with <code className="text-slate-300">{`{{> ${name}}}`}</code>. Partials use the same variables as the email and cannot include other partials.
+                            </p>
+                        )}
+                        <textarea
+                            value={html}
+                            onChange={(e) => setHtml(e.target.value)}
+                            className="w-full flex-1 min-h-[240px] bg-slate-950/50 border border-slate-700 rounded-lg text-sm text-slate-300 font-mono p-3 focus:outline-none focus:border-blue-500 resize-none"
+                        />
+                        {problems.length > 0 && (
+                            <div className="p-2 bg-amber-950/40 border border-amber-900/50 rounded-lg text-xs text-amber-300 space-y-1">
+                                {problems.map((problem) => (
+                                    <p key={problem} className="flex items-start gap-1.5 whitespace-pre-wrap">
+                                        <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {problem}
+                                    </p>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {/* Footer Controls */}
+                <div className="p-3 sm:p-4 border-t border-slate-800 flex items-center justify-between gap-3">
+                    {selectedId ? (
+                        <button
+                            type="button"
+                            onClick={() => setShowDeleteConfirm(true)}
+                            className="flex items-center gap-2 px-3 py-2 text-red-400 hover:bg-red-950/40 rounded-lg transition-colors cursor-pointer text-sm"
+                        >
+                            <Trash2 className="w-4 h-4" /> Delete
+                        </button>
+                    ) : (
+                        <div></div>
+                    )}
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="px-4 py-2 text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors cursor-pointer"
+                        >
+                            Close
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleSave}
+                            disabled={isSaving || problems.length > 0}
+                            className="flex items-center gap-2 px-5 py-2 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white rounded-lg transition-all disabled:opacity-50 cursor-pointer font-medium"
+                        >
+                            <Save className="w-4 h-4" />
+                            {isSaving ? 'Saving...' : selectedId ? 'Save Partial' : 'Create Partial'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            <ConfirmDialog
+                isOpen={showDeleteConfirm}
+                onClose={() => setShowDeleteConfirm(false)}
+                onConfirm={handleDelete}
+                title="Delete Partial?"
+                message={`"${name}" will be removed. Event email templates that still include it must be changed first.`}
+                confirmText="Delete Partial"
+                confirmVariant="danger"
+                isLoading={isDeleting}
+            />
+        </div>
+    );
+}
@@ -1,9 +1,11 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { X, Save, Eye, Code, ChevronDown } from 'lucide-react';
+import { X, Save, Eye, Code, ChevronDown, Paperclip, Puzzle, AlertTriangle, Library, Archive, BookmarkPlus, RotateCcw } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { ConfirmDialog } from './ConfirmDialog';
+import { EmailPartialsModal, type EmailPartial } from './EmailPartialsModal';
+import { findTemplateProblems, renderEmailTemplate, type EmailVariables } from '@/lib/emailRendering';
 
 interface EmailTemplateModalProps {
     isOpen: boolean;
@@ -11,6 +13,18 @@ interface EmailTemplateModalProps {
     eventId: string;
 }
 
+interface LibraryTemplate {
+    _id: string;
+    name: string;
+    description?: string;
+    category?: string;
+    subject: string;
+    body: string;
+    attachPdf: boolean;
+    inlineQr: boolean;
+    isArchived: boolean;
+}
+
 const DEFAULT_SUBJECT = 'Your Certificate for {{eventName}}';
 const DEFAULT_BODY = `<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; color: #333;">
     <h2 style="color: #2563eb;">Hello {{participantName}},</h2>
@@ -36,6 +50,7 @@ const DEFAULT_BODY = `<div style="font-family: sans-serif; max-width: 600px; mar
 
 const PLACEHOLDERS = [
     { label: 'Participant Name', value: '{{participantName}}' },
+    { label: 'Participant Email', value: '{{participantEmail}}' },
     { label: 'Event Name', value: '{{eventName}}' },
     { label: 'Event Date', value: '{{eventDate}}' },
     { label: 'Certificate #', value: '{{certificateNumber}}' },
@@ -43,8 +58,13 @@ const PLACEHOLDERS = [
     { label: 'PDF Link', value: '{{certificateLink}}' },
     { label: 'Issue Date', value: '{{issueDate}}' },
     { label: 'Organizer', value: '{{organizer}}' },
+    { label: 'QR Code (inline image)', value: '{{qrCode}}' },
+    { label: 'Only with an email address', value: '{{#if participantEmail}}{{/if}}' },
 ];
 
+// Stand-in for the inline QR image, which only exists once an email is sent
+const PREVIEW_QR_CODE = '<span style="display: inline-flex; align-items: center; justify-content: center; width: 160px; height: 160px; border: 2px dashed #94a3b8; color: #64748b; font-size: 12px;">Verification QR code</span>';
+
 export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateModalProps) {
     const [subject, setSubject] = useState('');
     const [body, setBody] = useState('');
@@ -57,18 +77,56 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
     const [lastFocusedField, setLastFocusedField] = useState<'subject' | 'body'>('body');
     const [originalSubject, setOriginalSubject] = useState('');
     const [originalBody, setOriginalBody] = useState('');
+    const [attachPdf, setAttachPdf] = useState(false);
+    const [inlineQr, setInlineQr] = useState(false);
+    const [originalAttachments, setOriginalAttachments] = useState({ attachPdf: false, inlineQr: false });
     const [showExitConfirm, setShowExitConfirm] = useState(false);
+    const [partials, setPartials] = useState<EmailPartial[]>([]);
+    const [showPartials, setShowPartials] = useState(false);
+    const [libraryTemplates, setLibraryTemplates] = useState<LibraryTemplate[]>([]);
+    // '' = the event's own template
+    const [libraryId, setLibraryId] = useState('');
+    const [originalLibraryId, setOriginalLibraryId] = useState('');
+    const [showSaveToLibrary, setShowSaveToLibrary] = useState(false);
+    const [libraryName, setLibraryName] = useState('');
+    const [libraryCategory, setLibraryCategory] = useState('');
+    const [isSavingLibrary, setIsSavingLibrary] = useState(false);
+    const [showUpdateLibraryConfirm, setShowUpdateLibraryConfirm] = useState(false);
+    const [showArchiveConfirm, setShowArchiveConfirm] = useState(false);
     
-    const hasUnsavedChanges = subject !== originalSubject || body !== originalBody;
+    const hasUnsavedChanges = subject !== originalSubject || body !== originalBody
+        || attachPdf !== originalAttachments.attachPdf || inlineQr !== originalAttachments.inlineQr
+        || libraryId !== originalLibraryId;
+
+    const linkedTemplate = libraryTemplates.find((template) => template._id === libraryId);
+    const overriddenFields = linkedTemplate
+        ? [
+            subject !== linkedTemplate.subject && 'subject',
+            body !== linkedTemplate.body && 'body',
+            attachPdf !== linkedTemplate.attachPdf && 'PDF attachment',
+            inlineQr !== linkedTemplate.inlineQr && 'QR code',
+        ].filter((field): field is string => Boolean(field))
+        : [];
+    // The linked template stays listed after it is archived
+    const pickableTemplates = libraryTemplates.filter((template) => !template.isArchived || template._id === libraryId);
+    const libraryCategories = [...new Set(pickableTemplates.map((template) => template.category || 'General'))];
 
     useEffect(() => {
         if (isOpen && eventId) {
             fetchTemplate();
+            fetchPartials();
+            fetchLibrary();
         } else {
             setSubject('');
             setBody('');
             setOriginalSubject('');
             setOriginalBody('');
+            setAttachPdf(false);
+            setInlineQr(false);
+            setOriginalAttachments({ attachPdf: false, inlineQr: false });
+            setLibraryId('');
+            setOriginalLibraryId('');
+            setShowSaveToLibrary(false);
             setPreviewMode(false);
             setShowExitConfirm(false);
         }
@@ -82,11 +140,22 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
             });
             const data = await res.json();
 
+            if (res.ok && data.success) {
+                setLibraryId(data.libraryTemplate?._id || '');
+                setOriginalLibraryId(data.libraryTemplate?._id || '');
+            }
             if (res.ok && data.success && data.emailTemplate) {
                 setSubject(data.emailTemplate.subject || DEFAULT_SUBJECT);
                 setBody(data.emailTemplate.body || DEFAULT_BODY);
                 setOriginalSubject(data.emailTemplate.subject || DEFAULT_SUBJECT);
                 setOriginalBody(data.emailTemplate.body || DEFAULT_BODY);
+                const attachments = {
+                    attachPdf: Boolean(data.emailTemplate.attachPdf),
+                    inlineQr: Boolean(data.emailTemplate.inlineQr),
+                };
+                setAttachPdf(attachments.attachPdf);
+                setInlineQr(attachments.inlineQr);
+                setOriginalAttachments(attachments);
             } else {
                 // If it doesn't exist, provide the default template
                 setSubject(DEFAULT_SUBJECT);
@@ -105,6 +174,126 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
         }
     };
 
+    const fetchPartials = async () => {
+        try {
+            const res = await fetch('/api/admin/email-partials', { credentials: 'include' });
+            const data = await res.json();
+            if (res.ok && data.success) {
+                setPartials(data.partials);
+            }
+        } catch (error) {
+            toast.error('Failed to load email partials');
+        }
+    };
+
+    const fetchLibrary = async () => {
+        try {
+            const res = await fetch('/api/admin/email-templates', { credentials: 'include' });
+            const data = await res.json();
+            if (res.ok && data.success) {
+                setLibraryTemplates(data.templates);
+            }
+        } catch (error) {
+            toast.error('Failed to load the email template library');
+        }
+    };
+
+    const applyLibraryTemplate = (template: LibraryTemplate) => {
+        setSubject(template.subject);
+        setBody(template.body);
+        setAttachPdf(template.attachPdf);
+        setInlineQr(template.inlineQr);
+    };
+
+    const handleLibraryChange = (id: string) => {
+        setLibraryId(id);
+        // Unlinking keeps the current content as the event's own template
+        const template = libraryTemplates.find((candidate) => candidate._id === id);
+        if (template) {
+            applyLibraryTemplate(template);
+        }
+    };
+
+    const handleSaveToLibrary = async () => {
+        if (!libraryName.trim()) {
+            toast.error('Template name is required');
+            return;
+        }
+
+        setIsSavingLibrary(true);
+        try {
+            const res = await fetch('/api/admin/email-templates', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ name: libraryName, category: libraryCategory, subject, body, attachPdf, inlineQr }),
+            });
+            const data = await res.json();
+            if (res.ok && data.success) {
+                toast.success('Added to the template library');
+                await fetchLibrary();
+                setLibraryId(data.template._id);
+                setShowSaveToLibrary(false);
+                setLibraryName('');
+                setLibraryCategory('');
+            } else {
+                toast.error(data.error || 'Failed to save to library');
+            }
+        } catch (error) {
+            toast.error('Network error occurred');
+        } finally {
+            setIsSavingLibrary(false);
+        }
+    };
+
+    const handleUpdateLibrary = async () => {
+        if (!linkedTemplate) return;
+        setIsSavingLibrary(true);
+        try {
+            const res = await fetch(`/api/admin/email-templates/${linkedTemplate._id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ subject, body, attachPdf, inlineQr }),
+            });
+            const data = await res.json();
+            if (res.ok && data.success) {
+                toast.success(`Updated "${linkedTemplate.name}" in the library`);
+                await fetchLibrary();
+            } else {
+                toast.error(data.error || 'Failed to update library template');
+            }
+        } catch (error) {
+            toast.error('Network error occurred');
+        } finally {
+            setIsSavingLibrary(false);
+            setShowUpdateLibraryConfirm(false);
+        }
+    };
+
+    const handleArchiveLibrary = async () => {
+        if (!linkedTemplate) return;
+        setIsSavingLibrary(true);
+        try {
+            const res = await fetch(`/api/admin/email-templates/${linkedTemplate._id}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const data = await res.json();
+            if (res.ok && data.success) {
+                toast.success(`Archived "${linkedTemplate.name}"`);
+                await fetchLibrary();
+            } else {
+                toast.error(data.error || 'Failed to archive library template');
+            }
+        } catch (error) {
+            toast.error('Network error occurred');
+        } finally {
+            setIsSavingLibrary(false);
+            setShowArchiveConfirm(false);
+        }
+    };
+
     const handleSave = async () => {
         if (!subject.trim() || !body.trim()) {
             toast.error('Subject and Body are required');
@@ -117,7 +306,7 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
                 method: 'PUT',
                 headers: { 'Content-Type': 'application/json' },
                 credentials: 'include',
-                body: JSON.stringify({ subject, body }),
+                body: JSON.stringify({ subject, body, attachPdf, inlineQr, emailTemplateId: libraryId || null }),
             });
 
             const data = await res.json();
@@ -125,6 +314,8 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
                 toast.success('Email template saved successfully!');
                 setOriginalSubject(subject);
                 setOriginalBody(body);
+                setOriginalAttachments({ attachPdf, inlineQr });
+                setOriginalLibraryId(libraryId);
                 onClose();
             } else {
                 toast.error(data.error || 'Failed to save template');
@@ -161,23 +352,48 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
         }
     };
 
-    const generatePreviewHTML = () => {
+    const partialBodies = Object.fromEntries(partials.map((partial) => [partial.name, partial.html]));
+    const partialNames = partials.map((partial) => partial.name);
+    // Same checks as the server runs on save
+    const problems = [
+        ...findTemplateProblems(subject, { partials: partialNames }).map((problem) => `Subject: ${problem}`),
+        ...findTemplateProblems(body, { partials: partialNames }).map((problem) => `Body: ${problem}`),
+    ];
+
+    const getPreviewVariables = (): EmailVariables => {
         const baseUrl = typeof window !== 'undefined' ? window.location.origin : process.env.NEXT_PUBLIC_APP_URL || '';
-        
-        const mockData: Record<string, string> = {
+        return {
             participantName: 'Alex Carter',
+            participantEmail: 'alex.carter@example.com',
             eventName: 'Tech Bootcamp 2026',
             eventDate: 'October 15, 2026',
             certificateNumber: 'ECELL-2026-XQ123',
             verificationLink: `${baseUrl}/verify/ECELL-2026-XQ123`,
-            certificateLink: 'https://res.cloudinary.com/demo/image/upload/sample.pdf',
+            certificateLink: `${baseUrl}/api/certificates/ECELL-2026-XQ123/download`,
             issueDate: 'October 16, 2026',
             organizer: 'E-Cell RGPV',
+            qrCode: inlineQr ? PREVIEW_QR_CODE : '',
         };
+    };
 
-        let parsedBody = body;
-        for (const [key, value] of Object.entries(mockData)) {
-            parsedBody = parsedBody.replace(new RegExp(`{{${key}}}`, 'g'), value);
+    const generatePreviewSubject = () => {
+        try {
+            return renderEmailTemplate(subject, getPreviewVariables(), { partials: partialBodies, escape: false });
+        } catch {
+            return subject;
+        }
+    };
+
+    const generatePreviewHTML = () => {
+        let parsedBody: string;
+        try {
+            parsedBody = renderEmailTemplate(body, getPreviewVariables(), { partials: partialBodies });
+        } catch (error) {
+            return `<p style="color: #dc2626;">Template error: ${error instanceof Error ? error.message.replace(/</g, '&lt;') : 'Unknown error'}</p>`;
+        }
+        // Mirrors the server, which appends the QR code when the template has no {{qrCode}}
+        if (inlineQr && !body.includes('{{qrCode}}')) {
+            parsedBody += `<p style="text-align: center;">${PREVIEW_QR_CODE}</p>`;
         }
         return parsedBody;
     };
@@ -216,6 +432,106 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
                         
                         {/* Left Editor Pane */}
                         <div className={`flex-1 flex flex-col p-4 border-r border-slate-800 min-h-0 overflow-y-auto ${previewMode ? 'hidden md:flex' : 'flex'}`}>
+
+                            {/* Library Template */}
+                            <div className="mb-4 p-3 bg-slate-950/40 border border-slate-800 rounded-lg">
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="flex items-center gap-1.5 text-sm font-medium text-slate-300">
+                                        <Library className="w-4 h-4" /> Library Template
+                                    </label>
+                                    <button
+                                        type="button"
+                                        onClick={() => setShowSaveToLibrary(!showSaveToLibrary)}
+                                        className="flex items-center gap-1.5 text-xs text-blue-400 hover:text-blue-300 cursor-pointer"
+                                    >
+                                        <BookmarkPlus className="w-3.5 h-3.5" /> Save to Library
+                                    </button>
+                                </div>
+                                <div className="flex gap-2">
+                                    <div className="relative flex-1">
+                                        <select
+                                            value={libraryId}
+                                            onChange={(e) => handleLibraryChange(e.target.value)}
+                                            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 focus:outline-none focus:border-blue-500 appearance-none cursor-pointer"
+                                        >
+                                            <option value="">None (this event&apos;s own template)</option>
+                                            {libraryCategories.map((category) => (
+                                                <optgroup key={category} label={category}>
+                                                    {pickableTemplates
+                                                        .filter((template) => (template.category || 'General') === category)
+                                                        .map((template) => (
+                                                            <option key={template._id} value={template._id}>
+                                                                {template.name}{template.isArchived ? ' (archived)' : ''}
+                                                            </option>
+                                                        ))}
+                                                </optgroup>
+                                            ))}
+                                        </select>
+                                        <ChevronDown className="w-4 h-4 text-slate-400 absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+                                    </div>
+                                    {linkedTemplate && !linkedTemplate.isArchived && (
+                                        <button
+                                            type="button"
+                                            onClick={() => setShowArchiveConfirm(true)}
+                                            title="Archive library template"
+                                            className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors cursor-pointer"
+                                        >
+                                            <Archive className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+                                {linkedTemplate && (
+                                    <div className="mt-2 text-xs text-slate-500">
+                                        {overriddenFields.length === 0 ? (
+                                            <p>This event sends the library version. Changes made here apply to this event only.</p>
+                                        ) : (
+                                            <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                                                <span>This event overrides the library {overriddenFields.join(', ')}.</span>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => applyLibraryTemplate(linkedTemplate)}
+                                                    className="flex items-center gap-1 text-blue-400 hover:text-blue-300 cursor-pointer"
+                                                >
+                                                    <RotateCcw className="w-3 h-3" /> Reset to library
+                                                </button>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setShowUpdateLibraryConfirm(true)}
+                                                    className="text-blue-400 hover:text-blue-300 cursor-pointer"
+                                                >
+                                                    Update library template
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                                {showSaveToLibrary && (
+                                    <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                                        <input
+                                            type="text"
+                                            value={libraryName}
+                                            onChange={(e) => setLibraryName(e.target.value)}
+                                            className="flex-1 bg-slate-950/50 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                                            placeholder="Template name"
+                                        />
+                                        <input
+                                            type="text"
+                                            value={libraryCategory}
+                                            onChange={(e) => setLibraryCategory(e.target.value)}
+                                            className="sm:w-36 bg-slate-950/50 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                                            placeholder="Category"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={handleSaveToLibrary}
+                                            disabled={isSavingLibrary || problems.length > 0}
+                                            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                                        >
+                                            {isSavingLibrary ? 'Saving...' : 'Add'}
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
                             
                             {/* Subject */}
                             <div className="mb-4">
@@ -231,9 +547,46 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
                                 />
                             </div>
 
+                            {/* Attachments */}
+                            <div className="mb-4 space-y-2">
+                                <label className="flex items-start gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={attachPdf}
+                                        onChange={(e) => setAttachPdf(e.target.checked)}
+                                        className="mt-0.5 w-4 h-4 rounded border-slate-600"
+                                    />
+                                    <span className="text-sm text-slate-300">
+                                        Attach the certificate PDF
+                                        <span className="block text-xs text-slate-500">Falls back to the download link when the PDF is unavailable or too large.</span>
+                                    </span>
+                                </label>
+                                <label className="flex items-start gap-2 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={inlineQr}
+                                        onChange={(e) => setInlineQr(e.target.checked)}
+                                        className="mt-0.5 w-4 h-4 rounded border-slate-600"
+                                    />
+                                    <span className="text-sm text-slate-300">
+                                        Embed the verification QR code
+                                        <span className="block text-xs text-slate-500">Shown where {'{{qrCode}}'} is placed, or at the end of the email.</span>
+                                    </span>
+                                </label>
+                            </div>
+
                             {/* Chips (Dropdown) */}
                             <div className="mb-4">
-                                <label className="block text-sm font-medium text-slate-300 mb-2">Dynamic Tags (Select to insert)</label>
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className="block text-sm font-medium text-slate-300">Dynamic Tags (Select to insert)</label>
+                                    <button
+                                        type="button"
+                                        onClick={() => setShowPartials(true)}
+                                        className="flex items-center gap-1.5 text-xs text-blue-400 hover:text-blue-300 cursor-pointer"
+                                    >
+                                        <Puzzle className="w-3.5 h-3.5" /> Manage Partials
+                                    </button>
+                                </div>
                                 <div className="relative">
                                     <select
                                         onChange={(e) => {
@@ -251,6 +604,15 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
                                                 {ph.label} ({ph.value})
                                             </option>
                                         ))}
+                                        {partials.length > 0 && (
+                                            <optgroup label="Shared Partials">
+                                                {partials.map((partial) => (
+                                                    <option key={partial._id} value={`{{> ${partial.name}}}`}>
+                                                        {partial.description || partial.name} ({`{{> ${partial.name}}}`})
+                                                    </option>
+                                                ))}
+                                            </optgroup>
+                                        )}
                                     </select>
                                     <ChevronDown className="w-4 h-4 text-slate-400 absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none" />
                                 </div>
@@ -267,6 +629,18 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
                                     className="w-full flex-1 bg-slate-950/50 border border-slate-700 rounded-lg text-sm text-slate-300 font-mono p-3 focus:outline-none focus:border-blue-500 resize-none"
                                     placeholder="Enter your HTML email body here..."
                                 />
+                                <p className="text-xs text-slate-500 mt-1">
+                                    Handlebars syntax: values are HTML-escaped, and blocks like {'{{#if participantEmail}}...{{/if}}'} are supported.
+                                </p>
+                                {problems.length > 0 && (
+                                    <div className="mt-2 p-2 bg-amber-950/40 border border-amber-900/50 rounded-lg text-xs text-amber-300 space-y-1">
+                                        {problems.map((problem) => (
+                                            <p key={problem} className="flex items-start gap-1.5 whitespace-pre-wrap">
+                                                <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {problem}
+                                            </p>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
                         </div>
 
@@ -279,14 +653,7 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
                                 <div className="bg-white rounded-lg shadow-lg border border-slate-700 w-full max-w-2xl h-fit overflow-hidden">
                                     <div className="p-3 sm:p-4 border-b border-slate-200 bg-slate-50">
                                         <p className="text-sm font-medium text-slate-800">
-                                            <strong>Subject:</strong> {
-                                                (() => {
-                                                    let s = subject;
-                                                    s = s.replace(/{{eventName}}/g, 'Tech Bootcamp 2026');
-                                                    s = s.replace(/{{participantName}}/g, 'Alex Carter');
-                                                    return s || '(No Subject)';
-                                                })()
-                                            }
+                                            <strong>Subject:</strong> {generatePreviewSubject() || '(No Subject)'}
                                         </p>
                                     </div>
                                     <div 
@@ -294,6 +661,14 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
                                         style={{ backgroundColor: 'white', color: 'black' }}
                                         dangerouslySetInnerHTML={{ __html: generatePreviewHTML() }}
                                     />
+                                    {attachPdf && (
+                                        <div className="px-4 sm:px-6 pb-4">
+                                            <span className="inline-flex items-center gap-2 px-3 py-2 bg-slate-100 border border-slate-200 rounded-lg text-xs text-slate-700">
+                                                <Paperclip className="w-3.5 h-3.5" />
+                                                Alex Carter - ECELL-2026-XQ123.pdf
+                                            </span>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         </div>
@@ -338,6 +713,34 @@ export function EmailTemplateModal({ isOpen, onClose, eventId }: EmailTemplateMo
 
             </div>
             
+            <EmailPartialsModal
+                isOpen={showPartials}
+                onClose={() => setShowPartials(false)}
+                partials={partials}
+                onChange={fetchPartials}
+            />
+
+            <ConfirmDialog
+                isOpen={showUpdateLibraryConfirm}
+                onClose={() => setShowUpdateLibraryConfirm(false)}
+                onConfirm={handleUpdateLibrary}
+                title="Update Library Template?"
+                message={`Every event using "${linkedTemplate?.name}" will send this version for emails queued from now on. Emails already queued or sent are not changed.`}
+                confirmText="Update Template"
+                isLoading={isSavingLibrary}
+            />
+
+            <ConfirmDialog
+                isOpen={showArchiveConfirm}
+                onClose={() => setShowArchiveConfirm(false)}
+                onConfirm={handleArchiveLibrary}
+                title="Archive Library Template?"
+                message={`"${linkedTemplate?.name}" can no longer be picked for other events. Events already using it keep sending it.`}
+                confirmText="Archive"
+                confirmVariant="danger"
+                isLoading={isSavingLibrary}
+            />
+
             {/* Unsaved Changes Dialog */}
             <ConfirmDialog
                 isOpen={showExitConfirm}
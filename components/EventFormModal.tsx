@@ -1,8 +1,41 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
-import { X } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  Eye,
+  PenLine,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
 import { TEMPLATE_OPTIONS } from "@/lib/templates";
+import {
+  ACHIEVEMENT_TYPE_LABELS,
+  ACHIEVEMENT_TYPES,
+  AchievementType,
+} from "@/lib/achievements";
+import {
+  MAX_TEMPLATE_SLOTS,
+  TemplateSlotConfig,
+} from "@/lib/templateSlotRules";
+import { TemplateSlotPreviewModal } from "./TemplateSlotPreviewModal";
+import { SignatoriesModal, type Signatory } from "./SignatoriesModal";
+import {
+  CertificateNumberScheme,
+  generateCertificateNumber,
+  normalizeNumberScheme,
+} from "@/lib/certificateUtils";
+
+const CUSTOM_SCHEME_STARTER: CertificateNumberScheme = {
+  prefix: "ECELL",
+  eventCode: "",
+  includeYear: false,
+  sequenceDigits: 4,
+  randomLength: 0,
+  checkDigit: true,
+};
 
 interface Blueprint {
   _id: string;
@@ -26,6 +59,12 @@ interface EventFormModalProps {
     organizer: string;
     template: string;
     templateId?: string;
+    templateSlots: TemplateSlotConfig[];
+    signatoryIds: string[];
+    numberScheme: CertificateNumberScheme | null;
+    privateDownloads: boolean;
+    /** Comma-separated custom field names shown on the verify page */
+    verifyCustomFields: string;
   };
   onFormChange: {
     setTitle: (value: string) => void;
@@ -35,6 +74,11 @@ interface EventFormModalProps {
     setOrganizer: (value: string) => void;
     setTemplate: (value: string) => void;
     setTemplateId: (value: string) => void;
+    setTemplateSlots: (value: TemplateSlotConfig[]) => void;
+    setSignatoryIds: (value: string[]) => void;
+    setNumberScheme: (value: CertificateNumberScheme | null) => void;
+    setPrivateDownloads: (value: boolean) => void;
+    setVerifyCustomFields: (value: string) => void;
   };
 }
 
@@ -49,16 +93,33 @@ export function EventFormModal({
   onFormChange,
 }: EventFormModalProps) {
   const [blueprints, setBlueprints] = useState<Blueprint[]>([]);
+  const [previewSlot, setPreviewSlot] = useState<TemplateSlotConfig | null>(
+    null,
+  );
+  const [signatories, setSignatories] = useState<Signatory[]>([]);
+  const [showSignatories, setShowSignatories] = useState(false);
+
+  const loadSignatories = () => {
+    fetch("/api/admin/signatories")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setSignatories(data.signatories);
+      });
+  };
 
   useEffect(() => {
     if (isOpen) {
+      loadSignatories();
       fetch("/api/admin/templates")
         .then((res) => res.json())
         .then((data) => {
           if (data.success) {
+            const inUse = new Set([
+              formData.templateId,
+              ...formData.templateSlots.map((slot) => slot.templateId),
+            ]);
             const activeBlueprints = data.templates.filter(
-              (bp: Blueprint) =>
-                !bp.isArchived || bp._id === formData.templateId,
+              (bp: Blueprint) => !bp.isArchived || inUse.has(bp._id),
             );
             setBlueprints(activeBlueprints);
           }
@@ -66,11 +127,57 @@ export function EventFormModal({
     }
   }, [isOpen]);
 
+  const scheme = formData.numberScheme;
+  const schemePreview = useMemo(() => {
+    if (!scheme) return { number: "ECELL-YYYY-XXXXX-C", error: "" };
+    try {
+      return {
+        number: generateCertificateNumber(normalizeNumberScheme(scheme), 1),
+        error: "",
+      };
+    } catch (err) {
+      return { number: "", error: (err as Error).message };
+    }
+  }, [scheme]);
+
+  const updateScheme = (changes: Partial<CertificateNumberScheme>) => {
+    if (scheme) onFormChange.setNumberScheme({ ...scheme, ...changes });
+  };
+
+  const slots = formData.templateSlots;
+  const updateSlot = (index: number, changes: Partial<TemplateSlotConfig>) => {
+    onFormChange.setTemplateSlots(
+      slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)),
+    );
+  };
+  const toggleSlotType = (index: number, type: AchievementType) => {
+    const types = slots[index].achievementTypes;
+    updateSlot(index, {
+      achievementTypes: types.includes(type)
+        ? types.filter((t) => t !== type)
+        : [...types, type],
+    });
+  };
+  const moveSlot = (index: number, offset: number) => {
+    const reordered = [...slots];
+    const [slot] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, slot);
+    onFormChange.setTemplateSlots(reordered);
+  };
+
+  const signatoryIds = formData.signatoryIds;
+  const moveSignatory = (index: number, offset: number) => {
+    const reordered = [...signatoryIds];
+    const [id] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, id);
+    onFormChange.setSignatoryIds(reordered);
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
-      <div className="bg-slate-900 rounded-2xl p-6 max-w-md w-full border border-slate-800">
+      <div className="bg-slate-900 rounded-2xl p-6 max-w-md w-full border border-slate-800 max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-xl font-bold text-white">
             {isEditMode ? "Edit Event" : "Create New Event"}
@@ -202,6 +309,402 @@ export function EventFormModal({
             </p>
           </div>
 
+          <div className="border border-slate-800 rounded-lg p-3 space-y-3">
+            <div>
+              <p className="text-sm text-slate-300">Template slots</p>
+              <p className="text-xs text-slate-400 mt-1">
+                Print winners, organizers or one track on their own blueprint.
+                Slots are tried from the top; certificates matching none use the
+                certificate template above.
+              </p>
+            </div>
+            {slots.map((slot, index) => (
+              <div
+                key={index}
+                className="bg-slate-800/50 border border-slate-700/50 rounded-lg p-3 space-y-2"
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={slot.name}
+                    onChange={(e) =>
+                      updateSlot(index, { name: e.target.value })
+                    }
+                    className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                    placeholder="e.g., Winners"
+                    aria-label="Slot name"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => moveSlot(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-slate-400 hover:text-white disabled:opacity-30 cursor-pointer"
+                    title="Try earlier"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveSlot(index, 1)}
+                    disabled={index === slots.length - 1}
+                    className="p-1 text-slate-400 hover:text-white disabled:opacity-30 cursor-pointer"
+                    title="Try later"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onFormChange.setTemplateSlots(
+                        slots.filter((_, i) => i !== index),
+                      )
+                    }
+                    className="p-1 text-slate-400 hover:text-red-400 cursor-pointer"
+                    title="Remove slot"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <select
+                    value={slot.templateId}
+                    onChange={(e) =>
+                      updateSlot(index, { templateId: e.target.value })
+                    }
+                    className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                    aria-label="Slot template"
+                  >
+                    <option value="">Select a blueprint</option>
+                    {blueprints.map((bp) => (
+                      <option key={bp._id} value={bp._id}>
+                        {bp.name} ({bp.category})
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setPreviewSlot(slot)}
+                    disabled={!slot.templateId}
+                    className="p-1.5 text-slate-400 hover:text-white disabled:opacity-30 cursor-pointer"
+                    title="Preview"
+                  >
+                    <Eye className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-1.5">
+                  {ACHIEVEMENT_TYPES.map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => toggleSlotType(index, type)}
+                      className={`px-2 py-0.5 rounded text-xs border transition-colors cursor-pointer ${
+                        slot.achievementTypes.includes(type)
+                          ? "bg-blue-600/20 border-blue-500/50 text-blue-300"
+                          : "border-slate-700 text-slate-400 hover:text-white"
+                      }`}
+                    >
+                      {ACHIEVEMENT_TYPE_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    value={slot.field || ""}
+                    onChange={(e) =>
+                      updateSlot(index, { field: e.target.value })
+                    }
+                    className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-white focus:outline-none focus:border-blue-500"
+                    placeholder="Custom field, e.g. track"
+                    aria-label="Custom field"
+                  />
+                  <input
+                    type="text"
+                    value={slot.value || ""}
+                    onChange={(e) =>
+                      updateSlot(index, { value: e.target.value })
+                    }
+                    className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-xs text-white focus:outline-none focus:border-blue-500"
+                    placeholder="equals, e.g. FinTech"
+                    aria-label="Custom field value"
+                  />
+                </div>
+              </div>
+            ))}
+            {slots.length < MAX_TEMPLATE_SLOTS && (
+              <button
+                type="button"
+                onClick={() =>
+                  onFormChange.setTemplateSlots([
+                    ...slots,
+                    { name: "", achievementTypes: [], templateId: "" },
+                  ])
+                }
+                className="flex items-center gap-1.5 text-sm text-blue-400 hover:text-blue-300 cursor-pointer"
+              >
+                <Plus className="w-4 h-4" />
+                Add slot
+              </button>
+            )}
+          </div>
+
+          <div className="border border-slate-800 rounded-lg p-3 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="text-sm text-slate-300">Signatories</p>
+                <p className="text-xs text-slate-400 mt-1">
+                  Signatures printed on new certificates, from left to right in
+                  this order.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setShowSignatories(true)}
+                className="flex items-center gap-1.5 text-xs text-blue-400 hover:text-blue-300 cursor-pointer shrink-0"
+              >
+                <PenLine className="w-3.5 h-3.5" />
+                Manage
+              </button>
+            </div>
+            {signatoryIds.map((id, index) => {
+              const signatory = signatories.find((s) => s.id === id);
+              return (
+                <div
+                  key={id}
+                  className="flex items-center gap-2 bg-slate-800/50 border border-slate-700/50 rounded-lg px-3 py-2"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">
+                      {signatory?.name ?? "Loading..."}
+                    </p>
+                    <p className="text-xs text-slate-400 truncate">
+                      {signatory?.designation}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => moveSignatory(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-slate-400 hover:text-white disabled:opacity-30 cursor-pointer"
+                    title="Move earlier"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveSignatory(index, 1)}
+                    disabled={index === signatoryIds.length - 1}
+                    className="p-1 text-slate-400 hover:text-white disabled:opacity-30 cursor-pointer"
+                    title="Move later"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      onFormChange.setSignatoryIds(
+                        signatoryIds.filter((other) => other !== id),
+                      )
+                    }
+                    className="p-1 text-slate-400 hover:text-red-400 cursor-pointer"
+                    title="Remove signatory"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+            <select
+              value=""
+              onChange={(e) =>
+                e.target.value &&
+                onFormChange.setSignatoryIds([...signatoryIds, e.target.value])
+              }
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+              aria-label="Add signatory"
+            >
+              <option value="">
+                {signatories.length === 0
+                  ? "No signatories yet"
+                  : "Add a signatory"}
+              </option>
+              {signatories
+                .filter((signatory) => !signatoryIds.includes(signatory.id))
+                .map((signatory) => (
+                  <option key={signatory.id} value={signatory.id}>
+                    {signatory.name} ({signatory.designation})
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div className="border border-slate-800 rounded-lg p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="customNumberScheme"
+                checked={!!scheme}
+                onChange={(e) =>
+                  onFormChange.setNumberScheme(
+                    e.target.checked ? CUSTOM_SCHEME_STARTER : null,
+                  )
+                }
+                className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-blue-600 focus:ring-blue-500"
+              />
+              <label
+                htmlFor="customNumberScheme"
+                className="text-sm text-slate-300"
+              >
+                Custom certificate number format
+              </label>
+            </div>
+
+            {scheme && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">
+                    Prefix
+                  </label>
+                  <input
+                    type="text"
+                    value={scheme.prefix}
+                    onChange={(e) =>
+                      updateScheme({ prefix: e.target.value.toUpperCase() })
+                    }
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white font-mono focus:outline-none focus:border-blue-500"
+                    placeholder="ECELL"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">
+                    Event code
+                  </label>
+                  <input
+                    type="text"
+                    value={scheme.eventCode || ""}
+                    onChange={(e) =>
+                      updateScheme({ eventCode: e.target.value.toUpperCase() })
+                    }
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white font-mono focus:outline-none focus:border-blue-500"
+                    placeholder="HACK24"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">
+                    Counter digits (0 = none)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={8}
+                    value={scheme.sequenceDigits}
+                    onChange={(e) =>
+                      updateScheme({ sequenceDigits: Number(e.target.value) })
+                    }
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-400 mb-1">
+                    Random characters (0 = none)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={10}
+                    value={scheme.randomLength}
+                    onChange={(e) =>
+                      updateScheme({ randomLength: Number(e.target.value) })
+                    }
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={scheme.includeYear}
+                    onChange={(e) =>
+                      updateScheme({ includeYear: e.target.checked })
+                    }
+                    className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-blue-600 focus:ring-blue-500"
+                  />
+                  Include year
+                </label>
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={scheme.checkDigit}
+                    onChange={(e) =>
+                      updateScheme({ checkDigit: e.target.checked })
+                    }
+                    className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-blue-600 focus:ring-blue-500"
+                  />
+                  Check character
+                </label>
+              </div>
+            )}
+
+            {schemePreview.error ? (
+              <p className="text-xs text-red-300">{schemePreview.error}</p>
+            ) : (
+              <p className="text-xs text-slate-400">
+                New certificates look like{" "}
+                <span className="font-mono text-cyan-300">
+                  {schemePreview.number}
+                </span>
+                {isEditMode &&
+                  ". Certificates already issued keep their numbers."}
+              </p>
+            )}
+          </div>
+
+          <div className="border border-slate-800 rounded-lg p-3">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="privateDownloads"
+                checked={formData.privateDownloads}
+                onChange={(e) =>
+                  onFormChange.setPrivateDownloads(e.target.checked)
+                }
+                className="w-4 h-4 rounded border-slate-700 bg-slate-800 text-blue-600 focus:ring-blue-500"
+              />
+              <label
+                htmlFor="privateDownloads"
+                className="text-sm text-slate-300"
+              >
+                Private downloads
+              </label>
+            </div>
+            <p className="text-xs text-slate-400 mt-2">
+              Certificates still verify publicly, but their PDFs can only be
+              downloaded through the expiring links sent to participants.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Custom fields on the verify page
+            </label>
+            <input
+              type="text"
+              value={formData.verifyCustomFields}
+              onChange={(e) =>
+                onFormChange.setVerifyCustomFields(e.target.value)
+              }
+              placeholder="e.g. Position, Track"
+              className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-blue-500"
+            />
+            <p className="text-xs text-slate-400 mt-2">
+              Anyone with a certificate number can see these fields. Other
+              custom fields are only printed by templates and never shown
+              publicly.
+            </p>
+          </div>
+
           {error && (
             <div className="bg-red-950/50 border border-red-900/50 rounded-lg p-3 text-red-200 text-sm">
               {error}
@@ -232,6 +735,17 @@ export function EventFormModal({
           </div>
         </form>
       </div>
+
+      <TemplateSlotPreviewModal
+        slot={previewSlot}
+        onClose={() => setPreviewSlot(null)}
+      />
+      <SignatoriesModal
+        isOpen={showSignatories}
+        onClose={() => setShowSignatories(false)}
+        signatories={signatories}
+        onChange={loadSignatories}
+      />
     </div>
   );
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import {
   X,
   Upload,
@@ -8,9 +8,17 @@ import {
   AlertCircle,
   Loader2,
   FileSpreadsheet,
+  StopCircle,
 } from "lucide-react";
 import toast from "react-hot-toast";
 import type { ImportRowData } from "@/lib/importValidation";
+import { ACHIEVEMENT_TYPE_LABELS, customFieldLabel } from "@/lib/achievements";
+import {
+  DEFAULT_TEAM_ISSUE_MODE,
+  TEAM_ISSUE_MODE_LABELS,
+  TEAM_ISSUE_MODES,
+  TeamIssueMode,
+} from "@/lib/teamIssueModes";
 
 interface PreviewRow {
   index: number;
@@ -19,6 +27,17 @@ interface PreviewRow {
   errors: string[];
 }
 
+interface GenerationJobProgress {
+  id: string;
+  status: "queued" | "running" | "completed" | "cancelled";
+  total: number;
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  errors: Array<{ index: number; participantName: string; error: string }>;
+}
+
 interface ImportCertificatesModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -27,7 +46,15 @@ interface ImportCertificatesModalProps {
   onSuccess: () => void;
 }
 
-const MAX_GENERATE_PER_REQUEST = 5;
+const MAX_UPLOADS_PER_BATCH = 5;
+// Wait between run calls when another worker already holds the remaining rows
+const JOB_POLL_INTERVAL_MS = 2000;
+const MAX_JOB_POLL_ERRORS = 5;
+
+const isJobFinished = (job: GenerationJobProgress) =>
+  job.status === "completed" || job.status === "cancelled";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 export function ImportCertificatesModal({
   isOpen,
@@ -56,9 +83,16 @@ export function ImportCertificatesModal({
   const [importMode, setImportMode] = useState<"generate" | "upload">(
     "generate",
   );
+  const [teamMode, setTeamMode] = useState<TeamIssueMode>(
+    DEFAULT_TEAM_ISSUE_MODE,
+  );
   const [pdfFiles, setPdfFiles] = useState<File[]>([]);
   const [pdfFileMap, setPdfFileMap] = useState<Record<string, File>>({});
   const [duplicatePdfNumbers, setDuplicatePdfNumbers] = useState<string[]>([]);
+  const [job, setJob] = useState<GenerationJobProgress | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  // ID of the job this modal is currently driving; cleared to stop the loop
+  const drivingJobRef = useRef<string | null>(null);
 
   const reset = useCallback(() => {
     setStep("upload");
@@ -70,13 +104,136 @@ export function ImportCertificatesModal({
     setPdfFiles([]);
     setPdfFileMap({});
     setDuplicatePdfNumbers([]);
+    setTeamMode(DEFAULT_TEAM_ISSUE_MODE);
+    setJob(null);
+    setIsGenerating(false);
   }, []);
 
   const handleClose = useCallback(() => {
+    if (drivingJobRef.current) {
+      toast("Generation continues in the background.");
+    }
+    drivingJobRef.current = null;
     reset();
     onClose();
   }, [onClose, reset]);
 
+  const finishJob = useCallback(
+    (finished: GenerationJobProgress) => {
+      setIsGenerating(false);
+      if (finished.succeeded > 0) {
+        toast.success(
+          `Successfully imported ${finished.succeeded} certificate(s)!`,
+        );
+        onSuccess();
+      }
+      if (finished.failed > 0) {
+        // Stay on the progress step so the failed rows can be reviewed
+        toast.error(`Failed to import ${finished.failed} certificate(s).`);
+      } else {
+        handleClose();
+      }
+    },
+    [onSuccess, handleClose],
+  );
+
+  /**
+   * Keep asking the server to work on the job until it finishes. Each call
+   * processes rows for a short time slice and returns the latest progress.
+   */
+  const driveJob = useCallback(
+    async (jobId: string) => {
+      drivingJobRef.current = jobId;
+      let consecutiveErrors = 0;
+
+      while (drivingJobRef.current === jobId) {
+        try {
+          const res = await fetch(`/api/admin/certificates/jobs/${jobId}/run`, {
+            method: "POST",
+            credentials: "include",
+          });
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || "Request failed");
+          consecutiveErrors = 0;
+
+          if (drivingJobRef.current !== jobId) return;
+          setJob(data.job);
+          if (isJobFinished(data.job)) {
+            drivingJobRef.current = null;
+            finishJob(data.job);
+            return;
+          }
+          if (data.processed === 0) {
+            await sleep(JOB_POLL_INTERVAL_MS);
+          }
+        } catch (err) {
+          consecutiveErrors++;
+          if (consecutiveErrors >= MAX_JOB_POLL_ERRORS) {
+            drivingJobRef.current = null;
+            setIsGenerating(false);
+            toast.error(
+              "Lost contact with the generation job. Reopen this dialog to check its progress.",
+            );
+            return;
+          }
+          await sleep(JOB_POLL_INTERVAL_MS);
+        }
+      }
+    },
+    [finishJob],
+  );
+
+  // Pick up a job that is still running for this event, e.g. after a reload
+  useEffect(() => {
+    if (!isOpen || !eventId) return;
+    let ignore = false;
+
+    (async () => {
+      try {
+        const res = await fetch(
+          `/api/admin/certificates/jobs?eventId=${encodeURIComponent(eventId)}&active=true&kind=issue`,
+          { credentials: "include" },
+        );
+        if (!res.ok) return;
+        const data = await res.json();
+        const active: GenerationJobProgress | undefined = data.jobs?.[0];
+        if (ignore || !active || drivingJobRef.current) return;
+
+        setImportMode("generate");
+        setJob(active);
+        setStep("generating");
+        setIsGenerating(true);
+        driveJob(active.id);
+      } catch {
+        // Resuming is best effort; the cron worker finishes the job anyway
+      }
+    })();
+
+    return () => {
+      ignore = true;
+    };
+  }, [isOpen, eventId, driveJob]);
+
+  const handleCancelJob = async () => {
+    if (!job) return;
+    setIsCancelling(true);
+    try {
+      const res = await fetch(`/api/admin/certificates/jobs/${job.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to cancel");
+      // Rows already rendering still finish; the run loop picks up the rest
+      setJob(data.job);
+      toast.success("Generation cancelled");
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : "Failed to cancel");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   const handlePdfFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     const map: Record<string, File> = {};
@@ -200,6 +357,12 @@ export function ImportCertificatesModal({
     }
   };
 
+  const selectedTeamCount = new Set(
+    previewRows
+      .filter((r) => selectedIndices.has(r.index) && r.data.teamName)
+      .map((r) => r.data.teamName),
+  ).size;
+
   const handleGenerate = async () => {
     const toGenerate = previewRows
       .filter((r) => r.isValid && selectedIndices.has(r.index))
@@ -213,9 +376,29 @@ export function ImportCertificatesModal({
     setIsGenerating(true);
     setStep("generating");
 
-    const totalBatches = Math.ceil(
-      toGenerate.length / MAX_GENERATE_PER_REQUEST,
-    );
+    if (importMode === "generate") {
+      try {
+        const res = await fetch("/api/admin/certificates/jobs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({ eventId, rows: toGenerate, teamMode }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Request failed");
+        setJob(data.job);
+        await driveJob(data.job.id);
+      } catch (err: unknown) {
+        setIsGenerating(false);
+        setStep("preview");
+        toast.error(
+          err instanceof Error ? err.message : "Failed to start generation",
+        );
+      }
+      return;
+    }
+
+    const totalBatches = Math.ceil(toGenerate.length / MAX_UPLOADS_PER_BATCH);
     let successes = 0;
     let failures = 0;
     const allErrors: string[] = [];
@@ -229,101 +412,63 @@ export function ImportCertificatesModal({
         failures,
       });
 
-      const start = i * MAX_GENERATE_PER_REQUEST;
-      const end = start + MAX_GENERATE_PER_REQUEST;
+      const start = i * MAX_UPLOADS_PER_BATCH;
+      const end = start + MAX_UPLOADS_PER_BATCH;
       const batch = toGenerate.slice(start, end);
-      const batchRowsForServer: Array<{
-        data: ImportRowData;
-        isValid: boolean;
-        index: number;
-      }> = [];
 
       // Custom uploads are registered atomically by the server, one row at a time.
-      if (importMode === "upload") {
-        for (const row of batch) {
-          const certNum =
-            row.data.certificateNumber?.trim().toUpperCase() || "";
-          const file = pdfFileMap[certNum];
-          if (!file) {
-            allErrors.push(
-              `Row ${row.index}: PDF file ${certNum}.pdf not found`,
-            );
-            failures++;
-            continue;
-          }
+      for (const row of batch) {
+        const certNum = row.data.certificateNumber?.trim().toUpperCase() || "";
+        const file = pdfFileMap[certNum];
+        if (!file) {
+          allErrors.push(`Row ${row.index}: PDF file ${certNum}.pdf not found`);
+          failures++;
+          continue;
+        }
 
-          try {
-            const uploadData = new FormData();
-            uploadData.append("file", file);
-            uploadData.append("certificateNumber", certNum);
-            uploadData.append("eventId", eventId);
-            uploadData.append("participantName", row.data.participantName);
-            if (row.data.participantEmail) {
-              uploadData.append("participantEmail", row.data.participantEmail);
-            }
-
-            const uploadRes = await fetch("/api/admin/certificates/upload", {
-              method: "POST",
-              body: uploadData,
-            });
-
-            const uploadDataJson = await uploadRes.json();
-            if (!uploadRes.ok) {
-              throw new Error(uploadDataJson.error || "Upload failed");
-            }
-
-            if (!uploadDataJson.success || !uploadDataJson.certificate) {
-              throw new Error("Invalid upload response");
-            }
-            successes++;
-          } catch (uploadErr: unknown) {
-            const msg =
-              uploadErr instanceof Error
-                ? uploadErr.message
-                : "PDF upload failed";
-            allErrors.push(
-              `Row ${row.index} ("${row.data.participantName}"): ${msg}`,
+        try {
+          const uploadData = new FormData();
+          uploadData.append("file", file);
+          uploadData.append("certificateNumber", certNum);
+          uploadData.append("eventId", eventId);
+          uploadData.append("participantName", row.data.participantName);
+          if (row.data.participantEmail) {
+            uploadData.append("participantEmail", row.data.participantEmail);
+          }
+          if (row.data.achievementType) {
+            uploadData.append("achievementType", row.data.achievementType);
+          }
+          if (row.data.customFields) {
+            uploadData.append(
+              "customFields",
+              JSON.stringify(row.data.customFields),
             );
-            failures++;
           }
-        }
-      } else {
-        batchRowsForServer.push(...batch);
-      }
 
-      if (importMode === "upload") {
-        continue;
-      }
-
-      if (batchRowsForServer.length === 0) {
-        continue;
-      }
+          const uploadRes = await fetch("/api/admin/certificates/upload", {
+            method: "POST",
+            body: uploadData,
+          });
 
-      try {
-        const res = await fetch("/api/admin/certificates/generate", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({ eventId, rows: batchRowsForServer }),
-        });
-
-        const data = await res.json();
+          const uploadDataJson = await uploadRes.json();
+          if (!uploadRes.ok) {
+            throw new Error(uploadDataJson.error || "Upload failed");
+          }
 
-        if (!res.ok) {
-          failures += batchRowsForServer.length;
+          if (!uploadDataJson.success || !uploadDataJson.certificate) {
+            throw new Error("Invalid upload response");
+          }
+          successes++;
+        } catch (uploadErr: unknown) {
+          const msg =
+            uploadErr instanceof Error
+              ? uploadErr.message
+              : "PDF upload failed";
           allErrors.push(
-            `Batch ${batchNum}: ${data.error || "Request failed"}`,
+            `Row ${row.index} ("${row.data.participantName}"): ${msg}`,
           );
-        } else {
-          successes += data.generated || 0;
-          failures += data.failed || 0;
-          if (data.errors) {
-            allErrors.push(...data.errors);
-          }
+          failures++;
         }
-      } catch (err) {
-        failures += batchRowsForServer.length;
-        allErrors.push(`Batch ${batchNum}: Network error`);
       }
     }
 
@@ -364,7 +509,7 @@ export function ImportCertificatesModal({
           <button
             type="button"
             onClick={handleClose}
-            disabled={isGenerating}
+            disabled={isGenerating && !job}
             className="text-slate-400 hover:text-white transition-colors disabled:opacity-50 cursor-pointer"
           >
             <X className="w-5 h-5" />
@@ -402,8 +547,8 @@ export function ImportCertificatesModal({
 
               <p className="text-slate-400 text-sm mb-4">
                 {importMode === "upload"
-                  ? "Upload an Excel (.xlsx, .xls) or CSV file containing participantName, certificateNumber, and optional participantEmail. You must also select the corresponding certificate PDF files."
-                  : "Upload an Excel (.xlsx, .xls) or CSV file with columns: participantName, eventName, eventStartDate, eventEndDate, participantEmail (optional), certificateNumber (optional)."}
+                  ? "Upload an Excel (.xlsx, .xls) or CSV file containing participantName, certificateNumber, and optional participantEmail and achievementType. Columns headed custom: <name> are kept as custom fields; other columns are ignored. You must also select the corresponding certificate PDF files."
+                  : "Upload an Excel (.xlsx, .xls) or CSV file with columns: participantName, eventName, eventStartDate, eventEndDate, participantEmail (optional), certificateNumber (optional), achievementType (optional: participant, volunteer, winner, runner-up, mentor, speaker, organizer). Columns headed custom: <name> become custom fields, e.g. a custom: Track column is available to templates as {{customFields.track}}; other columns are ignored. Custom fields appear on the public verify page only if the event lists them. Rows with the same team column value are imported as one team."}
               </p>
 
               <div className="space-y-4">
@@ -517,6 +662,27 @@ export function ImportCertificatesModal({
                   {previewRows.filter((r) => r.isValid).length} valid selected
                 </span>
               </div>
+              {importMode === "generate" && selectedTeamCount > 0 && (
+                <div className="mb-4 flex flex-wrap items-center gap-3">
+                  <label htmlFor="teamMode" className="text-sm text-slate-300">
+                    {selectedTeamCount} team(s): issue
+                  </label>
+                  <select
+                    id="teamMode"
+                    value={teamMode}
+                    onChange={(e) =>
+                      setTeamMode(e.target.value as TeamIssueMode)
+                    }
+                    className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                  >
+                    {TEAM_ISSUE_MODES.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {TEAM_ISSUE_MODE_LABELS[mode]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="overflow-x-auto border border-slate-700 rounded-lg">
                 <table className="w-full text-sm">
                   <thead>
@@ -529,6 +695,9 @@ export function ImportCertificatesModal({
                       <th className="p-2">Start</th>
                       <th className="p-2">End</th>
                       <th className="p-2">Cert #</th>
+                      <th className="p-2">Team</th>
+                      <th className="p-2">Achievement</th>
+                      <th className="p-2">Custom Fields</th>
                       <th className="p-2">Status</th>
                     </tr>
                   </thead>
@@ -569,6 +738,24 @@ export function ImportCertificatesModal({
                         <td className="p-2 text-cyan-400 font-mono">
                           {row.data.certificateNumber || "—"}
                         </td>
+                        <td className="p-2 text-slate-300">
+                          {row.data.teamName || "—"}
+                        </td>
+                        <td className="p-2 text-slate-300">
+                          {row.data.achievementType
+                            ? ACHIEVEMENT_TYPE_LABELS[row.data.achievementType]
+                            : "—"}
+                        </td>
+                        <td className="p-2 text-slate-400">
+                          {row.data.customFields
+                            ? Object.entries(row.data.customFields)
+                                .map(
+                                  ([key, value]) =>
+                                    `${customFieldLabel(key)}: ${value}`,
+                                )
+                                .join(", ")
+                            : "—"}
+                        </td>
                         <td className="p-2">
                           {row.isValid ? (
                             <span className="flex items-center gap-1 text-green-400">
@@ -610,28 +797,102 @@ export function ImportCertificatesModal({
             </>
           )}
 
-          {step === "generating" && (
+          {step === "generating" && job && (
             <div className="flex flex-col items-center justify-center py-12 text-slate-300">
-              <Loader2 className="w-12 h-12 animate-spin text-cyan-500 mb-4" />
+              {isGenerating ? (
+                <Loader2 className="w-12 h-12 animate-spin text-cyan-500 mb-4" />
+              ) : job.failed > 0 ? (
+                <AlertCircle className="w-12 h-12 text-amber-400 mb-4" />
+              ) : (
+                <CheckCircle2 className="w-12 h-12 text-green-400 mb-4" />
+              )}
               <p className="text-lg font-medium text-white mb-2">
-                {importMode === "upload"
-                  ? "Uploading & importing certificates..."
+                {isJobFinished(job)
+                  ? job.status === "cancelled"
+                    ? "Generation cancelled"
+                    : "Generation finished"
                   : "Generating certificates..."}
               </p>
               <p className="text-slate-400">
-                Processing batch {progress.current} of {progress.total}
+                {job.succeeded + job.failed} of {job.total} processed
               </p>
+              <div className="mt-4 w-full max-w-md h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-linear-to-r from-cyan-500 to-blue-500 transition-all"
+                  style={{
+                    width: `${job.total > 0 ? ((job.succeeded + job.failed) / job.total) * 100 : 0}%`,
+                  }}
+                />
+              </div>
               <div className="mt-4 flex gap-4 text-sm">
-                <span className="text-green-400">
-                  Success: {progress.successes}
-                </span>
-                <span className="text-red-400">
-                  Failed: {progress.failures}
-                </span>
+                <span className="text-green-400">Success: {job.succeeded}</span>
+                <span className="text-red-400">Failed: {job.failed}</span>
               </div>
-              <p className="mt-8 text-xs text-slate-500">
-                Do not close this window.
+
+              {job.errors.length > 0 && (
+                <ul className="mt-6 w-full max-w-2xl max-h-48 overflow-y-auto text-xs text-red-300 bg-red-950/20 border border-red-900/40 rounded-lg p-3 space-y-1">
+                  {job.errors.map((rowError) => (
+                    <li key={rowError.index}>
+                      {`Row ${rowError.index} ("${rowError.participantName}"): ${rowError.error}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {isJobFinished(job) ? (
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  className="mt-6 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors cursor-pointer"
+                >
+                  Close
+                </button>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={handleCancelJob}
+                    disabled={isCancelling}
+                    className="mt-6 flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                  >
+                    <StopCircle className="w-4 h-4" />
+                    {isCancelling ? "Cancelling..." : "Cancel remaining"}
+                  </button>
+                  <p className="mt-8 text-xs text-slate-500">
+                    Certificates are generated on the server. You can close this
+                    window and reopen it later to check progress.
+                  </p>
+                </>
+              )}
+            </div>
+          )}
+
+          {step === "generating" && !job && (
+            <div className="flex flex-col items-center justify-center py-12 text-slate-300">
+              <Loader2 className="w-12 h-12 animate-spin text-cyan-500 mb-4" />
+              <p className="text-lg font-medium text-white mb-2">
+                {importMode === "upload"
+                  ? "Uploading & importing certificates..."
+                  : "Starting generation..."}
               </p>
+              {importMode === "upload" && (
+                <>
+                  <p className="text-slate-400">
+                    Processing batch {progress.current} of {progress.total}
+                  </p>
+                  <div className="mt-4 flex gap-4 text-sm">
+                    <span className="text-green-400">
+                      Success: {progress.successes}
+                    </span>
+                    <span className="text-red-400">
+                      Failed: {progress.failures}
+                    </span>
+                  </div>
+                  <p className="mt-8 text-xs text-slate-500">
+                    Do not close this window.
+                  </p>
+                </>
+              )}
             </div>
           )}
         </div>
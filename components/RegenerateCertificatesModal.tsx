@@ -0,0 +1,349 @@
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import {
+  X,
+  RefreshCw,
+  CheckCircle2,
+  AlertCircle,
+  Loader2,
+  StopCircle,
+} from "lucide-react";
+import toast from "react-hot-toast";
+
+interface RegenerationJobProgress {
+  id: string;
+  status: "queued" | "running" | "completed" | "cancelled";
+  total: number;
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  errors: Array<{ index: number; participantName: string; error: string }>;
+}
+
+interface RegenerateCertificatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  eventId: string;
+  eventTitle?: string;
+  /** Certificates to regenerate; null regenerates the whole event */
+  certificateIds: string[] | null;
+  onSuccess: () => void;
+}
+
+// Wait between run calls when another worker already holds the remaining rows
+const JOB_POLL_INTERVAL_MS = 2000;
+const MAX_JOB_POLL_ERRORS = 5;
+
+const isJobFinished = (job: RegenerationJobProgress) =>
+  job.status === "completed" || job.status === "cancelled";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function RegenerateCertificatesModal({
+  isOpen,
+  onClose,
+  eventId,
+  eventTitle,
+  certificateIds,
+  onSuccess,
+}: RegenerateCertificatesModalProps) {
+  const [job, setJob] = useState<RegenerationJobProgress | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState("");
+  // ID of the job this modal is currently driving; cleared to stop the loop
+  const drivingJobRef = useRef<string | null>(null);
+
+  const handleClose = useCallback(() => {
+    if (drivingJobRef.current) {
+      toast("Regeneration continues in the background.");
+    }
+    drivingJobRef.current = null;
+    setJob(null);
+    setIsRunning(false);
+    setError("");
+    onClose();
+  }, [onClose]);
+
+  const finishJob = useCallback(
+    (finished: RegenerationJobProgress) => {
+      setIsRunning(false);
+      if (finished.succeeded > 0) {
+        toast.success(
+          `Regenerated ${finished.succeeded} certificate(s) successfully!`,
+        );
+        onSuccess();
+      }
+      if (finished.failed > 0) {
+        // Stay open so the failed certificates can be reviewed
+        toast.error(`Failed to regenerate ${finished.failed} certificate(s).`);
+      } else {
+        handleClose();
+      }
+    },
+    [onSuccess, handleClose],
+  );
+
+  /**
+   * Keep asking the server to work on the job until it finishes. Each call
+   * processes certificates for a short time slice and returns the progress.
+   */
+  const driveJob = useCallback(
+    async (jobId: string) => {
+      drivingJobRef.current = jobId;
+      setIsRunning(true);
+      let consecutiveErrors = 0;
+
+      while (drivingJobRef.current === jobId) {
+        try {
+          const res = await fetch(`/api/admin/certificates/jobs/${jobId}/run`, {
+            method: "POST",
+            credentials: "include",
+          });
+          const data = await res.json();
+          if (!res.ok) throw new Error(data.error || "Request failed");
+          consecutiveErrors = 0;
+
+          if (drivingJobRef.current !== jobId) return;
+          setJob(data.job);
+          if (isJobFinished(data.job)) {
+            drivingJobRef.current = null;
+            finishJob(data.job);
+            return;
+          }
+          if (data.processed === 0) {
+            await sleep(JOB_POLL_INTERVAL_MS);
+          }
+        } catch {
+          consecutiveErrors++;
+          if (consecutiveErrors >= MAX_JOB_POLL_ERRORS) {
+            drivingJobRef.current = null;
+            setIsRunning(false);
+            toast.error(
+              "Lost contact with the regeneration job. Reopen this dialog to check its progress.",
+            );
+            return;
+          }
+          await sleep(JOB_POLL_INTERVAL_MS);
+        }
+      }
+    },
+    [finishJob],
+  );
+
+  // Pick up a regeneration that is still running for this event
+  useEffect(() => {
+    if (!isOpen || !eventId) return;
+    let ignore = false;
+
+    (async () => {
+      try {
+        const res = await fetch(
+          `/api/admin/certificates/jobs?eventId=${encodeURIComponent(eventId)}&active=true&kind=regenerate`,
+          { credentials: "include" },
+        );
+        if (!res.ok) return;
+        const data = await res.json();
+        const active: RegenerationJobProgress | undefined = data.jobs?.[0];
+        if (ignore || !active || drivingJobRef.current) return;
+
+        setJob(active);
+        driveJob(active.id);
+      } catch {
+        // Resuming is best effort; the cron worker finishes the job anyway
+      }
+    })();
+
+    return () => {
+      ignore = true;
+    };
+  }, [isOpen, eventId, driveJob]);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError("");
+    try {
+      const res = await fetch("/api/admin/certificates/regenerate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({
+          eventId,
+          certificateIds: certificateIds ?? undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to start");
+
+      if (data.skipped > 0) {
+        toast(
+          `${data.skipped} revoked, uploaded or already queued certificate(s) skipped.`,
+        );
+      }
+      setJob(data.job);
+      await driveJob(data.job.id);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to start");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleCancelJob = async () => {
+    if (!job) return;
+    setIsCancelling(true);
+    try {
+      const res = await fetch(`/api/admin/certificates/jobs/${job.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to cancel");
+      // Certificates already rendering still finish; the loop picks up the rest
+      setJob(data.job);
+      toast.success("Regeneration cancelled");
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : "Failed to cancel");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const scopeLabel = certificateIds
+    ? `${certificateIds.length} selected certificate(s)`
+    : `every certificate of ${eventTitle || "this event"}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-slate-900 rounded-2xl p-6 max-w-lg w-full border border-slate-800 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold text-white flex items-center gap-2">
+            <RefreshCw className="w-5 h-5 text-cyan-400" />
+            Regenerate Certificates
+          </h3>
+          <button
+            onClick={handleClose}
+            className="text-slate-400 hover:text-white transition-colors cursor-pointer"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!job ? (
+          <div className="space-y-4">
+            <p className="text-slate-300 text-sm">
+              Re-render {scopeLabel} with the event&apos;s current details and
+              template.
+            </p>
+            <ul className="text-slate-400 text-sm list-disc pl-5 space-y-1">
+              <li>Certificate numbers and issue dates stay the same.</li>
+              <li>
+                The stored PDF is replaced; earlier versions stay available in
+                the certificate&apos;s PDF history.
+              </li>
+              <li>Revoked certificates and uploaded PDFs are skipped.</li>
+              <li>Participants are not emailed automatically.</li>
+            </ul>
+
+            {error && (
+              <div className="bg-red-950/50 border border-red-900/50 rounded-lg p-3 text-red-200 text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="flex-1 bg-slate-800 hover:bg-slate-700 text-white py-2 rounded-lg transition-colors cursor-pointer"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleStart}
+                disabled={isStarting}
+                className="flex-1 bg-linear-to-r from-cyan-600 to-blue-600 hover:from-cyan-700 hover:to-blue-700 text-white py-2 rounded-lg transition-all disabled:opacity-50 cursor-pointer"
+              >
+                {isStarting ? "Starting..." : "Regenerate"}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-6 text-slate-300">
+            {isRunning ? (
+              <Loader2 className="w-12 h-12 animate-spin text-cyan-500 mb-4" />
+            ) : job.failed > 0 ? (
+              <AlertCircle className="w-12 h-12 text-amber-400 mb-4" />
+            ) : (
+              <CheckCircle2 className="w-12 h-12 text-green-400 mb-4" />
+            )}
+            <p className="text-lg font-medium text-white mb-2">
+              {isJobFinished(job)
+                ? job.status === "cancelled"
+                  ? "Regeneration cancelled"
+                  : "Regeneration finished"
+                : "Regenerating certificates..."}
+            </p>
+            <p className="text-slate-400">
+              {job.succeeded + job.failed} of {job.total} processed
+            </p>
+            <div className="mt-4 w-full h-2 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-linear-to-r from-cyan-500 to-blue-500 transition-all"
+                style={{
+                  width: `${job.total > 0 ? ((job.succeeded + job.failed) / job.total) * 100 : 0}%`,
+                }}
+              />
+            </div>
+            <div className="mt-4 flex gap-4 text-sm">
+              <span className="text-green-400">Success: {job.succeeded}</span>
+              <span className="text-red-400">Failed: {job.failed}</span>
+            </div>
+
+            {job.errors.length > 0 && (
+              <ul className="mt-6 w-full max-h-48 overflow-y-auto text-xs text-red-300 bg-red-950/20 border border-red-900/40 rounded-lg p-3 space-y-1">
+                {job.errors.map((rowError) => (
+                  <li key={rowError.index}>
+                    {`${rowError.participantName}: ${rowError.error}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {isJobFinished(job) ? (
+              <button
+                type="button"
+                onClick={handleClose}
+                className="mt-6 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors cursor-pointer"
+              >
+                Close
+              </button>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={handleCancelJob}
+                  disabled={isCancelling}
+                  className="mt-6 flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                >
+                  <StopCircle className="w-4 h-4" />
+                  {isCancelling ? "Cancelling..." : "Cancel remaining"}
+                </button>
+                <p className="mt-6 text-xs text-slate-500 text-center">
+                  Certificates are regenerated on the server. You can close this
+                  window and reopen it later to check progress.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
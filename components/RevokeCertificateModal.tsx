@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Ban } from 'lucide-react';
+import { REVOCATION_REASONS, REVOCATION_REASON_LABELS, RevocationReason } from '@/lib/revocation';
+
+interface RevokeCertificateModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onConfirm: (reason: RevocationReason, note: string) => void;
+    certificateNumber?: string;
+    participantName?: string;
+    isLoading?: boolean;
+}
+
+export function RevokeCertificateModal({
+    isOpen,
+    onClose,
+    onConfirm,
+    certificateNumber,
+    participantName,
+    isLoading = false,
+}: RevokeCertificateModalProps) {
+    const [reason, setReason] = useState<RevocationReason>('issued_in_error');
+    const [note, setNote] = useState('');
+
+    useEffect(() => {
+        if (isOpen) {
+            setReason('issued_in_error');
+            setNote('');
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="bg-slate-900 rounded-2xl p-6 max-w-md w-full border border-slate-800">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-bold text-white flex items-center gap-2">
+                        <Ban className="w-5 h-5 text-amber-400" />
+                        Revoke Certificate?
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        disabled={isLoading}
+                        className="text-slate-400 hover:text-white transition-colors disabled:opacity-50 cursor-pointer"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <p className="text-slate-300 mb-6">
+                    <span className="font-mono text-cyan-400">{certificateNumber}</span>
+                    {participantName && <> issued to <strong className="text-white">{participantName}</strong></>} will
+                    be shown as revoked on the public verification page. The record and PDF are kept and the
+                    revocation can be lifted later.
+                </p>
+
+                <div className="space-y-4 mb-6">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">Reason</label>
+                        <select
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value as RevocationReason)}
+                            disabled={isLoading}
+                            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white focus:outline-none focus:border-amber-500"
+                        >
+                            {REVOCATION_REASONS.map((value) => (
+                                <option key={value} value={value}>
+                                    {REVOCATION_REASON_LABELS[value]}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-2">
+                            Note <span className="text-slate-500">(optional, shown publicly)</span>
+                        </label>
+                        <textarea
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            maxLength={500}
+                            rows={3}
+                            disabled={isLoading}
+                            placeholder="e.g. Replaced by ECELL-2026-AB12C"
+                            className="w-full bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-amber-500 resize-none"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex gap-3">
+                    <button
+                        onClick={onClose}
+                        disabled={isLoading}
+                        className="flex-1 px-4 py-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onConfirm(reason, note.trim())}
+                        disabled={isLoading}
+                        className="flex-1 px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                    >
+                        {isLoading ? 'Revoking...' : 'Revoke'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Clock, Edit, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { toDateTimeLocalValue } from '@/lib/dateUtils';
+
+interface ScheduledEmail {
+    id: string;
+    eventId: string;
+    eventTitle: string | null;
+    sendAt: string;
+    certificateCount: number | null;
+    createdBy: string;
+}
+
+interface ScheduledEmailsListProps {
+    canManage: boolean;
+}
+
+/**
+ * Pending scheduled email sends across all events. Renders nothing when
+ * there are none.
+ */
+export function ScheduledEmailsList({ canManage }: ScheduledEmailsListProps) {
+    const [schedules, setSchedules] = useState<ScheduledEmail[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editSendAt, setEditSendAt] = useState('');
+    const [cancelling, setCancelling] = useState<ScheduledEmail | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        fetchSchedules();
+    }, []);
+
+    const fetchSchedules = async () => {
+        try {
+            const res = await fetch('/api/admin/emails/schedules?status=pending', { credentials: 'include' });
+            const data = await res.json();
+            if (res.ok && data.success) {
+                setSchedules(data.schedules);
+            }
+        } catch (error) {
+            console.error('Failed to fetch scheduled emails:', error);
+        }
+    };
+
+    const startEditing = (schedule: ScheduledEmail) => {
+        setEditingId(schedule.id);
+        setEditSendAt(toDateTimeLocalValue(schedule.sendAt));
+    };
+
+    const handleReschedule = async (scheduleId: string) => {
+        const sendAt = new Date(editSendAt);
+        if (Number.isNaN(sendAt.getTime()) || sendAt.getTime() <= Date.now()) {
+            toast.error('Please pick a time in the future.');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const res = await fetch(`/api/admin/emails/schedules/${scheduleId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ sendAt: sendAt.toISOString() }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to reschedule emails');
+
+            toast.success('Scheduled send updated');
+            setEditingId(null);
+            await fetchSchedules();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to reschedule emails');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!cancelling) return;
+
+        setIsSaving(true);
+        try {
+            const res = await fetch(`/api/admin/emails/schedules/${cancelling.id}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to cancel scheduled emails');
+
+            toast.success('Scheduled send cancelled');
+            setCancelling(null);
+            await fetchSchedules();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to cancel scheduled emails');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (schedules.length === 0) return null;
+
+    return (
+        <div className="bg-slate-900/50 backdrop-blur-xl rounded-xl sm:rounded-2xl p-4 sm:p-6 border border-slate-800/50 mb-6 sm:mb-8">
+            <h2 className="text-lg sm:text-xl font-bold text-white mb-4">Scheduled Emails</h2>
+            <ul className="divide-y divide-slate-800">
+                {schedules.map((schedule) => (
+                    <li key={schedule.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                        <div className="flex items-start gap-3 flex-1 min-w-0">
+                            <Clock className="w-5 h-5 text-cyan-400 shrink-0 mt-0.5" />
+                            <div className="min-w-0">
+                                <Link
+                                    href={`/admin/events/${schedule.eventId}/certificates`}
+                                    className="font-medium text-white hover:text-cyan-300 transition-colors truncate block"
+                                >
+                                    {schedule.eventTitle || 'Deleted event'}
+                                </Link>
+                                <p className="text-sm text-slate-400">
+                                    {schedule.certificateCount === null
+                                        ? 'Whole event'
+                                        : `${schedule.certificateCount} certificate(s)`}
+                                    {' · '}scheduled by {schedule.createdBy}
+                                </p>
+                            </div>
+                        </div>
+
+                        {editingId === schedule.id ? (
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="datetime-local"
+                                    value={editSendAt}
+                                    min={toDateTimeLocalValue(new Date())}
+                                    onChange={(e) => setEditSendAt(e.target.value)}
+                                    className="px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+                                />
+                                <button
+                                    onClick={() => handleReschedule(schedule.id)}
+                                    disabled={isSaving}
+                                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50 cursor-pointer"
+                                >
+                                    Save
+                                </button>
+                                <button
+                                    onClick={() => setEditingId(null)}
+                                    className="px-3 py-1.5 text-slate-300 hover:text-white text-sm rounded-lg transition-colors cursor-pointer"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2">
+                                <span className="text-sm text-slate-300">{new Date(schedule.sendAt).toLocaleString()}</span>
+                                {canManage && (
+                                    <>
+                                        <button
+                                            onClick={() => startEditing(schedule)}
+                                            className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors cursor-pointer"
+                                            title="Change send time"
+                                        >
+                                            <Edit className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => setCancelling(schedule)}
+                                            className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors cursor-pointer"
+                                            title="Cancel scheduled send"
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            <ConfirmDialog
+                isOpen={cancelling !== null}
+                onClose={() => setCancelling(null)}
+                onConfirm={handleCancel}
+                title="Cancel Scheduled Send"
+                message={cancelling
+                    ? `Emails for "${cancelling.eventTitle || 'this event'}" will not be sent on ${new Date(cancelling.sendAt).toLocaleString()}.`
+                    : ''}
+                confirmText="Cancel Send"
+                isLoading={isSaving}
+            />
+        </div>
+    );
+}
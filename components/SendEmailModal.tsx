@@ -1,8 +1,10 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { X, Mail, AlertTriangle, CheckCircle, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { X, Mail, AlertTriangle, CheckCircle, AlertCircle, ChevronLeft, ChevronRight, Clock } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { toDateTimeLocalValue } from '@/lib/dateUtils';
+import { renderEmailTemplate, type EmailPartials, type EmailVariables } from '@/lib/emailRendering';
 
 interface CertificateData {
     id: string;
@@ -12,7 +14,20 @@ interface CertificateData {
     certificateUrl: string;
     verificationUrl: string;
     issuedAt: string;
-    emailStatus?: 'sent' | 'failed' | 'pending' | null;
+    emailStatus?: 'sent' | 'failed' | 'pending' | 'queued' | 'retrying' | null;
+    revokedAt?: string | null;
+}
+
+interface EmailJobProgress {
+    id: string;
+    status: 'queued' | 'running' | 'completed' | 'cancelled';
+    total: number;
+    queued: number;
+    sending: number;
+    retrying: number;
+    sent: number;
+    failed: number;
+    nextRetryAt: string | null;
 }
 
 interface SendEmailModalProps {
@@ -23,23 +38,52 @@ interface SendEmailModalProps {
     onSuccess: () => void;
 }
 
+// Wait between run calls while emails are throttled or waiting to be retried
+const JOB_POLL_INTERVAL_MS = 3000;
+const MAX_JOB_POLL_ERRORS = 5;
+
+// Stand-in for the inline QR image, which only exists once an email is sent
+const PREVIEW_QR_CODE = '<span style="display: inline-flex; align-items: center; justify-content: center; width: 160px; height: 160px; border: 2px dashed #94a3b8; color: #64748b; font-size: 12px;">Verification QR code</span>';
+
+const isJobFinished = (job: EmailJobProgress) =>
+    job.status === 'completed' || job.status === 'cancelled';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Scheduled sends default to 10:00 tomorrow
+const defaultScheduleTime = () => {
+    const date = new Date();
+    date.setDate(date.getDate() + 1);
+    date.setHours(10, 0, 0, 0);
+    return toDateTimeLocalValue(date);
+};
+
 export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSuccess }: SendEmailModalProps) {
     const [isLoading, setIsLoading] = useState(true);
     const [templateError, setTemplateError] = useState<string | null>(null);
-    const [template, setTemplate] = useState<{ subject: string; body: string } | null>(null);
+    const [template, setTemplate] = useState<{ subject: string; body: string; attachPdf?: boolean; inlineQr?: boolean } | null>(null);
     const [previewHtml, setPreviewHtml] = useState<string>('');
     const [previewSubject, setPreviewSubject] = useState<string>('');
+    const [partials, setPartials] = useState<EmailPartials>({});
     
     const [currentPreviewIndex, setCurrentPreviewIndex] = useState(0);
     
-    // Batch processing state
+    // Email job state
     const [isSending, setIsSending] = useState(false);
-    const [progress, setProgress] = useState(0);
+    const [job, setJob] = useState<EmailJobProgress | null>(null);
     const [sendStats, setSendStats] = useState<{ sent: number; failed: number } | null>(null);
+    const drivingJobRef = useRef<string | null>(null);
+
+    // Send now, or schedule for later
+    const [mode, setMode] = useState<'now' | 'schedule'>('now');
+    const [scheduleAt, setScheduleAt] = useState(defaultScheduleTime);
+    const [scheduleScope, setScheduleScope] = useState<'selected' | 'event'>('selected');
 
-    const validCerts = certificates.filter(c => c.participantEmail);
-    const missingEmailCount = certificates.length - validCerts.length;
+    const revokedCount = certificates.filter(c => c.revokedAt).length;
+    const validCerts = certificates.filter(c => c.participantEmail && !c.revokedAt);
+    const missingEmailCount = certificates.filter(c => !c.participantEmail && !c.revokedAt).length;
     const previouslySentCount = validCerts.filter(c => c.emailStatus === 'sent').length;
+    const progress = job && job.total > 0 ? Math.round(((job.sent + job.failed) / job.total) * 100) : 0;
     const [confirmResend, setConfirmResend] = useState(false);
 
     useEffect(() => {
@@ -55,7 +99,7 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
         if (template && certificates.length > 0) {
             generatePreview(template.subject, template.body, null, currentPreviewIndex);
         }
-    }, [currentPreviewIndex, template, certificates]);
+    }, [currentPreviewIndex, template, certificates, partials]);
 
     const resetState = () => {
         setIsLoading(true);
@@ -63,20 +107,32 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
         setTemplate(null);
         setPreviewHtml('');
         setPreviewSubject('');
+        setPartials({});
+        drivingJobRef.current = null;
         setIsSending(false);
-        setProgress(0);
+        setJob(null);
         setSendStats(null);
         setConfirmResend(false);
         setCurrentPreviewIndex(0);
+        setMode('now');
+        setScheduleAt(defaultScheduleTime());
+        setScheduleScope('selected');
     };
 
     const checkTemplateAndPreparePreview = async () => {
         setIsLoading(true);
         try {
-            const res = await fetch(`/api/admin/events/${eventId}/email-template`, {
-                credentials: 'include',
-            });
+            const [res, partialsRes] = await Promise.all([
+                fetch(`/api/admin/events/${eventId}/email-template`, { credentials: 'include' }),
+                fetch('/api/admin/email-partials', { credentials: 'include' }),
+            ]);
             const data = await res.json();
+            const partialsData = await partialsRes.json();
+            if (partialsRes.ok && partialsData.success) {
+                setPartials(Object.fromEntries(
+                    partialsData.partials.map((partial: { name: string; html: string }) => [partial.name, partial.html])
+                ));
+            }
 
             if (res.ok && data.success && data.emailTemplate?.subject && data.emailTemplate?.body) {
                 setTemplate(data.emailTemplate);
@@ -97,30 +153,116 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
         // Use the selected index as sample for preview
         const sample = certificates[index] || certificates[0];
         
-        const variables = {
+        const variables: EmailVariables = {
             participantName: sample.participantName,
+            participantEmail: sample.participantEmail || '',
             eventName: eventDetails?.title || 'Event Name',
             eventDate: eventDetails?.startDate ? new Date(eventDetails.startDate).toLocaleDateString() : 'Event Date',
             certificateNumber: sample.certificateNumber,
             verificationLink: sample.verificationUrl,
-            certificateLink: sample.certificateUrl,
+            certificateLink: `${window.location.origin}/api/certificates/${sample.certificateNumber}/download`,
             issueDate: new Date(sample.issuedAt).toLocaleDateString(),
             organizer: eventDetails?.organizer || 'Organizer',
+            qrCode: template?.inlineQr ? PREVIEW_QR_CODE : '',
         };
 
-        let pBody = bodyTemplate;
-        let pSubject = subjectTemplate;
-
-        for (const [key, value] of Object.entries(variables)) {
-            const regex = new RegExp(`{{${key}}}`, 'g');
-            pBody = pBody.replace(regex, value || '');
-            pSubject = pSubject.replace(regex, value || '');
+        let pBody: string;
+        let pSubject: string;
+        try {
+            pBody = renderEmailTemplate(bodyTemplate, variables, { partials });
+            pSubject = renderEmailTemplate(subjectTemplate, variables, { partials, escape: false });
+        } catch (error) {
+            setPreviewSubject(subjectTemplate);
+            setPreviewHtml(`<p style="color: #dc2626;">Template error: ${error instanceof Error ? error.message.replace(/</g, '&lt;') : 'Unknown error'}</p>`);
+            return;
+        }
+        if (template?.inlineQr && !bodyTemplate.includes('{{qrCode}}')) {
+            pBody += `<p style="text-align: center;">${PREVIEW_QR_CODE}</p>`;
         }
 
         setPreviewSubject(pSubject);
         setPreviewHtml(pBody);
     };
 
+    /**
+     * Keep asking the server to deliver the job until every email is sent or
+     * has failed. Each call sends for a short time slice and returns progress.
+     */
+    const driveJob = useCallback(async (jobId: string) => {
+        drivingJobRef.current = jobId;
+        setIsSending(true);
+        let consecutiveErrors = 0;
+
+        while (drivingJobRef.current === jobId) {
+            try {
+                const res = await fetch(`/api/admin/emails/jobs/${jobId}/run`, {
+                    method: 'POST',
+                    credentials: 'include',
+                });
+                const data = await res.json();
+                if (!res.ok) throw new Error(data.error || 'Request failed');
+                consecutiveErrors = 0;
+
+                if (drivingJobRef.current !== jobId) return;
+                setJob(data.job);
+                if (isJobFinished(data.job)) {
+                    drivingJobRef.current = null;
+                    setIsSending(false);
+                    setSendStats({ sent: data.job.sent, failed: data.job.failed });
+                    onSuccess(); // Refresh table status
+                    return;
+                }
+                if (data.processed === 0) {
+                    await sleep(JOB_POLL_INTERVAL_MS);
+                }
+            } catch (err) {
+                consecutiveErrors++;
+                if (consecutiveErrors >= MAX_JOB_POLL_ERRORS) {
+                    drivingJobRef.current = null;
+                    setIsSending(false);
+                    toast.error('Lost contact with the email job. Reopen this dialog to check its progress.');
+                    return;
+                }
+                await sleep(JOB_POLL_INTERVAL_MS);
+            }
+        }
+    }, [onSuccess]);
+
+    // Pick up delivery that is still running for this event, e.g. after a reload
+    useEffect(() => {
+        if (!isOpen || !eventId) return;
+        let ignore = false;
+
+        (async () => {
+            try {
+                const res = await fetch(`/api/admin/emails/jobs?eventId=${encodeURIComponent(eventId)}&active=true`, {
+                    credentials: 'include',
+                });
+                if (!res.ok) return;
+                const data = await res.json();
+                const active: EmailJobProgress | undefined = data.jobs?.[0];
+                if (ignore || !active || drivingJobRef.current) return;
+
+                setJob(active);
+                driveJob(active.id);
+            } catch {
+                // Resuming is best effort; the cron worker finishes the job anyway
+            }
+        })();
+
+        return () => {
+            ignore = true;
+        };
+    }, [isOpen, eventId, driveJob]);
+
+    const handleClose = () => {
+        if (drivingJobRef.current) {
+            toast('Emails keep sending in the background.');
+        }
+        drivingJobRef.current = null;
+        onClose();
+    };
+
     const handleSend = async () => {
         if (previouslySentCount > 0 && !confirmResend) {
             toast.error('Please confirm resending to participants who already received the email.');
@@ -129,43 +271,60 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
 
         setIsSending(true);
         setSendStats(null);
-        setProgress(0);
 
-        const BATCH_SIZE = 5;
-        let totalSent = 0;
-        let totalFailed = 0;
-        
-        const idsToSend = validCerts.map(c => c.id);
-        const totalBatches = Math.ceil(idsToSend.length / BATCH_SIZE);
+        try {
+            const res = await fetch('/api/admin/emails/send', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ certificateIds: validCerts.map(c => c.id) })
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to queue emails');
+
+            setJob(data.job);
+            onSuccess(); // Show the queued status in the table
+            await driveJob(data.job.id);
+        } catch (err) {
+            setIsSending(false);
+            toast.error(err instanceof Error ? err.message : 'Failed to queue emails');
+        }
+    };
 
-        for (let i = 0; i < totalBatches; i++) {
-            const batch = idsToSend.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE);
-            
-            try {
-                const res = await fetch('/api/admin/emails/send', {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    credentials: 'include',
-                    body: JSON.stringify({ certificateIds: batch })
-                });
+    const handleSchedule = async () => {
+        if (previouslySentCount > 0 && !confirmResend) {
+            toast.error('Please confirm resending to participants who already received the email.');
+            return;
+        }
+        const sendAt = new Date(scheduleAt);
+        if (Number.isNaN(sendAt.getTime()) || sendAt.getTime() <= Date.now()) {
+            toast.error('Please pick a time in the future.');
+            return;
+        }
 
-                if (res.ok) {
-                    const data = await res.json();
-                    totalSent += data.sent || 0;
-                    totalFailed += data.failed || 0;
-                } else {
-                    totalFailed += batch.length;
-                }
-            } catch (err) {
-                totalFailed += batch.length;
-            }
+        setIsSending(true);
+        try {
+            const res = await fetch('/api/admin/emails/schedules', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({
+                    eventId,
+                    sendAt: sendAt.toISOString(),
+                    certificateIds: scheduleScope === 'selected' ? validCerts.map(c => c.id) : undefined,
+                })
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || 'Failed to schedule emails');
 
-            setProgress(Math.round(((i + 1) / totalBatches) * 100));
+            toast.success(`Emails scheduled for ${sendAt.toLocaleString()}`);
+            onSuccess();
+            onClose();
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to schedule emails');
+        } finally {
+            setIsSending(false);
         }
-
-        setSendStats({ sent: totalSent, failed: totalFailed });
-        setIsSending(false);
-        onSuccess(); // Refresh table status
     };
 
     const handlePrevPreview = () => {
@@ -195,7 +354,7 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
                             <p className="text-sm text-slate-400">Review before dispatching</p>
                         </div>
                     </div>
-                    <button onClick={onClose} disabled={isSending} className="text-slate-400 hover:text-white transition-colors cursor-pointer disabled:opacity-50">
+                    <button onClick={handleClose} className="text-slate-400 hover:text-white transition-colors cursor-pointer">
                         <X className="w-6 h-6" />
                     </button>
                 </div>
@@ -211,7 +370,7 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
                             <AlertTriangle className="w-12 h-12 text-amber-500 mx-auto mb-4" />
                             <h4 className="text-lg font-bold text-amber-400 mb-2">Template Missing</h4>
                             <p className="text-amber-200/80 mb-6">{templateError}</p>
-                            <button onClick={onClose} className="px-6 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg transition-colors cursor-pointer">
+                            <button onClick={handleClose} className="px-6 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-lg transition-colors cursor-pointer">
                                 Close & Configure Template
                             </button>
                         </div>
@@ -236,6 +395,11 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
                                     * {missingEmailCount} skipped due to missing email address.
                                 </p>
                             )}
+                            {revokedCount > 0 && (
+                                <p className="text-rose-400/80 text-sm mt-1">
+                                    * {revokedCount} skipped because the certificate is revoked.
+                                </p>
+                            )}
                         </div>
                     ) : (
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6 min-h-0">
@@ -256,6 +420,64 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
                                     </ul>
                                 </div>
 
+                                {!job && (
+                                    <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700/50 space-y-3">
+                                        <div className="flex bg-slate-900 rounded-lg p-1">
+                                            <button
+                                                onClick={() => setMode('now')}
+                                                className={`flex-1 flex items-center justify-center gap-2 px-3 py-1.5 rounded-md text-sm transition-colors cursor-pointer ${mode === 'now' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                                            >
+                                                <Mail className="w-4 h-4" />
+                                                Send now
+                                            </button>
+                                            <button
+                                                onClick={() => setMode('schedule')}
+                                                className={`flex-1 flex items-center justify-center gap-2 px-3 py-1.5 rounded-md text-sm transition-colors cursor-pointer ${mode === 'schedule' ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                                            >
+                                                <Clock className="w-4 h-4" />
+                                                Schedule
+                                            </button>
+                                        </div>
+                                        {mode === 'schedule' && (
+                                            <>
+                                                <div>
+                                                    <label className="block text-sm text-slate-300 mb-1">Send at</label>
+                                                    <input
+                                                        type="datetime-local"
+                                                        value={scheduleAt}
+                                                        min={toDateTimeLocalValue(new Date())}
+                                                        onChange={(e) => setScheduleAt(e.target.value)}
+                                                        className="w-full px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:border-blue-500"
+                                                    />
+                                                </div>
+                                                <div className="space-y-2 text-sm text-slate-300">
+                                                    <label className="flex items-start gap-2 cursor-pointer">
+                                                        <input
+                                                            type="radio"
+                                                            checked={scheduleScope === 'selected'}
+                                                            onChange={() => setScheduleScope('selected')}
+                                                            className="mt-0.5"
+                                                        />
+                                                        <span>Selected certificates ({validCerts.length})</span>
+                                                    </label>
+                                                    <label className="flex items-start gap-2 cursor-pointer">
+                                                        <input
+                                                            type="radio"
+                                                            checked={scheduleScope === 'event'}
+                                                            onChange={() => setScheduleScope('event')}
+                                                            className="mt-0.5"
+                                                        />
+                                                        <span>
+                                                            Whole event
+                                                            <span className="block text-xs text-slate-500">Every certificate with an email address when the schedule runs, including ones issued later.</span>
+                                                        </span>
+                                                    </label>
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+
                                 {missingEmailCount > 0 && (
                                     <div className="bg-amber-950/30 border border-amber-900/50 rounded-xl p-4 flex gap-3">
                                         <AlertTriangle className="w-5 h-5 text-amber-500 shrink-0" />
@@ -265,6 +487,15 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
                                     </div>
                                 )}
 
+                                {revokedCount > 0 && (
+                                    <div className="bg-rose-950/30 border border-rose-900/50 rounded-xl p-4 flex gap-3">
+                                        <AlertTriangle className="w-5 h-5 text-rose-500 shrink-0" />
+                                        <p className="text-sm text-rose-200">
+                                            <strong>{revokedCount} certificate(s)</strong> have been revoked and will be skipped.
+                                        </p>
+                                    </div>
+                                )}
+
                                 {previouslySentCount > 0 && (
                                     <div className="bg-blue-950/30 border border-blue-900/50 rounded-xl p-4">
                                         <div className="flex gap-3 mb-3">
@@ -288,7 +519,9 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
                                 {isSending && (
                                     <div className="bg-slate-800/80 rounded-xl p-4 border border-slate-700">
                                         <div className="flex justify-between text-sm mb-2">
-                                            <span className="text-slate-300">Sending emails...</span>
+                                            <span className="text-slate-300">
+                                                {job ? `Sent ${job.sent} of ${job.total}` : 'Queueing emails...'}
+                                            </span>
                                             <span className="text-blue-400 font-bold">{progress}%</span>
                                         </div>
                                         <div className="w-full bg-slate-900 rounded-full h-2">
@@ -297,6 +530,15 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
                                                 style={{ width: `${progress}%` }}
                                             ></div>
                                         </div>
+                                        {job && (job.retrying > 0 || job.failed > 0) && (
+                                            <p className="text-xs text-slate-400 mt-2">
+                                                {job.retrying > 0 && `${job.retrying} waiting to retry${job.nextRetryAt ? ` (next at ${new Date(job.nextRetryAt).toLocaleTimeString()})` : ''}. `}
+                                                {job.failed > 0 && `${job.failed} failed.`}
+                                            </p>
+                                        )}
+                                        <p className="text-xs text-slate-500 mt-1">
+                                            You can close this dialog; sending continues in the background.
+                                        </p>
                                     </div>
                                 )}
                             </div>
@@ -333,6 +575,11 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
                                 <div className="bg-white border-b border-slate-200 p-3">
                                     <span className="text-xs text-slate-500 mr-2">Subject:</span>
                                     <span className="text-sm font-semibold text-slate-800">{previewSubject}</span>
+                                    {template?.attachPdf && (
+                                        <span className="block text-xs text-slate-500 mt-1">
+                                            PDF attached: {certificates[currentPreviewIndex]?.participantName} - {certificates[currentPreviewIndex]?.certificateNumber}.pdf
+                                        </span>
+                                    )}
                                 </div>
                                 <div className="flex-1 p-4 sm:p-5 overflow-y-auto bg-white min-h-[250px] md:min-h-[300px]">
                                     <div 
@@ -351,8 +598,7 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
                 {!sendStats && (
                     <div className="p-4 border-t border-slate-800 bg-slate-900/80 flex justify-end gap-3">
                         <button
-                            onClick={onClose}
-                            disabled={isSending}
+                            onClick={handleClose}
                             className="px-5 py-2 text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors cursor-pointer"
                         >
                             Cancel
@@ -360,12 +606,14 @@ export function SendEmailModal({ isOpen, onClose, eventId, certificates, onSucce
                         
                         {!templateError && (
                             <button
-                                onClick={handleSend}
-                                disabled={isSending || validCerts.length === 0 || (previouslySentCount > 0 && !confirmResend)}
+                                onClick={mode === 'schedule' ? handleSchedule : handleSend}
+                                disabled={isSending || (validCerts.length === 0 && !(mode === 'schedule' && scheduleScope === 'event')) || (previouslySentCount > 0 && !confirmResend)}
                                 className="flex items-center gap-2 px-6 py-2 bg-gradient-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white rounded-lg transition-all disabled:opacity-50 cursor-pointer font-medium shadow-lg"
                             >
-                                <Mail className="w-4 h-4" />
-                                {isSending ? 'Sending...' : `Send ${validCerts.length} Email(s)`}
+                                {mode === 'schedule' ? <Clock className="w-4 h-4" /> : <Mail className="w-4 h-4" />}
+                                {mode === 'schedule'
+                                    ? (isSending ? 'Scheduling...' : scheduleScope === 'event' ? 'Schedule Event Emails' : `Schedule ${validCerts.length} Email(s)`)
+                                    : (isSending ? 'Sending...' : `Send ${validCerts.length} Email(s)`)}
                             </button>
                         )}
                     </div>
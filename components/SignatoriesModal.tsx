@@ -0,0 +1,303 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Plus, Save, Trash2, Upload, X } from "lucide-react";
+import toast from "react-hot-toast";
+import { ConfirmDialog } from "./ConfirmDialog";
+
+export interface Signatory {
+  id: string;
+  name: string;
+  designation: string;
+  signatureUrl: string;
+}
+
+interface SignatoriesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  signatories: Signatory[];
+  /** Called after a signatory is created, updated or deleted */
+  onChange: () => void;
+}
+
+/**
+ * Manage the people who sign certificates and their signature images
+ */
+export function SignatoriesModal({
+  isOpen,
+  onClose,
+  signatories,
+  onChange,
+}: SignatoriesModalProps) {
+  // null = creating a new signatory
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [designation, setDesignation] = useState("");
+  const [signatureUrl, setSignatureUrl] = useState("");
+  // Uploaded when the signatory is saved
+  const [signatureFile, setSignatureFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const selectSignatory = (signatory: Signatory | null) => {
+    setSelectedId(signatory?.id ?? null);
+    setName(signatory?.name ?? "");
+    setDesignation(signatory?.designation ?? "");
+    setSignatureUrl(signatory?.signatureUrl ?? "");
+    setSignatureFile(null);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      selectSignatory(signatories[0] ?? null);
+    }
+    // Only reset when the dialog opens, not after every save
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    if (!name.trim() || !designation.trim()) {
+      toast.error("Name and designation are required");
+      return;
+    }
+    if (!signatureUrl) {
+      toast.error("Upload a signature image");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      let finalSignatureUrl = signatureUrl;
+      if (signatureFile) {
+        const formData = new FormData();
+        formData.append("file", signatureFile);
+        formData.append("purpose", "signature");
+        const uploadRes = await fetch("/api/admin/upload", {
+          method: "POST",
+          body: formData,
+          credentials: "include",
+        });
+        const upload = await uploadRes.json();
+        if (!upload.url) {
+          throw new Error(upload.error || "Failed to upload signature image");
+        }
+        finalSignatureUrl = upload.url;
+      }
+
+      const res = await fetch(
+        selectedId
+          ? `/api/admin/signatories/${selectedId}`
+          : "/api/admin/signatories",
+        {
+          method: selectedId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify({
+            name,
+            designation,
+            signatureUrl: finalSignatureUrl,
+          }),
+        },
+      );
+      const data = await res.json();
+      if (res.ok && data.success) {
+        toast.success(selectedId ? "Signatory updated" : "Signatory created");
+        selectSignatory(data.signatory);
+        onChange();
+      } else {
+        toast.error(data.error || "Failed to save signatory");
+      }
+    } catch (err: unknown) {
+      toast.error(
+        err instanceof Error ? err.message : "Network error occurred",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    setIsDeleting(true);
+    try {
+      const res = await fetch(`/api/admin/signatories/${selectedId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const data = await res.json();
+      if (res.ok && data.success) {
+        toast.success("Signatory deleted");
+        selectSignatory(
+          signatories.find((signatory) => signatory.id !== selectedId) ?? null,
+        );
+        onChange();
+      } else {
+        toast.error(data.error || "Failed to delete signatory");
+      }
+      setShowDeleteConfirm(false);
+    } catch (error) {
+      toast.error("Network error occurred");
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-60 p-4">
+      <div className="bg-slate-900 rounded-2xl w-full max-w-2xl border border-slate-800 flex flex-col max-h-[85vh]">
+        <div className="flex items-start justify-between p-4 border-b border-slate-800">
+          <div>
+            <h3 className="text-xl font-bold text-white">Signatories</h3>
+            <p className="text-xs text-slate-400 mt-1">
+              Printed by templates with {"{{#each signatories}}"}. Issued
+              certificates keep the signatures they were issued with.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors cursor-pointer"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row min-h-0 overflow-hidden">
+          <div className="md:w-52 border-b md:border-b-0 md:border-r border-slate-800 p-3 space-y-1 overflow-y-auto">
+            <button
+              type="button"
+              onClick={() => selectSignatory(null)}
+              className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm cursor-pointer transition-colors ${selectedId === null ? "bg-blue-600/20 text-blue-300" : "text-slate-300 hover:bg-slate-800"}`}
+            >
+              <Plus className="w-4 h-4" /> New Signatory
+            </button>
+            {signatories.map((signatory) => (
+              <button
+                key={signatory.id}
+                type="button"
+                onClick={() => selectSignatory(signatory)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm cursor-pointer transition-colors ${selectedId === signatory.id ? "bg-blue-600/20 text-blue-300" : "text-slate-300 hover:bg-slate-800"}`}
+              >
+                <span className="block truncate">{signatory.name}</span>
+                <span className="block text-xs text-slate-500 truncate">
+                  {signatory.designation}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 p-4 space-y-3 overflow-y-auto">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+                placeholder="e.g., Riya Mehta"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                Designation
+              </label>
+              <input
+                type="text"
+                value={designation}
+                onChange={(e) => setDesignation(e.target.value)}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+                placeholder="e.g., President, E-Cell"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-1">
+                Signature
+              </label>
+              <div className="bg-white rounded-lg h-24 flex items-center justify-center overflow-hidden">
+                {signatureUrl ? (
+                  <img
+                    src={signatureUrl}
+                    alt={`${name || "Signatory"} signature`}
+                    className="max-h-20 max-w-full object-contain"
+                  />
+                ) : (
+                  <span className="text-xs text-slate-400">
+                    No signature yet
+                  </span>
+                )}
+              </div>
+              <label className="mt-2 inline-flex items-center gap-1.5 text-sm text-blue-400 hover:text-blue-300 cursor-pointer">
+                <Upload className="w-4 h-4" />
+                {signatureUrl ? "Replace image" : "Upload image"}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (!file) return;
+                    setSignatureFile(file);
+                    setSignatureUrl(URL.createObjectURL(file));
+                  }}
+                />
+              </label>
+              <p className="text-xs text-slate-500 mt-1">
+                A PNG with a transparent background prints best.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex items-center justify-between gap-3">
+          {selectedId ? (
+            <button
+              type="button"
+              onClick={() => setShowDeleteConfirm(true)}
+              className="flex items-center gap-2 px-3 py-2 text-red-400 hover:bg-red-950/40 rounded-lg transition-colors cursor-pointer text-sm"
+            >
+              <Trash2 className="w-4 h-4" /> Delete
+            </button>
+          ) : (
+            <div></div>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors cursor-pointer"
+            >
+              Close
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-5 py-2 bg-linear-to-r from-blue-600 to-cyan-600 hover:from-blue-700 hover:to-cyan-700 text-white rounded-lg transition-all disabled:opacity-50 cursor-pointer font-medium"
+            >
+              <Save className="w-4 h-4" />
+              {isSaving
+                ? "Saving..."
+                : selectedId
+                  ? "Save Signatory"
+                  : "Create Signatory"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={showDeleteConfirm}
+        onClose={() => setShowDeleteConfirm(false)}
+        onConfirm={handleDelete}
+        title="Delete Signatory?"
+        message={`${name} will be removed. Events they sign for must drop them first; issued certificates keep their signature.`}
+        confirmText="Delete Signatory"
+        confirmVariant="danger"
+        isLoading={isDeleting}
+      />
+    </div>
+  );
+}
@@ -10,15 +10,22 @@ import {
   ChevronDown,
   Code2,
   Eye,
+  History,
 } from "lucide-react";
 
+export type EditorTab = "editor" | "preview" | "history";
+
 interface EditorHeaderProps {
   title: string;
   isSaving: boolean;
   showSettings: boolean;
   setShowSettings: (show: boolean) => void;
-  activeTab: "editor" | "preview";
-  setActiveTab: (tab: "editor" | "preview") => void;
+  activeTab: EditorTab;
+  setActiveTab: (tab: EditorTab) => void;
+  /** History needs a saved blueprint, so new ones don't get the tab */
+  showHistory: boolean;
+  versionNote: string;
+  setVersionNote: (note: string) => void;
   onClose: () => void;
   onSave: () => void;
   onExport: () => void;
@@ -32,6 +39,9 @@ export default function EditorHeader({
   setShowSettings,
   activeTab,
   setActiveTab,
+  showHistory,
+  versionNote,
+  setVersionNote,
   onClose,
   onSave,
   onExport,
@@ -97,6 +107,19 @@ export default function EditorHeader({
           <Eye className="w-3.5 h-3.5" />
           Preview
         </button>
+        {showHistory && (
+          <button
+            onClick={() => setActiveTab("history")}
+            className={`flex items-center gap-2 px-6 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all cursor-pointer ${
+              activeTab === "history"
+                ? "bg-amber-600 text-white shadow-lg shadow-amber-900/40"
+                : "text-slate-500 hover:text-slate-300"
+            }`}
+          >
+            <History className="w-3.5 h-3.5" />
+            History
+          </button>
+        )}
       </div>
 
       {/* Right Section */}
@@ -121,6 +144,15 @@ export default function EditorHeader({
           </button>
         </div>
 
+        <input
+          type="text"
+          value={versionNote}
+          onChange={(e) => setVersionNote(e.target.value)}
+          maxLength={200}
+          placeholder="Version note (optional)"
+          className="hidden xl:block w-56 h-10 bg-white/5 border border-white/5 rounded-xl px-4 text-xs text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all"
+        />
+
         <button
           onClick={onSave}
           disabled={isSaving}
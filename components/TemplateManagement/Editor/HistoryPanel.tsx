@@ -0,0 +1,487 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import toast from "react-hot-toast";
+import {
+  History,
+  RotateCcw,
+  Code2,
+  Eye,
+  Send,
+  CalendarDays,
+  AlertTriangle,
+  Check,
+} from "lucide-react";
+import { sideBySideDiff, type DiffRowKind } from "@/lib/lineDiff";
+
+interface VersionSummary {
+  version: number;
+  note?: string;
+  createdBy?: string;
+  restoredFrom?: number;
+  createdAt: string;
+}
+
+interface VersionDesign extends VersionSummary {
+  html: string;
+  backgroundUrl: string;
+}
+
+interface EventUsage {
+  slotName?: string;
+  templateVersion: number | null;
+  isOutdated: boolean;
+}
+
+interface TemplateEvent {
+  id: string;
+  title: string;
+  startDate: string;
+  usages: EventUsage[];
+  isOutdated: boolean;
+}
+
+interface HistoryPanelProps {
+  templateId: string;
+  currentHtml: string;
+  currentBackgroundUrl: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  /** Render a design with the sample data, as the preview tab does */
+  renderDesign: (html: string, backgroundUrl: string) => string;
+  onRestore: (design: { html: string; backgroundUrl: string }) => void;
+}
+
+const PREVIEW_SCALE = 0.45;
+
+const LEFT_ROW_STYLES: Record<DiffRowKind, string> = {
+  same: "",
+  added: "bg-slate-900/60",
+  removed: "bg-red-500/10 text-red-200",
+  changed: "bg-red-500/10 text-red-200",
+};
+
+const RIGHT_ROW_STYLES: Record<DiffRowKind, string> = {
+  same: "",
+  added: "bg-emerald-500/10 text-emerald-200",
+  removed: "bg-slate-900/60",
+  changed: "bg-emerald-500/10 text-emerald-200",
+};
+
+export default function HistoryPanel({
+  templateId,
+  currentHtml,
+  currentBackgroundUrl,
+  canvasWidth,
+  canvasHeight,
+  renderDesign,
+  onRestore,
+}: HistoryPanelProps) {
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [events, setEvents] = useState<TemplateEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selected, setSelected] = useState<VersionDesign | null>(null);
+  const [compareMode, setCompareMode] = useState<"code" | "rendered">("code");
+  const [confirmRollback, setConfirmRollback] = useState(false);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [pushingEventId, setPushingEventId] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const [versionsRes, eventsRes] = await Promise.all([
+        fetch(`/api/admin/templates/${templateId}/versions`),
+        fetch(`/api/admin/templates/${templateId}/events`),
+      ]);
+      const versionsData = await versionsRes.json();
+      const eventsData = await eventsRes.json();
+      if (!versionsData.success) {
+        throw new Error(versionsData.error || "Failed to load version history");
+      }
+      if (!eventsData.success) {
+        throw new Error(eventsData.error || "Failed to load events");
+      }
+      setVersions(versionsData.versions);
+      setCurrentVersion(versionsData.currentVersion);
+      setEvents(eventsData.events);
+    } catch (err: unknown) {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to load version history",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const handleSelect = async (version: number) => {
+    setConfirmRollback(false);
+    try {
+      const res = await fetch(
+        `/api/admin/templates/${templateId}/versions/${version}`,
+      );
+      const data = await res.json();
+      if (!data.success)
+        throw new Error(data.error || "Failed to load version");
+      setSelected(data.version);
+    } catch (err: unknown) {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to load version",
+      );
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!selected) return;
+    setIsRollingBack(true);
+    try {
+      const res = await fetch(
+        `/api/admin/templates/${templateId}/versions/${selected.version}/rollback`,
+        { method: "POST" },
+      );
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || "Failed to roll back");
+      onRestore({
+        html: data.template.html,
+        backgroundUrl: data.template.backgroundUrl || "",
+      });
+      toast.success(`Rolled back to version ${selected.version}`);
+      setConfirmRollback(false);
+      setSelected(null);
+      await fetchHistory();
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : "Failed to roll back");
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  const handlePush = async (eventId?: string) => {
+    setPushingEventId(eventId ?? "all");
+    try {
+      const res = await fetch(`/api/admin/templates/${templateId}/events`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(eventId ? { eventIds: [eventId] } : {}),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || "Failed to push update");
+      toast.success(
+        `Updated ${data.updated} event${data.updated === 1 ? "" : "s"}`,
+      );
+      await fetchHistory();
+    } catch (err: unknown) {
+      toast.error(err instanceof Error ? err.message : "Failed to push update");
+    } finally {
+      setPushingEventId(null);
+    }
+  };
+
+  const diffRows = useMemo(
+    () => (selected ? sideBySideDiff(selected.html, currentHtml) : []),
+    [selected, currentHtml],
+  );
+
+  const renderSafely = (html: string, backgroundUrl: string) => {
+    try {
+      return renderDesign(html, backgroundUrl);
+    } catch {
+      return "<p style='font-family: sans-serif'>This design has a template syntax error.</p>";
+    }
+  };
+
+  const outdatedCount = events.filter((event) => event.isOutdated).length;
+
+  if (isLoading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="w-10 h-10 border-4 border-blue-600/30 border-t-blue-600 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex min-w-0">
+      {/* Versions and events */}
+      <aside className="w-80 shrink-0 border-r border-white/5 bg-slate-900/60 overflow-y-auto custom-scrollbar p-6 space-y-8">
+        <div className="space-y-3">
+          <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em] flex items-center gap-2">
+            <History className="w-3 h-3" />
+            Versions
+          </h3>
+          {versions.length === 0 ? (
+            <p className="text-xs text-slate-500">
+              The first version is recorded when the design is next saved.
+            </p>
+          ) : (
+            versions.map((version) => (
+              <button
+                key={version.version}
+                onClick={() => handleSelect(version.version)}
+                className={`w-full text-left p-3 rounded-xl border transition-all cursor-pointer ${
+                  selected?.version === version.version
+                    ? "bg-blue-600/10 border-blue-500/50"
+                    : "bg-white/5 border-transparent hover:bg-white/10"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-bold text-slate-100">
+                    Version {version.version}
+                  </span>
+                  {version.version === currentVersion && (
+                    <span className="px-2 py-0.5 bg-emerald-500/10 text-emerald-400 text-[9px] font-black uppercase tracking-wider rounded border border-emerald-500/20">
+                      Current
+                    </span>
+                  )}
+                </div>
+                <div className="text-[10px] text-slate-500 mt-1">
+                  {new Date(version.createdAt).toLocaleString()}
+                  {version.createdBy && ` · ${version.createdBy}`}
+                </div>
+                {version.restoredFrom && (
+                  <div className="text-[10px] text-amber-400 mt-1">
+                    Restored from version {version.restoredFrom}
+                  </div>
+                )}
+                {version.note && (
+                  <div className="text-xs text-slate-300 mt-2 line-clamp-2">
+                    {version.note}
+                  </div>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em] flex items-center gap-2">
+              <CalendarDays className="w-3 h-3" />
+              Events
+            </h3>
+            {outdatedCount > 1 && (
+              <button
+                onClick={() => handlePush()}
+                disabled={pushingEventId !== null}
+                className="flex items-center gap-1 text-[10px] font-black uppercase tracking-wider text-amber-400 hover:text-amber-300 disabled:opacity-50 cursor-pointer"
+              >
+                <Send className="w-3 h-3" />
+                Update all
+              </button>
+            )}
+          </div>
+          {events.length === 0 ? (
+            <p className="text-xs text-slate-500">
+              No event uses this blueprint.
+            </p>
+          ) : (
+            <>
+              <p className="text-[10px] text-slate-500">
+                Events keep the version they were set up with. Pushing the saved
+                version changes new and regenerated certificates only.
+              </p>
+              {events.map((event) => (
+                <div
+                  key={event.id}
+                  className="p-3 rounded-xl bg-white/5 border border-white/5"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-bold text-slate-100 truncate">
+                      {event.title}
+                    </span>
+                    {event.isOutdated ? (
+                      <span className="flex items-center gap-1 px-2 py-0.5 bg-amber-500/10 text-amber-400 text-[9px] font-black uppercase tracking-wider rounded border border-amber-500/20 shrink-0">
+                        <AlertTriangle className="w-2.5 h-2.5" />
+                        Outdated
+                      </span>
+                    ) : (
+                      <Check className="w-3.5 h-3.5 text-emerald-400 shrink-0" />
+                    )}
+                  </div>
+                  {event.usages.map((usage, index) => (
+                    <div
+                      key={index}
+                      className={`text-[10px] mt-1 ${usage.isOutdated ? "text-amber-400/80" : "text-slate-500"}`}
+                    >
+                      {usage.slotName
+                        ? `Slot "${usage.slotName}"`
+                        : "Event template"}
+                      {" · "}
+                      {usage.templateVersion
+                        ? `version ${usage.templateVersion}`
+                        : "before version history"}
+                    </div>
+                  ))}
+                  {event.isOutdated && (
+                    <button
+                      onClick={() => handlePush(event.id)}
+                      disabled={pushingEventId !== null}
+                      className="mt-2 flex items-center gap-1.5 px-3 py-1.5 bg-amber-600/20 hover:bg-amber-600/30 text-amber-300 rounded-lg text-[10px] font-black uppercase tracking-wider transition-all disabled:opacity-50 cursor-pointer"
+                    >
+                      <Send className="w-3 h-3" />
+                      {pushingEventId === event.id
+                        ? "Pushing..."
+                        : "Push update"}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </aside>
+
+      {/* Comparison */}
+      <section className="flex-1 min-w-0 flex flex-col">
+        {!selected ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center p-8">
+            <History className="w-12 h-12 text-slate-700 mb-4" />
+            <p className="text-slate-400 font-semibold">
+              Select a version to compare it with the editor
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4 px-6 py-3 border-b border-white/5 bg-slate-900/40">
+              <div className="flex bg-black/40 p-1 rounded-xl border border-white/5">
+                <button
+                  onClick={() => setCompareMode("code")}
+                  className={`flex items-center gap-2 px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all cursor-pointer ${
+                    compareMode === "code"
+                      ? "bg-blue-600 text-white"
+                      : "text-slate-500 hover:text-slate-300"
+                  }`}
+                >
+                  <Code2 className="w-3.5 h-3.5" />
+                  HTML
+                </button>
+                <button
+                  onClick={() => setCompareMode("rendered")}
+                  className={`flex items-center gap-2 px-4 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all cursor-pointer ${
+                    compareMode === "rendered"
+                      ? "bg-cyan-600 text-white"
+                      : "text-slate-500 hover:text-slate-300"
+                  }`}
+                >
+                  <Eye className="w-3.5 h-3.5" />
+                  Rendered
+                </button>
+              </div>
+
+              {confirmRollback ? (
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-slate-400">
+                    Unsaved changes in the editor will be replaced.
+                  </span>
+                  <button
+                    onClick={() => setConfirmRollback(false)}
+                    disabled={isRollingBack}
+                    className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-white rounded-lg text-xs font-bold disabled:opacity-50 cursor-pointer"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleRollback}
+                    disabled={isRollingBack}
+                    className="px-3 py-1.5 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-xs font-bold disabled:opacity-50 cursor-pointer"
+                  >
+                    {isRollingBack
+                      ? "Rolling back..."
+                      : `Roll back to version ${selected.version}`}
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setConfirmRollback(true)}
+                  disabled={selected.version === currentVersion}
+                  className="flex items-center gap-2 px-4 py-1.5 bg-white/5 hover:bg-amber-600/20 hover:text-amber-300 text-slate-300 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30 disabled:pointer-events-none cursor-pointer"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  Roll back
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 border-b border-white/5 text-[10px] font-black uppercase tracking-widest text-slate-500">
+              <div className="px-6 py-2 border-r border-white/5">
+                Version {selected.version}
+              </div>
+              <div className="px-6 py-2">Editor</div>
+            </div>
+
+            {compareMode === "code" ? (
+              <div className="flex-1 overflow-auto custom-scrollbar bg-[#1e1e1e] font-mono text-xs">
+                <table className="w-full table-fixed border-collapse">
+                  <tbody>
+                    {diffRows.map((row, index) => (
+                      <tr key={index}>
+                        <td
+                          className={`w-12 px-2 text-right text-slate-600 select-none align-top ${LEFT_ROW_STYLES[row.kind]}`}
+                        >
+                          {row.leftNumber}
+                        </td>
+                        <td
+                          className={`px-2 whitespace-pre-wrap break-all align-top border-r border-white/5 ${LEFT_ROW_STYLES[row.kind]}`}
+                        >
+                          {row.leftText}
+                        </td>
+                        <td
+                          className={`w-12 px-2 text-right text-slate-600 select-none align-top ${RIGHT_ROW_STYLES[row.kind]}`}
+                        >
+                          {row.rightNumber}
+                        </td>
+                        <td
+                          className={`px-2 whitespace-pre-wrap break-all align-top ${RIGHT_ROW_STYLES[row.kind]}`}
+                        >
+                          {row.rightText}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <div className="flex-1 overflow-auto custom-scrollbar grid grid-cols-2 bg-slate-950/50">
+                {[
+                  renderSafely(selected.html, selected.backgroundUrl),
+                  renderSafely(currentHtml, currentBackgroundUrl),
+                ].map((html, index) => (
+                  <div
+                    key={index}
+                    className={`p-6 flex justify-center ${index === 0 ? "border-r border-white/5" : ""}`}
+                  >
+                    <div
+                      className="relative shrink-0 overflow-hidden bg-white shadow-2xl"
+                      style={{
+                        width: `${canvasWidth * PREVIEW_SCALE}px`,
+                        height: `${canvasHeight * PREVIEW_SCALE}px`,
+                      }}
+                    >
+                      <iframe
+                        srcDoc={html}
+                        sandbox="allow-same-origin"
+                        className="border-none absolute top-0 left-0"
+                        style={{
+                          width: `${canvasWidth}px`,
+                          height: `${canvasHeight}px`,
+                          transform: `scale(${PREVIEW_SCALE})`,
+                          transformOrigin: "top left",
+                        }}
+                        title={
+                          index === 0 ? "Version Preview" : "Editor Preview"
+                        }
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ interface TokenPanelProps {
   setIsOpen: (open: boolean) => void;
   sampleData: SampleData;
   setSampleData: (data: SampleData) => void;
+  sampleCustomFields: Record<string, string>;
+  setSampleCustomFields: (fields: Record<string, string>) => void;
 }
 
 export default function TokenPanel({
@@ -16,6 +18,8 @@ export default function TokenPanel({
   setIsOpen,
   sampleData,
   setSampleData,
+  sampleCustomFields,
+  setSampleCustomFields,
 }: TokenPanelProps) {
   const [copiedToken, setCopiedToken] = React.useState<string | null>(null);
 
@@ -98,6 +102,53 @@ export default function TokenPanel({
             ))}
           </div>
 
+          <div className="space-y-6 pt-8 border-t border-white/5">
+            <div className="space-y-1">
+              <h3 className="text-[10px] font-black text-blue-400 uppercase tracking-[0.2em]">
+                Custom Fields
+              </h3>
+              <p className="text-[10px] text-slate-500 leading-relaxed font-medium">
+                Extra import columns, e.g. a Track column. Empty on certificates
+                that do not set them.
+              </p>
+            </div>
+            {Object.keys(sampleCustomFields).map((key) => {
+              const token = `customFields.${key}`;
+              return (
+                <div key={key} className="space-y-2 group">
+                  <div className="flex items-center justify-between">
+                    <code className="text-[9px] text-blue-400/70 font-bold">
+                      {"{{" + token + "}}"}
+                    </code>
+                    <button
+                      onClick={() => handleCopy(token)}
+                      className="p-1 hover:bg-blue-600/20 rounded text-slate-500 hover:text-blue-400 transition-all cursor-pointer opacity-0 group-hover:opacity-100"
+                      title="Copy Token"
+                    >
+                      {copiedToken === token ? (
+                        <Check className="w-3 h-3" />
+                      ) : (
+                        <Copy className="w-3 h-3" />
+                      )}
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    value={sampleCustomFields[key]}
+                    onChange={(e) =>
+                      setSampleCustomFields({
+                        ...sampleCustomFields,
+                        [key]: e.target.value,
+                      })
+                    }
+                    className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-[11px] text-white focus:outline-none focus:border-blue-500 transition-all placeholder:text-slate-700"
+                    placeholder={`Set ${key}...`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
           {/* Expert Guidelines Section */}
           <div className="pt-8 border-t border-white/5">
             <h3 className="text-[10px] font-black text-amber-400 uppercase tracking-[0.2em] mb-6 flex items-center gap-2">
@@ -116,6 +167,16 @@ export default function TokenPanel({
                   desc: "Keep critical content 40px away from edges to avoid printer cutoff.",
                   code: "padding: 40px;",
                 },
+                {
+                  label: "Team Members",
+                  desc: "Team certificates list every member; {{#if isTeamCertificate}} tells them apart from a member's own copy.",
+                  code: "{{#each members}}{{name}}{{/each}}",
+                },
+                {
+                  label: "Signatories",
+                  desc: "Each signatory has a name, designation and signatureUrl, in the order the event lists them.",
+                  code: '{{#each signatories}}<img src="{{signatureUrl}}" />{{name}}, {{designation}}{{/each}}',
+                },
                 {
                   label: "Verification",
                   desc: "Always include the {{qrCodeDataUrl}} for instant authenticity verification.",
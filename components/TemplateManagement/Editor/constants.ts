@@ -8,6 +8,9 @@ export interface SampleData {
   eventDateRange: string;
   certificateNumber: string;
   issueDate: string;
+  achievementType: string;
+  achievement: string;
+  teamName: string;
   qrCodeDataUrl: string;
   backgroundUrl: string;
 }
@@ -22,8 +25,53 @@ export const SAMPLE_DATA: SampleData = {
   eventDateRange: "15th - 17th May 2026",
   certificateNumber: "ECELL-2026-PREM1",
   issueDate: "30/04/2026",
+  achievementType: "winner",
+  achievement: "Winner",
+  teamName: "Team Nova",
   qrCodeDataUrl:
     "https://api.qrserver.com/v1/create-qr-code/?size=150x150&data=PREMIUM-VERIFICATION-SAMPLE",
   backgroundUrl:
     "https://images.unsplash.com/photo-1557683316-973673baf926?q=80&w=2029&auto=format&fit=crop",
 };
+
+/** Previewed as {{customFields.<key>}}; real certificates carry their own */
+export const SAMPLE_CUSTOM_FIELDS: Record<string, string> = {
+  position: "1st Place",
+  track: "FinTech",
+  hoursAttended: "24",
+};
+
+/** Previewed with {{#each members}}; empty on certificates without a team */
+export const SAMPLE_MEMBERS: Array<{ name: string; email?: string }> = [
+  { name: "Alex Carter", email: "alex@example.com" },
+  { name: "Priya Nair", email: "priya@example.com" },
+  { name: "Sam Lee" },
+];
+
+// Inline so the preview works offline; real signatures are uploaded images
+const sampleSignature = (path: string) =>
+  `data:image/svg+xml,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="240" height="80"><path d="${path}" fill="none" stroke="#1e293b" stroke-width="3" stroke-linecap="round"/></svg>`,
+  )}`;
+
+/** Previewed with {{#each signatories}}, in the event's order */
+export const SAMPLE_SIGNATORIES: Array<{
+  name: string;
+  designation: string;
+  signatureUrl: string;
+}> = [
+  {
+    name: "Riya Mehta",
+    designation: "President, E-Cell",
+    signatureUrl: sampleSignature(
+      "M20 55 C40 10 60 70 80 40 S120 20 130 50 S170 60 220 30",
+    ),
+  },
+  {
+    name: "Dr. Anil Kumar",
+    designation: "Faculty Coordinator",
+    signatureUrl: sampleSignature(
+      "M20 45 Q50 15 70 50 T120 40 Q150 70 180 35 L220 45",
+    ),
+  },
+];
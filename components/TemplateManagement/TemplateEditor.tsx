@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import toast from "react-hot-toast";
 import CodeMirror from "@uiw/react-codemirror";
 import { html as htmlLang } from "@codemirror/lang-html";
@@ -8,12 +8,20 @@ import { vscodeDark } from "@uiw/codemirror-theme-vscode";
 import { EditorView } from "@codemirror/view";
 import Handlebars from "handlebars";
 
-import EditorHeader from "./Editor/EditorHeader";
+import EditorHeader, { type EditorTab } from "./Editor/EditorHeader";
+import HistoryPanel from "./Editor/HistoryPanel";
 import MetadataPanel from "./Editor/MetadataPanel";
 import TokenPanel from "./Editor/TokenPanel";
-import { SAMPLE_DATA } from "./Editor/constants";
+import {
+  SAMPLE_CUSTOM_FIELDS,
+  SAMPLE_DATA,
+  SAMPLE_MEMBERS,
+  SAMPLE_SIGNATORIES,
+} from "./Editor/constants";
 
 interface TemplateEditorProps {
+  /** Saved blueprint being edited; enables the History tab */
+  templateId?: string;
   initialHtml?: string;
   initialName?: string;
   initialDescription?: string;
@@ -25,18 +33,23 @@ interface TemplateEditorProps {
     description: string;
     category: string;
     backgroundUrl?: string;
+    note: string;
   }) => Promise<void>;
+  /** Called after a rollback changed the saved blueprint */
+  onVersionChange?: () => void;
   onClose: () => void;
   title: string;
 }
 
 export default function TemplateEditor({
+  templateId,
   initialHtml,
   initialName,
   initialDescription,
   initialCategory,
   initialBackgroundUrl,
   onSave,
+  onVersionChange,
   onClose,
   title: headerTitle,
 }: TemplateEditorProps) {
@@ -52,26 +65,33 @@ export default function TemplateEditor({
   );
   const [backgroundFile, setBackgroundFile] = useState<File | null>(null);
   const [sampleData, setSampleData] = useState(SAMPLE_DATA);
+  const [sampleCustomFields, setSampleCustomFields] =
+    useState(SAMPLE_CUSTOM_FIELDS);
   const [previewHtml, setPreviewHtml] = useState("");
   const [isSaving, setIsSaving] = useState(false);
-  const [activeTab, setActiveTab] = useState<"editor" | "preview">("editor");
+  const [versionNote, setVersionNote] = useState("");
+  const [activeTab, setActiveTab] = useState<EditorTab>("editor");
   const [showSettings, setShowSettings] = useState(false);
   const [isTokenPanelOpen, setIsTokenPanelOpen] = useState(true);
   const [zoom, setZoom] = useState(0.75);
 
   const iframeRef = useRef<HTMLIFrameElement>(null);
 
-  // Update preview content
-  useEffect(() => {
-    try {
-      const template = Handlebars.compile(code);
+  // Render a design with the sample data; throws on syntax errors
+  const renderDesign = useCallback(
+    (html: string, designBackgroundUrl: string) => {
+      const template = Handlebars.compile(html);
       const rendered = template({
         ...sampleData,
-        backgroundUrl: backgroundUrl || sampleData.backgroundUrl,
+        backgroundUrl: designBackgroundUrl || sampleData.backgroundUrl,
+        customFields: sampleCustomFields,
+        isTeamCertificate: true,
+        members: SAMPLE_MEMBERS,
+        signatories: SAMPLE_SIGNATORIES,
       });
 
       // Inject resets and ensure it's a full document
-      const fullHtml = rendered.includes("<head>")
+      return rendered.includes("<head>")
         ? rendered.replace(
             "</head>",
             `
@@ -88,12 +108,18 @@ export default function TemplateEditor({
                 </head>`,
           )
         : `<style>html, body { margin: 0; padding: 0; overflow: hidden; width: ${canvasWidth}px; height: ${canvasHeight}px; }</style>${rendered}`;
+    },
+    [sampleData, sampleCustomFields, canvasWidth, canvasHeight],
+  );
 
-      setPreviewHtml(fullHtml);
+  // Update preview content
+  useEffect(() => {
+    try {
+      setPreviewHtml(renderDesign(code, backgroundUrl));
     } catch (e) {
       // Silently fail on syntax errors
     }
-  }, [code, backgroundUrl, sampleData, canvasWidth, canvasHeight]);
+  }, [code, backgroundUrl, renderDesign]);
 
   // Remove the old iframe injection useEffect
   const handleExport = () => {
@@ -174,11 +200,13 @@ export default function TemplateEditor({
         description,
         category,
         backgroundUrl: finalBackgroundUrl,
+        note: versionNote.trim(),
       });
 
       // Clear staged file after successful save
       setBackgroundFile(null);
       setBackgroundUrl(finalBackgroundUrl);
+      setVersionNote("");
     } catch (err: unknown) {
       toast.error(err instanceof Error ? err.message : "Error saving template");
     } finally {
@@ -195,6 +223,9 @@ export default function TemplateEditor({
         setShowSettings={setShowSettings}
         activeTab={activeTab}
         setActiveTab={setActiveTab}
+        showHistory={Boolean(templateId)}
+        versionNote={versionNote}
+        setVersionNote={setVersionNote}
         onClose={onClose}
         onSave={handleSaveClick}
         onExport={handleExport}
@@ -301,6 +332,24 @@ export default function TemplateEditor({
               </div>
             </div>
           </div>
+
+          {/* History Surface */}
+          {templateId && activeTab === "history" && (
+            <HistoryPanel
+              templateId={templateId}
+              currentHtml={code}
+              currentBackgroundUrl={backgroundUrl}
+              canvasWidth={canvasWidth}
+              canvasHeight={canvasHeight}
+              renderDesign={renderDesign}
+              onRestore={(design) => {
+                setCode(design.html);
+                setBackgroundUrl(design.backgroundUrl);
+                setBackgroundFile(null);
+                onVersionChange?.();
+              }}
+            />
+          )}
         </main>
 
         <TokenPanel
@@ -308,6 +357,8 @@ export default function TemplateEditor({
           setIsOpen={setIsTokenPanelOpen}
           sampleData={sampleData}
           setSampleData={setSampleData}
+          sampleCustomFields={sampleCustomFields}
+          setSampleCustomFields={setSampleCustomFields}
         />
       </div>
 
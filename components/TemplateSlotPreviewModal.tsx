@@ -0,0 +1,135 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Loader2, X } from "lucide-react";
+import Handlebars from "handlebars";
+import {
+  ACHIEVEMENT_TYPE_LABELS,
+  normalizeCustomFieldKey,
+} from "@/lib/achievements";
+import {
+  describeTemplateSlotRule,
+  TemplateSlotConfig,
+} from "@/lib/templateSlotRules";
+import {
+  SAMPLE_CUSTOM_FIELDS,
+  SAMPLE_DATA,
+  SAMPLE_MEMBERS,
+  SAMPLE_SIGNATORIES,
+} from "@/components/TemplateManagement/Editor/constants";
+
+// A4 landscape at 96 dpi, the template editor's default canvas
+const CANVAS_WIDTH = 1123;
+const CANVAS_HEIGHT = 794;
+const PREVIEW_SCALE = 0.5;
+
+interface TemplateSlotPreviewModalProps {
+  slot: TemplateSlotConfig | null;
+  onClose: () => void;
+}
+
+/**
+ * A template slot's blueprint rendered with sample data for a certificate
+ * its rule matches
+ */
+export function TemplateSlotPreviewModal({
+  slot,
+  onClose,
+}: TemplateSlotPreviewModalProps) {
+  const [previewHtml, setPreviewHtml] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!slot) return;
+    setPreviewHtml("");
+    setError("");
+
+    const achievementType = slot.achievementTypes[0] ?? "participant";
+    const data = {
+      ...SAMPLE_DATA,
+      achievementType,
+      achievement: ACHIEVEMENT_TYPE_LABELS[achievementType],
+      customFields: {
+        ...SAMPLE_CUSTOM_FIELDS,
+        ...(slot.field
+          ? { [normalizeCustomFieldKey(slot.field)]: slot.value ?? "" }
+          : {}),
+      },
+      isTeamCertificate: true,
+      members: SAMPLE_MEMBERS,
+      signatories: SAMPLE_SIGNATORIES,
+    };
+
+    fetch(`/api/admin/templates/${slot.templateId}`)
+      .then((res) => res.json())
+      .then((result) => {
+        if (!result.success) {
+          throw new Error(result.error || "Failed to load template");
+        }
+        const rendered = Handlebars.compile(result.template.html)({
+          ...data,
+          backgroundUrl: result.template.backgroundUrl || data.backgroundUrl,
+        });
+        setPreviewHtml(
+          `<style>html, body { margin: 0; padding: 0; overflow: hidden; width: ${CANVAS_WIDTH}px; height: ${CANVAS_HEIGHT}px; }</style>${rendered}`,
+        );
+      })
+      .catch((err: unknown) => {
+        setError(
+          err instanceof Error ? err.message : "Failed to render template",
+        );
+      });
+  }, [slot]);
+
+  if (!slot) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-60 p-4">
+      <div className="bg-slate-900 rounded-2xl p-6 w-full max-w-[620px] border border-slate-800">
+        <div className="flex items-start justify-between mb-4 gap-4">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-white truncate">
+              {slot.name || "Template slot"}
+            </h3>
+            <p className="text-xs text-slate-400 mt-1">
+              {describeTemplateSlotRule(slot)}. Sample data on the
+              blueprint&apos;s current design.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors cursor-pointer"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div
+          className="relative bg-white overflow-hidden rounded-lg mx-auto"
+          style={{
+            width: CANVAS_WIDTH * PREVIEW_SCALE,
+            height: CANVAS_HEIGHT * PREVIEW_SCALE,
+          }}
+        >
+          {previewHtml ? (
+            <iframe
+              srcDoc={previewHtml}
+              sandbox="allow-same-origin"
+              className="border-none absolute top-0 left-0 origin-top-left"
+              style={{
+                width: CANVAS_WIDTH,
+                height: CANVAS_HEIGHT,
+                transform: `scale(${PREVIEW_SCALE})`,
+              }}
+              title={`${slot.name} preview`}
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center bg-slate-800 text-sm text-slate-300">
+              {error || <Loader2 className="w-6 h-6 animate-spin" />}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
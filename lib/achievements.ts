@@ -0,0 +1,159 @@
+/**
+ * Certificate Achievements
+ * The achievement a certificate recognises, and the free-form custom fields
+ * (position, track, hours attended, ...) printed alongside it
+ */
+
+export const ACHIEVEMENT_TYPES = [
+  "participant",
+  "volunteer",
+  "winner",
+  "runner_up",
+  "mentor",
+  "speaker",
+  "organizer",
+] as const;
+
+export type AchievementType = (typeof ACHIEVEMENT_TYPES)[number];
+
+export const DEFAULT_ACHIEVEMENT_TYPE: AchievementType = "participant";
+
+export const ACHIEVEMENT_TYPE_LABELS: Record<AchievementType, string> = {
+  participant: "Participant",
+  volunteer: "Volunteer",
+  winner: "Winner",
+  runner_up: "Runner-up",
+  mentor: "Mentor",
+  speaker: "Speaker",
+  organizer: "Organizer",
+};
+
+export const MAX_CUSTOM_FIELDS = 20;
+export const MAX_CUSTOM_FIELD_VALUE_LENGTH = 200;
+const MAX_CUSTOM_FIELD_KEY_LENGTH = 40;
+
+// Keys are used as Handlebars paths ({{customFields.hoursAttended}})
+const CUSTOM_FIELD_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9]*$/;
+
+export function isAchievementType(value: unknown): value is AchievementType {
+  return (
+    typeof value === "string" &&
+    (ACHIEVEMENT_TYPES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Read an achievement type the way people type it in a spreadsheet
+ * ("Runner-up", "runner up", "WINNER")
+ * @returns The achievement type, or null if the value is not one
+ */
+export function parseAchievementType(value: string): AchievementType | null {
+  const normalized = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+  return isAchievementType(normalized) ? normalized : null;
+}
+
+/**
+ * Turn a column header into a custom field key
+ * @example normalizeCustomFieldKey("Hours Attended") // "hoursAttended"
+ */
+export function normalizeCustomFieldKey(header: string): string {
+  const words = header
+    .trim()
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  return words
+    .map((word, i) =>
+      i === 0
+        ? word.charAt(0).toLowerCase() + word.slice(1)
+        : word.charAt(0).toUpperCase() + word.slice(1),
+    )
+    .join("")
+    .replace(/^[0-9]+/, "")
+    .slice(0, MAX_CUSTOM_FIELD_KEY_LENGTH);
+}
+
+/**
+ * Label shown for a custom field key
+ * @example customFieldLabel("hoursAttended") // "Hours Attended"
+ */
+export function customFieldLabel(key: string): string {
+  const spaced = key.replace(/([a-z0-9])([A-Z])/g, "$1 $2");
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+/**
+ * Validate custom fields sent to the API. Empty values are dropped.
+ * @throws If the value is not an object of string values with valid keys
+ */
+export function readCustomFields(
+  value: unknown,
+): Record<string, string> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("customFields must be an object of text values");
+  }
+
+  const fields: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(value)) {
+    if (!CUSTOM_FIELD_KEY_PATTERN.test(key)) {
+      throw new Error(
+        `Custom field "${key}" must start with a letter and contain only letters and digits`,
+      );
+    }
+    if (key.length > MAX_CUSTOM_FIELD_KEY_LENGTH) {
+      throw new Error(
+        `Custom field names must be ${MAX_CUSTOM_FIELD_KEY_LENGTH} characters or fewer`,
+      );
+    }
+    if (typeof raw !== "string" && typeof raw !== "number") {
+      throw new Error(`Custom field "${key}" must be text`);
+    }
+    const text = String(raw).trim();
+    if (text.length > MAX_CUSTOM_FIELD_VALUE_LENGTH) {
+      throw new Error(
+        `Custom field "${key}" must be ${MAX_CUSTOM_FIELD_VALUE_LENGTH} characters or fewer`,
+      );
+    }
+    if (text) fields[key] = text;
+  }
+
+  if (Object.keys(fields).length > MAX_CUSTOM_FIELDS) {
+    throw new Error(
+      `Certificates must not have more than ${MAX_CUSTOM_FIELDS} custom fields`,
+    );
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+/**
+ * Validate the custom field names an event shows on the verify page. Names
+ * are turned into keys the way import headers are; blanks and repeats are
+ * dropped.
+ * @throws If the value is not a list of text names
+ */
+export function readCustomFieldKeys(value: unknown): string[] {
+  if (!Array.isArray(value) || !value.every((v) => typeof v === "string")) {
+    throw new Error("verifyCustomFields must be a list of custom field names");
+  }
+  const keys = [...new Set(value.map(normalizeCustomFieldKey).filter(Boolean))];
+  if (keys.length > MAX_CUSTOM_FIELDS) {
+    throw new Error(
+      `Events must not show more than ${MAX_CUSTOM_FIELDS} custom fields on the verify page`,
+    );
+  }
+  return keys;
+}
+
+/**
+ * Custom fields as a plain object, whether they come from a hydrated
+ * document (a Map) or a lean query
+ */
+export function customFieldsToObject(
+  fields: Map<string, string> | Record<string, string> | undefined | null,
+): Record<string, string> {
+  if (!fields) return {};
+  return fields instanceof Map ? Object.fromEntries(fields) : { ...fields };
+}
@@ -0,0 +1,111 @@
+/**
+ * Admin User Utilities
+ * Password hashing (scrypt), invite tokens and the public shape of an admin
+ * account returned by the API.
+ */
+
+import crypto from "crypto";
+import { promisify } from "util";
+import type { IAdminUser } from "@/models/AdminUser";
+import { readRequiredString } from "./requestValidation";
+import type { AdminRole } from "./roles";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 10;
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Hash a password as "scrypt$<salt>$<hash>" (both base64)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string | undefined,
+): Promise<boolean> {
+  const [scheme, salt, hash] = (stored || "").split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    // Still spend the hashing time so unknown emails are not distinguishable
+    await scrypt(password, "missing-account", KEY_LENGTH);
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scrypt(
+    password,
+    Buffer.from(salt, "base64"),
+    expected.length,
+  );
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+export function validatePassword(password: unknown): string {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+  }
+  if (password.length > 200) {
+    throw new Error("Password is too long");
+  }
+  return password;
+}
+
+export function validateEmail(value: unknown): string {
+  const email = readRequiredString(value, "Email", 254).toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new Error("Email must be a valid address");
+  }
+  return email;
+}
+
+/**
+ * Create a one-time invite token. Only the SHA-256 hash is stored.
+ */
+export function createInviteToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashInviteToken(token) };
+}
+
+export function hashInviteToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function buildInviteUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${baseUrl}/admin/invite/${token}`;
+}
+
+export interface AdminUserSummary {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  status: IAdminUser["status"];
+  inviteExpiresAt: Date | null;
+  lastLoginAt: Date | null;
+  createdAt: Date;
+}
+
+export function toAdminUserSummary(user: IAdminUser): AdminUserSummary {
+  return {
+    id: user._id.toString(),
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    status: user.status,
+    inviteExpiresAt: user.inviteExpiresAt ?? null,
+    lastLoginAt: user.lastLoginAt ?? null,
+    createdAt: user.createdAt,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Audit Logging
+ * Records who changed what through the admin API. Writing an entry never
+ * fails the request that triggered it; errors are logged and swallowed.
+ */
+
+import mongoose from "mongoose";
+import { NextRequest } from "next/server";
+import AuditLog, { IAuditChange } from "@/models/AuditLog";
+import type { AuthenticatedAdmin } from "./auth";
+import type { AuditAction, AuditTargetType } from "./auditActions";
+import { logger } from "./logger";
+
+type Id = string | mongoose.Types.ObjectId;
+
+export type AuditActor = Pick<AuthenticatedAdmin, "userId" | "email" | "role">;
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetIds: Id[];
+  eventId?: Id | null;
+  /** State before the change; omit for creations */
+  before?: Record<string, unknown> | null;
+  /** State after the change; omit for deletions */
+  after?: Record<string, unknown> | null;
+  /** Anything else worth keeping that is not a field change */
+  details?: Record<string, unknown>;
+}
+
+/** Fields snapshotted for each kind of audited document */
+export const EVENT_AUDIT_FIELDS = [
+  "title",
+  "startDate",
+  "endDate",
+  "organizer",
+  "template",
+  "templateId",
+  "templateVersion",
+  "signatoryIds",
+  "numberScheme",
+  "privateDownloads",
+  "verifyCustomFields",
+] as const;
+
+export const CERTIFICATE_AUDIT_FIELDS = [
+  "certificateNumber",
+  "participantName",
+  "participantEmail",
+  "achievementType",
+  "customFields",
+  "revokedAt",
+  "revocationReason",
+  "revocationNote",
+] as const;
+
+export const TEMPLATE_AUDIT_FIELDS = [
+  "name",
+  "description",
+  "category",
+  "backgroundUrl",
+  "version",
+  "isArchived",
+] as const;
+
+export const EMAIL_TEMPLATE_AUDIT_FIELDS = [
+  "name",
+  "description",
+  "category",
+  "subject",
+  "attachPdf",
+  "inlineQr",
+  "isArchived",
+] as const;
+
+export const EMAIL_PARTIAL_AUDIT_FIELDS = ["name", "description"] as const;
+
+export const SIGNATORY_AUDIT_FIELDS = [
+  "name",
+  "designation",
+  "signatureUrl",
+] as const;
+
+export const ADMIN_USER_AUDIT_FIELDS = [
+  "email",
+  "name",
+  "role",
+  "status",
+] as const;
+
+/**
+ * Copy the named fields off a document (or plain object) into a plain,
+ * JSON-safe snapshot suitable for {@link AuditEntry.before}/after
+ */
+export function auditSnapshot<T extends object>(
+  source: T | null | undefined,
+  fields: readonly (keyof T & string)[],
+): Record<string, unknown> | null {
+  if (!source) return null;
+
+  const snapshot: Record<string, unknown> = {};
+  for (const field of fields) {
+    snapshot[field] = toPlain(source[field]);
+  }
+  return snapshot;
+}
+
+function toPlain(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Keep only the fields whose value differs between two snapshots
+ */
+export function diffSnapshots(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): Record<string, IAuditChange> {
+  const changes: Record<string, IAuditChange> = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  for (const field of fields) {
+    const previous = toPlain(before?.[field]);
+    const next = toPlain(after?.[field]);
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+    changes[field] = {};
+    if (before) changes[field].before = previous;
+    if (after) changes[field].after = next;
+  }
+  return changes;
+}
+
+function getClientIp(request: NextRequest): string | undefined {
+  const forwarded = request.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return request.headers.get("x-real-ip") || undefined;
+}
+
+/**
+ * Append an entry to the audit log
+ * @param request - Request that made the change, for method, path and client info
+ * @param actor - Admin who made the change
+ * @param entry - What changed
+ */
+export async function recordAudit(
+  request: NextRequest,
+  actor: AuditActor,
+  entry: AuditEntry,
+): Promise<void> {
+  try {
+    const changes = diffSnapshots(entry.before, entry.after);
+
+    await AuditLog.create({
+      actorId: mongoose.isValidObjectId(actor.userId)
+        ? actor.userId
+        : undefined,
+      actorEmail: actor.email,
+      actorRole: actor.role,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetIds: entry.targetIds.map((id) => id.toString()),
+      eventId: entry.eventId || undefined,
+      changes: Object.keys(changes).length > 0 ? changes : undefined,
+      details: entry.details,
+      ip: getClientIp(request),
+      userAgent: request.headers.get("user-agent")?.slice(0, 512) || undefined,
+      method: request.method,
+      path: request.nextUrl.pathname,
+    });
+  } catch (error) {
+    logger.error("AUDIT", "Failed to record audit entry", {
+      action: entry.action,
+      actor: actor.email,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Audit Actions
+ * Every admin mutation recorded in the audit log. Kept free of server imports
+ * so the audit page can use the same labels.
+ */
+
+export const AUDIT_ACTIONS = [
+  "event.create",
+  "event.update",
+  "event.delete",
+  "certificate.create",
+  "certificate.upload",
+  "certificate.delete",
+  "certificate.bulk_delete",
+  "certificate.revoke",
+  "certificate.restore",
+  "certificate.regenerate",
+  "certificate.update",
+  "generation_job.create",
+  "generation_job.cancel",
+  "template.create",
+  "template.update",
+  "template.archive",
+  "template.rollback",
+  "template.push",
+  "template_image.upload",
+  "signatory.create",
+  "signatory.update",
+  "signatory.delete",
+  "signature_image.upload",
+  "email_template.create",
+  "email_template.update",
+  "email_template.archive",
+  "email_partial.create",
+  "email_partial.update",
+  "email_partial.delete",
+  "email.send",
+  "email_job.cancel",
+  "email_schedule.create",
+  "email_schedule.update",
+  "email_schedule.cancel",
+  "email.bounce_import",
+  "storage.migrate",
+  "admin.setup",
+  "admin.invite",
+  "admin.invite_reissue",
+  "admin.invite_accept",
+  "admin.update",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "event.create": "Created event",
+  "event.update": "Updated event",
+  "event.delete": "Deleted event",
+  "certificate.create": "Generated certificate",
+  "certificate.upload": "Uploaded certificate",
+  "certificate.delete": "Deleted certificate",
+  "certificate.bulk_delete": "Bulk deleted certificates",
+  "certificate.revoke": "Revoked certificate",
+  "certificate.restore": "Restored certificate",
+  "certificate.regenerate": "Queued certificate regeneration",
+  "certificate.update": "Corrected participant details",
+  "generation_job.create": "Queued generation job",
+  "generation_job.cancel": "Cancelled generation job",
+  "template.create": "Created template",
+  "template.update": "Updated template",
+  "template.archive": "Archived template",
+  "template.rollback": "Rolled back template",
+  "template.push": "Pushed template update to events",
+  "template_image.upload": "Uploaded template image",
+  "signatory.create": "Created signatory",
+  "signatory.update": "Updated signatory",
+  "signatory.delete": "Deleted signatory",
+  "signature_image.upload": "Uploaded signature image",
+  "email_template.create": "Created email template",
+  "email_template.update": "Updated email template",
+  "email_template.archive": "Archived email template",
+  "email_partial.create": "Created email partial",
+  "email_partial.update": "Updated email partial",
+  "email_partial.delete": "Deleted email partial",
+  "email.send": "Queued certificate emails",
+  "email_job.cancel": "Cancelled email job",
+  "email_schedule.create": "Scheduled certificate emails",
+  "email_schedule.update": "Rescheduled certificate emails",
+  "email_schedule.cancel": "Cancelled scheduled emails",
+  "email.bounce_import": "Imported email bounces",
+  "storage.migrate": "Migrated certificate storage",
+  "admin.setup": "Created first owner",
+  "admin.invite": "Invited admin",
+  "admin.invite_reissue": "Reissued admin invite",
+  "admin.invite_accept": "Accepted admin invite",
+  "admin.update": "Updated admin",
+};
+
+export const AUDIT_TARGET_TYPES = [
+  "event",
+  "certificate",
+  "generation_job",
+  "email_job",
+  "email_schedule",
+  "template",
+  "template_image",
+  "signatory",
+  "signature_image",
+  "email_template",
+  "email_partial",
+  "admin_user",
+] as const;
+
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return (
+    typeof value === "string" &&
+    (AUDIT_ACTIONS as readonly string[]).includes(value)
+  );
+}
@@ -1,31 +1,52 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
-import { NextRequest } from 'next/server';
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from './db';
+import { AdminRole, hasRole } from './roles';
+import AdminUser, { IAdminUser } from '@/models/AdminUser';
 
 const JWT_SECRET = process.env.JWT_SECRET;
-const ADMIN_KEY = process.env.ADMIN_KEY;
 
 if (!JWT_SECRET) {
     throw new Error('JWT_SECRET is not defined in environment variables');
 }
 
-if (!ADMIN_KEY) {
-    throw new Error('ADMIN_KEY is not defined in environment variables');
-}
+export const AUTH_COOKIE_NAME = 'authToken';
+const AUTH_TOKEN_TTL_SECONDS = 60 * 60 * 3; // 3 hours
+
+const UNAUTHORIZED_MESSAGE = 'Unauthorized: Invalid or missing token';
+const FORBIDDEN_MESSAGE = 'Forbidden: Insufficient role';
 
 export interface JWTPayload {
-    isAdmin: boolean;
+    userId: string;
+    email: string;
+    role: AdminRole;
     iat?: number;
     exp?: number;
 }
 
+export interface AuthenticatedAdmin {
+    userId: string;
+    email: string;
+    name: string;
+    role: AdminRole;
+}
+
 /**
- * Generate a JWT token for admin authentication
+ * Generate a JWT token for an admin user
+ * @param user - Admin the token is issued to
  * @param expiresIn - Token expiration time (default: 3 hours)
  * @returns JWT token string
  */
-export function generateToken(expiresIn: string = '3h'): string {
+export function generateToken(
+    user: Pick<IAdminUser, '_id' | 'email' | 'role'>,
+    expiresIn: string = '3h'
+): string {
     const payload: JWTPayload = {
-        isAdmin: true,
+        userId: user._id.toString(),
+        email: user.email,
+        role: user.role,
     };
 
     return jwt.sign(payload, JWT_SECRET as string, { expiresIn } as jwt.SignOptions);
@@ -47,12 +68,37 @@ export function verifyToken(token: string): JWTPayload | null {
 }
 
 /**
- * Verify admin key
+ * Set the HTTP-only session cookie for a freshly signed-in admin
+ * @param response - Response the cookie is attached to
+ * @param user - Admin the session belongs to
+ */
+export function setAuthCookie(
+    response: NextResponse,
+    user: Pick<IAdminUser, '_id' | 'email' | 'role'>
+): void {
+    response.cookies.set(AUTH_COOKIE_NAME, generateToken(user, '3h'), {
+        httpOnly: true,
+        sameSite: 'strict',
+        secure: process.env.NODE_ENV === 'production',
+        maxAge: AUTH_TOKEN_TTL_SECONDS,
+        path: '/',
+    });
+}
+
+/**
+ * Verify the bootstrap admin key, which is only used to create the first owner
  * @param key - Admin key to verify
  * @returns true if valid, false otherwise
  */
 export function verifyAdminKey(key: string): boolean {
-    return key === ADMIN_KEY;
+    const adminKey = process.env.ADMIN_KEY;
+    if (!adminKey) {
+        return false;
+    }
+
+    const expected = Buffer.from(adminKey);
+    const received = Buffer.from(key);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
 }
 
 /**
@@ -61,7 +107,7 @@ export function verifyAdminKey(key: string): boolean {
  * @returns Decoded payload or null if invalid
  */
 export async function getAuthToken(request: NextRequest): Promise<JWTPayload | null> {
-    const token = request.cookies.get('authToken')?.value;
+    const token = request.cookies.get(AUTH_COOKIE_NAME)?.value;
 
     if (!token) {
         return null;
@@ -71,16 +117,80 @@ export async function getAuthToken(request: NextRequest): Promise<JWTPayload | n
 }
 
 /**
- * Middleware to require admin authentication
+ * Middleware to require an active admin with at least the given role.
+ * The account is re-read on every request so that disabling an admin or
+ * changing their role takes effect before their token expires.
  * @param request - Next.js request object
- * @returns Decoded payload or throws error
+ * @param minimumRole - Least privileged role allowed (default: viewer)
+ * @returns The authenticated admin or throws error
  */
-export async function requireAdmin(request: NextRequest): Promise<JWTPayload> {
+export async function requireRole(
+    request: NextRequest,
+    minimumRole: AdminRole = 'viewer'
+): Promise<AuthenticatedAdmin> {
     const payload = await getAuthToken(request);
 
-    if (!payload || !payload.isAdmin) {
-        throw new Error('Unauthorized: Invalid or missing token');
+    if (!payload || !mongoose.isValidObjectId(payload.userId)) {
+        throw new Error(UNAUTHORIZED_MESSAGE);
+    }
+
+    await connectDB();
+    const user: IAdminUser | null = await AdminUser.findById(payload.userId);
+
+    if (!user || user.status !== 'active') {
+        throw new Error(UNAUTHORIZED_MESSAGE);
+    }
+
+    if (!hasRole(user.role, minimumRole)) {
+        throw new Error(FORBIDDEN_MESSAGE);
+    }
+
+    return {
+        userId: user._id.toString(),
+        email: user.email,
+        name: user.name,
+        role: user.role,
+    };
+}
+
+/**
+ * Verify the shared secret sent by the scheduler that triggers cron routes
+ * (Vercel Cron sends it as "Authorization: Bearer <CRON_SECRET>")
+ * @param request - Next.js request object
+ * @returns true if the request carries the configured secret
+ */
+export function verifyCronRequest(request: NextRequest): boolean {
+    const secret = process.env.CRON_SECRET;
+    const header = request.headers.get('authorization');
+
+    if (!secret || !header) {
+        return false;
+    }
+
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const received = Buffer.from(header);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Verify the shared secret of the bounce webhook, sent as
+ * "Authorization: Bearer <EMAIL_WEBHOOK_SECRET>" or, for providers that
+ * cannot set headers (Amazon SNS, Mailgun), as a `secret` query parameter
+ * @param request - Next.js request object
+ * @returns true if the request carries the configured secret
+ */
+export function verifyEmailWebhookRequest(request: NextRequest): boolean {
+    const secret = process.env.EMAIL_WEBHOOK_SECRET;
+    const header = request.headers.get('authorization');
+    const provided = header?.startsWith('Bearer ')
+        ? header.slice('Bearer '.length)
+        : request.nextUrl.searchParams.get('secret');
+
+    if (!secret || !provided) {
+        return false;
     }
 
-    return payload;
+    const expected = Buffer.from(secret);
+    const received = Buffer.from(provided);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
 }
@@ -0,0 +1,273 @@
+/**
+ * Bounce Parser
+ * Turns bounce notifications into BounceReports: provider webhooks (Amazon
+ * SES through SNS, Mailgun, or a plain JSON body) and delivery status
+ * notifications (RFC 3464) exported from the sender's mailbox as .mbox or
+ * .eml files.
+ */
+
+export interface BounceReport {
+  recipient?: string;
+  /** Message ID of the bounced email, without angle brackets */
+  messageId?: string;
+  /** Hard bounce; soft bounces are temporary and may still be delivered */
+  permanent: boolean;
+  reason: string;
+  occurredAt?: Date;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function asDate(value: unknown): Date | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+  // Mailgun sends unix seconds
+  const date = new Date(typeof value === "number" ? value * 1000 : value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Strip angle brackets and whitespace so message IDs from providers,
+ * headers and our own records compare equal
+ */
+export function normalizeMessageId(value: string | undefined): string {
+  return (value || "").trim().replace(/^<|>$/g, "");
+}
+
+function parseSesNotification(message: JsonObject): BounceReport[] {
+  const type = message.notificationType ?? message.eventType;
+  const bounce = message.bounce;
+  if (type !== "Bounce" || !isObject(bounce)) {
+    return [];
+  }
+  const mail = isObject(message.mail) ? message.mail : {};
+  const recipients = Array.isArray(bounce.bouncedRecipients)
+    ? bounce.bouncedRecipients.filter(isObject)
+    : [];
+
+  return recipients.map((recipient) => ({
+    recipient: asString(recipient.emailAddress),
+    messageId: normalizeMessageId(asString(mail.messageId)) || undefined,
+    permanent: bounce.bounceType === "Permanent",
+    reason:
+      asString(recipient.diagnosticCode) ??
+      [bounce.bounceType, bounce.bounceSubType].filter(Boolean).join(": "),
+    occurredAt: asDate(bounce.timestamp),
+  }));
+}
+
+function parseMailgunEvent(data: JsonObject): BounceReport[] {
+  if (data.event !== "failed" && data.event !== "bounced") {
+    return [];
+  }
+  const message = isObject(data.message) ? data.message : {};
+  const headers = isObject(message.headers) ? message.headers : {};
+  const status = isObject(data["delivery-status"])
+    ? data["delivery-status"]
+    : {};
+
+  return [
+    {
+      recipient: asString(data.recipient),
+      messageId:
+        normalizeMessageId(asString(headers["message-id"])) || undefined,
+      permanent: data.event === "bounced" || data.severity !== "temporary",
+      reason:
+        asString(status.description) ??
+        asString(status.message) ??
+        asString(data.reason) ??
+        "Delivery failed",
+      occurredAt: asDate(data.timestamp),
+    },
+  ];
+}
+
+function parseGenericReport(data: JsonObject): BounceReport[] {
+  const recipient = asString(data.recipient) ?? asString(data.email);
+  const messageId = normalizeMessageId(asString(data.messageId));
+  if (!recipient && !messageId) {
+    return [];
+  }
+  return [
+    {
+      recipient,
+      messageId: messageId || undefined,
+      permanent: data.permanent !== false,
+      reason: asString(data.reason) ?? "Bounced",
+      occurredAt: asDate(data.occurredAt),
+    },
+  ];
+}
+
+/**
+ * Read bounce reports from a webhook body. Recognizes SNS notifications
+ * wrapping SES bounce events, Mailgun event webhooks, and plain
+ * { recipient | messageId, permanent?, reason?, occurredAt? } objects,
+ * alone, in an array or under `bounces`. Unrelated events yield no reports.
+ */
+export function parseBounceWebhook(payload: unknown): BounceReport[] {
+  if (Array.isArray(payload)) {
+    return payload.flatMap((item) => parseBounceWebhook(item));
+  }
+  if (!isObject(payload)) {
+    return [];
+  }
+
+  if (payload.Type === "Notification" && typeof payload.Message === "string") {
+    try {
+      return parseBounceWebhook(JSON.parse(payload.Message));
+    } catch {
+      return [];
+    }
+  }
+  if (payload.notificationType || payload.eventType) {
+    return parseSesNotification(payload);
+  }
+  if (isObject(payload["event-data"])) {
+    return parseMailgunEvent(payload["event-data"]);
+  }
+  if (Array.isArray(payload.bounces)) {
+    return parseBounceWebhook(payload.bounces);
+  }
+  return parseGenericReport(payload);
+}
+
+/**
+ * Subscription confirmation URL of an SNS message, when it points at SNS
+ * itself; anything else is not fetched
+ */
+export function getSnsSubscribeUrl(payload: unknown): string | null {
+  if (!isObject(payload) || payload.Type !== "SubscriptionConfirmation") {
+    return null;
+  }
+  try {
+    const url = new URL(String(payload.SubscribeURL));
+    return url.protocol === "https:" &&
+      /^sns\.[a-z0-9-]+\.amazonaws\.com$/.test(url.hostname)
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Header-like "Name: value" lines of a message, folded lines joined, in
+ * order of appearance. Covers the delivery-status part and the returned
+ * headers of the original message without a full MIME parser.
+ */
+function readFields(raw: string): Array<{ name: string; value: string }> {
+  const unfolded = raw.replace(/\r\n/g, "\n").replace(/\n[ \t]+/g, " ");
+  const fields: Array<{ name: string; value: string }> = [];
+  for (const line of unfolded.split("\n")) {
+    const match = /^([A-Za-z][A-Za-z0-9-]*):\s*(.*)$/.exec(line);
+    if (match) {
+      fields.push({ name: match[1].toLowerCase(), value: match[2].trim() });
+    }
+  }
+  return fields;
+}
+
+/** "rfc822; user@example.com" → "user@example.com" */
+function stripAddressType(value: string): string {
+  return value.replace(/^[^;]*;\s*/, "").replace(/^<|>$/g, "");
+}
+
+/**
+ * Read the failed recipients of one delivery status notification
+ * @param raw Full message source
+ * @returns One report per failed recipient; delayed or successful
+ * deliveries and messages that are not bounces yield none
+ */
+export function parseBounceMessage(raw: string): BounceReport[] {
+  const text = raw.replace(/\r\n/g, "\n");
+  const headerEnd = text.indexOf("\n\n");
+  const outerHeaders = readFields(
+    headerEnd === -1 ? text : text.slice(0, headerEnd),
+  );
+  const bodyFields = readFields(headerEnd === -1 ? "" : text.slice(headerEnd));
+
+  const outer = (name: string) =>
+    outerHeaders.find((field) => field.name === name)?.value;
+  const occurredAt = asDate(outer("date"));
+  // The bounce's own Message-ID sits in the outer headers; the one in the
+  // body belongs to the returned original
+  const messageId =
+    normalizeMessageId(
+      bodyFields.find((field) => field.name === "message-id")?.value,
+    ) || undefined;
+
+  const reports: BounceReport[] = [];
+  let current: {
+    recipient: string;
+    action?: string;
+    status?: string;
+    diagnostic?: string;
+  } | null = null;
+  const flush = () => {
+    if (current && current.action === "failed") {
+      reports.push({
+        recipient: current.recipient,
+        messageId,
+        permanent: !current.status?.startsWith("4"),
+        reason:
+          current.diagnostic ?? current.status ?? outer("subject") ?? "Bounced",
+        occurredAt,
+      });
+    }
+    current = null;
+  };
+
+  for (const field of bodyFields) {
+    if (field.name === "final-recipient") {
+      flush();
+      current = { recipient: stripAddressType(field.value) };
+    } else if (current && field.name === "action") {
+      current.action = field.value.toLowerCase();
+    } else if (current && field.name === "status") {
+      current.status = field.value;
+    } else if (current && field.name === "diagnostic-code") {
+      current.diagnostic = stripAddressType(field.value);
+    }
+  }
+  flush();
+
+  // Servers that do not send DSNs usually still name the failed addresses
+  const failedRecipients = outer("x-failed-recipients");
+  if (reports.length === 0 && failedRecipients) {
+    for (const recipient of failedRecipients.split(",")) {
+      reports.push({
+        recipient: recipient.trim(),
+        messageId,
+        permanent: true,
+        reason: outer("subject") ?? "Bounced",
+        occurredAt,
+      });
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * Read every bounce in an mbox export, or in a single .eml message
+ */
+export function parseMailbox(text: string): BounceReport[] {
+  const normalized = text.replace(/\r\n/g, "\n");
+  if (!normalized.startsWith("From ")) {
+    return parseBounceMessage(normalized);
+  }
+  return normalized
+    .split(/\n(?=From \S)/)
+    .map((message) => message.slice(message.indexOf("\n") + 1))
+    .flatMap((message) => parseBounceMessage(message));
+}
@@ -0,0 +1,385 @@
+/**
+ * Browser Pool
+ * Keeps one warm Chromium instance alive between PDF renders and hands out a
+ * bounded number of pages at a time.
+ * - Long-running servers: the browser is reused, health-checked before use,
+ *   recycled after a number of renders and closed when idle.
+ * - Serverless (Vercel / Lambda): every render launches and closes its own
+ *   browser, since the instance may be frozen or killed between requests.
+ */
+
+import puppeteer, { type Browser, type Page } from "puppeteer-core";
+import chromium from "@sparticuz/chromium-min";
+import fs from "fs/promises";
+import { logger } from "./logger";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const IS_DEV = process.env.NODE_ENV === "development";
+const IS_SERVERLESS = Boolean(
+  process.env.VERCEL || process.env.AWS_LAMBDA_FUNCTION_NAME,
+);
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * PDF_BROWSER_POOL=on|off overrides the automatic choice (off on serverless)
+ */
+function isPoolEnabled(): boolean {
+  const setting = process.env.PDF_BROWSER_POOL?.toLowerCase();
+  if (setting === "on") return true;
+  if (setting === "off") return false;
+  return !IS_SERVERLESS;
+}
+
+const MAX_RENDERS_PER_BROWSER = readPositiveInt(
+  process.env.PDF_BROWSER_MAX_RENDERS,
+  200,
+);
+const IDLE_TIMEOUT_MS = readPositiveInt(
+  process.env.PDF_BROWSER_IDLE_TIMEOUT_MS,
+  60_000,
+);
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+
+/**
+ * How many certificates may render at the same time. Serverless functions
+ * launch a browser per render, so they default to one at a time.
+ */
+export function getRenderConcurrency(): number {
+  return readPositiveInt(
+    process.env.PDF_RENDER_CONCURRENCY,
+    isPoolEnabled() ? 3 : 1,
+  );
+}
+
+/**
+ * Hosted chromium pack for Vercel.
+ * Consider re-hosting on Vercel Blob or a private CDN for production.
+ */
+const CHROMIUM_PACK_URL =
+  "https://github.com/Sparticuz/chromium/releases/download/v143.0.4/chromium-v143.0.4-pack.x64.tar";
+
+/**
+ * Known system Chrome/Chromium paths per platform.
+ * Returns the first one that actually exists on disk, or null.
+ */
+const SYSTEM_CHROME_PATHS: Record<string, string[]> = {
+  win32: [
+    "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
+    "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
+  ],
+  darwin: [
+    "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+    "/Applications/Chromium.app/Contents/MacOS/Chromium",
+  ],
+  linux: [
+    "/usr/bin/google-chrome",
+    "/usr/bin/google-chrome-stable",
+    "/usr/bin/chromium",
+    "/usr/bin/chromium-browser",
+  ],
+};
+
+async function findSystemChrome(): Promise<string | null> {
+  const candidates = SYSTEM_CHROME_PATHS[process.platform] ?? [];
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate); // throws if path does not exist
+      return candidate;
+    } catch {
+      // not found – try next
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Browser factory
+// ---------------------------------------------------------------------------
+
+async function launchBrowser(): Promise<Browser> {
+  // ── Production (Vercel) ──────────────────────────────────────────────────
+  if (!IS_DEV) {
+    chromium.setGraphicsMode = false;
+    const executablePath = await chromium.executablePath(CHROMIUM_PACK_URL);
+    logger.info("PDF", "Chromium binary extracted", { executablePath });
+
+    return await puppeteer.launch({
+      args: [
+        ...chromium.args,
+        "--disable-gpu",
+        "--disable-dev-shm-usage",
+        "--disable-setuid-sandbox",
+        "--no-sandbox",
+        "--single-process",
+        "--no-zygote",
+      ],
+      defaultViewport: { width: 1920, height: 1080, deviceScaleFactor: 1 },
+      executablePath,
+      headless: "shell",
+    });
+  }
+
+  // ── Local dev (system Chrome) ────────────────────────────────────────────
+  const executablePath = await findSystemChrome();
+
+  if (!executablePath) {
+    throw new Error(
+      "No Chrome/Chromium found on this machine. " +
+        "Install Google Chrome or Chromium to generate PDFs locally.\n" +
+        "Checked paths: " +
+        (SYSTEM_CHROME_PATHS[process.platform] ?? []).join(", "),
+    );
+  }
+
+  logger.info("PDF", "Using system Chrome", { executablePath });
+
+  return await puppeteer.launch({
+    executablePath,
+    headless: "shell",
+    args: ["--no-sandbox", "--disable-setuid-sandbox"],
+    defaultViewport: { width: 1920, height: 1080, deviceScaleFactor: 1 },
+  });
+}
+
+async function closeBrowser(browser: Browser): Promise<void> {
+  try {
+    const pages = await browser.pages();
+    await Promise.all(pages.map((p) => p.close().catch(() => {})));
+    await browser.close();
+    logger.info("PDF", "Browser closed successfully");
+  } catch (closeError) {
+    logger.error("PDF", "Error closing browser", closeError);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Pool state
+// ---------------------------------------------------------------------------
+
+interface PooledBrowser {
+  browser: Browser;
+  renders: number;
+  activePages: number;
+  retiring: boolean;
+  lastHealthCheck: number;
+}
+
+/**
+ * Global is used here so hot reloads in development reuse the same browser
+ * instead of leaking a new Chromium process on every edit.
+ */
+interface BrowserPoolState {
+  current: PooledBrowser | null;
+  launching: Promise<PooledBrowser> | null;
+  activeRenders: number;
+  waiting: Array<() => void>;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+declare global {
+  var browserPool: BrowserPoolState | undefined;
+}
+
+const state: BrowserPoolState = global.browserPool || {
+  current: null,
+  launching: null,
+  activeRenders: 0,
+  waiting: [],
+  idleTimer: null,
+};
+
+if (!global.browserPool) {
+  global.browserPool = state;
+}
+
+// ---------------------------------------------------------------------------
+// Concurrency limit
+// ---------------------------------------------------------------------------
+
+async function acquireRenderSlot(): Promise<void> {
+  if (state.activeRenders < getRenderConcurrency()) {
+    state.activeRenders++;
+    return;
+  }
+  // The releasing render hands its slot straight to us
+  await new Promise<void>((resolve) => state.waiting.push(resolve));
+}
+
+function releaseRenderSlot(): void {
+  const next = state.waiting.shift();
+  if (next) {
+    next();
+  } else {
+    state.activeRenders--;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Browser lifecycle
+// ---------------------------------------------------------------------------
+
+function retire(entry: PooledBrowser, reason: string): void {
+  if (state.current === entry) {
+    state.current = null;
+  }
+  if (entry.retiring) return;
+
+  entry.retiring = true;
+  logger.info("PDF", `Retiring pooled browser (${reason})`, {
+    renders: entry.renders,
+  });
+  // Pages still rendering on it are allowed to finish first
+  if (entry.activePages === 0) {
+    void closeBrowser(entry.browser);
+  }
+}
+
+async function isHealthy(entry: PooledBrowser): Promise<boolean> {
+  if (!entry.browser.connected) return false;
+  if (Date.now() - entry.lastHealthCheck < HEALTH_CHECK_INTERVAL_MS) {
+    return true;
+  }
+
+  let timeout: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      entry.browser.version(),
+      new Promise((_, reject) => {
+        timeout = setTimeout(
+          () => reject(new Error("Health check timed out")),
+          HEALTH_CHECK_TIMEOUT_MS,
+        );
+      }),
+    ]);
+    entry.lastHealthCheck = Date.now();
+    return true;
+  } catch (error) {
+    logger.warn("PDF", "Pooled browser failed health check", error);
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function launchPooledBrowser(): Promise<PooledBrowser> {
+  logger.info("PDF", "Launching pooled browser...");
+  const browser = await launchBrowser();
+  const entry: PooledBrowser = {
+    browser,
+    renders: 0,
+    activePages: 0,
+    retiring: false,
+    lastHealthCheck: Date.now(),
+  };
+
+  browser.on("disconnected", () => {
+    if (state.current === entry) {
+      logger.warn("PDF", "Pooled browser disconnected");
+      state.current = null;
+    }
+    entry.retiring = true;
+  });
+
+  return entry;
+}
+
+async function getPooledBrowser(): Promise<PooledBrowser> {
+  const current = state.current;
+  if (current) {
+    if (current.renders >= MAX_RENDERS_PER_BROWSER) {
+      retire(current, "render limit reached");
+    } else if (!(await isHealthy(current))) {
+      retire(current, "unhealthy");
+    } else if (!current.retiring) {
+      return current;
+    }
+  }
+
+  if (state.current) return state.current;
+
+  // Callers arriving while a launch is in flight share it
+  if (!state.launching) {
+    state.launching = launchPooledBrowser()
+      .then((entry) => {
+        state.current = entry;
+        return entry;
+      })
+      .finally(() => {
+        state.launching = null;
+      });
+  }
+  return state.launching;
+}
+
+function scheduleIdleClose(): void {
+  if (state.idleTimer) clearTimeout(state.idleTimer);
+
+  state.idleTimer = setTimeout(() => {
+    state.idleTimer = null;
+    const current = state.current;
+    if (current && current.activePages === 0) {
+      retire(current, "idle");
+    }
+  }, IDLE_TIMEOUT_MS);
+  // Never keep the process alive just to close the browser
+  state.idleTimer.unref();
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Run a task with a fresh page, waiting for a free render slot first.
+ * The page is always closed afterwards.
+ */
+export async function withPage<T>(
+  task: (page: Page) => Promise<T>,
+): Promise<T> {
+  await acquireRenderSlot();
+
+  try {
+    if (!isPoolEnabled()) {
+      logger.info("PDF", "Launching browser...");
+      const browser = await launchBrowser();
+      try {
+        return await task(await browser.newPage());
+      } finally {
+        await closeBrowser(browser);
+      }
+    }
+
+    const entry = await getPooledBrowser();
+    entry.renders++;
+    entry.activePages++;
+    let page: Page | null = null;
+
+    try {
+      page = await entry.browser.newPage();
+      return await task(page);
+    } catch (error) {
+      // A crashed browser fails every later render; relaunch on the next call
+      if (!entry.browser.connected) {
+        retire(entry, "crashed");
+      }
+      throw error;
+    } finally {
+      if (page) await page.close().catch(() => {});
+      entry.activePages--;
+      if (entry.retiring && entry.activePages === 0) {
+        void closeBrowser(entry.browser);
+      }
+      scheduleIdleClose();
+    }
+  } finally {
+    releaseRenderSlot();
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * Certificate Issuer
+ * Shared pipeline used by the manual create route, the batch generate route
+ * and the background generation worker: number → QR → PDF → upload → sign →
+ * save. Regeneration reuses the render step to replace an existing PDF.
+ */
+
+import crypto from "crypto";
+import mongoose from "mongoose";
+import Certificate, { ICertificate, IDetailChange } from "@/models/Certificate";
+import Counter, { ICounter } from "@/models/Counter";
+import type { IEvent } from "@/models/Event";
+import type { ISignatorySnapshot } from "@/models/Signatory";
+import type { ITeam, ITeamMember } from "@/models/Team";
+import {
+  ACHIEVEMENT_TYPE_LABELS,
+  AchievementType,
+  customFieldsToObject,
+  DEFAULT_ACHIEVEMENT_TYPE,
+} from "./achievements";
+import {
+  CertificateNumberScheme,
+  DEFAULT_NUMBER_SCHEME,
+  generateCertificateNumber,
+  getNumberSchemeStem,
+} from "./certificateUtils";
+import { formatDateRange, formatSingleDate } from "./dateUtils";
+import { logger } from "./logger";
+import { generateCertificatePDF } from "./pdf";
+import { generateQRCode } from "./qr";
+import { snapshotEventSignatories } from "./signatories";
+import { signCertificate } from "./signing";
+import { deleteStoredFile, StoredFile, uploadCertificatePDF } from "./storage";
+import { pickTemplateSlot } from "./templateSlotRules";
+
+export interface IssueCertificateInput {
+  participantName: string;
+  participantEmail?: string;
+  certificateNumber?: string;
+  achievementType?: AchievementType;
+  customFields?: Record<string, string>;
+  /** Team the participant belongs to, or that the certificate is for */
+  team?: ITeam;
+  /** One certificate naming the whole team instead of one member */
+  isTeamCertificate?: boolean;
+}
+
+const MAX_NUMBER_ATTEMPTS = 10;
+
+/**
+ * Render a certificate PDF from the event's current details and template
+ * snapshot. A certificate matching one of the event's template slots uses
+ * that slot's snapshot instead. Signatories come from the certificate's own
+ * snapshot.
+ */
+async function renderCertificate(
+  event: IEvent,
+  certificate: {
+    participantName: string;
+    participantEmail?: string;
+    certificateNumber: string;
+    issuedAt: Date;
+    achievementType: AchievementType;
+    customFields: Record<string, string>;
+    teamName?: string;
+    teamMembers: ITeamMember[];
+    isTeamCertificate: boolean;
+    signatories: ISignatorySnapshot[];
+  },
+): Promise<Buffer> {
+  const qrCodeDataUrl = await generateQRCode(certificate.certificateNumber);
+  const slot = pickTemplateSlot(event.templateSlots, certificate);
+
+  return generateCertificatePDF({
+    participantName: certificate.participantName,
+    participantEmail: certificate.participantEmail,
+    eventName: event.title,
+    eventStartDate: formatSingleDate(event.startDate),
+    eventEndDate: formatSingleDate(event.endDate),
+    eventDateRange: formatDateRange(event.startDate, event.endDate),
+    certificateNumber: certificate.certificateNumber,
+    issueDate: formatSingleDate(certificate.issuedAt),
+    organizerName: event.organizer,
+    qrCodeDataUrl,
+    achievementType: certificate.achievementType,
+    achievement: ACHIEVEMENT_TYPE_LABELS[certificate.achievementType],
+    customFields: certificate.customFields,
+    teamName: certificate.teamName,
+    isTeamCertificate: certificate.isTeamCertificate,
+    // Plain objects: Handlebars cannot read subdocument getters
+    members: certificate.teamMembers.map(({ name, email }) => ({
+      name,
+      email,
+    })),
+    signatories: certificate.signatories.map(
+      ({ name, designation, signatureUrl }) => ({
+        name,
+        designation,
+        signatureUrl,
+      }),
+    ),
+    ...(slot
+      ? {
+          templateHtml: slot.templateHtml,
+          backgroundUrl: slot.templateBackgroundUrl || undefined,
+        }
+      : {
+          templateName: event.template,
+          templateHtml: event.templateHtml, // Use snapshot if available
+          backgroundUrl: event.templateBackgroundUrl || undefined,
+        }),
+  });
+}
+
+async function cleanUpUploadedPDF(file: StoredFile): Promise<void> {
+  try {
+    await deleteStoredFile(file);
+  } catch (cleanupError) {
+    logger.error(
+      "CERT",
+      "Failed to clean up uploaded certificate",
+      cleanupError,
+    );
+  }
+}
+
+/**
+ * Atomically take the next value of a scheme's counter. Counters are keyed by
+ * the scheme's stem, so events sharing a prefix and code never hand out the
+ * same sequence number.
+ */
+async function nextSequence(scheme: CertificateNumberScheme): Promise<number> {
+  const counter: ICounter = await Counter.findOneAndUpdate(
+    { _id: `certificate-number:${getNumberSchemeStem(scheme)}` },
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true },
+  );
+  return counter.seq;
+}
+
+/**
+ * Generate a certificate number that is not yet in use
+ * @param scheme - Number format of the event (defaults to ECELL-YYYY-XXXXX-C)
+ */
+export async function allocateCertificateNumber(
+  scheme: CertificateNumberScheme = DEFAULT_NUMBER_SCHEME,
+): Promise<string> {
+  for (let attempt = 0; attempt < MAX_NUMBER_ATTEMPTS; attempt++) {
+    // A taken counter value (e.g. an uploaded certificate reused it) is skipped
+    const sequence =
+      scheme.sequenceDigits > 0 ? await nextSequence(scheme) : undefined;
+    const certificateNumber = generateCertificateNumber(scheme, sequence);
+    if (!(await Certificate.exists({ certificateNumber }))) {
+      return certificateNumber;
+    }
+  }
+  throw new Error("Could not generate a unique certificate number");
+}
+
+/**
+ * Render, upload, sign and store a single certificate for an event
+ * @returns The saved certificate document
+ */
+export async function issueCertificate(
+  event: IEvent,
+  input: IssueCertificateInput,
+): Promise<ICertificate> {
+  const participantName = input.participantName.trim();
+  const participantEmail = input.participantEmail?.trim() || undefined;
+  const achievementType = input.achievementType ?? DEFAULT_ACHIEVEMENT_TYPE;
+  const customFields = input.customFields ?? {};
+  const team = input.team;
+  const teamMembers = (team?.members ?? []).map(({ name, email }) => ({
+    name,
+    email,
+  }));
+  const isTeamCertificate = !!team && input.isTeamCertificate === true;
+  const signatories = await snapshotEventSignatories(event);
+  let certificateNumber = (input.certificateNumber || "").trim().toUpperCase();
+
+  if (certificateNumber) {
+    if (await Certificate.exists({ certificateNumber })) {
+      throw new Error(`Certificate ${certificateNumber} already exists`);
+    }
+  } else {
+    certificateNumber = await allocateCertificateNumber(event.numberScheme);
+  }
+
+  const issuedAt = new Date();
+  const pdfBuffer = await renderCertificate(event, {
+    participantName,
+    participantEmail,
+    certificateNumber,
+    issuedAt,
+    achievementType,
+    customFields,
+    teamName: team?.name,
+    teamMembers,
+    isTeamCertificate,
+    signatories,
+  });
+
+  const uploadResult = await uploadCertificatePDF(pdfBuffer, certificateNumber);
+
+  const verificationHash = crypto
+    .createHash("sha256")
+    .update(certificateNumber + event._id.toString())
+    .digest("hex");
+  const signed = signCertificate({
+    certificateNumber,
+    participantName,
+    eventId: event._id.toString(),
+    issuedAt,
+  });
+
+  try {
+    return await Certificate.create({
+      certificateNumber,
+      participantName,
+      participantEmail,
+      eventId: event._id,
+      achievementType,
+      customFields:
+        Object.keys(customFields).length > 0 ? customFields : undefined,
+      ...(team
+        ? {
+            teamId: team._id,
+            teamName: team.name,
+            teamMembers,
+            isTeamCertificate,
+          }
+        : {}),
+      signatories: signatories.length > 0 ? signatories : undefined,
+      certificateUrl: uploadResult.url,
+      cloudinaryPublicId: uploadResult.publicId,
+      storageBackend: uploadResult.backend,
+      verificationHash,
+      signature: signed?.signature,
+      signatureKeyId: signed?.keyId,
+      issuedAt,
+    });
+  } catch (error) {
+    // Don't leave an orphaned PDF behind if the record could not be saved
+    await cleanUpUploadedPDF(uploadResult);
+    throw error;
+  }
+}
+
+export interface CertificateCorrection {
+  participantName?: string;
+  /** New email address; an empty string removes it */
+  participantEmail?: string;
+  /** Email of the admin making the correction */
+  changedBy: string;
+}
+
+/**
+ * Re-render an existing certificate with the event's current details and
+ * template snapshot, optionally correcting the participant's details first.
+ * The number and issue date stay the same; the new PDF is stored as a new
+ * version and the previous one is kept in pdfHistory. Corrections are
+ * recorded in detailHistory and a changed name is signed again.
+ * @returns The updated certificate document
+ */
+export async function regenerateCertificate(
+  event: IEvent,
+  certificateId: mongoose.Types.ObjectId | string,
+  correction?: CertificateCorrection,
+): Promise<ICertificate> {
+  const certificate: ICertificate | null = await Certificate.findOne({
+    _id: certificateId,
+    eventId: event._id,
+  });
+  if (!certificate) {
+    throw new Error("Certificate no longer exists");
+  }
+  if (certificate.revokedAt) {
+    throw new Error("Revoked certificates are not regenerated");
+  }
+  if (certificate.source === "uploaded") {
+    throw new Error("Uploaded certificates cannot be regenerated");
+  }
+
+  const participantName =
+    correction?.participantName?.trim() || certificate.participantName;
+  const participantEmail =
+    correction?.participantEmail !== undefined
+      ? correction.participantEmail.trim().toLowerCase() || undefined
+      : certificate.participantEmail;
+
+  const pdfBuffer = await renderCertificate(event, {
+    participantName,
+    participantEmail,
+    certificateNumber: certificate.certificateNumber,
+    issuedAt: certificate.issuedAt,
+    achievementType: certificate.achievementType ?? DEFAULT_ACHIEVEMENT_TYPE,
+    customFields: customFieldsToObject(certificate.customFields),
+    teamName: certificate.teamName,
+    teamMembers: certificate.teamMembers ?? [],
+    isTeamCertificate: !!certificate.isTeamCertificate,
+    // Signatories the certificate was issued with, even if they have changed
+    signatories: certificate.signatories ?? [],
+  });
+
+  const version = (certificate.pdfHistory?.length ?? 0) + 2;
+  const uploadResult = await uploadCertificatePDF(
+    pdfBuffer,
+    certificate.certificateNumber,
+    version,
+  );
+
+  const now = new Date();
+  const $set: Record<string, unknown> = {
+    certificateUrl: uploadResult.url,
+    cloudinaryPublicId: uploadResult.publicId,
+    storageBackend: uploadResult.backend,
+    regeneratedAt: now,
+  };
+  const $unset: Record<string, ""> = {};
+  const detailChanges: IDetailChange[] = [];
+
+  if (correction && participantName !== certificate.participantName) {
+    $set.participantName = participantName;
+    detailChanges.push({
+      field: "participantName",
+      before: certificate.participantName,
+      after: participantName,
+      changedAt: now,
+      changedBy: correction.changedBy,
+    });
+
+    // The signature covers the name, so the old one no longer matches
+    const signed = signCertificate({
+      certificateNumber: certificate.certificateNumber,
+      participantName,
+      eventId: event._id.toString(),
+      issuedAt: certificate.issuedAt,
+    });
+    if (signed) {
+      $set.signature = signed.signature;
+      $set.signatureKeyId = signed.keyId;
+    } else {
+      $unset.signature = "";
+      $unset.signatureKeyId = "";
+    }
+  }
+  if (correction && participantEmail !== certificate.participantEmail) {
+    if (participantEmail) {
+      $set.participantEmail = participantEmail;
+    } else {
+      $unset.participantEmail = "";
+    }
+    detailChanges.push({
+      field: "participantEmail",
+      before: certificate.participantEmail,
+      after: participantEmail,
+      changedAt: now,
+      changedBy: correction.changedBy,
+    });
+  }
+
+  // Only swap the PDF if nobody replaced or moved it while this one was
+  // rendering
+  const updated: ICertificate | null = await Certificate.findOneAndUpdate(
+    {
+      _id: certificate._id,
+      cloudinaryPublicId: certificate.cloudinaryPublicId,
+      certificateUrl: certificate.certificateUrl,
+    },
+    {
+      $set,
+      ...(Object.keys($unset).length > 0 ? { $unset } : {}),
+      $push: {
+        pdfHistory: {
+          url: certificate.certificateUrl,
+          publicId: certificate.cloudinaryPublicId,
+          storageBackend: certificate.storageBackend,
+          replacedAt: now,
+        },
+        ...(detailChanges.length > 0
+          ? { detailHistory: { $each: detailChanges } }
+          : {}),
+      },
+    },
+    { new: true },
+  );
+  if (!updated) {
+    const current: ICertificate | null = await Certificate.findById(
+      certificate._id,
+      { certificateUrl: 1 },
+    );
+    if (current?.certificateUrl !== uploadResult.url) {
+      await cleanUpUploadedPDF(uploadResult);
+    }
+    throw new Error("Certificate changed while it was being regenerated");
+  }
+
+  return updated;
+}
@@ -1,21 +1,91 @@
 /**
- * Generates a unique certificate number in the format:
- * ECELL-YYYY-XXXXX
- * 
- * Example: ECELL-2025-KD93Q
- * 
- * @returns {string} A unique certificate number
+ * Certificate number schemes
+ *
+ * A number is built from hyphen-separated segments, in this order:
+ * PREFIX[-EVENTCODE][-YYYY][-SEQUENCE][-RANDOM][-CHECK]
+ *
+ * Examples:
+ *   ECELL-2025-KD93Q-V    (default scheme)
+ *   ECELL-2025-KD93Q      (legacy default, issued before check characters)
+ *   ECELL-HACK24-0001     (event code + 4-digit counter)
+ *
+ * Every variable segment is at least two characters long, so a trailing
+ * single-character segment is always a check character.
  */
-export function generateCertificateNumber(): string {
-    const year = new Date().getFullYear();
-    const randomChars = generateRandomString(5);
 
-    return `ECELL-${year}-${randomChars}`;
+export interface CertificateNumberScheme {
+    /** Leading segment, e.g. "ECELL" */
+    prefix: string;
+    /** Optional event-specific segment, e.g. "HACK24" */
+    eventCode?: string;
+    /** Insert the four-digit issue year */
+    includeYear: boolean;
+    /** Digits of the zero-padded sequential counter; 0 disables it */
+    sequenceDigits: number;
+    /** Length of the random segment; 0 disables it */
+    randomLength: number;
+    /** Append a check character computed over the rest of the number */
+    checkDigit: boolean;
+}
+
+export const DEFAULT_NUMBER_SCHEME: CertificateNumberScheme = {
+    prefix: 'ECELL',
+    includeYear: true,
+    sequenceDigits: 0,
+    randomLength: 5,
+    checkDigit: true,
+};
+
+export const MAX_CERTIFICATE_NUMBER_LENGTH = 64;
+
+const ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const SEGMENT_PATTERN = /^[A-Z0-9]+$/;
+
+/**
+ * Generates a certificate number for a scheme
+ *
+ * @param {CertificateNumberScheme} scheme - Number format (defaults to ECELL-YYYY-XXXXX-C)
+ * @param {number} sequence - Counter value, required when the scheme has a counter
+ * @returns {string} A certificate number, e.g. ECELL-2025-KD93Q-V
+ */
+export function generateCertificateNumber(
+    scheme: CertificateNumberScheme = DEFAULT_NUMBER_SCHEME,
+    sequence?: number
+): string {
+    const segments = [getNumberSchemeStem(scheme)];
+
+    if (scheme.sequenceDigits > 0) {
+        if (sequence === undefined) {
+            throw new Error('A sequence number is required for this number scheme');
+        }
+        segments.push(String(sequence).padStart(scheme.sequenceDigits, '0'));
+    }
+    if (scheme.randomLength > 0) {
+        segments.push(generateRandomString(scheme.randomLength));
+    }
+
+    const number = segments.join('-');
+    return scheme.checkDigit ? `${number}-${computeCheckCharacter(number)}` : number;
+}
+
+/**
+ * The fixed part of a scheme's numbers (prefix, event code and year). Numbers
+ * sharing a stem share a sequential counter.
+ *
+ * @param {CertificateNumberScheme} scheme - Number format
+ * @param {Date} date - Issue date used for the year segment
+ * @returns {string} e.g. ECELL-HACK24 or ECELL-2025
+ */
+export function getNumberSchemeStem(scheme: CertificateNumberScheme, date: Date = new Date()): string {
+    const segments = [scheme.prefix];
+    if (scheme.eventCode) segments.push(scheme.eventCode);
+    if (scheme.includeYear) segments.push(String(date.getFullYear()));
+    return segments.join('-');
 }
 
 /**
  * Generates a random alphanumeric string (uppercase)
- * 
+ *
  * @param {number} length - Length of the random string
  * @returns {string} Random uppercase alphanumeric string
  */
@@ -32,12 +102,154 @@ function generateRandomString(length: number): string {
 }
 
 /**
- * Validates certificate number format
- * 
+ * Luhn mod 36 check character over the alphanumeric characters of a number
+ * (hyphens are ignored). Catches every single-character typo and most
+ * swaps of adjacent characters.
+ *
+ * @param {string} value - Certificate number without its check character
+ * @returns {string} Single check character (0-9 or A-Z)
+ */
+export function computeCheckCharacter(value: string): string {
+    const base = ALPHABET.length;
+    const codePoints = value.toUpperCase().replace(/-/g, '').split('').reverse();
+    let factor = 2;
+    let sum = 0;
+
+    for (const char of codePoints) {
+        const codePoint = ALPHABET.indexOf(char);
+        if (codePoint < 0) {
+            throw new Error(`Invalid character in certificate number: ${char}`);
+        }
+        const addend = factor * codePoint;
+        sum += Math.floor(addend / base) + (addend % base);
+        factor = factor === 2 ? 1 : 2;
+    }
+
+    return ALPHABET[(base - (sum % base)) % base];
+}
+
+/**
+ * Whether a number ends in a check character (a single-character segment)
+ *
+ * @param {string} certNumber - Certificate number
+ * @returns {boolean} True if the last segment is a check character
+ */
+export function hasCheckCharacter(certNumber: string): boolean {
+    const segments = certNumber.split('-');
+    return segments.length > 2 && segments[segments.length - 1].length === 1;
+}
+
+/**
+ * Checks a number's check character. Numbers issued without one (including
+ * every legacy ECELL-YYYY-XXXXX number) always pass.
+ *
+ * @param {string} certNumber - Certificate number in a valid format
+ * @returns {boolean} False only if the check character does not match
+ */
+export function isCheckCharacterValid(certNumber: string): boolean {
+    const normalized = certNumber.toUpperCase();
+    if (!hasCheckCharacter(normalized)) return true;
+    const body = normalized.slice(0, -2);
+    return computeCheckCharacter(body) === normalized.slice(-1);
+}
+
+/**
+ * Numbers that differ from the given one by a single character and could
+ * have been issued (their check character, if any, is correct). Also
+ * includes the number with its check character appended, for when it was
+ * left off.
+ *
+ * @param {string} certNumber - Certificate number in a valid format
+ * @returns {string[]} Candidate numbers to look up, without the input itself
+ */
+export function getNearMatchCandidates(certNumber: string): string[] {
+    const normalized = certNumber.toUpperCase();
+    const candidates = new Set<string>();
+
+    for (let i = 0; i < normalized.length; i++) {
+        if (normalized[i] === '-') continue;
+        for (const char of ALPHABET) {
+            if (char === normalized[i]) continue;
+            const candidate = normalized.slice(0, i) + char + normalized.slice(i + 1);
+            if (isCheckCharacterValid(candidate)) candidates.add(candidate);
+        }
+    }
+    if (!hasCheckCharacter(normalized)) {
+        candidates.add(`${normalized}-${computeCheckCharacter(normalized)}`);
+    }
+
+    return [...candidates];
+}
+
+/**
+ * Validates a scheme submitted by an admin and normalizes it
+ *
+ * @param {unknown} input - Raw scheme from a request body
+ * @returns {CertificateNumberScheme} Normalized scheme
+ * @throws {Error} With a user-facing message when the scheme is invalid
+ */
+export function normalizeNumberScheme(input: unknown): CertificateNumberScheme {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        throw new Error('Number scheme must be an object');
+    }
+    const raw = input as Record<string, unknown>;
+
+    const readSegment = (value: unknown, name: string, required: boolean): string | undefined => {
+        if (value === undefined || value === null || value === '') {
+            if (required) throw new Error(`Number scheme ${name} is required`);
+            return undefined;
+        }
+        if (typeof value !== 'string') throw new Error(`Number scheme ${name} must be a string`);
+        const segment = value.trim().toUpperCase();
+        if (!SEGMENT_PATTERN.test(segment)) {
+            throw new Error(`Number scheme ${name} may only contain letters and digits`);
+        }
+        if (segment.length < 2 || segment.length > 16) {
+            throw new Error(`Number scheme ${name} must be 2 to 16 characters`);
+        }
+        return segment;
+    };
+
+    const readLength = (value: unknown, name: string, min: number, max: number): number => {
+        if (value === undefined || value === null || value === '') return 0;
+        const length = Number(value);
+        if (!Number.isInteger(length) || (length !== 0 && (length < min || length > max))) {
+            throw new Error(`Number scheme ${name} must be 0 or between ${min} and ${max}`);
+        }
+        return length;
+    };
+
+    const scheme: CertificateNumberScheme = {
+        prefix: readSegment(raw.prefix, 'prefix', true)!,
+        eventCode: readSegment(raw.eventCode, 'event code', false),
+        includeYear: raw.includeYear === true,
+        sequenceDigits: readLength(raw.sequenceDigits, 'counter digits', 2, 8),
+        randomLength: readLength(raw.randomLength, 'random length', 2, 10),
+        checkDigit: raw.checkDigit === true,
+    };
+
+    if (scheme.sequenceDigits === 0 && scheme.randomLength === 0) {
+        throw new Error('Number scheme needs a counter or a random segment to keep numbers unique');
+    }
+    if (scheme.sequenceDigits === 0 && scheme.randomLength < 4) {
+        throw new Error('Random-only number schemes need at least 4 random characters');
+    }
+    if (generateCertificateNumber(scheme, 0).length > MAX_CERTIFICATE_NUMBER_LENGTH) {
+        throw new Error(`Certificate numbers may be at most ${MAX_CERTIFICATE_NUMBER_LENGTH} characters`);
+    }
+
+    return scheme;
+}
+
+/**
+ * Validates certificate number format. Accepts any number a scheme can
+ * produce (and the legacy ECELL-YYYY-XXXXX numbers): uppercase letters and
+ * digits in at least two hyphen-separated segments.
+ *
  * @param {string} certNumber - Certificate number to validate
  * @returns {boolean} True if valid format
  */
 export function isValidCertificateNumber(certNumber: string): boolean {
-    const pattern = /^ECELL-\d{4}-[A-Z0-9]{5}$/;
-    return pattern.test(certNumber);
+    const pattern = /^[A-Z0-9]+(?:-[A-Z0-9]+)+$/;
+    return certNumber.length <= MAX_CERTIFICATE_NUMBER_LENGTH && pattern.test(certNumber.toUpperCase());
 }
@@ -1,10 +1,12 @@
 /**
- * Cloudinary Upload Utility
- * Handles uploading and deleting certificate PDFs from Cloudinary
+ * Cloudinary Storage Backend
+ * Stores certificate PDFs as authenticated raw files, which are only read
+ * back through short-lived signed URLs, and template images as public images
  */
 
 import { v2 as cloudinary } from "cloudinary";
 import { logger } from "./logger";
+import type { StorageBackend, StoredFile } from "./storage";
 
 // Configure Cloudinary
 cloudinary.config({
@@ -13,35 +15,45 @@ cloudinary.config({
   api_secret: process.env.CLOUDINARY_API_SECRET,
 });
 
-export interface CloudinaryUploadResult {
-  url: string;
-  publicId: string;
-}
+/** Lifetime of the signed URLs certificate PDFs are read through, in seconds */
+const SIGNED_URL_TTL_SECONDS = 60;
 
 /**
- * Upload a certificate PDF to Cloudinary
- * @param pdfBuffer - PDF file as Buffer
- * @param certificateNumber - Unique certificate identifier
- * @returns Object containing URL and public_id
+ * PDFs uploaded before they were stored as authenticated files are public
+ * ("upload" delivery type) and are read from their URL directly
  */
-export async function uploadCertificatePDF(
-  pdfBuffer: Buffer,
-  certificateNumber: string,
-): Promise<CloudinaryUploadResult> {
-  try {
-    return new Promise((resolve, reject) => {
+function isAuthenticatedUrl(url: string): boolean {
+  return url.includes("/raw/authenticated/");
+}
+
+export const cloudinaryStorage: StorageBackend = {
+  name: "cloudinary",
+
+  /**
+   * Check if Cloudinary is properly configured
+   * @returns true if configured, false otherwise
+   */
+  isConfigured() {
+    return !!(
+      process.env.CLOUDINARY_CLOUD_NAME &&
+      process.env.CLOUDINARY_API_KEY &&
+      process.env.CLOUDINARY_API_SECRET
+    );
+  },
+
+  /**
+   * Upload a certificate PDF. The key, including its folder and .pdf
+   * extension, is used as the public ID. The file is not publicly
+   * delivered: participants download it through the download route.
+   */
+  async putFile(key, body, { overwrite }) {
+    return new Promise<StoredFile>((resolve, reject) => {
       const uploadStream = cloudinary.uploader.upload_stream(
         {
-          folder: "certificates",
-          public_id: `${certificateNumber}.pdf`, // Add .pdf extension
+          public_id: key,
           resource_type: "raw", // For non-image files like PDFs
-          type: "upload",
-          overwrite: false, // Prevent accidental overwrites
-          access_control: [
-            {
-              access_type: "anonymous", // Allow public anonymous access
-            },
-          ],
+          type: "authenticated",
+          overwrite,
         },
         (error, result) => {
           if (error) {
@@ -54,6 +66,7 @@ export async function uploadCertificatePDF(
             resolve({
               url: result.secure_url,
               publicId: result.public_id,
+              backend: "cloudinary",
             });
           } else {
             reject(new Error("Upload failed with no result"));
@@ -62,26 +75,12 @@ export async function uploadCertificatePDF(
       );
 
       // Write buffer to upload stream
-      uploadStream.end(pdfBuffer);
+      uploadStream.end(body);
     });
-  } catch (error) {
-    logger.error("CLOUDINARY", "Certificate upload error", error);
-    throw new Error("Failed to upload certificate");
-  }
-}
+  },
 
-/**
- * Upload an image (background, logo, etc.) to Cloudinary
- * @param fileBuffer - Image file as Buffer
- * @param folder - Cloudinary folder (default: 'assets')
- * @returns Object containing URL and public_id
- */
-export async function uploadImage(
-  fileBuffer: Buffer,
-  folder: string = "assets",
-): Promise<CloudinaryUploadResult> {
-  try {
-    return new Promise((resolve, reject) => {
+  async putImage(body, folder) {
+    return new Promise<StoredFile>((resolve, reject) => {
       const uploadStream = cloudinary.uploader.upload_stream(
         {
           folder,
@@ -99,6 +98,7 @@ export async function uploadImage(
             resolve({
               url: result.secure_url,
               publicId: result.public_id,
+              backend: "cloudinary",
             });
           } else {
             reject(new Error("Upload failed with no result"));
@@ -106,52 +106,64 @@ export async function uploadImage(
         },
       );
 
-      uploadStream.end(fileBuffer);
+      uploadStream.end(body);
     });
-  } catch (error) {
-    logger.error("CLOUDINARY", "Image upload error", error);
-    throw new Error("Failed to upload image");
-  }
-}
+  },
 
-/**
- * Delete a certificate PDF from Cloudinary using public_id
- * @param publicId - Cloudinary public ID (e.g., "certificates/ECELL-2026-ABC123.pdf")
- * @returns Deletion result
- */
-export async function deleteCertificatePDF(publicId: string): Promise<void> {
-  try {
-    logger.info("CLOUDINARY", `Deleting certificate: ${publicId}`);
+  async readFile(file) {
+    const url = isAuthenticatedUrl(file.url)
+      ? cloudinary.utils.private_download_url(file.publicId, "", {
+          resource_type: "raw",
+          type: "authenticated",
+          expires_at: Math.floor(Date.now() / 1000) + SIGNED_URL_TTL_SECONDS,
+        })
+      : file.url;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to download ${file.publicId} from Cloudinary (HTTP ${response.status})`,
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
 
-    const result = await cloudinary.uploader.destroy(publicId, {
-      resource_type: "raw",
-    });
+  /**
+   * Delete a certificate PDF using its public ID
+   * (e.g., "certificates/ECELL-2026-ABC123.pdf")
+   */
+  async deleteFile(publicId) {
+    try {
+      logger.info("CLOUDINARY", `Deleting certificate: ${publicId}`);
 
-    if (result.result === "ok") {
-      logger.success("CLOUDINARY", `Certificate deleted: ${publicId}`);
-    } else if (result.result === "not found") {
-      logger.warn("CLOUDINARY", `Certificate not found: ${publicId}`);
-    } else {
-      logger.warn("CLOUDINARY", `Unexpected deletion result: ${result.result}`);
-    }
-  } catch (error: unknown) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    logger.error("CLOUDINARY", "Certificate deletion error", {
-      publicId,
-      error: message,
-    });
-    throw new Error(`Failed to delete certificate from Cloudinary: ${message}`);
-  }
-}
+      let result = await cloudinary.uploader.destroy(publicId, {
+        resource_type: "raw",
+        type: "authenticated",
+      });
+      if (result.result === "not found") {
+        result = await cloudinary.uploader.destroy(publicId, {
+          resource_type: "raw",
+        });
+      }
 
-/**
- * Check if Cloudinary is properly configured
- * @returns true if configured, false otherwise
- */
-export function isCloudinaryConfigured(): boolean {
-  return !!(
-    process.env.CLOUDINARY_CLOUD_NAME &&
-    process.env.CLOUDINARY_API_KEY &&
-    process.env.CLOUDINARY_API_SECRET
-  );
-}
+      if (result.result === "ok") {
+        logger.success("CLOUDINARY", `Certificate deleted: ${publicId}`);
+      } else if (result.result === "not found") {
+        logger.warn("CLOUDINARY", `Certificate not found: ${publicId}`);
+      } else {
+        logger.warn(
+          "CLOUDINARY",
+          `Unexpected deletion result: ${result.result}`,
+        );
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      logger.error("CLOUDINARY", "Certificate deletion error", {
+        publicId,
+        error: message,
+      });
+      throw new Error(
+        `Failed to delete certificate from Cloudinary: ${message}`,
+      );
+    }
+  },
+};
@@ -103,3 +103,14 @@ export function getEventDuration(startDate: Date, endDate: Date): number {
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     return diffDays + 1; // Include both start and end days
 }
+
+/**
+ * Format a date for a datetime-local input, in the browser's time zone
+ * @param date - Date to format
+ * @returns Local date and time (e.g., "2026-04-10T09:30")
+ */
+export function toDateTimeLocalValue(date: Date | string): string {
+    const d = new Date(date);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
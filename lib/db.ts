@@ -51,7 +51,20 @@ async function connectDB(): Promise<typeof mongoose> {
     if (cached.conn) {
       await import("@/models/Event");
       await import("@/models/Certificate");
+      await import("@/models/Team");
       await import("@/models/Template");
+      await import("@/models/TemplateVersion");
+      await import("@/models/Signatory");
+      await import("@/models/GenerationJob");
+      await import("@/models/EmailJob");
+      await import("@/models/EmailSchedule");
+      await import("@/models/EmailEvent");
+      await import("@/models/EmailPartial");
+      await import("@/models/EmailTemplate");
+      await import("@/models/AdminUser");
+      await import("@/models/AuditLog");
+      await import("@/models/Counter");
+      await import("@/models/PortalToken");
     }
   } catch (e) {
     cached.promise = null;
@@ -0,0 +1,101 @@
+/**
+ * Certificate Download Links
+ * Builds links to the download route, which streams PDFs from storage.
+ * Certificates of private events can only be downloaded with an expiring
+ * HMAC-signed token, handed out in emails and the participant portal.
+ */
+
+import crypto from "crypto";
+import type { IEvent } from "@/models/Event";
+
+const DEFAULT_LINK_TTL_DAYS = 30;
+
+/** Lifetime of signed download links (DOWNLOAD_LINK_TTL_DAYS, default 30) */
+export function getDownloadLinkTtlSeconds(): number {
+  const days = Number(process.env.DOWNLOAD_LINK_TTL_DAYS);
+  return (
+    (Number.isFinite(days) && days > 0 ? days : DEFAULT_LINK_TTL_DAYS) * 86400
+  );
+}
+
+function getSigningSecret(): string {
+  const secret = process.env.DOWNLOAD_LINK_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error(
+      "DOWNLOAD_LINK_SECRET or JWT_SECRET must be defined to sign download links",
+    );
+  }
+  return secret;
+}
+
+function computeSignature(certificateNumber: string, expires: number): string {
+  return crypto
+    .createHmac("sha256", getSigningSecret())
+    .update(`${certificateNumber.toUpperCase()}:${expires}`)
+    .digest("base64url");
+}
+
+/**
+ * Sign a download token for one certificate
+ * @returns Token in the form "<expiry in unix seconds>.<signature>"
+ */
+export function signDownloadToken(
+  certificateNumber: string,
+  ttlSeconds: number = getDownloadLinkTtlSeconds(),
+): string {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  return `${expires}.${computeSignature(certificateNumber, expires)}`;
+}
+
+/**
+ * Check a download token against the certificate it was issued for
+ * @returns true if the signature matches and the token has not expired
+ */
+export function verifyDownloadToken(
+  certificateNumber: string,
+  token: string | null | undefined,
+): boolean {
+  const [expiresPart, signature] = (token || "").split(".");
+  const expires = Number(expiresPart);
+  if (!signature || !Number.isInteger(expires)) return false;
+  if (expires < Math.floor(Date.now() / 1000)) return false;
+
+  const expected = Buffer.from(computeSignature(certificateNumber, expires));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Absolute URL of the download route for a certificate
+ * @param options.token - Signed token, required for private events
+ * @param options.inline - Ask for the PDF to be shown in the browser
+ */
+export function buildDownloadUrl(
+  certificateNumber: string,
+  options: { token?: string; inline?: boolean } = {},
+): string {
+  const baseUrl = (process.env.NEXT_PUBLIC_APP_URL || "").replace(/\/+$/, "");
+  const query = new URLSearchParams();
+  if (options.token) query.set("token", options.token);
+  if (options.inline) query.set("inline", "1");
+  const search = query.toString();
+  return `${baseUrl}/api/certificates/${encodeURIComponent(certificateNumber)}/download${search ? `?${search}` : ""}`;
+}
+
+/**
+ * Download link to hand to the certificate's participant; signed when the
+ * event keeps its downloads private
+ */
+export function buildParticipantDownloadUrl(
+  certificate: { certificateNumber: string },
+  event: Pick<IEvent, "privateDownloads">,
+): string {
+  return buildDownloadUrl(certificate.certificateNumber, {
+    token: event.privateDownloads
+      ? signDownloadToken(certificate.certificateNumber)
+      : undefined,
+  });
+}
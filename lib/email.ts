@@ -1,70 +1,189 @@
-import nodemailer from 'nodemailer';
+import type { ICertificate } from '@/models/Certificate';
+import type { EmailTemplateContent } from '@/models/EmailTemplate';
+import type { IEvent } from '@/models/Event';
+import { formatDateRange, formatSingleDate } from './dateUtils';
+import { buildDownloadUrl, signDownloadToken } from './downloadLinks';
+import { getActiveEmailTransportName, getEmailSender, sendEmail, type EmailAttachment } from './emailTransport';
+import { renderEmailTemplate, type EmailPartials, type EmailVariables } from './emailRendering';
+import { buildClickUrl, buildOpenPixelUrl, isEmailTrackingEnabled } from './emailTracking';
 import { logger } from './logger';
+import { generateQRCodeBuffer } from './qr';
+import { getCertificateFiles, readStoredFile } from './storage';
 
-const GMAIL_USER = process.env.GMAIL_USER;
-const GMAIL_APP_PASSWORD = process.env.GMAIL_APP_PASSWORD;
-const GMAIL_FROM_NAME = process.env.GMAIL_FROM_NAME || 'E-Cell RGPV';
+// Content-ID of the inline QR image; also its filename, which Mailgun needs
+const QR_CODE_CID = 'verification-qr.png';
+const DEFAULT_MAX_ATTACHMENT_MB = 5;
 
-// Configure standard nodemailer transporter for Gmail
-const transporter = nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-        user: GMAIL_USER,
-        pass: GMAIL_APP_PASSWORD,
-    },
-});
+/**
+ * Largest PDF attached to an email (EMAIL_ATTACHMENT_MAX_MB, default 5);
+ * bigger ones are sent as a link only
+ */
+export function getMaxAttachmentBytes(): number {
+    const megabytes = Number(process.env.EMAIL_ATTACHMENT_MAX_MB);
+    return (Number.isFinite(megabytes) && megabytes > 0 ? megabytes : DEFAULT_MAX_ATTACHMENT_MB) * 1024 * 1024;
+}
 
-export interface EmailVariables {
-    participantName: string;
-    eventName: string;
-    eventDate: string;
-    certificateNumber: string;
-    certificateLink: string;
-    verificationLink: string;
-    issueDate: string;
-    organizer: string;
+/**
+ * Build the certificate email for a participant from the event's email template.
+ * With tracking on, the links go through the click redirect and an open pixel
+ * is appended (see lib/emailTracking).
+ * @param certificate Certificate being sent
+ * @param event Event the certificate belongs to
+ * @param template The event's email template, see resolveEmailTemplate
+ * @param partials Shared partials the template may include, see loadEmailPartials
+ * @returns Recipient, rendered subject and HTML body
+ * @throws If the event has no email template, the participant has no email address
+ * or the template does not render
+ */
+export function buildCertificateEmail(
+    certificate: ICertificate,
+    event: IEvent,
+    template: EmailTemplateContent | null,
+    partials: EmailPartials = {}
+): { to: string; subject: string; htmlBody: string } {
+    if (!template || !template.subject || !template.body) {
+        throw new Error('No email template configured for this event');
+    }
+    if (!certificate.participantEmail) {
+        throw new Error('Participant has no email address configured');
+    }
+
+    const baseUrl = (process.env.NEXT_PUBLIC_APP_URL || '').replace(/\/+$/, '');
+    const inlineQr = Boolean(template.inlineQr);
+    const tracking = isEmailTrackingEnabled();
+    const certificateId = certificate._id.toString();
+    const downloadToken = event.privateDownloads ? signDownloadToken(certificate.certificateNumber) : undefined;
+    const variables: EmailVariables = {
+        participantName: certificate.participantName,
+        participantEmail: certificate.participantEmail,
+        eventName: event.title,
+        eventDate: formatDateRange(event.startDate, event.endDate),
+        certificateNumber: certificate.certificateNumber,
+        certificateLink: tracking
+            ? buildClickUrl(certificateId, 'certificate', downloadToken)
+            : buildDownloadUrl(certificate.certificateNumber, { token: downloadToken }),
+        verificationLink: tracking
+            ? buildClickUrl(certificateId, 'verification')
+            : `${baseUrl}/verify/${certificate.certificateNumber}`,
+        issueDate: formatSingleDate(certificate.issuedAt || new Date()),
+        organizer: event.organizer || 'Event Organizer',
+        qrCode: inlineQr
+            ? `<img src="cid:${QR_CODE_CID}" alt="Verification QR code" width="160" height="160" />`
+            : '',
+    };
+
+    let htmlBody = renderEmailTemplate(template.body, variables, { partials });
+    // Templates written before the QR option existed get it at the end
+    if (inlineQr && !template.body.includes('{{qrCode}}')) {
+        htmlBody += `<p style="text-align: center;">${variables.qrCode}</p>`;
+    }
+    if (tracking) {
+        htmlBody += `<img src="${buildOpenPixelUrl(certificateId)}" alt="" width="1" height="1" style="border: 0;" />`;
+    }
+
+    return {
+        to: certificate.participantEmail,
+        subject: renderEmailTemplate(template.subject, variables, { partials, escape: false }),
+        htmlBody,
+    };
 }
 
 /**
- * Replace all {{placeholders}} in a template string with actual values
- * @param template HTML string with placeholders
- * @param variables Object containing the values for placeholders
- * @returns Parsed string
+ * Files to send with a certificate email, as configured on the event's
+ * template: the PDF and the inline QR image. The email falls back to its
+ * links when the PDF cannot be read or exceeds the size limit.
+ * @param certificate Certificate being sent
+ * @param template The event's email template, see resolveEmailTemplate
  */
-export function renderEmailTemplate(template: string, variables: EmailVariables): string {
-    if (!template) return '';
-    
-    let rendered = template;
-    for (const [key, value] of Object.entries(variables)) {
-        // Replace all occurrences of {{key}} globally
-        const regex = new RegExp(`{{${key}}}`, 'g');
-        rendered = rendered.replace(regex, value);
+export async function buildCertificateAttachments(
+    certificate: ICertificate,
+    template: EmailTemplateContent | null
+): Promise<EmailAttachment[]> {
+    const attachments: EmailAttachment[] = [];
+
+    if (template?.attachPdf) {
+        const [file] = getCertificateFiles(certificate);
+        try {
+            if (!file) {
+                throw new Error('Certificate has no stored PDF');
+            }
+            const content = await readStoredFile(file);
+            if (content.length > getMaxAttachmentBytes()) {
+                logger.warn('EMAIL', `PDF of ${certificate.certificateNumber} is too large to attach, sending link only`, {
+                    bytes: content.length,
+                });
+            } else {
+                attachments.push({
+                    filename: `${certificate.participantName} - ${certificate.certificateNumber}.pdf`,
+                    content,
+                    contentType: 'application/pdf',
+                });
+            }
+        } catch (error: unknown) {
+            logger.warn('EMAIL', `PDF of ${certificate.certificateNumber} is unavailable, sending link only`, {
+                error: error instanceof Error ? error.message : 'Unknown error',
+            });
+        }
     }
-    return rendered;
+
+    if (template?.inlineQr) {
+        attachments.push({
+            filename: QR_CODE_CID,
+            content: await generateQRCodeBuffer(certificate.certificateNumber),
+            contentType: 'image/png',
+            cid: QR_CODE_CID,
+        });
+    }
+
+    return attachments;
+}
+
+/**
+ * Build the email carrying a participant portal sign-in link
+ * @param linkUrl One-time link to the portal
+ * @param expiresInMinutes How long the link stays valid
+ * @returns Rendered subject and HTML body
+ */
+export function buildPortalLinkEmail(
+    linkUrl: string,
+    expiresInMinutes: number
+): { subject: string; htmlBody: string } {
+    const senderName = getEmailSender().name;
+    return {
+        subject: `Your certificates from ${senderName}`,
+        htmlBody: `
+            <p>Hello,</p>
+            <p>Use the link below to see every certificate issued to this email address.</p>
+            <p><a href="${linkUrl}">View my certificates</a></p>
+            <p>The link works once and expires in ${expiresInMinutes} minutes.
+            If you did not ask for it, you can ignore this email.</p>
+            <p>${senderName}</p>
+        `,
+    };
 }
 
 /**
- * Send an email using Gmail SMTP
+ * Send an email through the configured transport (see lib/emailTransport)
  * @param to Recipient email address
  * @param subject Email subject
  * @param htmlBody Rendered HTML email body
+ * @param attachments Files to attach, see buildCertificateAttachments
+ * @returns The message ID assigned by the provider
  */
-export async function sendCertificateEmail(to: string, subject: string, htmlBody: string): Promise<boolean> {
-    if (!GMAIL_USER || !GMAIL_APP_PASSWORD) {
-        logger.error('EMAIL', 'Gmail credentials are not configured in environment variables');
-        throw new Error('Email service is not configured');
-    }
-
+export async function sendCertificateEmail(
+    to: string,
+    subject: string,
+    htmlBody: string,
+    attachments: EmailAttachment[] = []
+): Promise<string> {
     try {
-        const info = await transporter.sendMail({
-            from: `"${GMAIL_FROM_NAME}" <${GMAIL_USER}>`,
-            to,
-            subject,
-            html: htmlBody,
-        });
+        const messageId = await sendEmail({ to, subject, html: htmlBody, attachments });
 
-        logger.info('EMAIL', `Email sent successfully to ${to}`, { messageId: info.messageId });
-        return true;
+        logger.info('EMAIL', `Email sent successfully to ${to}`, {
+            transport: getActiveEmailTransportName(),
+            messageId,
+        });
+        return messageId;
     } catch (error: any) {
         logger.error('EMAIL', `Failed to send email to ${to}`, error);
         throw error;
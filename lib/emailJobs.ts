@@ -0,0 +1,558 @@
+/**
+ * Certificate Email Jobs
+ * Mongo-backed outbound queue for certificate emails. Rows are claimed one at
+ * a time with an atomic update, like generation jobs, so the run endpoint
+ * polled by the send dialog and the cron endpoint can drain the same job.
+ * Sends across all workers are capped per minute (EMAIL_SEND_PER_MINUTE);
+ * transient failures are retried with exponential backoff and permanent ones
+ * fail the row straight away.
+ */
+
+import crypto from "crypto";
+import mongoose from "mongoose";
+import Certificate, { ICertificate } from "@/models/Certificate";
+import Counter, { ICounter } from "@/models/Counter";
+import EmailJob, {
+  EmailJobRowStatus,
+  EmailJobStatus,
+  IEmailJob,
+  IEmailJobRow,
+  IEmailJobTemplate,
+} from "@/models/EmailJob";
+import Event, { IEvent } from "@/models/Event";
+import {
+  buildCertificateAttachments,
+  buildCertificateEmail,
+  sendCertificateEmail,
+} from "./email";
+import { loadEmailPartials } from "./emailPartials";
+import type { EmailPartials } from "./emailRendering";
+import { resolveEmailTemplate } from "./emailTemplates";
+import { getSentEmailUpdate } from "./emailTracking";
+import { isPermanentEmailError } from "./emailTransport";
+import { logger } from "./logger";
+
+export const MAX_EMAILS_PER_JOB = 2000;
+const ROW_LEASE_MS = 3 * 60 * 1000;
+const MAX_SEND_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+const DEFAULT_SENDS_PER_MINUTE = 60;
+const THROTTLE_COUNTER_PREFIX = "email-throttle:";
+const INTERRUPTED_ERROR = "Sending was interrupted too many times; giving up";
+
+const OPEN_ROW_STATUSES: EmailJobRowStatus[] = [
+  "queued",
+  "sending",
+  "retrying",
+];
+
+export interface EmailJobSummary {
+  id: string;
+  eventId: string | null;
+  status: EmailJobStatus;
+  total: number;
+  queued: number;
+  sending: number;
+  retrying: number;
+  sent: number;
+  failed: number;
+  /** Earliest time a retrying row becomes due again */
+  nextRetryAt: Date | null;
+  errors: Array<{ certificateId: string; error: string; permanent: boolean }>;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+export function summarizeEmailJob(job: IEmailJob): EmailJobSummary {
+  const count = (status: EmailJobRowStatus) =>
+    job.rows.filter((row) => row.status === status).length;
+  const retryTimes = job.rows
+    .filter((row) => row.status === "retrying")
+    .map((row) => row.nextAttemptAt.getTime());
+
+  return {
+    id: job._id.toString(),
+    eventId: job.eventId?.toString() ?? null,
+    status: job.status,
+    total: job.rows.length,
+    queued: count("queued"),
+    sending: count("sending"),
+    retrying: count("retrying"),
+    sent: count("sent"),
+    failed: count("failed"),
+    nextRetryAt:
+      retryTimes.length > 0 ? new Date(Math.min(...retryTimes)) : null,
+    errors: job.rows
+      .filter((row) => row.status === "failed")
+      .map((row) => ({
+        certificateId: row.certificateId.toString(),
+        error: row.error || "Unknown error",
+        permanent: Boolean(row.permanent),
+      })),
+    createdAt: job.createdAt,
+    startedAt: job.startedAt ?? null,
+    finishedAt: job.finishedAt ?? null,
+  };
+}
+
+/**
+ * Sends allowed per minute across all workers (EMAIL_SEND_PER_MINUTE,
+ * default 60; 0 turns throttling off)
+ */
+export function getEmailSendsPerMinute(): number {
+  const configured = Number(process.env.EMAIL_SEND_PER_MINUTE);
+  return Number.isFinite(configured) && configured >= 0
+    ? configured
+    : DEFAULT_SENDS_PER_MINUTE;
+}
+
+/**
+ * Delay before the next attempt after a transient failure: one minute,
+ * doubling with each attempt, capped at 30 minutes
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    RETRY_MAX_DELAY_MS,
+  );
+}
+
+/** A slot taken from a minute's send budget; no window when unthrottled */
+interface SendSlot {
+  window: string | null;
+}
+
+/**
+ * Take a send slot in the current minute's window. Windows are counters
+ * keyed by minute, so every worker shares the same budget.
+ * @returns null if this minute's budget is used up
+ */
+async function reserveSendSlot(): Promise<SendSlot | null> {
+  const limit = getEmailSendsPerMinute();
+  if (limit === 0) return { window: null };
+
+  const minute = Math.floor(Date.now() / 60_000);
+  const key = `${THROTTLE_COUNTER_PREFIX}${minute}`;
+  const counter: ICounter = await Counter.findOneAndUpdate(
+    { _id: key },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true },
+  );
+
+  // The first send of a window clears out the windows before it
+  if (counter.seq === 1) {
+    await Counter.deleteMany({
+      _id: { $regex: `^${THROTTLE_COUNTER_PREFIX}`, $ne: key },
+    });
+  }
+  if (counter.seq <= limit) return { window: key };
+
+  await releaseSendSlot({ window: key });
+  return null;
+}
+
+/**
+ * Give back a slot that was not used for a send
+ */
+async function releaseSendSlot(slot: SendSlot): Promise<void> {
+  if (!slot.window) return;
+  await Counter.updateOne({ _id: slot.window }, { $inc: { seq: -1 } });
+}
+
+/**
+ * Queue emails for the given certificates and mark them as queued. The
+ * email templates of their events and the partials are snapshotted into the
+ * job.
+ */
+export async function createEmailJob(
+  certificates: Array<Pick<ICertificate, "_id" | "eventId">>,
+): Promise<IEmailJob> {
+  const eventIds = new Set(
+    certificates.map((certificate) => certificate.eventId.toString()),
+  );
+  const now = new Date();
+
+  // Events without a template get no snapshot; their rows fail when sent
+  const events: IEvent[] = await Event.find({ _id: { $in: [...eventIds] } });
+  const templates: IEmailJobTemplate[] = [];
+  for (const event of events) {
+    const template = await resolveEmailTemplate(event);
+    if (template) templates.push({ ...template, eventId: event._id });
+  }
+
+  const job: IEmailJob = await EmailJob.create({
+    eventId: eventIds.size === 1 ? certificates[0].eventId : undefined,
+    status: "queued",
+    templates,
+    partials: await loadEmailPartials(),
+    rows: certificates.map((certificate) => ({
+      certificateId: certificate._id,
+      status: "queued",
+      attempts: 0,
+      nextAttemptAt: now,
+    })),
+  });
+
+  await Certificate.updateMany(
+    { _id: { $in: certificates.map((certificate) => certificate._id) } },
+    { $set: { emailStatus: "queued", emailError: "", emailAttempts: 0 } },
+  );
+  return job;
+}
+
+/**
+ * Put rows whose worker stopped responding back on the queue, or fail them
+ * once they have used up their attempts
+ */
+async function requeueStaleRows(
+  jobId: mongoose.Types.ObjectId | string,
+): Promise<void> {
+  const staleBefore = new Date(Date.now() - ROW_LEASE_MS);
+
+  const job: IEmailJob | null = await EmailJob.findOneAndUpdate(
+    { _id: jobId },
+    {
+      $set: {
+        "rows.$[stale].status": "failed",
+        "rows.$[stale].error": INTERRUPTED_ERROR,
+        "rows.$[stale].finishedAt": new Date(),
+      },
+      $unset: { "rows.$[stale].claimId": "" },
+    },
+    {
+      arrayFilters: [
+        {
+          "stale.status": "sending",
+          "stale.startedAt": { $lt: staleBefore },
+          "stale.attempts": { $gte: MAX_SEND_ATTEMPTS },
+        },
+      ],
+      new: true,
+    },
+  );
+  if (job) {
+    await Certificate.updateMany(
+      {
+        _id: {
+          $in: job.rows
+            .filter((row) => row.error === INTERRUPTED_ERROR)
+            .map((row) => row.certificateId),
+        },
+        emailStatus: { $in: ["queued", "retrying"] },
+      },
+      { $set: { emailStatus: "failed", emailError: INTERRUPTED_ERROR } },
+    );
+  }
+
+  await EmailJob.updateOne(
+    { _id: jobId },
+    {
+      $set: { "rows.$[stale].status": "retrying" },
+      $unset: { "rows.$[stale].claimId": "" },
+    },
+    {
+      arrayFilters: [
+        {
+          "stale.status": "sending",
+          "stale.startedAt": { $lt: staleBefore },
+        },
+      ],
+    },
+  );
+}
+
+async function claimNextRow(
+  jobId: mongoose.Types.ObjectId | string,
+): Promise<{ claimId: string; row: IEmailJobRow } | null> {
+  const claimId = crypto.randomUUID();
+  const now = new Date();
+
+  const job: IEmailJob | null = await EmailJob.findOneAndUpdate(
+    {
+      _id: jobId,
+      status: { $in: ["queued", "running"] },
+      rows: {
+        $elemMatch: {
+          status: { $in: ["queued", "retrying"] },
+          nextAttemptAt: { $lte: now },
+        },
+      },
+    },
+    {
+      $set: {
+        status: "running",
+        "rows.$.status": "sending",
+        "rows.$.claimId": claimId,
+        "rows.$.startedAt": now,
+      },
+      $inc: { "rows.$.attempts": 1 },
+      $min: { startedAt: now },
+    },
+    { new: true },
+  );
+
+  const row = job?.rows.find((candidate) => candidate.claimId === claimId);
+  return row ? { claimId, row } : null;
+}
+
+async function updateClaimedRow(
+  jobId: mongoose.Types.ObjectId | string,
+  claimId: string,
+  fields: Partial<IEmailJobRow>,
+): Promise<void> {
+  const $set: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    $set[`rows.$[claimed].${key}`] = value;
+  }
+
+  await EmailJob.updateOne(
+    { _id: jobId },
+    { $set },
+    { arrayFilters: [{ "claimed.claimId": claimId }] },
+  );
+}
+
+interface EmailJobSnapshot {
+  templates?: IEmailJobTemplate[];
+  partials: EmailPartials;
+}
+
+async function processClaimedRow(
+  jobId: mongoose.Types.ObjectId | string,
+  claimId: string,
+  row: IEmailJobRow,
+  snapshot: EmailJobSnapshot,
+): Promise<void> {
+  const certificate: (ICertificate & { eventId: IEvent | null }) | null =
+    await Certificate.findById(row.certificateId).populate("eventId");
+
+  // Problems with the certificate itself cannot be fixed by retrying
+  if (!certificate || certificate.revokedAt || !certificate.eventId) {
+    const message = !certificate
+      ? "Certificate no longer exists"
+      : certificate.revokedAt
+        ? "Certificate has been revoked"
+        : "Event data not found for certificate";
+    await failRow(jobId, claimId, row, message, true);
+    return;
+  }
+  const event = certificate.eventId;
+  // Jobs queued before snapshots existed use the event's current template
+  const template = snapshot.templates
+    ? (snapshot.templates.find((candidate) =>
+        candidate.eventId.equals(event._id),
+      ) ?? null)
+    : await resolveEmailTemplate(event);
+
+  let email: ReturnType<typeof buildCertificateEmail>;
+  try {
+    email = buildCertificateEmail(
+      certificate,
+      event,
+      template,
+      snapshot.partials,
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await failRow(jobId, claimId, row, message, true);
+    return;
+  }
+
+  try {
+    const attachments = await buildCertificateAttachments(
+      certificate,
+      template,
+    );
+    const messageId = await sendCertificateEmail(
+      email.to,
+      email.subject,
+      email.htmlBody,
+      attachments,
+    );
+    await updateClaimedRow(jobId, claimId, {
+      status: "sent",
+      messageId,
+      finishedAt: new Date(),
+    });
+    await Certificate.findByIdAndUpdate(
+      row.certificateId,
+      getSentEmailUpdate(messageId, row.attempts),
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (isPermanentEmailError(error) || row.attempts >= MAX_SEND_ATTEMPTS) {
+      await failRow(jobId, claimId, row, message, isPermanentEmailError(error));
+      return;
+    }
+
+    const nextAttemptAt = new Date(Date.now() + getRetryDelayMs(row.attempts));
+    await updateClaimedRow(jobId, claimId, {
+      status: "retrying",
+      error: message,
+      nextAttemptAt,
+    });
+    await Certificate.findByIdAndUpdate(row.certificateId, {
+      emailStatus: "retrying",
+      emailError: message,
+      emailAttempts: row.attempts,
+    });
+    logger.warn("EMAIL", "[EMAIL_JOB] Send failed, will retry", {
+      jobId: jobId.toString(),
+      certificateId: row.certificateId.toString(),
+      attempts: row.attempts,
+      nextAttemptAt,
+      error: message,
+    });
+  }
+}
+
+async function failRow(
+  jobId: mongoose.Types.ObjectId | string,
+  claimId: string,
+  row: IEmailJobRow,
+  message: string,
+  permanent: boolean,
+): Promise<void> {
+  await updateClaimedRow(jobId, claimId, {
+    status: "failed",
+    error: message,
+    permanent,
+    finishedAt: new Date(),
+  });
+  await Certificate.findByIdAndUpdate(row.certificateId, {
+    emailStatus: "failed",
+    emailError: message,
+    emailAttempts: row.attempts,
+  });
+  logger.error("EMAIL", "[EMAIL_JOB] Send failed", {
+    jobId: jobId.toString(),
+    certificateId: row.certificateId.toString(),
+    attempts: row.attempts,
+    permanent,
+    error: message,
+  });
+}
+
+async function finalizeJob(
+  jobId: mongoose.Types.ObjectId | string,
+): Promise<void> {
+  await EmailJob.updateOne(
+    {
+      _id: jobId,
+      status: { $in: ["queued", "running"] },
+      rows: {
+        $not: { $elemMatch: { status: { $in: OPEN_ROW_STATUSES } } },
+      },
+    },
+    { $set: { status: "completed", finishedAt: new Date() } },
+  );
+}
+
+/**
+ * Send due rows of a job until none are left, the minute's send budget is
+ * used up or the deadline passes
+ * @param deadline - Epoch milliseconds after which no new row is claimed
+ * @returns Number of rows processed in this run
+ */
+export async function runEmailJob(
+  jobId: mongoose.Types.ObjectId | string,
+  deadline: number,
+): Promise<number> {
+  const job: IEmailJob | null = await EmailJob.findById(jobId, {
+    status: 1,
+    templates: 1,
+    partials: 1,
+  });
+  if (!job || job.status === "completed" || job.status === "cancelled") {
+    return 0;
+  }
+
+  await requeueStaleRows(jobId);
+  const snapshot: EmailJobSnapshot = {
+    templates: job.templates,
+    partials: job.partials
+      ? Object.fromEntries(job.partials)
+      : await loadEmailPartials(),
+  };
+
+  // Transports space out their own sends, so one lane is enough
+  let processed = 0;
+  while (Date.now() < deadline) {
+    const slot = await reserveSendSlot();
+    if (!slot) break;
+    const claimed = await claimNextRow(jobId);
+    if (!claimed) {
+      // Nothing was due, so the slot goes back to the minute's budget
+      await releaseSendSlot(slot);
+      break;
+    }
+    await processClaimedRow(jobId, claimed.claimId, claimed.row, snapshot);
+    processed++;
+  }
+
+  await finalizeJob(jobId);
+  return processed;
+}
+
+/**
+ * Work through every unfinished job, oldest first, until the deadline passes
+ */
+export async function runPendingEmailJobs(
+  deadline: number,
+): Promise<{ jobs: number; emails: number }> {
+  const pending: IEmailJob[] = await EmailJob.find({
+    status: { $in: ["queued", "running"] },
+  })
+    .sort({ createdAt: 1 })
+    .select("_id");
+
+  let jobs = 0;
+  let emails = 0;
+  for (const job of pending) {
+    if (Date.now() >= deadline) break;
+    emails += await runEmailJob(job._id, deadline);
+    jobs++;
+  }
+  return { jobs, emails };
+}
+
+/**
+ * Stop a job: rows waiting to be sent or retried are marked failed, a send
+ * already in progress is allowed to finish
+ */
+export async function cancelEmailJob(
+  jobId: mongoose.Types.ObjectId | string,
+): Promise<IEmailJob | null> {
+  const job: IEmailJob | null = await EmailJob.findOneAndUpdate(
+    { _id: jobId, status: { $in: ["queued", "running"] } },
+    {
+      $set: {
+        status: "cancelled",
+        finishedAt: new Date(),
+        "rows.$[waiting].status": "failed",
+        "rows.$[waiting].error": "Cancelled",
+      },
+    },
+    {
+      new: true,
+      arrayFilters: [{ "waiting.status": { $in: ["queued", "retrying"] } }],
+    },
+  );
+
+  if (job) {
+    await Certificate.updateMany(
+      {
+        _id: {
+          $in: job.rows
+            .filter((row) => row.error === "Cancelled")
+            .map((row) => row.certificateId),
+        },
+        emailStatus: { $in: ["queued", "retrying"] },
+      },
+      { $set: { emailStatus: "failed", emailError: "Cancelled" } },
+    );
+  }
+  return job;
+}
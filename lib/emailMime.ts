@@ -0,0 +1,45 @@
+/**
+ * MIME Message Composition
+ * Maps outgoing emails to nodemailer message options and builds complete
+ * RFC 822 messages for transports that take raw messages (file drop, SES
+ * with attachments).
+ */
+
+import nodemailer, { Transporter } from "nodemailer";
+import type Mail from "nodemailer/lib/mailer";
+import type { OutgoingEmail } from "./emailTransport";
+
+let composer: Transporter | null = null;
+
+export function toMailOptions(message: OutgoingEmail): Mail.Options {
+  return {
+    from: message.from,
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    attachments: message.attachments?.map((attachment) => ({
+      filename: attachment.filename,
+      content: attachment.content,
+      contentType: attachment.contentType,
+      cid: attachment.cid,
+      contentDisposition: attachment.cid ? "inline" : "attachment",
+    })),
+  };
+}
+
+/**
+ * Build the full message without sending it
+ * @returns The generated Message-ID and the raw message
+ */
+export async function composeMimeMessage(
+  message: OutgoingEmail,
+): Promise<{ messageId: string; raw: Buffer }> {
+  composer ??= nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+  const info = await composer.sendMail(toMailOptions(message));
+  return { messageId: info.messageId, raw: info.message as Buffer };
+}
@@ -0,0 +1,65 @@
+/**
+ * Email Partials
+ * Loads the shared partials of certificate emails (see models/EmailPartial)
+ * and checks templates against them before they are saved.
+ */
+
+import {
+  EMAIL_TEMPLATE_VARIABLES,
+  findTemplateProblems,
+  type EmailPartials,
+} from "./emailRendering";
+import EmailPartial, { IEmailPartial } from "@/models/EmailPartial";
+import EmailTemplate from "@/models/EmailTemplate";
+import Event from "@/models/Event";
+
+/** Every partial by name, ready for renderEmailTemplate */
+export async function loadEmailPartials(): Promise<EmailPartials> {
+  const partials: IEmailPartial[] = await EmailPartial.find({}).select(
+    "name html",
+  );
+  return Object.fromEntries(
+    partials.map((partial) => [partial.name, partial.html]),
+  );
+}
+
+/**
+ * Problems in an email subject or body, checked against the partials that
+ * exist
+ */
+export async function findEmailTemplateProblems(
+  template: string,
+): Promise<string[]> {
+  const names: string[] = await EmailPartial.distinct("name");
+  return findTemplateProblems(template, {
+    partials: names,
+    variables: EMAIL_TEMPLATE_VARIABLES,
+  });
+}
+
+/**
+ * Problems in a partial. Partials cannot include other partials, which
+ * rules out include cycles.
+ */
+export function findPartialProblems(html: string): string[] {
+  return findTemplateProblems(html, {
+    partials: [],
+    variables: EMAIL_TEMPLATE_VARIABLES,
+  });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Number of event and library email templates that include a partial
+ */
+export async function countPartialUses(name: string): Promise<number> {
+  const include = new RegExp(`\\{\\{~?#?>\\s*${escapeRegExp(name)}[\\s~}]`);
+  const [events, templates] = await Promise.all([
+    Event.countDocuments({ "emailTemplate.body": include }),
+    EmailTemplate.countDocuments({ body: include }),
+  ]);
+  return events + templates;
+}
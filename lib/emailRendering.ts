@@ -0,0 +1,244 @@
+/**
+ * Email Template Rendering
+ * Certificate emails are Handlebars templates, like certificate templates.
+ * Values are HTML-escaped unless written as {{{triple}}} mustaches, blocks
+ * such as {{#if participantEmail}} are available, and shared partials
+ * (see models/EmailPartial) are included with {{> name}}.
+ * Free of server imports so the template editor previews with the same code.
+ */
+
+import Handlebars from "handlebars";
+
+export const EMAIL_TEMPLATE_VARIABLES = [
+  "participantName",
+  "participantEmail",
+  "eventName",
+  "eventDate",
+  "certificateNumber",
+  "certificateLink",
+  "verificationLink",
+  "issueDate",
+  "organizer",
+  "qrCode",
+] as const;
+
+export type EmailTemplateVariable = (typeof EMAIL_TEMPLATE_VARIABLES)[number];
+
+export interface EmailVariables {
+  participantName: string;
+  participantEmail: string;
+  eventName: string;
+  eventDate: string;
+  certificateNumber: string;
+  certificateLink: string;
+  verificationLink: string;
+  issueDate: string;
+  organizer: string;
+  /** Inline QR image tag when the template embeds the QR code, empty otherwise */
+  qrCode: string;
+}
+
+/** Partial bodies by name, as used in {{> name}} */
+export type EmailPartials = Record<string, string>;
+
+const PARTIAL_NAME_PATTERN = /^[A-Za-z][\w-]{0,49}$/;
+
+export function isValidPartialName(name: string): boolean {
+  return PARTIAL_NAME_PATTERN.test(name);
+}
+
+/**
+ * Render an email subject or body
+ * @param template Handlebars source
+ * @param variables Values for the template
+ * @param options.partials Shared partials available to {{> name}}
+ * @param options.escape HTML-escape values (default true); off for subjects,
+ * which are plain text
+ * @throws If the template does not compile or includes a missing partial
+ */
+export function renderEmailTemplate(
+  template: string,
+  variables: EmailVariables,
+  options: { partials?: EmailPartials; escape?: boolean } = {},
+): string {
+  if (!template) return "";
+
+  // A separate environment, so partials never leak between renders
+  const handlebars = Handlebars.create();
+  handlebars.registerPartial(options.partials ?? {});
+  const render = handlebars.compile(template, {
+    noEscape: options.escape === false,
+  });
+  return render({
+    ...variables,
+    qrCode: new handlebars.SafeString(variables.qrCode),
+  });
+}
+
+const BUILT_IN_HELPERS = new Set([
+  "if",
+  "unless",
+  "each",
+  "with",
+  "lookup",
+  "log",
+]);
+// Blocks that change the context; names inside them are not variables
+const CONTEXT_HELPERS = new Set(["each", "with"]);
+
+// The parts of Handlebars AST nodes the checks below read
+interface TemplateNode {
+  type: string;
+  original?: string;
+  parts?: string[];
+  data?: boolean;
+  depth?: number;
+  path?: TemplateNode;
+  name?: TemplateNode;
+  params?: TemplateNode[];
+  hash?: { pairs: Array<{ value: TemplateNode }> };
+  body?: TemplateNode[];
+  program?: TemplateNode;
+  inverse?: TemplateNode;
+}
+
+/**
+ * Check a template before it is saved
+ * @param template Handlebars source
+ * @param options.partials Names of the partials that exist
+ * @param options.variables Variables the template may use (default
+ * EMAIL_TEMPLATE_VARIABLES)
+ * @returns Human-readable problems: syntax errors, unknown variables,
+ * helpers and partials. Empty when the template is fine.
+ */
+export function findTemplateProblems(
+  template: string,
+  options: { partials: string[]; variables?: readonly string[] },
+): string[] {
+  let program: TemplateNode;
+  try {
+    program = Handlebars.parse(template) as TemplateNode;
+  } catch (error: unknown) {
+    return [error instanceof Error ? error.message : "Invalid template"];
+  }
+
+  const variables = new Set<string>(
+    options.variables ?? EMAIL_TEMPLATE_VARIABLES,
+  );
+  const partials = new Set(options.partials);
+  const problems = new Set<string>();
+
+  const checkPath = (path: TemplateNode | undefined, inContext: boolean) => {
+    if (path?.type !== "PathExpression" || inContext) return;
+    if (path.data || path.depth || !path.parts?.length) return;
+    if (!variables.has(path.parts[0])) {
+      problems.add(`Unknown variable {{${path.original}}}`);
+    }
+  };
+
+  const checkCall = (node: TemplateNode, inContext: boolean) => {
+    const params = node.params ?? [];
+    const pairs = node.hash?.pairs ?? [];
+    if (
+      params.length > 0 ||
+      pairs.length > 0 ||
+      node.type === "BlockStatement"
+    ) {
+      const name = node.path?.original ?? "";
+      if (!BUILT_IN_HELPERS.has(name)) {
+        problems.add(`Unknown helper "${name}"`);
+      }
+    } else {
+      checkPath(node.path, inContext);
+    }
+    for (const param of params) visit(param, inContext);
+    for (const pair of pairs) visit(pair.value, inContext);
+  };
+
+  const visit = (node: TemplateNode | undefined, inContext: boolean): void => {
+    if (!node) return;
+    switch (node.type) {
+      case "Program":
+        for (const statement of node.body ?? []) visit(statement, inContext);
+        break;
+      case "MustacheStatement":
+      case "SubExpression":
+        checkCall(node, inContext);
+        break;
+      case "BlockStatement": {
+        checkCall(node, inContext);
+        const entersContext = CONTEXT_HELPERS.has(node.path?.original ?? "");
+        visit(node.program, inContext || entersContext);
+        visit(node.inverse, inContext);
+        break;
+      }
+      case "PartialStatement":
+      case "PartialBlockStatement": {
+        const name = node.name?.original ?? "";
+        if (!partials.has(name)) {
+          problems.add(`Unknown partial {{> ${name}}}`);
+        }
+        visit(node.program, inContext);
+        break;
+      }
+      case "PathExpression":
+        checkPath(node, inContext);
+        break;
+    }
+  };
+
+  visit(program, false);
+  return [...problems];
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== "#") return ENTITIES[code.toLowerCase()] ?? entity;
+    const value =
+      code[1].toLowerCase() === "x"
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+    // Out of Unicode's range, fromCodePoint would throw
+    return Number.isFinite(value) && value <= 0x10ffff
+      ? String.fromCodePoint(value)
+      : entity;
+  });
+}
+
+/**
+ * Plain-text alternative of an HTML email: block elements become line
+ * breaks, links keep their address, and images are dropped
+ */
+export function htmlToPlainText(html: string): string {
+  const text = html
+    .replace(/<(head|style|script|title)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<a\s[^>]*href\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi,
+      (_match, _quote, href: string, label: string) => {
+        const inner = label.replace(/<[^>]+>/g, "").trim();
+        return !inner || inner === href ? href : `${inner} (${href})`;
+      },
+    )
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr[^>]*>/gi, "\n----------\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|h[1-6]|li|tr|table|ul|ol|blockquote)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
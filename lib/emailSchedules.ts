@@ -0,0 +1,172 @@
+/**
+ * Scheduled Certificate Emails
+ * A schedule holds certificates (or a whole event) to email at a later time.
+ * The email cron worker turns due schedules into email jobs, which then
+ * deliver like any other send. Certificates of a whole-event schedule are
+ * collected when it runs, so certificates issued after scheduling are
+ * included.
+ */
+
+import mongoose from "mongoose";
+import Certificate, { ICertificate } from "@/models/Certificate";
+import EmailSchedule, {
+  EmailScheduleStatus,
+  IEmailSchedule,
+} from "@/models/EmailSchedule";
+import Event from "@/models/Event";
+import { createEmailJob, MAX_EMAILS_PER_JOB } from "./emailJobs";
+import { logger } from "./logger";
+
+// A schedule stuck in "queueing" this long is picked up again
+const QUEUEING_LEASE_MS = 5 * 60 * 1000;
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface EmailScheduleSummary {
+  id: string;
+  eventId: string;
+  eventTitle: string | null;
+  sendAt: Date;
+  status: EmailScheduleStatus;
+  /** Number of selected certificates; null for the whole event */
+  certificateCount: number | null;
+  createdBy: string;
+  jobIds: string[];
+  queued: number | null;
+  error: string | null;
+  createdAt: Date;
+}
+
+export function summarizeEmailSchedule(
+  schedule: IEmailSchedule,
+  eventTitle: string | null = null,
+): EmailScheduleSummary {
+  return {
+    id: schedule._id.toString(),
+    eventId: schedule.eventId.toString(),
+    eventTitle,
+    sendAt: schedule.sendAt,
+    status: schedule.status,
+    certificateCount: schedule.certificateIds?.length ?? null,
+    createdBy: schedule.createdBy,
+    jobIds: schedule.jobIds.map((jobId) => jobId.toString()),
+    queued: schedule.queued ?? null,
+    error: schedule.error ?? null,
+    createdAt: schedule.createdAt,
+  };
+}
+
+/**
+ * Read the time of a scheduled send
+ * @throws If the value is not a date in the future, or more than a year
+ * ahead
+ */
+export function parseSendAt(value: unknown): Date {
+  const sendAt =
+    typeof value === "string" || typeof value === "number"
+      ? new Date(value)
+      : null;
+  if (!sendAt || Number.isNaN(sendAt.getTime())) {
+    throw new Error("sendAt must be a valid date");
+  }
+  if (sendAt.getTime() <= Date.now()) {
+    throw new Error("sendAt must be in the future");
+  }
+  if (sendAt.getTime() - Date.now() > MAX_SCHEDULE_AHEAD_MS) {
+    throw new Error("sendAt must be within a year");
+  }
+  return sendAt;
+}
+
+/**
+ * Certificates a schedule emails when it runs. Revoked certificates and
+ * certificates without an email address are left out, as in the send
+ * dialog.
+ */
+async function findScheduledCertificates(
+  schedule: IEmailSchedule,
+): Promise<ICertificate[]> {
+  const certificates: ICertificate[] = await Certificate.find({
+    eventId: schedule.eventId,
+    ...(schedule.certificateIds
+      ? { _id: { $in: schedule.certificateIds } }
+      : {}),
+  }).select("_id eventId participantEmail revokedAt");
+
+  return certificates.filter(
+    (certificate) => certificate.participantEmail && !certificate.revokedAt,
+  );
+}
+
+async function claimDueSchedule(now: Date): Promise<IEmailSchedule | null> {
+  return EmailSchedule.findOneAndUpdate(
+    {
+      sendAt: { $lte: now },
+      $or: [
+        { status: "pending" },
+        {
+          status: "queueing",
+          claimedAt: { $lt: new Date(now.getTime() - QUEUEING_LEASE_MS) },
+        },
+      ],
+    },
+    { $set: { status: "queueing", claimedAt: now } },
+    { sort: { sendAt: 1 }, new: true },
+  );
+}
+
+async function queueSchedule(schedule: IEmailSchedule): Promise<void> {
+  if (!(await Event.exists({ _id: schedule.eventId }))) {
+    throw new Error("Event no longer exists");
+  }
+  const certificates = await findScheduledCertificates(schedule);
+  if (certificates.length === 0) {
+    throw new Error("No certificates with an email address to send");
+  }
+
+  // Whole events can be larger than one job
+  const jobIds: mongoose.Types.ObjectId[] = [];
+  for (let i = 0; i < certificates.length; i += MAX_EMAILS_PER_JOB) {
+    const job = await createEmailJob(
+      certificates.slice(i, i + MAX_EMAILS_PER_JOB),
+    );
+    jobIds.push(job._id);
+  }
+
+  await EmailSchedule.updateOne(
+    { _id: schedule._id },
+    { $set: { status: "queued", jobIds, queued: certificates.length } },
+  );
+  logger.info("EMAIL", "[EMAIL_SCHEDULE] Queued scheduled emails", {
+    scheduleId: schedule._id.toString(),
+    queued: certificates.length,
+    jobs: jobIds.length,
+  });
+}
+
+/**
+ * Turn every schedule that is due into email jobs
+ * @returns Number of schedules processed
+ */
+export async function startDueEmailSchedules(
+  now = new Date(),
+): Promise<number> {
+  let processed = 0;
+  let schedule: IEmailSchedule | null;
+  while ((schedule = await claimDueSchedule(now))) {
+    try {
+      await queueSchedule(schedule);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await EmailSchedule.updateOne(
+        { _id: schedule._id },
+        { $set: { status: "failed", error: message } },
+      );
+      logger.error("EMAIL", "[EMAIL_SCHEDULE] Scheduled send failed", {
+        scheduleId: schedule._id.toString(),
+        error: message,
+      });
+    }
+    processed++;
+  }
+  return processed;
+}
@@ -0,0 +1,105 @@
+/**
+ * Email Template Library
+ * Events either keep their own email template or link to a library template
+ * (see models/EmailTemplate) and override some of its fields. Email jobs
+ * snapshot the resolved template when they are queued, so later library
+ * edits do not change emails that were already sent or are on their way.
+ */
+
+import type mongoose from "mongoose";
+import { findEmailTemplateProblems } from "./emailPartials";
+import EmailTemplate, {
+  EmailTemplateContent,
+  IEmailTemplate,
+} from "@/models/EmailTemplate";
+import type { IEvent } from "@/models/Event";
+
+export interface ResolvedEmailTemplate extends EmailTemplateContent {
+  /** Library template the content is based on */
+  emailTemplateId?: mongoose.Types.ObjectId;
+  emailTemplateName?: string;
+}
+
+/**
+ * Apply an event's overrides to a library template
+ * @returns The template to send, null when subject or body is missing
+ */
+export function mergeEmailTemplate(
+  library: EmailTemplateContent | null,
+  overrides: Partial<EmailTemplateContent> | undefined,
+): EmailTemplateContent | null {
+  const subject = overrides?.subject || library?.subject;
+  const body = overrides?.body || library?.body;
+  if (!subject || !body) return null;
+
+  return {
+    subject,
+    body,
+    attachPdf: overrides?.attachPdf ?? library?.attachPdf ?? false,
+    inlineQr: overrides?.inlineQr ?? library?.inlineQr ?? false,
+  };
+}
+
+/**
+ * The email template an event sends: its linked library template with the
+ * event's overrides, or the event's own template
+ * @returns null when the event has no usable template
+ */
+export async function resolveEmailTemplate(
+  event: Pick<IEvent, "emailTemplate" | "emailTemplateId">,
+): Promise<ResolvedEmailTemplate | null> {
+  // Archived templates keep working for the events that already use them
+  const library: IEmailTemplate | null = event.emailTemplateId
+    ? await EmailTemplate.findById(event.emailTemplateId)
+    : null;
+  const content = mergeEmailTemplate(library, event.emailTemplate);
+  if (!content) return null;
+
+  return library
+    ? {
+        ...content,
+        emailTemplateId: library._id,
+        emailTemplateName: library.name,
+      }
+    : content;
+}
+
+/**
+ * The fields an event stores for its template: everything without a library
+ * template, otherwise only what differs from it, so that the event follows
+ * later library edits of the rest
+ */
+export function getEmailTemplateOverrides(
+  content: EmailTemplateContent,
+  library: EmailTemplateContent | null,
+): Partial<EmailTemplateContent> {
+  if (!library) return content;
+
+  const overrides: Partial<EmailTemplateContent> = {};
+  if (content.subject !== library.subject) overrides.subject = content.subject;
+  if (content.body !== library.body) overrides.body = content.body;
+  if (Boolean(content.attachPdf) !== Boolean(library.attachPdf)) {
+    overrides.attachPdf = content.attachPdf;
+  }
+  if (Boolean(content.inlineQr) !== Boolean(library.inlineQr)) {
+    overrides.inlineQr = content.inlineQr;
+  }
+  return overrides;
+}
+
+/**
+ * Problems in the subject and body of a template, prefixed with the field
+ * they are in
+ */
+export async function findEmailContentProblems(
+  content: Pick<EmailTemplateContent, "subject" | "body">,
+): Promise<string[]> {
+  const [subjectProblems, bodyProblems] = await Promise.all([
+    findEmailTemplateProblems(content.subject),
+    findEmailTemplateProblems(content.body),
+  ]);
+  return [
+    ...subjectProblems.map((problem) => `Subject: ${problem}`),
+    ...bodyProblems.map((problem) => `Body: ${problem}`),
+  ];
+}
@@ -0,0 +1,258 @@
+/**
+ * Email Delivery Tracking
+ * Certificate emails carry an open pixel and send their certificate and
+ * verification links through a click redirect, both keyed by an
+ * HMAC-signed certificate ID. Bounce reports (see lib/bounceParser) are
+ * matched to certificates by message ID, falling back to the recipient.
+ * Every signal is stored as an EmailEvent, and the state of the latest
+ * send is summarized on the certificate.
+ * Set EMAIL_TRACKING=off to send plain links without a pixel.
+ */
+
+import crypto from "crypto";
+import mongoose from "mongoose";
+import { buildDownloadUrl } from "./downloadLinks";
+import { normalizeMessageId, type BounceReport } from "./bounceParser";
+import { logger } from "./logger";
+import Certificate, { ICertificate } from "@/models/Certificate";
+import EmailEvent, {
+  type BounceSource,
+  type TrackedLink,
+} from "@/models/EmailEvent";
+
+// 1x1 transparent GIF
+export const TRACKING_PIXEL = Buffer.from(
+  "R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7",
+  "base64",
+);
+
+export function isEmailTrackingEnabled(): boolean {
+  return process.env.EMAIL_TRACKING !== "off";
+}
+
+export function isTrackedLink(value: unknown): value is TrackedLink {
+  return value === "certificate" || value === "verification";
+}
+
+function getTrackingSecret(): string {
+  const secret = process.env.EMAIL_TRACKING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error(
+      "EMAIL_TRACKING_SECRET or JWT_SECRET must be defined to sign tracking links",
+    );
+  }
+  return secret;
+}
+
+function computeSignature(certificateId: string): string {
+  return crypto
+    .createHmac("sha256", getTrackingSecret())
+    .update(`email-tracking:${certificateId}`)
+    .digest("base64url");
+}
+
+/**
+ * Sign the token identifying a certificate in tracking URLs
+ * @returns Token in the form "<certificate ID>.<signature>"
+ */
+export function signTrackingToken(certificateId: string): string {
+  return `${certificateId}.${computeSignature(certificateId)}`;
+}
+
+/**
+ * @returns The certificate ID of a valid tracking token, null otherwise
+ */
+export function verifyTrackingToken(token: string): string | null {
+  const [certificateId, signature] = token.split(".");
+  if (!signature || !mongoose.isValidObjectId(certificateId)) return null;
+
+  const expected = Buffer.from(computeSignature(certificateId));
+  const received = Buffer.from(signature);
+  return expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+    ? certificateId
+    : null;
+}
+
+function getBaseUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || "").replace(/\/+$/, "");
+}
+
+export function buildOpenPixelUrl(certificateId: string): string {
+  return `${getBaseUrl()}/api/email/open/${signTrackingToken(certificateId)}`;
+}
+
+/**
+ * URL of the click redirect for a link in the certificate email
+ * @param downloadToken - Signed download token, passed on to the download
+ * route so private links keep their expiry
+ */
+export function buildClickUrl(
+  certificateId: string,
+  link: TrackedLink,
+  downloadToken?: string,
+): string {
+  const query = new URLSearchParams({ link });
+  if (downloadToken) query.set("download", downloadToken);
+  return `${getBaseUrl()}/api/email/click/${signTrackingToken(certificateId)}?${query}`;
+}
+
+/**
+ * Where the click redirect sends the participant
+ */
+export function getClickTarget(
+  certificateNumber: string,
+  link: TrackedLink,
+  downloadToken?: string,
+): string {
+  return link === "certificate"
+    ? buildDownloadUrl(certificateNumber, { token: downloadToken })
+    : `${getBaseUrl()}/verify/${certificateNumber}`;
+}
+
+/**
+ * Certificate update for a successful send: keeps the message ID for bounce
+ * matching and clears the tracking state of the previous send
+ */
+export function getSentEmailUpdate(messageId: string, attempts: number) {
+  return {
+    $set: {
+      emailSentAt: new Date(),
+      emailStatus: "sent",
+      emailError: "",
+      emailAttempts: attempts,
+      emailMessageId: normalizeMessageId(messageId),
+    },
+    $unset: {
+      emailOpenedAt: "",
+      emailClickedAt: "",
+      emailBouncedAt: "",
+      emailBounceReason: "",
+    },
+  };
+}
+
+/**
+ * Record an open or a link click. Opens and clicks only count the first
+ * time on the certificate; every one is kept as an EmailEvent.
+ */
+export async function recordEngagement(
+  certificate: Pick<ICertificate, "_id" | "eventId" | "emailMessageId">,
+  type: "open" | "click",
+  details: { link?: TrackedLink; userAgent?: string | null } = {},
+): Promise<void> {
+  const occurredAt = new Date();
+  await EmailEvent.create({
+    certificateId: certificate._id,
+    eventId: certificate.eventId,
+    type,
+    messageId: certificate.emailMessageId,
+    link: details.link,
+    userAgent: details.userAgent || undefined,
+    occurredAt,
+  });
+
+  // A click means the email was opened, even if images were blocked.
+  // $min only sets the dates the first time.
+  await Certificate.updateOne(
+    { _id: certificate._id },
+    {
+      $min:
+        type === "click"
+          ? { emailOpenedAt: occurredAt, emailClickedAt: occurredAt }
+          : { emailOpenedAt: occurredAt },
+    },
+  );
+}
+
+async function findBouncedCertificate(
+  report: BounceReport,
+): Promise<ICertificate | null> {
+  if (report.messageId) {
+    const certificate: ICertificate | null = await Certificate.findOne({
+      emailMessageId: report.messageId,
+    });
+    if (certificate) return certificate;
+  }
+  if (report.recipient) {
+    return Certificate.findOne({
+      participantEmail: report.recipient.toLowerCase(),
+      emailSentAt: { $exists: true },
+    }).sort({ emailSentAt: -1 });
+  }
+  return null;
+}
+
+export interface BounceImportResult {
+  recorded: number;
+  duplicates: number;
+  unmatched: number;
+}
+
+/**
+ * Store bounce reports against the certificates they belong to. Reports
+ * already recorded (webhook retries, mailboxes imported twice) are skipped.
+ * Hard bounces mark the certificate as bounced.
+ * @returns Counts, and the certificates that got a new bounce
+ */
+export async function recordBounces(
+  reports: BounceReport[],
+  source: BounceSource,
+): Promise<BounceImportResult & { certificateIds: string[] }> {
+  const result: BounceImportResult = {
+    recorded: 0,
+    duplicates: 0,
+    unmatched: 0,
+  };
+  const certificateIds = new Set<string>();
+
+  for (const report of reports) {
+    const certificate = await findBouncedCertificate(report);
+    if (!certificate) {
+      result.unmatched++;
+      continue;
+    }
+
+    const occurredAt = report.occurredAt ?? new Date();
+    const existing = await EmailEvent.exists({
+      certificateId: certificate._id,
+      type: "bounce",
+      occurredAt,
+      reason: report.reason,
+    });
+    if (existing) {
+      result.duplicates++;
+      continue;
+    }
+
+    await EmailEvent.create({
+      certificateId: certificate._id,
+      eventId: certificate.eventId,
+      type: "bounce",
+      messageId: report.messageId ?? certificate.emailMessageId,
+      permanent: report.permanent,
+      reason: report.reason,
+      source,
+      occurredAt,
+    });
+    if (report.permanent) {
+      await Certificate.updateOne(
+        { _id: certificate._id },
+        {
+          $set: {
+            emailBouncedAt: occurredAt,
+            emailBounceReason: report.reason,
+          },
+        },
+      );
+    }
+    certificateIds.add(certificate._id.toString());
+    result.recorded++;
+  }
+
+  logger.info("EMAIL", `Processed ${reports.length} bounce report(s)`, {
+    source,
+    ...result,
+  });
+  return { ...result, certificateIds: [...certificateIds] };
+}
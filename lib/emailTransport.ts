@@ -0,0 +1,208 @@
+/**
+ * Email Transport
+ * Selects the driver outgoing email is handed to
+ * (EMAIL_TRANSPORT = smtp | ses | mailgun | file, default smtp) and spaces
+ * sends out to stay within the driver's rate limit
+ * (<DRIVER>_RATE_LIMIT messages per second). The limit is kept per server
+ * instance, so it should be set with the number of instances in mind.
+ */
+
+import { htmlToPlainText } from "./emailRendering";
+import { fileEmailTransport } from "./fileEmailTransport";
+import { logger } from "./logger";
+import { mailgunEmailTransport } from "./mailgunEmailTransport";
+import { sesEmailTransport } from "./sesEmailTransport";
+import { smtpEmailTransport } from "./smtpEmailTransport";
+
+export const EMAIL_TRANSPORTS = ["smtp", "ses", "mailgun", "file"] as const;
+
+export type EmailTransportName = (typeof EMAIL_TRANSPORTS)[number];
+
+export interface EmailSender {
+  name: string;
+  address: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+  /**
+   * Content-ID of an image shown in the body through a "cid:" URL. Keep it
+   * equal to the filename; Mailgun refers to inline files by name.
+   */
+  cid?: string;
+}
+
+export interface OutgoingEmail {
+  /** Formatted sender, e.g. "E-Cell RGPV" <certs@example.com> */
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  /** Plain-text alternative; generated from the HTML by sendEmail */
+  text?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  /** Messages per second used when <DRIVER>_RATE_LIMIT is not set; 0 means unlimited */
+  readonly defaultRateLimit: number;
+  isConfigured(): boolean;
+  /** @returns The message ID assigned by the provider */
+  send(message: OutgoingEmail): Promise<string>;
+}
+
+const TRANSPORTS: Record<EmailTransportName, EmailTransport> = {
+  smtp: smtpEmailTransport,
+  ses: sesEmailTransport,
+  mailgun: mailgunEmailTransport,
+  file: fileEmailTransport,
+};
+
+// Earliest time the next message may go out, per transport
+const nextSendAt = new Map<EmailTransportName, number>();
+
+export function isEmailTransportName(
+  value: unknown,
+): value is EmailTransportName {
+  return (
+    typeof value === "string" &&
+    (EMAIL_TRANSPORTS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Name of the transport new email is sent with
+ * @throws If EMAIL_TRANSPORT is set to an unknown transport
+ */
+export function getActiveEmailTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT || "smtp";
+  if (!isEmailTransportName(configured)) {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${configured}"`);
+  }
+  return configured;
+}
+
+export function getEmailTransport(
+  name: EmailTransportName = getActiveEmailTransportName(),
+): EmailTransport {
+  return TRANSPORTS[name];
+}
+
+/**
+ * Check if the active email transport is configured
+ * @returns true if email can be sent
+ */
+export function isEmailConfigured(): boolean {
+  try {
+    return (
+      getEmailTransport().isConfigured() && Boolean(getEmailSender().address)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Address outgoing email is sent from (EMAIL_FROM_ADDRESS and
+ * EMAIL_FROM_NAME, falling back to the Gmail settings)
+ */
+export function getEmailSender(): EmailSender {
+  return {
+    name:
+      process.env.EMAIL_FROM_NAME ||
+      process.env.GMAIL_FROM_NAME ||
+      "E-Cell RGPV",
+    address: process.env.EMAIL_FROM_ADDRESS || process.env.GMAIL_USER || "",
+  };
+}
+
+/**
+ * Messages per second allowed for a transport
+ * @returns 0 if sends are not throttled
+ */
+export function getEmailRateLimit(transport: EmailTransport): number {
+  const configured = Number(
+    process.env[`${transport.name.toUpperCase()}_RATE_LIMIT`],
+  );
+  return Number.isFinite(configured) && configured >= 0
+    ? configured
+    : transport.defaultRateLimit;
+}
+
+/**
+ * Wait until the transport's rate limit allows another message. Slots are
+ * reserved synchronously, so concurrent callers queue up behind each other.
+ */
+async function waitForSendSlot(transport: EmailTransport): Promise<void> {
+  const rateLimit = getEmailRateLimit(transport);
+  if (rateLimit <= 0) return;
+
+  const now = Date.now();
+  const slot = Math.max(now, nextSendAt.get(transport.name) ?? 0);
+  nextSendAt.set(transport.name, slot + 1000 / rateLimit);
+  if (slot > now) {
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+/**
+ * Tell failures that retrying cannot fix (rejected recipient, bad
+ * credentials, invalid message) apart from transient ones such as timeouts,
+ * throttling and provider outages
+ */
+export function isPermanentEmailError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const { status, responseCode, code } = error as Error & {
+    status?: number;
+    responseCode?: number;
+    code?: string;
+  };
+
+  // HTTP API transports
+  if (typeof status === "number") {
+    return status >= 400 && status < 500 && status !== 408 && status !== 429;
+  }
+  // SMTP reply codes: 4xx are temporary, 5xx are final
+  if (typeof responseCode === "number") {
+    return responseCode >= 500;
+  }
+  return (
+    code === "EAUTH" ||
+    code === "EENVELOPE" ||
+    error.message === "Email service is not configured"
+  );
+}
+
+/** Format a sender for the From header */
+function formatEmailSender(sender: EmailSender): string {
+  return `"${sender.name.replace(/["\\]/g, "")}" <${sender.address}>`;
+}
+
+/**
+ * Send one message through the active transport
+ * @returns The provider's message ID
+ * @throws If no transport is configured or the provider rejects the message
+ */
+export async function sendEmail(
+  message: Omit<OutgoingEmail, "from">,
+): Promise<string> {
+  const transport = getEmailTransport();
+  const from = getEmailSender();
+  if (!transport.isConfigured() || !from.address) {
+    logger.error(
+      "EMAIL",
+      `Email transport "${transport.name}" is not configured in environment variables`,
+    );
+    throw new Error("Email service is not configured");
+  }
+
+  await waitForSendSlot(transport);
+  return transport.send({
+    ...message,
+    text: message.text ?? htmlToPlainText(message.html),
+    from: formatEmailSender(from),
+  });
+}
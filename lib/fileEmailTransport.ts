@@ -0,0 +1,34 @@
+/**
+ * File Email Transport
+ * Writes every message as an .eml file under EMAIL_FILE_DIR (default
+ * ./emails) instead of delivering it. Meant for development and tests;
+ * the files open in any mail client.
+ */
+
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { composeMimeMessage } from "./emailMime";
+import type { EmailTransport } from "./emailTransport";
+import { logger } from "./logger";
+
+export const fileEmailTransport: EmailTransport = {
+  name: "file",
+  defaultRateLimit: 0,
+
+  isConfigured() {
+    return true;
+  },
+
+  async send(message) {
+    const { messageId, raw } = await composeMimeMessage(message);
+
+    const directory = path.resolve(process.env.EMAIL_FILE_DIR || "emails");
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID()}.eml`;
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, fileName), raw);
+
+    logger.info("EMAIL", `Wrote email for ${message.to} to ${fileName}`);
+    return messageId;
+  },
+};
@@ -0,0 +1,562 @@
+/**
+ * Certificate Generation Jobs
+ * Mongo-backed queue for bulk generation and regeneration. Rows are claimed
+ * one at a time with an atomic update, so several workers (the run endpoint
+ * polled by the import and regenerate modals, the cron endpoint) can drain the
+ * same job safely. Rows left "running" by a worker that died are put back on
+ * the queue once their lease expires.
+ */
+
+import crypto from "crypto";
+import mongoose from "mongoose";
+import Certificate from "@/models/Certificate";
+import Event, { IEvent } from "@/models/Event";
+import Team, { ITeam } from "@/models/Team";
+import GenerationJob, {
+  IGenerationJob,
+  IGenerationJobRow,
+  GenerationJobKind,
+  GenerationJobStatus,
+} from "@/models/GenerationJob";
+import { getRenderConcurrency } from "./browserPool";
+import {
+  allocateCertificateNumber,
+  issueCertificate,
+  regenerateCertificate,
+} from "./certificateIssuer";
+import type { ImportRowData } from "./importValidation";
+import { logger } from "./logger";
+import { DEFAULT_TEAM_ISSUE_MODE, TeamIssueMode } from "./teamIssueModes";
+import { sharedTeamDetails } from "./teams";
+
+export const MAX_ROWS_PER_JOB = 2000;
+const ROW_LEASE_MS = 3 * 60 * 1000;
+const MAX_ROW_ATTEMPTS = 3;
+
+export interface GenerationJobSummary {
+  id: string;
+  eventId: string;
+  kind: GenerationJobKind;
+  status: GenerationJobStatus;
+  total: number;
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  errors: Array<{ index: number; participantName: string; error: string }>;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+export function summarizeGenerationJob(
+  job: IGenerationJob,
+): GenerationJobSummary {
+  const count = (status: IGenerationJobRow["status"]) =>
+    job.rows.filter((row) => row.status === status).length;
+
+  return {
+    id: job._id.toString(),
+    eventId: job.eventId.toString(),
+    kind: job.kind ?? "issue",
+    status: job.status,
+    total: job.rows.length,
+    queued: count("queued"),
+    running: count("running"),
+    succeeded: count("succeeded"),
+    failed: count("failed"),
+    errors: job.rows
+      .filter((row) => row.status === "failed")
+      .map((row) => ({
+        index: row.index,
+        participantName: row.data.participantName,
+        error: row.error || "Unknown error",
+      })),
+    createdAt: job.createdAt,
+    startedAt: job.startedAt ?? null,
+    finishedAt: job.finishedAt ?? null,
+  };
+}
+
+function toJobRowData(data: ImportRowData): ImportRowData {
+  return {
+    participantName: data.participantName.trim(),
+    participantEmail: data.participantEmail?.trim() || undefined,
+    eventName: data.eventName,
+    eventStartDate: data.eventStartDate,
+    eventEndDate: data.eventEndDate,
+    certificateNumber:
+      data.certificateNumber?.trim().toUpperCase() || undefined,
+    achievementType: data.achievementType,
+    teamName: data.teamName?.trim() || undefined,
+    customFields: data.customFields,
+  };
+}
+
+/**
+ * Teams of the event with a team certificate, issued or still queued in an
+ * unfinished job
+ */
+async function getCertifiedTeamIds(
+  eventId: mongoose.Types.ObjectId,
+  teams: ITeam[],
+): Promise<Set<string>> {
+  const issued: mongoose.Types.ObjectId[] = await Certificate.distinct(
+    "teamId",
+    {
+      eventId,
+      isTeamCertificate: true,
+      teamId: { $in: teams.map((team) => team._id) },
+    },
+  );
+  const jobs: IGenerationJob[] = await GenerationJob.find(
+    {
+      eventId,
+      kind: { $ne: "regenerate" },
+      status: { $in: ["queued", "running"] },
+    },
+    { rows: 1 },
+  );
+
+  const certified = new Set(issued.map((teamId) => teamId.toString()));
+  for (const job of jobs) {
+    for (const row of job.rows) {
+      if (
+        row.isTeamCertificate &&
+        row.teamId &&
+        (row.status === "queued" || row.status === "running")
+      ) {
+        certified.add(row.teamId.toString());
+      }
+    }
+  }
+  return certified;
+}
+
+/**
+ * Queue a job for the given event from validated import rows. Rows of a
+ * team issue member certificates, a team certificate (queued after the
+ * rows, one per team) or both, depending on `teamMode`. Teams that already
+ * have a team certificate, issued or queued, don't get another one.
+ * @param teams - The event's teams named by the rows, see saveImportTeams
+ */
+export async function createGenerationJob(
+  eventId: mongoose.Types.ObjectId,
+  rows: Array<{ index: number; data: ImportRowData }>,
+  teams: Map<string, ITeam> = new Map(),
+  teamMode: TeamIssueMode = DEFAULT_TEAM_ISSUE_MODE,
+): Promise<IGenerationJob> {
+  const memberRows = rows
+    .filter(({ data }) => !data.teamName || teamMode !== "team")
+    .map(({ index, data }) => ({
+      index,
+      data: toJobRowData(data),
+      teamId: data.teamName ? teams.get(data.teamName)?._id : undefined,
+      status: "queued",
+      attempts: 0,
+    }));
+
+  const certifiedTeams =
+    teamMode === "members"
+      ? new Set<string>()
+      : await getCertifiedTeamIds(eventId, [...teams.values()]);
+
+  let nextIndex = Math.max(0, ...rows.map(({ index }) => index)) + 1;
+  const teamRows =
+    teamMode === "members"
+      ? []
+      : [...teams.values()]
+          .filter((team) => !certifiedTeams.has(team._id.toString()))
+          .map((team) => ({
+            index: nextIndex++,
+            data: {
+              participantName: team.name,
+              teamName: team.name,
+              ...sharedTeamDetails(
+                rows
+                  .map(({ data }) => data)
+                  .filter((data) => data.teamName === team.name),
+              ),
+            },
+            teamId: team._id,
+            isTeamCertificate: true,
+            status: "queued",
+            attempts: 0,
+          }));
+
+  return GenerationJob.create({
+    eventId,
+    status: "queued",
+    rows: [...memberRows, ...teamRows],
+  });
+}
+
+/**
+ * Queue a job that re-renders existing certificates of an event
+ */
+export async function createRegenerationJob(
+  eventId: mongoose.Types.ObjectId,
+  certificates: Array<{
+    _id: mongoose.Types.ObjectId;
+    participantName: string;
+    certificateNumber: string;
+  }>,
+): Promise<IGenerationJob> {
+  return GenerationJob.create({
+    eventId,
+    kind: "regenerate",
+    status: "queued",
+    rows: certificates.map((certificate, position) => ({
+      index: position + 1,
+      data: { participantName: certificate.participantName },
+      status: "queued",
+      attempts: 0,
+      certificateNumber: certificate.certificateNumber,
+      certificateId: certificate._id,
+    })),
+  });
+}
+
+/**
+ * Certificate IDs that an unfinished regeneration job of the event still has
+ * to process
+ */
+export async function getPendingRegenerationIds(
+  eventId: mongoose.Types.ObjectId | string,
+): Promise<Set<string>> {
+  const jobs: IGenerationJob[] = await GenerationJob.find(
+    { eventId, kind: "regenerate", status: { $in: ["queued", "running"] } },
+    { rows: 1 },
+  );
+
+  const pending = new Set<string>();
+  for (const job of jobs) {
+    for (const row of job.rows) {
+      if (
+        row.certificateId &&
+        (row.status === "queued" || row.status === "running")
+      ) {
+        pending.add(row.certificateId.toString());
+      }
+    }
+  }
+  return pending;
+}
+
+/**
+ * Put rows whose worker stopped responding back on the queue, or fail them
+ * once they have used up their attempts.
+ */
+export async function requeueStaleRows(
+  jobId: mongoose.Types.ObjectId | string,
+): Promise<void> {
+  const staleBefore = new Date(Date.now() - ROW_LEASE_MS);
+
+  await GenerationJob.updateOne(
+    { _id: jobId },
+    {
+      $set: {
+        "rows.$[stale].status": "failed",
+        "rows.$[stale].error":
+          "Generation was interrupted too many times; giving up",
+        "rows.$[stale].finishedAt": new Date(),
+      },
+      $unset: { "rows.$[stale].claimId": "" },
+    },
+    {
+      arrayFilters: [
+        {
+          "stale.status": "running",
+          "stale.startedAt": { $lt: staleBefore },
+          "stale.attempts": { $gte: MAX_ROW_ATTEMPTS },
+        },
+      ],
+    },
+  );
+
+  await GenerationJob.updateOne(
+    { _id: jobId },
+    {
+      $set: { "rows.$[stale].status": "queued" },
+      $unset: { "rows.$[stale].claimId": "" },
+    },
+    {
+      arrayFilters: [
+        {
+          "stale.status": "running",
+          "stale.startedAt": { $lt: staleBefore },
+        },
+      ],
+    },
+  );
+}
+
+async function claimNextRow(
+  jobId: mongoose.Types.ObjectId | string,
+): Promise<{ claimId: string; row: IGenerationJobRow } | null> {
+  const claimId = crypto.randomUUID();
+  const now = new Date();
+
+  const job: IGenerationJob | null = await GenerationJob.findOneAndUpdate(
+    {
+      _id: jobId,
+      status: { $in: ["queued", "running"] },
+      "rows.status": "queued",
+    },
+    {
+      $set: {
+        status: "running",
+        "rows.$.status": "running",
+        "rows.$.claimId": claimId,
+        "rows.$.startedAt": now,
+      },
+      $inc: { "rows.$.attempts": 1 },
+      $min: { startedAt: now },
+    },
+    { new: true },
+  );
+
+  const row = job?.rows.find((candidate) => candidate.claimId === claimId);
+  return row ? { claimId, row } : null;
+}
+
+async function updateClaimedRow(
+  jobId: mongoose.Types.ObjectId | string,
+  claimId: string,
+  fields: Partial<IGenerationJobRow>,
+): Promise<void> {
+  const $set: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    $set[`rows.$[claimed].${key}`] = value;
+  }
+
+  await GenerationJob.updateOne(
+    { _id: jobId },
+    { $set },
+    { arrayFilters: [{ "claimed.claimId": claimId }] },
+  );
+}
+
+async function processClaimedRow(
+  event: IEvent,
+  jobId: mongoose.Types.ObjectId | string,
+  claimId: string,
+  row: IGenerationJobRow,
+): Promise<void> {
+  try {
+    // A previous attempt may have saved the certificate before its worker
+    // died; finish the row instead of issuing a duplicate.
+    if (row.attempts > 1 && row.certificateNumber) {
+      const existing = await Certificate.findOne({
+        certificateNumber: row.certificateNumber,
+        eventId: event._id,
+      }).select("_id");
+      if (existing) {
+        await updateClaimedRow(jobId, claimId, {
+          status: "succeeded",
+          certificateId: existing._id,
+          finishedAt: new Date(),
+        });
+        return;
+      }
+    }
+
+    const certificateNumber =
+      row.certificateNumber ||
+      row.data.certificateNumber ||
+      (await allocateCertificateNumber(event.numberScheme));
+    if (certificateNumber !== row.certificateNumber) {
+      await updateClaimedRow(jobId, claimId, { certificateNumber });
+    }
+
+    const team: ITeam | null = row.teamId
+      ? await Team.findById(row.teamId)
+      : null;
+    if (row.teamId && !team) {
+      throw new Error("Team no longer exists");
+    }
+
+    const certificate = await issueCertificate(event, {
+      participantName: row.data.participantName,
+      participantEmail: row.isTeamCertificate
+        ? undefined
+        : row.data.participantEmail,
+      certificateNumber,
+      achievementType: row.data.achievementType,
+      customFields: row.data.customFields,
+      team: team ?? undefined,
+      isTeamCertificate: row.isTeamCertificate,
+    });
+
+    await updateClaimedRow(jobId, claimId, {
+      status: "succeeded",
+      certificateId: certificate._id,
+      finishedAt: new Date(),
+    });
+    logger.info("CERT", `[GENERATION_JOB] Created ${certificateNumber}`, {
+      jobId: jobId.toString(),
+      row: row.index,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await updateClaimedRow(jobId, claimId, {
+      status: "failed",
+      error: message,
+      finishedAt: new Date(),
+    });
+    logger.error("CERT", "[GENERATION_JOB] Row failed", {
+      jobId: jobId.toString(),
+      row: row.index,
+      error: message,
+    });
+  }
+}
+
+async function processRegenerationRow(
+  event: IEvent,
+  jobId: mongoose.Types.ObjectId | string,
+  claimId: string,
+  row: IGenerationJobRow,
+): Promise<void> {
+  try {
+    if (!row.certificateId) {
+      throw new Error("Row has no certificate to regenerate");
+    }
+    await regenerateCertificate(event, row.certificateId);
+
+    await updateClaimedRow(jobId, claimId, {
+      status: "succeeded",
+      finishedAt: new Date(),
+    });
+    logger.info(
+      "CERT",
+      `[GENERATION_JOB] Regenerated ${row.certificateNumber}`,
+      { jobId: jobId.toString(), row: row.index },
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await updateClaimedRow(jobId, claimId, {
+      status: "failed",
+      error: message,
+      finishedAt: new Date(),
+    });
+    logger.error("CERT", "[GENERATION_JOB] Regeneration failed", {
+      jobId: jobId.toString(),
+      row: row.index,
+      error: message,
+    });
+  }
+}
+
+async function finalizeJob(
+  jobId: mongoose.Types.ObjectId | string,
+): Promise<void> {
+  await GenerationJob.updateOne(
+    {
+      _id: jobId,
+      status: { $in: ["queued", "running"] },
+      rows: {
+        $not: { $elemMatch: { status: { $in: ["queued", "running"] } } },
+      },
+    },
+    { $set: { status: "completed", finishedAt: new Date() } },
+  );
+}
+
+/**
+ * Drain rows from a job until it is empty or the deadline passes
+ * @param deadline - Epoch milliseconds after which no new row is claimed
+ * @returns Number of rows processed in this run
+ */
+export async function runGenerationJob(
+  jobId: mongoose.Types.ObjectId | string,
+  deadline: number,
+): Promise<number> {
+  const job: IGenerationJob | null = await GenerationJob.findById(jobId, {
+    eventId: 1,
+    kind: 1,
+    status: 1,
+  });
+  if (!job || job.status === "completed" || job.status === "cancelled") {
+    return 0;
+  }
+
+  const event: IEvent | null = await Event.findById(job.eventId);
+  if (!event) {
+    await GenerationJob.updateOne(
+      { _id: jobId },
+      {
+        $set: {
+          status: "completed",
+          finishedAt: new Date(),
+          "rows.$[open].status": "failed",
+          "rows.$[open].error": "Event no longer exists",
+        },
+      },
+      { arrayFilters: [{ "open.status": { $in: ["queued", "running"] } }] },
+    );
+    return 0;
+  }
+
+  await requeueStaleRows(jobId);
+  const processRow =
+    job.kind === "regenerate" ? processRegenerationRow : processClaimedRow;
+
+  // Each lane claims its own rows; the browser pool caps how many render at once
+  let processed = 0;
+  const lanes = Array.from({ length: getRenderConcurrency() }, async () => {
+    while (Date.now() < deadline) {
+      const claimed = await claimNextRow(jobId);
+      if (!claimed) break;
+      await processRow(event, jobId, claimed.claimId, claimed.row);
+      processed++;
+    }
+  });
+  await Promise.all(lanes);
+
+  await finalizeJob(jobId);
+  return processed;
+}
+
+/**
+ * Drain every unfinished job, oldest first, until the deadline passes
+ */
+export async function runPendingGenerationJobs(
+  deadline: number,
+): Promise<{ jobs: number; rows: number }> {
+  const pending: IGenerationJob[] = await GenerationJob.find({
+    status: { $in: ["queued", "running"] },
+  })
+    .sort({ createdAt: 1 })
+    .select("_id");
+
+  let jobs = 0;
+  let rows = 0;
+  for (const job of pending) {
+    if (Date.now() >= deadline) break;
+    rows += await runGenerationJob(job._id, deadline);
+    jobs++;
+  }
+  return { jobs, rows };
+}
+
+/**
+ * Stop a job: rows still waiting are marked failed, rows already rendering
+ * are allowed to finish.
+ */
+export async function cancelGenerationJob(
+  jobId: mongoose.Types.ObjectId | string,
+): Promise<IGenerationJob | null> {
+  return GenerationJob.findOneAndUpdate(
+    { _id: jobId, status: { $in: ["queued", "running"] } },
+    {
+      $set: {
+        status: "cancelled",
+        finishedAt: new Date(),
+        "rows.$[waiting].status": "failed",
+        "rows.$[waiting].error": "Cancelled",
+      },
+    },
+    { new: true, arrayFilters: [{ "waiting.status": "queued" }] },
+  );
+}
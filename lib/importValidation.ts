@@ -10,6 +10,11 @@ export interface ImportRowData {
   eventStartDate: string;
   eventEndDate: string;
   certificateNumber?: string;
+  achievementType?: AchievementType;
+  /** Rows with the same team name are members of one team */
+  teamName?: string;
+  /** Values of the "custom:" columns, see findCustomFieldColumns */
+  customFields?: Record<string, string>;
 }
 
 export interface ValidatedImportRow {
@@ -32,8 +37,27 @@ const COLUMNS: Record<string, string[]> = {
   ],
   eventEndDate: ["eventenddate", "event end date", "end date", "enddate"],
   certificateNumber: ["certificatenumber", "certificate number"],
+  achievementType: [
+    "achievementtype",
+    "achievement type",
+    "achievement",
+    "certificate type",
+  ],
+  teamName: ["team", "teamname", "team name"],
 };
 
+export const MAX_TEAM_NAME_LENGTH = 100;
+
+// Only marked columns are kept, so registration columns (phone, roll number)
+// are never stored by accident
+const CUSTOM_FIELD_HEADER_PATTERN = /^\s*custom\s*:(.*)$/i;
+
+/** A column that is read into a custom field */
+export interface CustomFieldColumn {
+  index: number;
+  key: string;
+}
+
 function normalizeHeader(h: string): string {
   return String(h ?? "")
     .trim()
@@ -56,6 +80,30 @@ function findColumnKey(headers: string[]): Record<string, number> {
   return map;
 }
 
+/**
+ * Columns headed "custom: <name>" become custom fields, keyed by the name in
+ * camelCase. Other unknown columns are ignored, as are later columns whose
+ * key repeats an earlier one.
+ */
+function findCustomFieldColumns(
+  headers: string[],
+  columnMap: Record<string, number>,
+): CustomFieldColumn[] {
+  const known = new Set(Object.values(columnMap));
+  const seen = new Set<string>();
+  const columns: CustomFieldColumn[] = [];
+  headers.forEach((header, index) => {
+    if (known.has(index)) return;
+    const marked = String(header ?? "").match(CUSTOM_FIELD_HEADER_PATTERN);
+    if (!marked) return;
+    const key = normalizeCustomFieldKey(marked[1]);
+    if (!key || seen.has(key) || columns.length >= MAX_CUSTOM_FIELDS) return;
+    seen.add(key);
+    columns.push({ index, key });
+  });
+  return columns;
+}
+
 function parseCell(value: unknown): string {
   if (value == null) return "";
   if (typeof value === "string") return value.trim();
@@ -110,6 +158,7 @@ export function validateRow(
   columnMap: Record<string, number>,
   existingCertNumbers: Set<string>,
   customUpload = false,
+  customFieldColumns: CustomFieldColumn[] = [],
 ): ValidatedImportRow {
   const get = (key: string): string => parseCell(row[columnMap[key]] ?? "");
   const errors: string[] = [];
@@ -119,6 +168,11 @@ export function validateRow(
   const eventStartDate = get("eventStartDate");
   const eventEndDate = get("eventEndDate");
   const certificateNumber = get("certificateNumber");
+  const teamName = get("teamName");
+  const achievementValue = get("achievementType");
+  const achievementType = achievementValue
+    ? parseAchievementType(achievementValue)
+    : null;
 
   if (!participantName) errors.push("participantName is required");
   if (!customUpload) {
@@ -132,12 +186,34 @@ export function validateRow(
   }
   if (participantEmail && !isValidEmail(participantEmail))
     errors.push("participantEmail must be a valid email");
+  if (achievementValue && !achievementType)
+    errors.push(
+      `achievementType must be one of: ${ACHIEVEMENT_TYPES.map((type) => ACHIEVEMENT_TYPE_LABELS[type]).join(", ")}`,
+    );
+
+  if (teamName.length > MAX_TEAM_NAME_LENGTH)
+    errors.push(`teamName must be ${MAX_TEAM_NAME_LENGTH} characters or fewer`);
+
+  const customFields: Record<string, string> = {};
+  for (const { index: column, key } of customFieldColumns) {
+    const value = parseCell(row[column] ?? "");
+    if (!value) continue;
+    if (value.length > MAX_CUSTOM_FIELD_VALUE_LENGTH)
+      errors.push(
+        `${key} must be ${MAX_CUSTOM_FIELD_VALUE_LENGTH} characters or fewer`,
+      );
+    customFields[key] = value;
+  }
   if (customUpload && !certificateNumber) {
     errors.push("certificateNumber is required");
   } else if (certificateNumber) {
     const cert = formatCertNumber(certificateNumber);
     if (!isValidCertificateNumber(cert))
-      errors.push("certificateNumber must match ECELL-YYYY-XXXXX");
+      errors.push(
+        "certificateNumber must be letters and digits in hyphen-separated segments",
+      );
+    else if (!isCheckCharacterValid(cert))
+      errors.push("certificateNumber's check character does not match");
     if (existingCertNumbers.has(cert))
       errors.push("certificateNumber must be unique");
   }
@@ -152,6 +228,9 @@ export function validateRow(
   if (participantEmail) data.participantEmail = participantEmail;
   if (certificateNumber)
     data.certificateNumber = formatCertNumber(certificateNumber);
+  if (achievementType) data.achievementType = achievementType;
+  if (teamName) data.teamName = teamName;
+  if (Object.keys(customFields).length > 0) data.customFields = customFields;
 
   return { index, data, isValid, errors };
 }
@@ -167,6 +246,7 @@ export function validateImportRows(
   if (rows.length < 2) return [];
   const headers = rows[0];
   const columnMap = findColumnKey(headers);
+  const customFieldColumns = findCustomFieldColumns(headers, columnMap);
   const results: ValidatedImportRow[] = [];
   const seenCerts = new Set(existingCertNumbers);
 
@@ -182,10 +262,23 @@ export function validateImportRows(
       columnMap,
       seenCerts,
       customUpload,
+      customFieldColumns,
     );
     results.push(validated);
     if (certNum) seenCerts.add(formatCertNumber(certNum));
   }
   return results;
 }
-import { isValidCertificateNumber } from "@/lib/certificateUtils";
+import {
+  isCheckCharacterValid,
+  isValidCertificateNumber,
+} from "@/lib/certificateUtils";
+import {
+  ACHIEVEMENT_TYPE_LABELS,
+  ACHIEVEMENT_TYPES,
+  AchievementType,
+  MAX_CUSTOM_FIELD_VALUE_LENGTH,
+  MAX_CUSTOM_FIELDS,
+  normalizeCustomFieldKey,
+  parseAchievementType,
+} from "@/lib/achievements";
@@ -0,0 +1,138 @@
+/**
+ * Line Diff
+ * Side-by-side comparison of two texts, line by line, for the blueprint
+ * history view. Used in the browser, so it must stay free of server imports.
+ */
+
+/** Past this many lines x lines, the changed middle is shown as replaced */
+const MAX_DIFF_CELLS = 4_000_000;
+
+export type DiffRowKind = "same" | "added" | "removed" | "changed";
+
+export interface DiffRow {
+  kind: DiffRowKind;
+  /** Line number on the left, missing when the line was added */
+  leftNumber?: number;
+  leftText?: string;
+  /** Line number on the right, missing when the line was removed */
+  rightNumber?: number;
+  rightText?: string;
+}
+
+type Edit = { kind: "same" | "added" | "removed"; text: string };
+
+/** Shortest edit script between two line lists, from their LCS table */
+function diffLines(left: string[], right: string[]): Edit[] {
+  if (left.length * right.length > MAX_DIFF_CELLS) {
+    return [
+      ...left.map((text): Edit => ({ kind: "removed", text })),
+      ...right.map((text): Edit => ({ kind: "added", text })),
+    ];
+  }
+
+  const width = right.length + 1;
+  const lengths = new Uint32Array((left.length + 1) * width);
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        left[i] === right[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const edits: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      edits.push({ kind: "same", text: left[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      edits.push({ kind: "removed", text: left[i++] });
+    } else {
+      edits.push({ kind: "added", text: right[j++] });
+    }
+  }
+  while (i < left.length) edits.push({ kind: "removed", text: left[i++] });
+  while (j < right.length) edits.push({ kind: "added", text: right[j++] });
+  return edits;
+}
+
+/**
+ * Rows of a side-by-side diff. Removed lines followed by added lines are
+ * paired up as changed rows, so an edited line sits next to its new text.
+ */
+export function sideBySideDiff(leftText: string, rightText: string): DiffRow[] {
+  const left = leftText.split(/\r?\n/);
+  const right = rightText.split(/\r?\n/);
+
+  // The changed part is usually small, so only it goes through the LCS table
+  let prefix = 0;
+  while (
+    prefix < left.length &&
+    prefix < right.length &&
+    left[prefix] === right[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < left.length - prefix &&
+    suffix < right.length - prefix &&
+    left[left.length - 1 - suffix] === right[right.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const edits: Edit[] = [
+    ...left.slice(0, prefix).map((text): Edit => ({ kind: "same", text })),
+    ...diffLines(
+      left.slice(prefix, left.length - suffix),
+      right.slice(prefix, right.length - suffix),
+    ),
+    ...left
+      .slice(left.length - suffix)
+      .map((text): Edit => ({ kind: "same", text })),
+  ];
+
+  const rows: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let index = 0;
+  while (index < edits.length) {
+    const edit = edits[index];
+    if (edit.kind === "same") {
+      rows.push({
+        kind: "same",
+        leftNumber: leftNumber++,
+        leftText: edit.text,
+        rightNumber: rightNumber++,
+        rightText: edit.text,
+      });
+      index++;
+      continue;
+    }
+
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (index < edits.length && edits[index].kind !== "same") {
+      if (edits[index].kind === "removed") removed.push(edits[index].text);
+      else added.push(edits[index].text);
+      index++;
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const hasLeft = k < removed.length;
+      const hasRight = k < added.length;
+      rows.push({
+        kind: hasLeft && hasRight ? "changed" : hasLeft ? "removed" : "added",
+        leftNumber: hasLeft ? leftNumber++ : undefined,
+        leftText: hasLeft ? removed[k] : undefined,
+        rightNumber: hasRight ? rightNumber++ : undefined,
+        rightText: hasRight ? added[k] : undefined,
+      });
+    }
+  }
+  return rows;
+}
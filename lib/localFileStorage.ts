@@ -0,0 +1,120 @@
+/**
+ * Local Filesystem Storage Backend
+ * Stores files under LOCAL_STORAGE_DIR (default ./storage). Images are
+ * served through /api/files; certificate PDFs only through the download
+ * route, which checks revocation and private downloads. Meant for
+ * development and single-server deployments; serverless hosts do not keep
+ * files written at runtime.
+ */
+
+import crypto from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { logger } from "./logger";
+import type { StorageBackend } from "./storage";
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+/** Files /api/files may serve, by extension */
+export const LOCAL_IMAGE_CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  webp: "image/webp",
+};
+
+function getStorageRoot(): string {
+  return path.resolve(process.env.LOCAL_STORAGE_DIR || "storage");
+}
+
+/**
+ * Resolve a key to a path inside the storage directory
+ * @returns The absolute path, or null if the key points outside of it
+ */
+export function resolveLocalFilePath(key: string): string | null {
+  const root = getStorageRoot();
+  const filePath = path.resolve(root, key);
+  return filePath.startsWith(root + path.sep) ? filePath : null;
+}
+
+function buildLocalFileUrl(key: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${baseUrl}/api/files/${key.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+async function writeLocalFile(
+  key: string,
+  body: Buffer,
+  overwrite: boolean,
+): Promise<string> {
+  const filePath = resolveLocalFilePath(key);
+  if (!filePath) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    await fs.writeFile(filePath, body, { flag: overwrite ? "w" : "wx" });
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new Error(`File ${key} already exists`);
+    }
+    logger.error("STORAGE", "Local write failed", error);
+    throw new Error("Failed to write file to local storage");
+  }
+
+  logger.success("STORAGE", "Saved to local storage", { key });
+  return buildLocalFileUrl(key);
+}
+
+export const localFileStorage: StorageBackend = {
+  name: "local",
+
+  isConfigured() {
+    return true;
+  },
+
+  async putFile(key, body, { overwrite }) {
+    const url = await writeLocalFile(key, body, overwrite);
+    return { url, publicId: key, backend: "local" };
+  },
+
+  async putImage(body, folder, contentType) {
+    const extension = IMAGE_EXTENSIONS[contentType];
+    if (!extension) {
+      throw new Error(`Unsupported image type: ${contentType}`);
+    }
+    const key = `${folder}/${crypto.randomUUID()}.${extension}`;
+    const url = await writeLocalFile(key, body, false);
+    return { url, publicId: key, backend: "local" };
+  },
+
+  async readFile(file) {
+    const filePath = resolveLocalFilePath(file.publicId);
+    if (!filePath) {
+      throw new Error(`Invalid storage key: ${file.publicId}`);
+    }
+    return fs.readFile(filePath);
+  },
+
+  async deleteFile(publicId) {
+    const filePath = resolveLocalFilePath(publicId);
+    if (!filePath) {
+      throw new Error(`Invalid storage key: ${publicId}`);
+    }
+
+    try {
+      await fs.unlink(filePath);
+      logger.success("STORAGE", `Deleted from local storage: ${publicId}`);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        logger.warn("STORAGE", `File not found: ${publicId}`);
+        return;
+      }
+      throw error;
+    }
+  },
+};
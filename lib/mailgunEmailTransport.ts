@@ -0,0 +1,87 @@
+/**
+ * Mailgun Email Transport
+ * Sends through the Mailgun messages API (MAILGUN_API_KEY, MAILGUN_DOMAIN).
+ * MAILGUN_API_URL selects the EU region (https://api.eu.mailgun.net) or a
+ * Mailgun-compatible service.
+ */
+
+import type { EmailTransport } from "./emailTransport";
+import { logger } from "./logger";
+
+interface MailgunConfig {
+  apiUrl: string;
+  apiKey: string;
+  domain: string;
+}
+
+function getMailgunConfig(): MailgunConfig | null {
+  const { MAILGUN_API_KEY, MAILGUN_DOMAIN, MAILGUN_API_URL } = process.env;
+  if (!MAILGUN_API_KEY || !MAILGUN_DOMAIN) {
+    return null;
+  }
+  return {
+    apiUrl: (MAILGUN_API_URL || "https://api.mailgun.net").replace(/\/+$/, ""),
+    apiKey: MAILGUN_API_KEY,
+    domain: MAILGUN_DOMAIN,
+  };
+}
+
+export const mailgunEmailTransport: EmailTransport = {
+  name: "mailgun",
+  defaultRateLimit: 10,
+
+  isConfigured() {
+    return getMailgunConfig() !== null;
+  },
+
+  async send(message) {
+    const config = getMailgunConfig();
+    if (!config) {
+      throw new Error("Mailgun is not configured");
+    }
+
+    const form = new FormData();
+    form.set("from", message.from);
+    form.set("to", message.to);
+    form.set("subject", message.subject);
+    form.set("html", message.html);
+    if (message.text) form.set("text", message.text);
+    for (const attachment of message.attachments ?? []) {
+      // Inline files are referenced from the body as cid:<filename>
+      form.append(
+        attachment.cid ? "inline" : "attachment",
+        new Blob([new Uint8Array(attachment.content)], {
+          type: attachment.contentType,
+        }),
+        attachment.cid ?? attachment.filename,
+      );
+    }
+
+    const response = await fetch(
+      `${config.apiUrl}/v3/${encodeURIComponent(config.domain)}/messages`,
+      {
+        method: "POST",
+        headers: {
+          authorization: `Basic ${Buffer.from(`api:${config.apiKey}`).toString("base64")}`,
+        },
+        body: form,
+      },
+    );
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      logger.error("MAILGUN", `Failed to send email to ${message.to}`, {
+        status: response.status,
+        body: detail,
+      });
+      // The status lets the email queue tell retryable failures apart
+      throw Object.assign(
+        new Error(`Mailgun rejected the message (HTTP ${response.status})`),
+        { status: response.status },
+      );
+    }
+
+    const result = (await response.json()) as { id?: string };
+    return result.id ?? "";
+  },
+};
@@ -0,0 +1,146 @@
+/**
+ * Participant Portal
+ * One-time magic links and short-lived sessions that let participants list
+ * every certificate issued to their email address without an account.
+ */
+
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { NextRequest, NextResponse } from "next/server";
+import connectDB from "./db";
+import { buildPortalLinkEmail, sendCertificateEmail } from "./email";
+import { logger } from "./logger";
+import Certificate from "@/models/Certificate";
+import PortalToken, { IPortalToken } from "@/models/PortalToken";
+
+export const PORTAL_LINK_TTL_MS = 15 * 60 * 1000;
+// A new link is not sent while a recent one for the same address is unused
+export const PORTAL_LINK_COOLDOWN_MS = 60 * 1000;
+
+export const PORTAL_SESSION_COOKIE_NAME = "participantSession";
+const PORTAL_SESSION_TTL_SECONDS = 60 * 60; // 1 hour
+// Keeps admin and participant tokens from being accepted in place of each other
+const PORTAL_SESSION_AUDIENCE = "participant-portal";
+
+interface PortalSessionPayload {
+  email: string;
+}
+
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is not defined in environment variables");
+  }
+  return secret;
+}
+
+export function hashPortalToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function buildPortalLinkUrl(token: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${baseUrl}/my-certificates/access/${token}`;
+}
+
+/**
+ * Email a one-time portal link to an address that has certificates.
+ * Does nothing for unknown addresses or while a recent link is still unused;
+ * callers answer the same way in every case so addresses are not revealed.
+ */
+export async function issuePortalLink(email: string): Promise<void> {
+  await connectDB();
+
+  const recent = await PortalToken.exists({
+    email,
+    usedAt: { $exists: false },
+    createdAt: { $gt: new Date(Date.now() - PORTAL_LINK_COOLDOWN_MS) },
+  });
+  if (recent) {
+    logger.info("PORTAL", "Link recently sent, skipping", { email });
+    return;
+  }
+
+  const hasCertificates = await Certificate.exists({ participantEmail: email });
+  if (!hasCertificates) {
+    logger.info("PORTAL", "No certificates for address, skipping", { email });
+    return;
+  }
+
+  const token = crypto.randomBytes(32).toString("base64url");
+  await PortalToken.create({
+    email,
+    tokenHash: hashPortalToken(token),
+    expiresAt: new Date(Date.now() + PORTAL_LINK_TTL_MS),
+  });
+
+  const { subject, htmlBody } = buildPortalLinkEmail(
+    buildPortalLinkUrl(token),
+    PORTAL_LINK_TTL_MS / 60000,
+  );
+  await sendCertificateEmail(email, subject, htmlBody);
+}
+
+/**
+ * Consume a portal link. Marking it used is atomic, so a link only ever
+ * opens one session.
+ * @returns The email address the link was sent to, or null if it is invalid,
+ * expired or already used
+ */
+export async function redeemPortalToken(token: string): Promise<string | null> {
+  await connectDB();
+  const now = new Date();
+  const redeemed: IPortalToken | null = await PortalToken.findOneAndUpdate(
+    {
+      tokenHash: hashPortalToken(token),
+      usedAt: { $exists: false },
+      expiresAt: { $gt: now },
+    },
+    { $set: { usedAt: now } },
+    { new: true },
+  );
+  return redeemed ? redeemed.email : null;
+}
+
+export function setPortalSessionCookie(
+  response: NextResponse,
+  email: string,
+): void {
+  const payload: PortalSessionPayload = { email };
+  const token = jwt.sign(payload, getJwtSecret(), {
+    expiresIn: PORTAL_SESSION_TTL_SECONDS,
+    audience: PORTAL_SESSION_AUDIENCE,
+  });
+
+  response.cookies.set(PORTAL_SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: PORTAL_SESSION_TTL_SECONDS,
+    path: "/",
+  });
+}
+
+export function clearPortalSessionCookie(response: NextResponse): void {
+  response.cookies.delete(PORTAL_SESSION_COOKIE_NAME);
+}
+
+/**
+ * Read the participant session cookie
+ * @returns The signed-in participant's email, or null without a valid session
+ */
+export function getPortalSessionEmail(request: NextRequest): string | null {
+  const token = request.cookies.get(PORTAL_SESSION_COOKIE_NAME)?.value;
+  if (!token) {
+    return null;
+  }
+
+  try {
+    const payload = jwt.verify(token, getJwtSecret(), {
+      audience: PORTAL_SESSION_AUDIENCE,
+    }) as PortalSessionPayload;
+    return typeof payload.email === "string" ? payload.email : null;
+  } catch {
+    return null;
+  }
+}
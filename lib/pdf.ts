@@ -2,15 +2,16 @@
  * PDF Generation Utility
  * - Local dev:  puppeteer-core → system Chrome/Chromium (must be installed)
  * - Production: puppeteer-core → @sparticuz/chromium-min (Vercel serverless)
+ * Browsers are managed by ./browserPool.
  *
  * Install:
  *   npm install puppeteer-core @sparticuz/chromium-min --save
  */
 
-import puppeteer, { type Browser } from "puppeteer-core";
-import chromium from "@sparticuz/chromium-min";
 import fs from "fs/promises";
 import Handlebars from "handlebars";
+import type { AchievementType } from "./achievements";
+import { withPage } from "./browserPool";
 import { logger } from "./logger";
 import { getTemplatePath } from "./templateUtils";
 
@@ -29,107 +30,27 @@ export interface CertificateData {
   certificateNumber: string;
   issueDate: string;
   qrCodeDataUrl: string;
+  achievementType: AchievementType;
+  /** Label of the achievement type, e.g. "Runner-up" */
+  achievement: string;
+  /** Available to templates as {{customFields.<key>}} */
+  customFields: Record<string, string>;
+  teamName?: string;
+  /** The certificate names the whole team rather than one member */
+  isTeamCertificate: boolean;
+  /** Team members, for {{#each members}}; empty without a team */
+  members: Array<{ name: string; email?: string }>;
+  /** For {{#each signatories}}, in the event's order */
+  signatories: Array<{
+    name: string;
+    designation: string;
+    signatureUrl: string;
+  }>;
   templateName?: string;
   templateHtml?: string;
   backgroundUrl?: string;
 }
 
-// ---------------------------------------------------------------------------
-// Config
-// ---------------------------------------------------------------------------
-
-const IS_DEV = process.env.NODE_ENV === "development";
-
-/**
- * Hosted chromium pack for Vercel.
- * Consider re-hosting on Vercel Blob or a private CDN for production.
- */
-const CHROMIUM_PACK_URL =
-  "https://github.com/Sparticuz/chromium/releases/download/v143.0.4/chromium-v143.0.4-pack.x64.tar";
-
-/**
- * Known system Chrome/Chromium paths per platform.
- * Returns the first one that actually exists on disk, or null.
- */
-const SYSTEM_CHROME_PATHS: Record<string, string[]> = {
-  win32: [
-    "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
-    "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
-  ],
-  darwin: [
-    "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
-    "/Applications/Chromium.app/Contents/MacOS/Chromium",
-  ],
-  linux: [
-    "/usr/bin/google-chrome",
-    "/usr/bin/google-chrome-stable",
-    "/usr/bin/chromium",
-    "/usr/bin/chromium-browser",
-  ],
-};
-
-async function findSystemChrome(): Promise<string | null> {
-  const candidates = SYSTEM_CHROME_PATHS[process.platform] ?? [];
-  for (const candidate of candidates) {
-    try {
-      await fs.access(candidate); // throws if path does not exist
-      return candidate;
-    } catch {
-      // not found – try next
-    }
-  }
-  return null;
-}
-
-// ---------------------------------------------------------------------------
-// Browser factory
-// ---------------------------------------------------------------------------
-
-async function launchBrowser(): Promise<Browser> {
-  // ── Production (Vercel) ──────────────────────────────────────────────────
-  if (!IS_DEV) {
-    chromium.setGraphicsMode = false;
-    const executablePath = await chromium.executablePath(CHROMIUM_PACK_URL);
-    logger.info("PDF", "Chromium binary extracted", { executablePath });
-
-    return await puppeteer.launch({
-      args: [
-        ...chromium.args,
-        "--disable-gpu",
-        "--disable-dev-shm-usage",
-        "--disable-setuid-sandbox",
-        "--no-sandbox",
-        "--single-process",
-        "--no-zygote",
-      ],
-      defaultViewport: { width: 1920, height: 1080, deviceScaleFactor: 1 },
-      executablePath,
-      headless: "shell",
-    });
-  }
-
-  // ── Local dev (system Chrome) ────────────────────────────────────────────
-  const executablePath = await findSystemChrome();
-
-  if (!executablePath) {
-    throw new Error(
-      "No Chrome/Chromium found on this machine. " +
-        "Install Google Chrome or Chromium to generate PDFs locally.\n" +
-        "Checked paths: " +
-        (SYSTEM_CHROME_PATHS[process.platform] ?? []).join(", "),
-    );
-  }
-
-  logger.info("PDF", "Using system Chrome", { executablePath });
-
-  return await puppeteer.launch({
-    executablePath,
-    headless: "shell",
-    args: ["--no-sandbox", "--disable-setuid-sandbox"],
-    defaultViewport: { width: 1920, height: 1080, deviceScaleFactor: 1 },
-  });
-}
-
 // ---------------------------------------------------------------------------
 // Core: generate a certificate PDF
 // ---------------------------------------------------------------------------
@@ -137,8 +58,6 @@ async function launchBrowser(): Promise<Browser> {
 export async function generateCertificatePDF(
   data: CertificateData,
 ): Promise<Buffer> {
-  let browser: Browser | null = null;
-
   try {
     logger.info("PDF", "Starting PDF generation", {
       certificateNumber: data.certificateNumber,
@@ -172,32 +91,29 @@ export async function generateCertificatePDF(
         .replace(/{{eventDate}}/g, data.eventDateRange)
         .replace(/{{certificateNumber}}/g, data.certificateNumber)
         .replace(/{{issueDate}}/g, data.issueDate)
+        .replace(/{{achievement}}/g, data.achievement)
+        .replace(/{{teamName}}/g, data.teamName ?? "")
         .replace(/{{organizerName}}/g, data.organizerName)
         .replace(/{{qrCodeDataUrl}}/g, data.qrCodeDataUrl);
     } else {
       throw new Error("Neither templateHtml nor templateName provided.");
     }
 
-    // ── 2. Launch browser ─────────────────────────────────────────────────
-    logger.info("PDF", "Launching browser...");
-    browser = await launchBrowser();
-
-    // ── 3. Render HTML → PDF ─────────────────────────────────────────────
-    logger.info("PDF", "Browser launched, creating page...");
-    const page = await browser.newPage();
-
-    await page.setContent(html, {
-      waitUntil: "networkidle0",
-      timeout: 30000,
-    });
-
-    logger.info("PDF", "Generating PDF...");
-    const pdf = await page.pdf({
-      format: "A4",
-      landscape: true,
-      printBackground: true,
-      margin: { top: 0, right: 0, bottom: 0, left: 0 },
-      preferCSSPageSize: true,
+    // ── 2. Render HTML → PDF on a pooled page ───────────────────────────
+    const pdf = await withPage(async (page) => {
+      await page.setContent(html, {
+        waitUntil: "networkidle0",
+        timeout: 30000,
+      });
+
+      logger.info("PDF", "Generating PDF...");
+      return page.pdf({
+        format: "A4",
+        landscape: true,
+        printBackground: true,
+        margin: { top: 0, right: 0, bottom: 0, left: 0 },
+        preferCSSPageSize: true,
+      });
     });
 
     logger.success("PDF", "PDF generated successfully", {
@@ -218,17 +134,6 @@ export async function generateCertificatePDF(
       throw new Error("PDF generation timed out. Please try again.");
     }
     throw new Error(`Failed to generate certificate PDF: ${err.message}`);
-  } finally {
-    if (browser) {
-      try {
-        const pages = await browser.pages();
-        await Promise.all(pages.map((p) => p.close().catch(() => {})));
-        await browser.close();
-        logger.info("PDF", "Browser closed successfully");
-      } catch (closeError) {
-        logger.error("PDF", "Error closing browser", closeError);
-      }
-    }
   }
 }
 
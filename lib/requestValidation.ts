@@ -49,18 +49,21 @@ export function validateTemplateHtml(value: unknown): string {
   return value;
 }
 
-export function validateOptionalHttpUrl(value: unknown): string | undefined {
-  const normalized = readOptionalString(value, "Background URL", 2_048);
+export function validateOptionalHttpUrl(
+  value: unknown,
+  fieldName = "Background URL",
+): string | undefined {
+  const normalized = readOptionalString(value, fieldName, 2_048);
   if (!normalized) return undefined;
 
   let parsed: URL;
   try {
     parsed = new URL(normalized);
   } catch {
-    throw new Error("Background URL must be a valid URL");
+    throw new Error(`${fieldName} must be a valid URL`);
   }
   if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
-    throw new Error("Background URL must use HTTP or HTTPS");
+    throw new Error(`${fieldName} must use HTTP or HTTPS`);
   }
   return normalized;
 }
@@ -131,3 +134,9 @@ export function isUnauthorizedError(error: unknown): boolean {
     error.message === "Unauthorized: Invalid or missing token"
   );
 }
+
+export function isForbiddenError(error: unknown): boolean {
+  return (
+    error instanceof Error && error.message === "Forbidden: Insufficient role"
+  );
+}
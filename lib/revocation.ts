@@ -0,0 +1,27 @@
+/**
+ * Certificate Revocation Reasons
+ * Reason codes recorded when a certificate is revoked
+ */
+
+export const REVOCATION_REASONS = [
+  "issued_in_error",
+  "misconduct",
+  "superseded",
+  "other",
+] as const;
+
+export type RevocationReason = (typeof REVOCATION_REASONS)[number];
+
+export const REVOCATION_REASON_LABELS: Record<RevocationReason, string> = {
+  issued_in_error: "Issued in error",
+  misconduct: "Misconduct",
+  superseded: "Superseded by another certificate",
+  other: "Other",
+};
+
+export function isRevocationReason(value: unknown): value is RevocationReason {
+  return (
+    typeof value === "string" &&
+    (REVOCATION_REASONS as readonly string[]).includes(value)
+  );
+}
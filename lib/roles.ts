@@ -0,0 +1,35 @@
+/**
+ * Admin Roles
+ * Ordered from least to most privileged; each role can do everything the
+ * roles before it can.
+ */
+
+export const ADMIN_ROLES = ["viewer", "event_manager", "owner"] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: "Viewer",
+  event_manager: "Event manager",
+  owner: "Owner",
+};
+
+export const ADMIN_ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  viewer: "Can view events, certificates and templates",
+  event_manager: "Can manage events, certificates, templates and emails",
+  owner: "Full access, including inviting and managing admins",
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return (
+    typeof value === "string" &&
+    (ADMIN_ROLES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Whether a role grants at least the permissions of another
+ */
+export function hasRole(role: AdminRole, minimum: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(role) >= ADMIN_ROLES.indexOf(minimum);
+}
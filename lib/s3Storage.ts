@@ -0,0 +1,184 @@
+/**
+ * S3-Compatible Storage Backend
+ * Talks to AWS S3, MinIO, Cloudflare R2 and similar stores over their REST
+ * API with Signature Version 4 and path-style URLs
+ * (<S3_ENDPOINT>/<bucket>/<key>). Template and signature images need
+ * anonymous reads on the templates/ and signatures/ prefixes, or S3_PUBLIC_URL
+ * pointing at a CDN in front of them. Keep certificates/ private: PDFs are read
+ * here with signed requests and served through the download route.
+ */
+
+import crypto from "crypto";
+import { signAwsRequest } from "./awsSignature";
+import { logger } from "./logger";
+import type { StorageBackend, StoredFile } from "./storage";
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl: string;
+}
+
+function getS3Config(): S3Config | null {
+  const {
+    S3_BUCKET,
+    S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY,
+    S3_REGION,
+    S3_ENDPOINT,
+    S3_PUBLIC_URL,
+  } = process.env;
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    return null;
+  }
+
+  const region = S3_REGION || "us-east-1";
+  const endpoint = (
+    S3_ENDPOINT || `https://s3.${region}.amazonaws.com`
+  ).replace(/\/+$/, "");
+  return {
+    endpoint,
+    region,
+    bucket: S3_BUCKET,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    publicUrl: (S3_PUBLIC_URL || `${endpoint}/${S3_BUCKET}`).replace(
+      /\/+$/,
+      "",
+    ),
+  };
+}
+
+function requireS3Config(): S3Config {
+  const config = getS3Config();
+  if (!config) {
+    throw new Error("S3 storage is not configured");
+  }
+  return config;
+}
+
+// RFC 3986 encoding as required by SigV4 canonical URIs
+function encodeKey(key: string): string {
+  return key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+      ),
+    )
+    .join("/");
+}
+
+/**
+ * Send a signed request for one object
+ */
+async function s3Request(
+  config: S3Config,
+  method: "GET" | "PUT" | "DELETE",
+  key: string,
+  options: { body?: Buffer; headers?: Record<string, string> } = {},
+): Promise<Response> {
+  const url = new URL(`${config.endpoint}/${config.bucket}/${encodeKey(key)}`);
+  return fetch(url, {
+    method,
+    headers: signAwsRequest(config, "s3", {
+      method,
+      url,
+      headers: options.headers,
+      body: options.body,
+    }),
+    body: options.body ? new Uint8Array(options.body) : undefined,
+  });
+}
+
+async function putObject(
+  key: string,
+  body: Buffer,
+  contentType: string,
+  overwrite: boolean,
+): Promise<StoredFile> {
+  const config = requireS3Config();
+  const response = await s3Request(config, "PUT", key, {
+    body,
+    headers: {
+      "content-type": contentType,
+      // Conditional write: fail instead of replacing an existing object
+      ...(overwrite ? {} : { "if-none-match": "*" }),
+    },
+  });
+
+  if (response.status === 412) {
+    throw new Error(`File ${key} already exists`);
+  }
+  if (!response.ok) {
+    logger.error("S3", "Upload failed", {
+      key,
+      status: response.status,
+      body: await response.text().catch(() => ""),
+    });
+    throw new Error("Failed to upload file to S3 storage");
+  }
+
+  logger.success("S3", "Upload successful", { key });
+  return {
+    url: `${config.publicUrl}/${encodeKey(key)}`,
+    publicId: key,
+    backend: "s3",
+  };
+}
+
+export const s3Storage: StorageBackend = {
+  name: "s3",
+
+  isConfigured() {
+    return getS3Config() !== null;
+  },
+
+  async putFile(key, body, { contentType, overwrite }) {
+    return putObject(key, body, contentType, overwrite);
+  },
+
+  async putImage(body, folder, contentType) {
+    const extension = IMAGE_EXTENSIONS[contentType];
+    if (!extension) {
+      throw new Error(`Unsupported image type: ${contentType}`);
+    }
+    return putObject(
+      `${folder}/${crypto.randomUUID()}.${extension}`,
+      body,
+      contentType,
+      false,
+    );
+  },
+
+  async readFile(file) {
+    const response = await s3Request(requireS3Config(), "GET", file.publicId);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to download ${file.publicId} from S3 (HTTP ${response.status})`,
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async deleteFile(publicId) {
+    // S3 answers 204 whether or not the object existed
+    const response = await s3Request(requireS3Config(), "DELETE", publicId);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to delete ${publicId} from S3 (HTTP ${response.status})`,
+      );
+    }
+    logger.success("S3", `Deleted: ${publicId}`);
+  },
+};
@@ -0,0 +1,104 @@
+/**
+ * SES Email Transport
+ * Sends through the Amazon SES v2 HTTP API (SES_REGION, SES_ACCESS_KEY_ID,
+ * SES_SECRET_ACCESS_KEY). SES_ENDPOINT points it at an SES-compatible
+ * service or a local emulator instead. The sender address must be verified
+ * in SES.
+ */
+
+import { signAwsRequest, type AwsCredentials } from "./awsSignature";
+import { composeMimeMessage } from "./emailMime";
+import type { EmailTransport } from "./emailTransport";
+import { logger } from "./logger";
+
+interface SesConfig extends AwsCredentials {
+  endpoint: string;
+}
+
+function getSesConfig(): SesConfig | null {
+  const { SES_REGION, SES_ACCESS_KEY_ID, SES_SECRET_ACCESS_KEY, SES_ENDPOINT } =
+    process.env;
+  if (!SES_ACCESS_KEY_ID || !SES_SECRET_ACCESS_KEY) {
+    return null;
+  }
+
+  const region = SES_REGION || "us-east-1";
+  return {
+    endpoint: (SES_ENDPOINT || `https://email.${region}.amazonaws.com`).replace(
+      /\/+$/,
+      "",
+    ),
+    region,
+    accessKeyId: SES_ACCESS_KEY_ID,
+    secretAccessKey: SES_SECRET_ACCESS_KEY,
+  };
+}
+
+export const sesEmailTransport: EmailTransport = {
+  name: "ses",
+  // Default sending rate of an SES account out of the sandbox
+  defaultRateLimit: 14,
+
+  isConfigured() {
+    return getSesConfig() !== null;
+  },
+
+  async send(message) {
+    const config = getSesConfig();
+    if (!config) {
+      throw new Error("SES is not configured");
+    }
+
+    const url = new URL(`${config.endpoint}/v2/email/outbound-emails`);
+    // Attachments go out as a raw MIME message; plain messages use the
+    // simple content type
+    const content = message.attachments?.length
+      ? {
+          Raw: {
+            Data: (await composeMimeMessage(message)).raw.toString("base64"),
+          },
+        }
+      : {
+          Simple: {
+            Subject: { Data: message.subject, Charset: "UTF-8" },
+            Body: {
+              Html: { Data: message.html, Charset: "UTF-8" },
+              ...(message.text
+                ? { Text: { Data: message.text, Charset: "UTF-8" } }
+                : {}),
+            },
+          },
+        };
+    const body = JSON.stringify({
+      FromEmailAddress: message.from,
+      Destination: { ToAddresses: [message.to] },
+      Content: content,
+    });
+    const response = await fetch(url, {
+      method: "POST",
+      headers: signAwsRequest(config, "ses", {
+        method: "POST",
+        url,
+        headers: { "content-type": "application/json" },
+        body,
+      }),
+      body,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      logger.error("SES", `Failed to send email to ${message.to}`, {
+        status: response.status,
+        body: detail,
+      });
+      // The status lets the email queue tell retryable failures apart
+      throw Object.assign(
+        new Error(`SES rejected the message (HTTP ${response.status})`),
+        { status: response.status },
+      );
+    }
+
+    const result = (await response.json()) as { MessageId?: string };
+    return result.MessageId ?? "";
+  },
+};
@@ -0,0 +1,106 @@
+/**
+ * Signatories
+ * The people who sign an event's certificates, in the order the event lists
+ * them. Certificates keep a snapshot of their signatories, so editing or
+ * deleting a signatory only affects certificates issued afterwards.
+ */
+
+import mongoose from "mongoose";
+import Event, { IEvent } from "@/models/Event";
+import Signatory, { ISignatory, ISignatorySnapshot } from "@/models/Signatory";
+
+export const MAX_EVENT_SIGNATORIES = 5;
+
+export interface SignatorySummary {
+  id: string;
+  name: string;
+  designation: string;
+  signatureUrl: string;
+  updatedAt: Date;
+}
+
+export function summarizeSignatory(signatory: ISignatory): SignatorySummary {
+  return {
+    id: signatory._id.toString(),
+    name: signatory.name,
+    designation: signatory.designation,
+    signatureUrl: signatory.signatureUrl,
+    updatedAt: signatory.updatedAt,
+  };
+}
+
+export function summarizeSignatoryIds(
+  event: Pick<IEvent, "signatoryIds">,
+): string[] {
+  return (event.signatoryIds ?? []).map((id) => id.toString());
+}
+
+/**
+ * Validate the signatories picked for an event
+ * @param value - Signatory IDs in the order they are printed
+ * @throws If the list is too long, repeats a signatory or names an unknown one
+ */
+export async function readSignatoryIds(
+  value: unknown,
+): Promise<mongoose.Types.ObjectId[]> {
+  if (
+    !Array.isArray(value) ||
+    !value.every((id) => typeof id === "string" && mongoose.isValidObjectId(id))
+  ) {
+    throw new Error("signatoryIds must be a list of signatory IDs");
+  }
+  if (value.length > MAX_EVENT_SIGNATORIES) {
+    throw new Error(
+      `Events must not have more than ${MAX_EVENT_SIGNATORIES} signatories`,
+    );
+  }
+  if (new Set(value).size !== value.length) {
+    throw new Error("A signatory can only sign an event's certificates once");
+  }
+
+  const found = await Signatory.countDocuments({ _id: { $in: value } });
+  if (found !== value.length) {
+    throw new Error("Signatory not found");
+  }
+  return value.map((id: string) => new mongoose.Types.ObjectId(id));
+}
+
+/**
+ * Snapshot the event's signatories for a certificate being issued
+ * @returns The signatories in the event's order
+ */
+export async function snapshotEventSignatories(
+  event: Pick<IEvent, "signatoryIds">,
+): Promise<ISignatorySnapshot[]> {
+  const ids = event.signatoryIds ?? [];
+  if (ids.length === 0) return [];
+
+  const signatories: ISignatory[] = await Signatory.find({
+    _id: { $in: ids },
+  });
+  const byId = new Map(
+    signatories.map((signatory) => [signatory._id.toString(), signatory]),
+  );
+  return ids.flatMap((id) => {
+    const signatory = byId.get(id.toString());
+    return signatory
+      ? [
+          {
+            signatoryId: signatory._id,
+            name: signatory.name,
+            designation: signatory.designation,
+            signatureUrl: signatory.signatureUrl,
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Number of events that have the signatory sign their certificates
+ */
+export async function countSignatoryUses(
+  signatoryId: mongoose.Types.ObjectId,
+): Promise<number> {
+  return Event.countDocuments({ signatoryIds: signatoryId });
+}
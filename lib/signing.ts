@@ -0,0 +1,167 @@
+/**
+ * Certificate Signing Utility
+ * Signs certificates with the issuer's Ed25519 key so that anyone holding the
+ * public key can check authenticity without trusting our database.
+ */
+
+import crypto from "crypto";
+import { logger } from "./logger";
+
+export const SIGNATURE_ALGORITHM = "Ed25519";
+const PAYLOAD_VERSION = 1;
+
+export interface SignableCertificate {
+  certificateNumber: string;
+  participantName: string;
+  eventId: string;
+  issuedAt: Date | string;
+}
+
+export interface CertificateSignature {
+  signature: string;
+  keyId: string;
+}
+
+export type SignatureStatus = "valid" | "invalid" | "unsigned" | "unknown_key";
+
+export interface SigningPublicKey {
+  algorithm: string;
+  keyId: string;
+  publicKeyPem: string;
+}
+
+// ----------------------------------------------------------------------------
+// Key loading
+// ----------------------------------------------------------------------------
+
+/**
+ * Environment variables cannot always hold multi-line values, so accept the
+ * PEM either verbatim, with escaped newlines or base64 encoded.
+ */
+function readPemFromEnv(value: string | undefined): string | null {
+  if (!value || !value.trim()) return null;
+  const trimmed = value.trim();
+  if (trimmed.includes("-----BEGIN")) return trimmed.replace(/\\n/g, "\n");
+  return Buffer.from(trimmed, "base64").toString("utf8");
+}
+
+let cachedKeys: {
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  keyId: string;
+} | null = null;
+
+function loadSigningKeys() {
+  if (cachedKeys) return cachedKeys;
+
+  const pem = readPemFromEnv(process.env.CERT_SIGNING_PRIVATE_KEY);
+  if (!pem) return null;
+
+  const privateKey = crypto.createPrivateKey(pem);
+  if (privateKey.asymmetricKeyType !== "ed25519") {
+    throw new Error("CERT_SIGNING_PRIVATE_KEY must be an Ed25519 private key");
+  }
+  const publicKey = crypto.createPublicKey(privateKey);
+
+  cachedKeys = { privateKey, publicKey, keyId: computeKeyId(publicKey) };
+  return cachedKeys;
+}
+
+/**
+ * Key IDs are the first 16 hex characters of the SHA-256 of the DER-encoded
+ * public key, which lets verifiers pick the right key after a rotation.
+ */
+function computeKeyId(publicKey: crypto.KeyObject): string {
+  const der = publicKey.export({ type: "spki", format: "der" });
+  return crypto.createHash("sha256").update(der).digest("hex").slice(0, 16);
+}
+
+/**
+ * Public half of the issuer key, for the public-key endpoint
+ */
+export function getSigningPublicKey(): SigningPublicKey | null {
+  const keys = loadSigningKeys();
+  if (!keys) return null;
+
+  return {
+    algorithm: SIGNATURE_ALGORITHM,
+    keyId: keys.keyId,
+    publicKeyPem: keys.publicKey
+      .export({ type: "spki", format: "pem" })
+      .toString(),
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Signing and verification
+// ----------------------------------------------------------------------------
+
+/**
+ * Build the exact string that gets signed. Keys are emitted in a fixed order
+ * and the issue date is normalised to ISO-8601 UTC so that third parties can
+ * rebuild the payload byte-for-byte.
+ */
+export function buildCanonicalPayload(
+  certificate: SignableCertificate,
+): string {
+  return JSON.stringify({
+    v: PAYLOAD_VERSION,
+    certificateNumber: certificate.certificateNumber.trim().toUpperCase(),
+    participantName: certificate.participantName.trim(),
+    eventId: certificate.eventId,
+    issuedAt: new Date(certificate.issuedAt).toISOString(),
+  });
+}
+
+/**
+ * Sign a certificate payload with the issuer key
+ * @returns Base64 signature and key ID, or null when no key is configured
+ */
+export function signCertificate(
+  certificate: SignableCertificate,
+): CertificateSignature | null {
+  const keys = loadSigningKeys();
+  if (!keys) {
+    logger.warn(
+      "SIGNING",
+      "CERT_SIGNING_PRIVATE_KEY not set; certificate issued unsigned",
+      { certificateNumber: certificate.certificateNumber },
+    );
+    return null;
+  }
+
+  const signature = crypto.sign(
+    null,
+    Buffer.from(buildCanonicalPayload(certificate), "utf8"),
+    keys.privateKey,
+  );
+
+  return { signature: signature.toString("base64"), keyId: keys.keyId };
+}
+
+/**
+ * Check a stored signature against the current issuer key
+ */
+export function verifyCertificateSignature(
+  certificate: SignableCertificate,
+  signature: string | undefined,
+  keyId: string | undefined,
+): SignatureStatus {
+  if (!signature) return "unsigned";
+
+  const keys = loadSigningKeys();
+  if (!keys || (keyId && keyId !== keys.keyId)) return "unknown_key";
+
+  try {
+    const isValid = crypto.verify(
+      null,
+      Buffer.from(buildCanonicalPayload(certificate), "utf8"),
+      keys.publicKey,
+      Buffer.from(signature, "base64"),
+    );
+    return isValid ? "valid" : "invalid";
+  } catch (error) {
+    logger.error("SIGNING", "Signature verification failed", error);
+    return "invalid";
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * SMTP Email Transport
+ * Sends through any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER,
+ * SMTP_PASSWORD). Without SMTP_HOST it falls back to Gmail with
+ * GMAIL_USER and GMAIL_APP_PASSWORD. Pointing SMTP_HOST at a capture
+ * server such as Mailpit (localhost:1025) keeps mail on the machine.
+ */
+
+import nodemailer, { Transporter } from "nodemailer";
+import type SMTPPool from "nodemailer/lib/smtp-pool";
+import { toMailOptions } from "./emailMime";
+import type { EmailTransport } from "./emailTransport";
+import { logger } from "./logger";
+
+let transporter: Transporter | null = null;
+let transporterKey = "";
+
+function getSmtpOptions(): Omit<SMTPPool.Options, "pool"> | null {
+  const {
+    SMTP_HOST,
+    SMTP_PORT,
+    SMTP_SECURE,
+    SMTP_USER,
+    SMTP_PASSWORD,
+    GMAIL_USER,
+    GMAIL_APP_PASSWORD,
+  } = process.env;
+
+  if (SMTP_HOST) {
+    const port = Number(SMTP_PORT) || 587;
+    return {
+      host: SMTP_HOST,
+      port,
+      // Implicit TLS on 465, STARTTLS everywhere else unless told otherwise
+      secure: SMTP_SECURE ? SMTP_SECURE === "true" : port === 465,
+      auth: SMTP_USER ? { user: SMTP_USER, pass: SMTP_PASSWORD } : undefined,
+    };
+  }
+  if (GMAIL_USER && GMAIL_APP_PASSWORD) {
+    return {
+      service: "gmail",
+      auth: { user: GMAIL_USER, pass: GMAIL_APP_PASSWORD },
+    };
+  }
+  return null;
+}
+
+/**
+ * Create the pooled transporter on first use, and again if the settings
+ * changed
+ */
+function getTransporter(): Transporter {
+  const options = getSmtpOptions();
+  if (!options) {
+    throw new Error("SMTP is not configured");
+  }
+
+  const key = JSON.stringify(options);
+  if (!transporter || transporterKey !== key) {
+    transporter?.close();
+    transporter = nodemailer.createTransport({ ...options, pool: true });
+    transporterKey = key;
+  }
+  return transporter;
+}
+
+export const smtpEmailTransport: EmailTransport = {
+  name: "smtp",
+  // Gmail and most hosted SMTP relays throttle bursts well below this
+  defaultRateLimit: 2,
+
+  isConfigured() {
+    return getSmtpOptions() !== null;
+  },
+
+  async send(message) {
+    try {
+      const info = await getTransporter().sendMail(toMailOptions(message));
+      return info.messageId;
+    } catch (error: unknown) {
+      logger.error("SMTP", `Failed to send email to ${message.to}`, error);
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,207 @@
+/**
+ * File Storage
+ * Selects the storage backend for certificate PDFs and template images
+ * (STORAGE_BACKEND = cloudinary | local | s3, default cloudinary) and keeps
+ * track of which backend holds each certificate's files, so files written
+ * before a switch can still be read and deleted.
+ */
+
+import { cloudinaryStorage } from "./cloudinary";
+import { localFileStorage } from "./localFileStorage";
+import { logger } from "./logger";
+import { s3Storage } from "./s3Storage";
+
+export const STORAGE_BACKENDS = ["cloudinary", "local", "s3"] as const;
+
+export type StorageBackendName = (typeof STORAGE_BACKENDS)[number];
+
+export interface StoredFile {
+  url: string;
+  publicId: string;
+  backend: StorageBackendName;
+}
+
+/** A stored file as recorded on a certificate; no backend means Cloudinary */
+export interface StoredFileRef {
+  url: string;
+  publicId: string;
+  backend?: StorageBackendName;
+}
+
+export interface PutFileOptions {
+  contentType: string;
+  /** Replace an existing file with the same key instead of failing */
+  overwrite: boolean;
+}
+
+export interface StorageBackend {
+  readonly name: StorageBackendName;
+  isConfigured(): boolean;
+  /**
+   * Store a certificate file under a key such as
+   * "certificates/ECELL-2025-KD93Q-V.pdf"; the key becomes its public ID
+   */
+  putFile(
+    key: string,
+    body: Buffer,
+    options: PutFileOptions,
+  ): Promise<StoredFile>;
+  /** Store a template image under a generated name in the folder */
+  putImage(
+    body: Buffer,
+    folder: string,
+    contentType: string,
+  ): Promise<StoredFile>;
+  readFile(file: StoredFileRef): Promise<Buffer>;
+  deleteFile(publicId: string): Promise<void>;
+}
+
+const BACKENDS: Record<StorageBackendName, StorageBackend> = {
+  cloudinary: cloudinaryStorage,
+  local: localFileStorage,
+  s3: s3Storage,
+};
+
+export function isStorageBackendName(
+  value: unknown,
+): value is StorageBackendName {
+  return (
+    typeof value === "string" &&
+    (STORAGE_BACKENDS as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Name of the backend new files are written to
+ * @throws If STORAGE_BACKEND is set to an unknown backend
+ */
+export function getActiveStorageName(): StorageBackendName {
+  const configured = process.env.STORAGE_BACKEND || "cloudinary";
+  if (!isStorageBackendName(configured)) {
+    throw new Error(`Unknown STORAGE_BACKEND "${configured}"`);
+  }
+  return configured;
+}
+
+export function getStorageBackend(
+  name: StorageBackendName = getActiveStorageName(),
+): StorageBackend {
+  return BACKENDS[name];
+}
+
+/**
+ * Check if the active storage backend is configured
+ * @returns true if new files can be stored
+ */
+export function isStorageConfigured(): boolean {
+  try {
+    return getStorageBackend().isConfigured();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Key of a certificate PDF. Regenerated PDFs (version 2 and up) get a
+ * versioned key; the first version keeps the plain certificate number.
+ */
+export function certificatePdfKey(
+  certificateNumber: string,
+  version?: number,
+): string {
+  return version !== undefined && version > 1
+    ? `certificates/${certificateNumber}-v${version}.pdf`
+    : `certificates/${certificateNumber}.pdf`;
+}
+
+/**
+ * Upload a certificate PDF to the active backend
+ * @param pdfBuffer - PDF file as Buffer
+ * @param certificateNumber - Unique certificate identifier
+ * @param version - PDF version for regenerated certificates (2 and up)
+ */
+export async function uploadCertificatePDF(
+  pdfBuffer: Buffer,
+  certificateNumber: string,
+  version?: number,
+): Promise<StoredFile> {
+  // Prevent accidental overwrites. A versioned key is only in use once the
+  // certificate record points at it, so a leftover from an interrupted
+  // regeneration may be replaced.
+  return getStorageBackend().putFile(
+    certificatePdfKey(certificateNumber, version),
+    pdfBuffer,
+    {
+      contentType: "application/pdf",
+      overwrite: version !== undefined && version > 1,
+    },
+  );
+}
+
+/**
+ * Upload an image (background, logo, etc.) to the active backend
+ */
+export async function uploadImage(
+  fileBuffer: Buffer,
+  folder: string,
+  contentType: string,
+): Promise<StoredFile> {
+  return getStorageBackend().putImage(fileBuffer, folder, contentType);
+}
+
+export async function readStoredFile(file: StoredFileRef): Promise<Buffer> {
+  return getStorageBackend(file.backend ?? "cloudinary").readFile(file);
+}
+
+export async function deleteStoredFile(file: StoredFileRef): Promise<void> {
+  return getStorageBackend(file.backend ?? "cloudinary").deleteFile(
+    file.publicId,
+  );
+}
+
+/**
+ * Every stored PDF of a certificate: the current one followed by the
+ * versions replaced by regeneration
+ */
+export function getCertificateFiles(certificate: {
+  certificateUrl: string;
+  cloudinaryPublicId: string;
+  storageBackend?: StorageBackendName;
+  pdfHistory?: Array<{
+    url: string;
+    publicId: string;
+    storageBackend?: StorageBackendName;
+  }>;
+}): StoredFileRef[] {
+  return [
+    {
+      url: certificate.certificateUrl,
+      publicId: certificate.cloudinaryPublicId,
+      backend: certificate.storageBackend,
+    },
+    ...(certificate.pdfHistory ?? []).map((version) => ({
+      url: version.url,
+      publicId: version.publicId,
+      backend: version.storageBackend,
+    })),
+  ].filter((file) => Boolean(file.publicId));
+}
+
+/**
+ * Delete every stored PDF of a certificate. Failures are logged and skipped
+ * so the certificate record can still be removed.
+ */
+export async function deleteCertificateFiles(
+  certificate: Parameters<typeof getCertificateFiles>[0],
+): Promise<void> {
+  for (const file of getCertificateFiles(certificate)) {
+    try {
+      await deleteStoredFile(file);
+    } catch (error: unknown) {
+      logger.warn("STORAGE", `Failed to delete ${file.publicId}`, {
+        backend: file.backend ?? "cloudinary",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+}
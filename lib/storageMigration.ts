@@ -0,0 +1,114 @@
+/**
+ * Storage Migration
+ * Copies a certificate's PDFs (current and replaced versions) to another
+ * storage backend and points the certificate at the copies.
+ */
+
+import Certificate, { ICertificate } from "@/models/Certificate";
+import { logger } from "./logger";
+import {
+  deleteStoredFile,
+  getCertificateFiles,
+  getStorageBackend,
+  readStoredFile,
+  StorageBackendName,
+  StoredFile,
+  StoredFileRef,
+} from "./storage";
+
+/**
+ * Move one certificate's files to the target backend. Files already on the
+ * target are left alone. The record is only updated if the certificate was
+ * not regenerated in the meantime; otherwise the copies are removed again.
+ * @param deleteSource - Remove the original files once the record points at
+ *   the copies
+ */
+export async function migrateCertificateStorage(
+  certificate: ICertificate,
+  target: StorageBackendName,
+  deleteSource: boolean,
+): Promise<void> {
+  const backend = getStorageBackend(target);
+  const copied: StoredFile[] = [];
+  const moved: StoredFileRef[] = [];
+
+  const copy = async (file: StoredFileRef): Promise<StoredFileRef> => {
+    if ((file.backend ?? "cloudinary") === target) {
+      return file;
+    }
+    const body = await readStoredFile(file);
+    // Keys are kept, so an interrupted migration can simply run again
+    const stored = await backend.putFile(file.publicId, body, {
+      contentType: "application/pdf",
+      overwrite: true,
+    });
+    copied.push(stored);
+    moved.push(file);
+    return stored;
+  };
+
+  try {
+    const [current, ...history] = getCertificateFiles(certificate);
+    const currentCopy = await copy(current);
+    const historyCopies: StoredFileRef[] = [];
+    for (const version of history) {
+      historyCopies.push(await copy(version));
+    }
+
+    const updated = await Certificate.updateOne(
+      {
+        _id: certificate._id,
+        certificateUrl: certificate.certificateUrl,
+        cloudinaryPublicId: certificate.cloudinaryPublicId,
+      },
+      {
+        $set: {
+          certificateUrl: currentCopy.url,
+          cloudinaryPublicId: currentCopy.publicId,
+          storageBackend: target,
+          ...(certificate.pdfHistory
+            ? {
+                pdfHistory: certificate.pdfHistory.map((version, index) => ({
+                  url: historyCopies[index].url,
+                  publicId: historyCopies[index].publicId,
+                  storageBackend: historyCopies[index].backend,
+                  replacedAt: version.replacedAt,
+                })),
+              }
+            : {}),
+        },
+      },
+    );
+    if (updated.modifiedCount === 0) {
+      throw new Error("Certificate changed while it was being migrated");
+    }
+  } catch (error) {
+    for (const file of copied) {
+      await deleteStoredFile(file).catch((cleanupError: unknown) =>
+        logger.error(
+          "STORAGE",
+          "Failed to clean up migrated copy",
+          cleanupError,
+        ),
+      );
+    }
+    throw error;
+  }
+
+  if (deleteSource) {
+    for (const file of moved) {
+      await deleteStoredFile(file).catch((cleanupError: unknown) =>
+        logger.warn(
+          "STORAGE",
+          `Failed to delete migrated source ${file.publicId}`,
+          {
+            error:
+              cleanupError instanceof Error
+                ? cleanupError.message
+                : "Unknown error",
+          },
+        ),
+      );
+    }
+  }
+}
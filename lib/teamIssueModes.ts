@@ -0,0 +1,23 @@
+/**
+ * Team Issue Modes
+ * Which certificates an import issues for the rows of a team
+ */
+
+export const TEAM_ISSUE_MODES = ["both", "team", "members"] as const;
+
+export type TeamIssueMode = (typeof TEAM_ISSUE_MODES)[number];
+
+export const DEFAULT_TEAM_ISSUE_MODE: TeamIssueMode = "both";
+
+export const TEAM_ISSUE_MODE_LABELS: Record<TeamIssueMode, string> = {
+  both: "One team certificate and one per member",
+  team: "One team certificate",
+  members: "One certificate per member",
+};
+
+export function isTeamIssueMode(value: unknown): value is TeamIssueMode {
+  return (
+    typeof value === "string" &&
+    (TEAM_ISSUE_MODES as readonly string[]).includes(value)
+  );
+}
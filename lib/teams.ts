@@ -0,0 +1,131 @@
+/**
+ * Teams
+ * Teams are created from the "team" column of an import: rows sharing a
+ * team name become its members. Importing the same team again adds the new
+ * members to it. See lib/teamIssueModes for which certificates a team gets.
+ */
+
+import mongoose from "mongoose";
+import Team, { ITeam, ITeamMember } from "@/models/Team";
+import { ImportRowData, MAX_TEAM_NAME_LENGTH } from "./importValidation";
+
+export const MAX_TEAM_MEMBERS = 50;
+
+export interface TeamSummary {
+  id: string;
+  name: string;
+  members: ITeamMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function summarizeTeam(team: ITeam): TeamSummary {
+  return {
+    id: team._id.toString(),
+    name: team.name,
+    members: team.members.map(({ name, email }) => ({ name, email })),
+    createdAt: team.createdAt,
+    updatedAt: team.updatedAt,
+  };
+}
+
+/**
+ * Add members to a list, skipping people already on it: the same email, or
+ * the same name when either of them has no email
+ */
+function mergeMembers(
+  current: ITeamMember[],
+  incoming: ITeamMember[],
+): ITeamMember[] {
+  const members: ITeamMember[] = current.map(({ name, email }) => ({
+    name,
+    email,
+  }));
+  for (const member of incoming) {
+    const match = members.find((existing) =>
+      existing.email && member.email
+        ? existing.email === member.email
+        : existing.name.toLowerCase() === member.name.toLowerCase(),
+    );
+    if (!match) {
+      members.push(member);
+    } else if (!match.email && member.email) {
+      match.email = member.email;
+    }
+  }
+  return members;
+}
+
+/**
+ * Create the teams named by import rows, or add the rows' participants to
+ * the event's existing teams of the same name
+ * @returns The saved teams by name, in the order they first appear
+ * @throws If a team would have more than MAX_TEAM_MEMBERS members
+ */
+export async function saveImportTeams(
+  eventId: mongoose.Types.ObjectId,
+  rows: ImportRowData[],
+): Promise<Map<string, ITeam>> {
+  const incoming = new Map<string, ITeamMember[]>();
+  for (const row of rows) {
+    const teamName = row.teamName?.trim();
+    if (!teamName) continue;
+    if (teamName.length > MAX_TEAM_NAME_LENGTH) {
+      throw new Error(
+        `Team names must be ${MAX_TEAM_NAME_LENGTH} characters or fewer`,
+      );
+    }
+    const members = incoming.get(teamName) ?? [];
+    members.push({
+      name: row.participantName.trim(),
+      email: row.participantEmail?.trim().toLowerCase() || undefined,
+    });
+    incoming.set(teamName, members);
+  }
+
+  const teams = new Map<string, ITeam>();
+  for (const [name, newMembers] of incoming) {
+    const existing: ITeam | null = await Team.findOne({ eventId, name });
+    const members = mergeMembers(existing?.members ?? [], newMembers);
+    if (members.length > MAX_TEAM_MEMBERS) {
+      throw new Error(
+        `Team "${name}" must not have more than ${MAX_TEAM_MEMBERS} members`,
+      );
+    }
+
+    const team: ITeam | null = await Team.findOneAndUpdate(
+      { eventId, name },
+      { $set: { members } },
+      { upsert: true, new: true, runValidators: true },
+    );
+    if (team) teams.set(name, team);
+  }
+  return teams;
+}
+
+/**
+ * Achievement type and custom fields that all of a team's rows share; the
+ * team certificate carries them too
+ */
+export function sharedTeamDetails(
+  rows: ImportRowData[],
+): Pick<ImportRowData, "achievementType" | "customFields"> {
+  const [first, ...rest] = rows;
+  if (!first) return {};
+
+  const achievementType = rest.every(
+    (row) => row.achievementType === first.achievementType,
+  )
+    ? first.achievementType
+    : undefined;
+  const customFields = Object.fromEntries(
+    Object.entries(first.customFields ?? {}).filter(([key, value]) =>
+      rest.every((row) => row.customFields?.[key] === value),
+    ),
+  );
+  return {
+    achievementType,
+    customFields:
+      Object.keys(customFields).length > 0 ? customFields : undefined,
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Template Slot Rules
+ * Which certificates of an event print on which template slot. Shared by
+ * the issuer and the event form, so it must stay free of server imports.
+ */
+
+import {
+  ACHIEVEMENT_TYPE_LABELS,
+  AchievementType,
+  DEFAULT_ACHIEVEMENT_TYPE,
+} from "./achievements";
+
+export const MAX_TEMPLATE_SLOTS = 10;
+
+export interface TemplateSlotRule {
+  /** Achievement types (roles) the slot prints; any type when empty */
+  achievementTypes: AchievementType[];
+  /** Custom field that must equal `value`, compared case-insensitively */
+  field?: string;
+  value?: string;
+}
+
+/** A template slot as the event form edits it and the API lists it */
+export interface TemplateSlotConfig extends TemplateSlotRule {
+  name: string;
+  templateId: string;
+}
+
+interface SlotCertificate {
+  achievementType?: AchievementType;
+  customFields?: Record<string, string>;
+}
+
+export function matchesTemplateSlot(
+  rule: TemplateSlotRule,
+  certificate: SlotCertificate,
+): boolean {
+  const achievementType =
+    certificate.achievementType ?? DEFAULT_ACHIEVEMENT_TYPE;
+  if (
+    rule.achievementTypes.length > 0 &&
+    !rule.achievementTypes.includes(achievementType)
+  ) {
+    return false;
+  }
+  if (rule.field) {
+    const actual = certificate.customFields?.[rule.field] ?? "";
+    if (
+      actual.trim().toLowerCase() !== (rule.value ?? "").trim().toLowerCase()
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * The first slot, in the event's order, whose rule the certificate meets
+ * @returns The slot, or undefined to print on the event's own template
+ */
+export function pickTemplateSlot<T extends TemplateSlotRule>(
+  slots: T[] | undefined,
+  certificate: SlotCertificate,
+): T | undefined {
+  return slots?.find((slot) => matchesTemplateSlot(slot, certificate));
+}
+
+/**
+ * Rule in words, e.g. "Winner or Runner-up with track = FinTech"
+ */
+export function describeTemplateSlotRule(rule: TemplateSlotRule): string {
+  const roles = rule.achievementTypes
+    .map((type) => ACHIEVEMENT_TYPE_LABELS[type])
+    .join(" or ");
+  const condition = rule.field ? `${rule.field} = ${rule.value ?? ""}` : "";
+  if (roles && condition) return `${roles} with ${condition}`;
+  return roles || condition || "Every certificate";
+}
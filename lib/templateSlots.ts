@@ -0,0 +1,136 @@
+/**
+ * Template Slots
+ * An event can print some of its certificates (winners, organizers, one
+ * track, ...) on other blueprints than its own. Each slot pairs a rule with
+ * a snapshot of the blueprint taken when it is picked, like the event's own
+ * template. See lib/templateSlotRules for how a slot is picked.
+ */
+
+import mongoose from "mongoose";
+import type { IEvent, ITemplateSlot } from "@/models/Event";
+import Template, { ITemplate } from "@/models/Template";
+import { isAchievementType, normalizeCustomFieldKey } from "./achievements";
+import {
+  isRecord,
+  readOptionalString,
+  readRequiredString,
+} from "./requestValidation";
+import { MAX_TEMPLATE_SLOTS, TemplateSlotConfig } from "./templateSlotRules";
+
+export function summarizeTemplateSlots(
+  event: Pick<IEvent, "templateSlots">,
+): TemplateSlotConfig[] {
+  return (event.templateSlots ?? []).map((slot) => ({
+    name: slot.name,
+    achievementTypes: [...slot.achievementTypes],
+    field: slot.field,
+    value: slot.value,
+    templateId: slot.templateId.toString(),
+  }));
+}
+
+/**
+ * Validate the event's template slots and snapshot their blueprints. A
+ * blueprint already used by one of the current slots keeps its snapshot,
+ * even if it has since been edited or archived, so rules can be renamed and
+ * reordered without changing how certificates look.
+ * @param value - Slots in the order they are tried
+ * @throws If a slot, its rule or its blueprint is not valid
+ */
+export async function snapshotTemplateSlots(
+  value: unknown,
+  current: ITemplateSlot[] = [],
+): Promise<ITemplateSlot[]> {
+  if (!Array.isArray(value)) {
+    throw new Error("templateSlots must be a list of template slots");
+  }
+  if (value.length > MAX_TEMPLATE_SLOTS) {
+    throw new Error(
+      `Events must not have more than ${MAX_TEMPLATE_SLOTS} template slots`,
+    );
+  }
+
+  const slots: ITemplateSlot[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry)) {
+      throw new Error("Invalid template slot");
+    }
+    const name = readRequiredString(entry.name, "Template slot name", 60);
+
+    const achievementTypes = entry.achievementTypes ?? [];
+    if (
+      !Array.isArray(achievementTypes) ||
+      !achievementTypes.every(isAchievementType)
+    ) {
+      throw new Error(
+        `Template slot "${name}" has an unknown achievement type`,
+      );
+    }
+    const rawField = readOptionalString(
+      entry.field,
+      `Template slot "${name}" field`,
+      60,
+    );
+    const field = rawField ? normalizeCustomFieldKey(rawField) : undefined;
+    const fieldValue = readOptionalString(
+      entry.value,
+      `Template slot "${name}" value`,
+      200,
+    );
+    if (rawField && !field) {
+      throw new Error(`Template slot "${name}" has an invalid field name`);
+    }
+    if (field && !fieldValue) {
+      throw new Error(`Template slot "${name}" needs a value for ${field}`);
+    }
+    if (achievementTypes.length === 0 && !field) {
+      throw new Error(
+        `Template slot "${name}" needs an achievement type or a field rule`,
+      );
+    }
+
+    const { templateId } = entry;
+    if (
+      typeof templateId !== "string" ||
+      !mongoose.isValidObjectId(templateId)
+    ) {
+      throw new Error(`Template slot "${name}" needs a template blueprint`);
+    }
+
+    const rule = {
+      name,
+      achievementTypes: [...new Set(achievementTypes)],
+      field,
+      value: field ? fieldValue : undefined,
+    };
+    const snapshot = current.find(
+      (slot) => slot.templateId.toString() === templateId,
+    );
+    if (snapshot) {
+      slots.push({
+        ...rule,
+        templateId: snapshot.templateId,
+        templateVersion: snapshot.templateVersion,
+        templateHtml: snapshot.templateHtml,
+        templateBackgroundUrl: snapshot.templateBackgroundUrl,
+      });
+      continue;
+    }
+
+    const blueprint: ITemplate | null = await Template.findOne({
+      _id: templateId,
+      isArchived: false,
+    });
+    if (!blueprint) {
+      throw new Error("Active template blueprint not found");
+    }
+    slots.push({
+      ...rule,
+      templateId: blueprint._id,
+      templateVersion: blueprint.version,
+      templateHtml: blueprint.html,
+      templateBackgroundUrl: blueprint.backgroundUrl || undefined,
+    });
+  }
+  return slots;
+}
@@ -0,0 +1,271 @@
+/**
+ * Template Versions
+ * Every change to a blueprint's design (HTML or background) is saved as a
+ * new, immutable version. Events keep the snapshot they took until an admin
+ * pushes the blueprint's current version to them.
+ */
+
+import mongoose from "mongoose";
+import Event, { IEvent } from "@/models/Event";
+import Template, { ITemplate } from "@/models/Template";
+import TemplateVersion, { ITemplateVersion } from "@/models/TemplateVersion";
+
+const VERSION_CONFLICT_MESSAGE =
+  "Blueprint was saved by someone else. Reload it and try again.";
+
+export interface TemplateDesign {
+  html: string;
+  backgroundUrl?: string;
+}
+
+export interface TemplateVersionSummary {
+  version: number;
+  note?: string;
+  createdBy?: string;
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+export interface TemplateEventUsage {
+  /** Template slot using the blueprint; missing for the event's own template */
+  slotName?: string;
+  templateVersion: number | null;
+  isOutdated: boolean;
+}
+
+export interface TemplateEventSummary {
+  id: string;
+  title: string;
+  startDate: Date;
+  usages: TemplateEventUsage[];
+  isOutdated: boolean;
+}
+
+export function summarizeTemplateVersion(
+  version: ITemplateVersion,
+): TemplateVersionSummary {
+  return {
+    version: version.version,
+    note: version.note,
+    createdBy: version.createdBy,
+    restoredFrom: version.restoredFrom,
+    createdAt: version.createdAt,
+  };
+}
+
+export function isSameDesign(a: TemplateDesign, b: TemplateDesign): boolean {
+  return (
+    a.html === b.html && (a.backgroundUrl || "") === (b.backgroundUrl || "")
+  );
+}
+
+export function isTemplateVersionConflict(error: unknown): boolean {
+  return error instanceof Error && error.message === VERSION_CONFLICT_MESSAGE;
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { code?: unknown }).code === 11000
+  );
+}
+
+/**
+ * Record the first version of a new blueprint
+ */
+export async function recordInitialVersion(
+  template: ITemplate,
+  createdBy: string,
+  note?: string,
+): Promise<void> {
+  await TemplateVersion.create({
+    templateId: template._id,
+    version: 1,
+    html: template.html,
+    backgroundUrl: template.backgroundUrl || undefined,
+    note,
+    createdBy,
+  });
+}
+
+/**
+ * Save a blueprint's new design, with any other `changes`, as its next
+ * version. A blueprint saved before version history first gets its current
+ * design recorded as version 1, so it can be rolled back to. The blueprint is
+ * only updated while it is still on the version it was read at; otherwise
+ * the new version is removed again.
+ * @returns The updated blueprint
+ * @throws A version conflict if someone else saved the blueprint in the meantime
+ */
+export async function saveTemplateVersion(
+  template: ITemplate,
+  design: TemplateDesign,
+  createdBy: string,
+  options: {
+    note?: string;
+    restoredFrom?: number;
+    changes?: Record<string, unknown>;
+  } = {},
+): Promise<ITemplate> {
+  if (template.version === undefined) {
+    await TemplateVersion.updateOne(
+      { templateId: template._id, version: 1 },
+      {
+        $setOnInsert: {
+          html: template.html,
+          backgroundUrl: template.backgroundUrl || undefined,
+          note: "Design before version history",
+        },
+      },
+      { upsert: true },
+    );
+  }
+
+  const version = (template.version ?? 1) + 1;
+  try {
+    await TemplateVersion.create({
+      templateId: template._id,
+      version,
+      html: design.html,
+      backgroundUrl: design.backgroundUrl || undefined,
+      note: options.note,
+      createdBy,
+      restoredFrom: options.restoredFrom,
+    });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) throw new Error(VERSION_CONFLICT_MESSAGE);
+    throw error;
+  }
+
+  let saved: ITemplate | null = null;
+  try {
+    saved = await Template.findOneAndUpdate(
+      {
+        _id: template._id,
+        version: template.version ?? { $exists: false },
+      },
+      {
+        ...options.changes,
+        html: design.html,
+        backgroundUrl: design.backgroundUrl || "",
+        version,
+      },
+      { new: true, runValidators: true },
+    );
+  } finally {
+    // Don't leave a version behind that the blueprint never got
+    if (!saved) {
+      await TemplateVersion.deleteOne({ templateId: template._id, version });
+    }
+  }
+  if (!saved) throw new Error(VERSION_CONFLICT_MESSAGE);
+  return saved;
+}
+
+/**
+ * Whether an event's snapshot of a blueprint is older than its current
+ * design. Snapshots taken before version history are compared by content.
+ */
+export function isSnapshotOutdated(
+  snapshot: {
+    templateVersion?: number;
+    templateHtml?: string;
+    templateBackgroundUrl?: string;
+  },
+  template: ITemplate,
+): boolean {
+  if (
+    snapshot.templateVersion !== undefined &&
+    template.version !== undefined
+  ) {
+    return snapshot.templateVersion !== template.version;
+  }
+  return !isSameDesign(
+    {
+      html: snapshot.templateHtml ?? "",
+      backgroundUrl: snapshot.templateBackgroundUrl,
+    },
+    template,
+  );
+}
+
+/**
+ * Events that print with the blueprint, as their own template or in a
+ * template slot, newest first
+ */
+export async function listTemplateEvents(
+  template: ITemplate,
+): Promise<TemplateEventSummary[]> {
+  const events: IEvent[] = await Event.find({
+    $or: [
+      { templateId: template._id },
+      { "templateSlots.templateId": template._id },
+    ],
+  }).sort({ startDate: -1 });
+
+  return events.map((event) => {
+    const usages: TemplateEventUsage[] = [];
+    if (event.templateId?.equals(template._id)) {
+      usages.push({
+        templateVersion: event.templateVersion ?? null,
+        isOutdated: isSnapshotOutdated(event, template),
+      });
+    }
+    for (const slot of event.templateSlots ?? []) {
+      if (!slot.templateId.equals(template._id)) continue;
+      usages.push({
+        slotName: slot.name,
+        templateVersion: slot.templateVersion ?? null,
+        isOutdated: isSnapshotOutdated(slot, template),
+      });
+    }
+    return {
+      id: event._id.toString(),
+      title: event.title,
+      startDate: event.startDate,
+      usages,
+      isOutdated: usages.some((usage) => usage.isOutdated),
+    };
+  });
+}
+
+/**
+ * Replace the events' snapshots of the blueprint, including those in
+ * template slots, with its current version. Issued certificates keep their
+ * PDFs until they are regenerated.
+ */
+export async function pushTemplateUpdate(
+  template: ITemplate,
+  eventIds: mongoose.Types.ObjectId[],
+): Promise<void> {
+  const version =
+    template.version !== undefined ? { templateVersion: template.version } : {};
+  const backgroundUrl = template.backgroundUrl || "";
+
+  await Promise.all([
+    Event.updateMany(
+      { _id: { $in: eventIds }, templateId: template._id },
+      {
+        $set: {
+          ...version,
+          templateHtml: template.html,
+          templateBackgroundUrl: backgroundUrl,
+        },
+      },
+    ),
+    Event.updateMany(
+      { _id: { $in: eventIds }, "templateSlots.templateId": template._id },
+      {
+        $set: {
+          ...(template.version !== undefined
+            ? { "templateSlots.$[slot].templateVersion": template.version }
+            : {}),
+          "templateSlots.$[slot].templateHtml": template.html,
+          "templateSlots.$[slot].templateBackgroundUrl": backgroundUrl,
+        },
+      },
+      { arrayFilters: [{ "slot.templateId": template._id }] },
+    ),
+  ]);
+}
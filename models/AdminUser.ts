@@ -0,0 +1,77 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { ADMIN_ROLES, AdminRole } from "@/lib/roles";
+
+export type AdminUserStatus = "invited" | "active" | "disabled";
+
+export interface IAdminUser {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  name: string;
+  role: AdminRole;
+  status: AdminUserStatus;
+  passwordHash?: string;
+  inviteTokenHash?: string;
+  inviteExpiresAt?: Date;
+  invitedBy?: mongoose.Types.ObjectId;
+  lastLoginAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AdminUserSchema = new Schema<IAdminUser>(
+  {
+    email: {
+      type: String,
+      required: [true, "Email is required"],
+      unique: true,
+      trim: true,
+      lowercase: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Name is required"],
+      trim: true,
+    },
+    role: {
+      type: String,
+      enum: ADMIN_ROLES,
+      required: [true, "Role is required"],
+    },
+    status: {
+      type: String,
+      enum: ["invited", "active", "disabled"],
+      default: "invited",
+      index: true,
+    },
+    // Secrets are never returned unless explicitly selected
+    passwordHash: {
+      type: String,
+      select: false,
+    },
+    inviteTokenHash: {
+      type: String,
+      select: false,
+      index: true,
+      sparse: true,
+    },
+    inviteExpiresAt: {
+      type: Date,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "AdminUser",
+    },
+    lastLoginAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Prevent model recompilation in development
+const AdminUser =
+  models.AdminUser || model<IAdminUser>("AdminUser", AdminUserSchema);
+
+export default AdminUser;
@@ -0,0 +1,117 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { ADMIN_ROLES, AdminRole } from "@/lib/roles";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  AuditAction,
+  AuditTargetType,
+} from "@/lib/auditActions";
+
+export interface IAuditChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IAuditLog {
+  _id: mongoose.Types.ObjectId;
+  actorId?: mongoose.Types.ObjectId;
+  actorEmail: string;
+  actorRole?: AdminRole;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetIds: string[];
+  eventId?: mongoose.Types.ObjectId;
+  changes?: Record<string, IAuditChange>;
+  details?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+  method: string;
+  path: string;
+  createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>(
+  {
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: "AdminUser",
+      index: true,
+    },
+    actorEmail: {
+      type: String,
+      required: [true, "Actor email is required"],
+      lowercase: true,
+      trim: true,
+      index: true,
+    },
+    actorRole: {
+      type: String,
+      enum: ADMIN_ROLES,
+    },
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: [true, "Action is required"],
+      index: true,
+    },
+    targetType: {
+      type: String,
+      enum: AUDIT_TARGET_TYPES,
+      required: [true, "Target type is required"],
+    },
+    targetIds: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+      index: true,
+    },
+    // Only the fields that changed, as { field: { before, after } }
+    changes: {
+      type: Schema.Types.Mixed,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+    },
+    ip: { type: String },
+    userAgent: { type: String },
+    method: { type: String, required: true },
+    path: { type: String, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+AuditLogSchema.index({ createdAt: -1 });
+
+// Entries are append-only: refuse every update and delete issued through the model
+function rejectAuditMutation(): never {
+  throw new Error("Audit log entries cannot be modified or deleted");
+}
+
+AuditLogSchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "findOneAndReplace",
+    "replaceOne",
+    "deleteOne",
+    "deleteMany",
+    "findOneAndDelete",
+  ],
+  rejectAuditMutation,
+);
+AuditLogSchema.pre("save", function () {
+  if (!this.isNew) rejectAuditMutation();
+});
+
+// Prevent model recompilation in development
+const AuditLog =
+  models.AuditLog || model<IAuditLog>("AuditLog", AuditLogSchema);
+
+export default AuditLog;
@@ -1,5 +1,28 @@
 import mongoose, { Schema, model, models } from 'mongoose';
 import { IEvent } from './Event';
+import { REVOCATION_REASONS, RevocationReason } from '@/lib/revocation';
+import { ACHIEVEMENT_TYPES, AchievementType } from '@/lib/achievements';
+import type { StorageBackendName } from '@/lib/storage';
+import type { ITeamMember } from './Team';
+import type { ISignatorySnapshot } from './Signatory';
+
+// queued and retrying are set while the email queue is still delivering
+export type EmailStatus = 'sent' | 'failed' | 'pending' | 'queued' | 'retrying';
+
+export interface IPdfVersion {
+    url: string;
+    publicId: string;
+    storageBackend?: StorageBackendName;
+    replacedAt: Date;
+}
+
+export interface IDetailChange {
+    field: 'participantName' | 'participantEmail';
+    before?: string;
+    after?: string;
+    changedAt: Date;
+    changedBy: string;
+}
 
 export interface ICertificate {
     _id: mongoose.Types.ObjectId;
@@ -7,17 +30,91 @@ export interface ICertificate {
     participantName: string;
     participantEmail?: string;
     eventId: mongoose.Types.ObjectId | IEvent;
+    /** Missing on certificates issued before achievement types, which were all participants */
+    achievementType?: AchievementType;
+    /** Extra details printed on the certificate, e.g. position or track */
+    customFields?: Map<string, string>;
+    teamId?: mongoose.Types.ObjectId;
+    teamName?: string;
+    /** Members of the team when the certificate was issued */
+    teamMembers?: ITeamMember[];
+    /** Names the whole team rather than one member; participantName is the team name */
+    isTeamCertificate?: boolean;
+    /** Signatories of the event when the certificate was issued, in order */
+    signatories?: ISignatorySnapshot[];
     certificateUrl: string;
+    /** Storage key of the PDF; named after the original Cloudinary-only storage */
     cloudinaryPublicId: string;
+    /** Backend holding the PDF; missing on certificates stored before backends were configurable */
+    storageBackend?: StorageBackendName;
+    source?: 'generated' | 'uploaded';
+    pdfHistory?: IPdfVersion[];
+    regeneratedAt?: Date;
+    detailHistory?: IDetailChange[];
     verificationHash: string;
+    signature?: string;
+    signatureKeyId?: string;
     emailSentAt?: Date;
-    emailStatus?: 'sent' | 'failed' | 'pending';
+    emailStatus?: EmailStatus;
     emailError?: string;
+    /** Delivery attempts made for the latest send */
+    emailAttempts?: number;
+    /** Provider message ID of the latest send, used to match bounce reports */
+    emailMessageId?: string;
+    /** First open and click of the latest send, see lib/emailTracking */
+    emailOpenedAt?: Date;
+    emailClickedAt?: Date;
+    /** Set when the latest send hard-bounced */
+    emailBouncedAt?: Date;
+    emailBounceReason?: string;
+    revokedAt?: Date;
+    revokedBy?: string;
+    revocationReason?: RevocationReason;
+    revocationNote?: string;
     issuedAt: Date;
     createdAt: Date;
     updatedAt: Date;
 }
 
+const PdfVersionSchema = new Schema<IPdfVersion>(
+    {
+        url: { type: String, required: true },
+        publicId: { type: String, required: true },
+        storageBackend: { type: String, enum: ['cloudinary', 'local', 's3'] },
+        replacedAt: { type: Date, required: true },
+    },
+    { _id: false }
+);
+
+const DetailChangeSchema = new Schema<IDetailChange>(
+    {
+        field: { type: String, enum: ['participantName', 'participantEmail'], required: true },
+        before: { type: String },
+        after: { type: String },
+        changedAt: { type: Date, required: true },
+        changedBy: { type: String, required: true },
+    },
+    { _id: false }
+);
+
+const TeamMemberSnapshotSchema = new Schema<ITeamMember>(
+    {
+        name: { type: String, required: true },
+        email: { type: String },
+    },
+    { _id: false }
+);
+
+const SignatorySnapshotSchema = new Schema<ISignatorySnapshot>(
+    {
+        signatoryId: { type: Schema.Types.ObjectId, ref: 'Signatory', required: true },
+        name: { type: String, required: true },
+        designation: { type: String, required: true },
+        signatureUrl: { type: String, required: true },
+    },
+    { _id: false }
+);
+
 const CertificateSchema = new Schema<ICertificate>(
     {
         certificateNumber: {
@@ -37,12 +134,44 @@ const CertificateSchema = new Schema<ICertificate>(
             required: false,
             trim: true,
             lowercase: true,
+            index: true,
         },
         eventId: {
             type: Schema.Types.ObjectId,
             ref: 'Event',
             required: [true, 'Event ID is required'],
         },
+        achievementType: {
+            type: String,
+            enum: ACHIEVEMENT_TYPES,
+            default: 'participant',
+        },
+        customFields: {
+            type: Map,
+            of: String,
+            default: undefined,
+        },
+        teamId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Team',
+            index: true,
+            sparse: true,
+        },
+        teamName: {
+            type: String,
+            trim: true,
+        },
+        teamMembers: {
+            type: [TeamMemberSnapshotSchema],
+            default: undefined,
+        },
+        isTeamCertificate: {
+            type: Boolean,
+        },
+        signatories: {
+            type: [SignatorySnapshotSchema],
+            default: undefined,
+        },
         certificateUrl: {
             type: String,
             required: [true, 'Certificate URL is required'],
@@ -53,21 +182,85 @@ const CertificateSchema = new Schema<ICertificate>(
             required: [true, 'Cloudinary public ID is required'],
             trim: true,
         },
+        storageBackend: {
+            type: String,
+            enum: ['cloudinary', 'local', 's3'],
+        },
+        // Uploaded PDFs were designed outside the app and are never re-rendered
+        source: {
+            type: String,
+            enum: ['generated', 'uploaded'],
+            default: 'generated',
+        },
+        // Earlier PDFs replaced by regeneration, oldest first
+        pdfHistory: {
+            type: [PdfVersionSchema],
+            default: undefined,
+        },
+        regeneratedAt: {
+            type: Date,
+        },
+        // Corrections to participant details, oldest first
+        detailHistory: {
+            type: [DetailChangeSchema],
+            default: undefined,
+        },
         verificationHash: {
             type: String,
             required: [true, 'Verification hash is required'],
             trim: true,
         },
+        signature: {
+            type: String,
+        },
+        signatureKeyId: {
+            type: String,
+        },
         emailSentAt: {
             type: Date,
         },
         emailStatus: {
             type: String,
-            enum: ['sent', 'failed', 'pending'],
+            enum: ['sent', 'failed', 'pending', 'queued', 'retrying'],
         },
         emailError: {
             type: String,
         },
+        emailAttempts: {
+            type: Number,
+        },
+        emailMessageId: {
+            type: String,
+            index: true,
+            sparse: true,
+        },
+        emailOpenedAt: {
+            type: Date,
+        },
+        emailClickedAt: {
+            type: Date,
+        },
+        emailBouncedAt: {
+            type: Date,
+        },
+        emailBounceReason: {
+            type: String,
+        },
+        revokedAt: {
+            type: Date,
+        },
+        revokedBy: {
+            type: String,
+            trim: true,
+        },
+        revocationReason: {
+            type: String,
+            enum: REVOCATION_REASONS,
+        },
+        revocationNote: {
+            type: String,
+            trim: true,
+        },
         issuedAt: {
             type: Date,
             default: Date.now,
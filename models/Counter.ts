@@ -0,0 +1,22 @@
+import { Schema, model, models } from "mongoose";
+
+export interface ICounter {
+  _id: string;
+  seq: number;
+}
+
+// Named sequences incremented atomically with $inc (e.g. certificate numbers)
+const CounterSchema = new Schema<ICounter>(
+  {
+    _id: { type: String, required: true },
+    seq: { type: Number, default: 0 },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Prevent model recompilation in development
+const Counter = models.Counter || model<ICounter>("Counter", CounterSchema);
+
+export default Counter;
@@ -0,0 +1,87 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export type EmailEventType = "open" | "click" | "bounce";
+
+/** Links in the certificate email that go through the click redirect */
+export type TrackedLink = "certificate" | "verification";
+
+export type BounceSource = "webhook" | "mbox";
+
+export interface IEmailEvent {
+  _id: mongoose.Types.ObjectId;
+  certificateId: mongoose.Types.ObjectId;
+  eventId: mongoose.Types.ObjectId;
+  type: EmailEventType;
+  /** Message ID of the email the event belongs to, when known */
+  messageId?: string;
+  /** Clicked link (clicks only) */
+  link?: TrackedLink;
+  /** Hard bounce; soft bounces may still be delivered later (bounces only) */
+  permanent?: boolean;
+  reason?: string;
+  source?: BounceSource;
+  userAgent?: string;
+  occurredAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Delivery history of certificate emails. The latest state is also kept
+// on the certificate (emailOpenedAt, emailClickedAt, emailBouncedAt) so the
+// certificates table can filter without reading this collection.
+const EmailEventSchema = new Schema<IEmailEvent>(
+  {
+    certificateId: {
+      type: Schema.Types.ObjectId,
+      ref: "Certificate",
+      required: [true, "Certificate ID is required"],
+      index: true,
+    },
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+      required: [true, "Event ID is required"],
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: ["open", "click", "bounce"],
+      required: [true, "Event type is required"],
+    },
+    messageId: {
+      type: String,
+      trim: true,
+    },
+    link: {
+      type: String,
+      enum: ["certificate", "verification"],
+    },
+    permanent: {
+      type: Boolean,
+    },
+    reason: {
+      type: String,
+      trim: true,
+    },
+    source: {
+      type: String,
+      enum: ["webhook", "mbox"],
+    },
+    userAgent: {
+      type: String,
+    },
+    occurredAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Prevent model recompilation in development
+const EmailEvent =
+  models.EmailEvent || model<IEmailEvent>("EmailEvent", EmailEventSchema);
+
+export default EmailEvent;
@@ -0,0 +1,124 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import type { EmailTemplateContent } from "./EmailTemplate";
+
+export type EmailJobStatus = "queued" | "running" | "completed" | "cancelled";
+
+// "retrying" rows wait for nextAttemptAt after a transient failure
+export type EmailJobRowStatus =
+  "queued" | "sending" | "retrying" | "sent" | "failed";
+
+export interface IEmailJobRow {
+  certificateId: mongoose.Types.ObjectId;
+  status: EmailJobRowStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  claimId?: string;
+  startedAt?: Date;
+  messageId?: string;
+  error?: string;
+  /** The failure will not go away by retrying (bad address, missing template) */
+  permanent?: boolean;
+  finishedAt?: Date;
+}
+
+// Email template of one event, as resolved when the job was queued
+export interface IEmailJobTemplate extends EmailTemplateContent {
+  eventId: mongoose.Types.ObjectId;
+  emailTemplateId?: mongoose.Types.ObjectId;
+  emailTemplateName?: string;
+}
+
+export interface IEmailJob {
+  _id: mongoose.Types.ObjectId;
+  /** Set when every certificate in the job belongs to the same event */
+  eventId?: mongoose.Types.ObjectId;
+  status: EmailJobStatus;
+  rows: IEmailJobRow[];
+  /**
+   * Templates and partials the emails are built from, kept so that later
+   * edits do not change what the job sends. Missing on jobs queued before
+   * snapshots existed.
+   */
+  templates?: IEmailJobTemplate[];
+  partials?: Map<string, string>;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailJobRowSchema = new Schema<IEmailJobRow>(
+  {
+    certificateId: {
+      type: Schema.Types.ObjectId,
+      ref: "Certificate",
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["queued", "sending", "retrying", "sent", "failed"],
+      default: "queued",
+    },
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, required: true },
+    claimId: { type: String },
+    startedAt: { type: Date },
+    messageId: { type: String },
+    error: { type: String },
+    permanent: { type: Boolean },
+    finishedAt: { type: Date },
+  },
+  { _id: false },
+);
+
+const EmailJobTemplateSchema = new Schema<IEmailJobTemplate>(
+  {
+    eventId: { type: Schema.Types.ObjectId, ref: "Event", required: true },
+    emailTemplateId: { type: Schema.Types.ObjectId, ref: "EmailTemplate" },
+    emailTemplateName: { type: String },
+    subject: { type: String, required: true },
+    body: { type: String, required: true },
+    attachPdf: { type: Boolean, default: false },
+    inlineQr: { type: Boolean, default: false },
+  },
+  { _id: false },
+);
+
+const EmailJobSchema = new Schema<IEmailJob>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: ["queued", "running", "completed", "cancelled"],
+      default: "queued",
+      index: true,
+    },
+    rows: {
+      type: [EmailJobRowSchema],
+      default: [],
+    },
+    templates: {
+      type: [EmailJobTemplateSchema],
+      default: undefined,
+    },
+    partials: {
+      type: Map,
+      of: String,
+    },
+    startedAt: { type: Date },
+    finishedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Prevent model recompilation in development
+const EmailJob =
+  models.EmailJob || model<IEmailJob>("EmailJob", EmailJobSchema);
+
+export default EmailJob;
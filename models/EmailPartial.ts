@@ -0,0 +1,41 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export interface IEmailPartial {
+  _id: mongoose.Types.ObjectId;
+  /** Name used to include the partial: {{> name}} */
+  name: string;
+  html: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Shared pieces of certificate emails, such as a branded header and footer
+const EmailPartialSchema = new Schema<IEmailPartial>(
+  {
+    name: {
+      type: String,
+      required: [true, "Partial name is required"],
+      unique: true,
+      trim: true,
+    },
+    html: {
+      type: String,
+      required: [true, "Partial HTML is required"],
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Prevent model recompilation in development
+const EmailPartial =
+  models.EmailPartial ||
+  model<IEmailPartial>("EmailPartial", EmailPartialSchema);
+
+export default EmailPartial;
@@ -0,0 +1,72 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+// "queueing" while the scheduler turns the schedule into email jobs;
+// "failed" when nothing could be queued
+export type EmailScheduleStatus =
+  "pending" | "queueing" | "queued" | "cancelled" | "failed";
+
+export interface IEmailSchedule {
+  _id: mongoose.Types.ObjectId;
+  eventId: mongoose.Types.ObjectId;
+  /** Certificates to email; the whole event when unset */
+  certificateIds?: mongoose.Types.ObjectId[];
+  sendAt: Date;
+  status: EmailScheduleStatus;
+  /** Email of the admin who scheduled the send */
+  createdBy: string;
+  claimedAt?: Date;
+  /** Email jobs created when the schedule ran */
+  jobIds: mongoose.Types.ObjectId[];
+  queued?: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailScheduleSchema = new Schema<IEmailSchedule>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+      required: true,
+      index: true,
+    },
+    certificateIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Certificate" }],
+      default: undefined,
+    },
+    sendAt: {
+      type: Date,
+      required: [true, "Send time is required"],
+    },
+    status: {
+      type: String,
+      enum: ["pending", "queueing", "queued", "cancelled", "failed"],
+      default: "pending",
+    },
+    createdBy: {
+      type: String,
+      required: true,
+    },
+    claimedAt: { type: Date },
+    jobIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: "EmailJob" }],
+      default: [],
+    },
+    queued: { type: Number },
+    error: { type: String },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// The scheduler looks for due pending schedules
+EmailScheduleSchema.index({ status: 1, sendAt: 1 });
+
+// Prevent model recompilation in development
+const EmailSchedule =
+  models.EmailSchedule ||
+  model<IEmailSchedule>("EmailSchedule", EmailScheduleSchema);
+
+export default EmailSchedule;
@@ -0,0 +1,72 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+/** What a certificate email is built from */
+export interface EmailTemplateContent {
+  subject: string;
+  body: string;
+  /** Attach the certificate PDF instead of only linking to it */
+  attachPdf?: boolean;
+  /** Embed the verification QR code as an inline image ({{qrCode}}) */
+  inlineQr?: boolean;
+}
+
+// Library email template that events link to instead of pasting their own
+export interface IEmailTemplate extends EmailTemplateContent {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  category?: string;
+  isArchived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EmailTemplateSchema = new Schema<IEmailTemplate>(
+  {
+    name: {
+      type: String,
+      required: [true, "Template name is required"],
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    category: {
+      type: String,
+      trim: true,
+      default: "General",
+    },
+    subject: {
+      type: String,
+      required: [true, "Email subject is required"],
+      trim: true,
+    },
+    body: {
+      type: String,
+      required: [true, "Email body is required"],
+    },
+    attachPdf: {
+      type: Boolean,
+      default: false,
+    },
+    inlineQr: {
+      type: Boolean,
+      default: false,
+    },
+    isArchived: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Prevent model recompilation in development
+const EmailTemplate =
+  models.EmailTemplate ||
+  model<IEmailTemplate>("EmailTemplate", EmailTemplateSchema);
+
+export default EmailTemplate;
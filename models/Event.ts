@@ -1,4 +1,18 @@
 import mongoose, { Schema, model, models } from "mongoose";
+import type { CertificateNumberScheme } from "@/lib/certificateUtils";
+import { ACHIEVEMENT_TYPES } from "@/lib/achievements";
+import type { TemplateSlotRule } from "@/lib/templateSlotRules";
+import type { EmailTemplateContent } from "./EmailTemplate";
+
+/** Template snapshot used instead of the event's for matching certificates */
+export interface ITemplateSlot extends TemplateSlotRule {
+  name: string;
+  templateId: mongoose.Types.ObjectId;
+  /** Version of the blueprint the snapshot was taken from */
+  templateVersion?: number;
+  templateHtml: string;
+  templateBackgroundUrl?: string;
+}
 
 export interface IEvent {
   _id: mongoose.Types.ObjectId;
@@ -8,16 +22,64 @@ export interface IEvent {
   organizer: string;
   template: string;
   templateId?: mongoose.Types.ObjectId;
+  /** Version of the blueprint templateHtml was taken from; missing before version history */
+  templateVersion?: number;
   templateHtml?: string;
   templateBackgroundUrl?: string;
-  emailTemplate?: {
-    subject: string;
-    body: string;
-  };
+  /** Tried in order before the event's own template, see lib/templateSlots */
+  templateSlots?: ITemplateSlot[];
+  /** Signatories printed on new certificates, in order, see lib/signatories */
+  signatoryIds?: mongoose.Types.ObjectId[];
+  /** Library email template the event uses, see resolveEmailTemplate */
+  emailTemplateId?: mongoose.Types.ObjectId;
+  /**
+   * The event's own email template, or, with emailTemplateId, the fields
+   * that override the library template for this event
+   */
+  emailTemplate?: Partial<EmailTemplateContent>;
+  /** Format of new certificate numbers; the ECELL-YYYY-XXXXX default when unset */
+  numberScheme?: CertificateNumberScheme;
+  /** PDFs can only be downloaded with a signed, expiring link */
+  privateDownloads?: boolean;
+  /** Custom field keys listed on the public verify page; the rest stay private */
+  verifyCustomFields?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+const NumberSchemeSchema = new Schema<CertificateNumberScheme>(
+  {
+    prefix: { type: String, required: true, trim: true, uppercase: true },
+    eventCode: { type: String, trim: true, uppercase: true },
+    includeYear: { type: Boolean, default: false },
+    sequenceDigits: { type: Number, default: 0, min: 0, max: 8 },
+    randomLength: { type: Number, default: 0, min: 0, max: 10 },
+    checkDigit: { type: Boolean, default: false },
+  },
+  { _id: false },
+);
+
+const TemplateSlotSchema = new Schema<ITemplateSlot>(
+  {
+    name: { type: String, required: true, trim: true },
+    achievementTypes: {
+      type: [{ type: String, enum: ACHIEVEMENT_TYPES }],
+      default: [],
+    },
+    field: { type: String, trim: true },
+    value: { type: String, trim: true },
+    templateId: {
+      type: Schema.Types.ObjectId,
+      ref: "Template",
+      required: true,
+    },
+    templateVersion: { type: Number },
+    templateHtml: { type: String, required: true },
+    templateBackgroundUrl: { type: String, trim: true },
+  },
+  { _id: false },
+);
+
 const EventSchema = new Schema<IEvent>(
   {
     title: {
@@ -48,6 +110,9 @@ const EventSchema = new Schema<IEvent>(
       type: Schema.Types.ObjectId,
       ref: "Template",
     },
+    templateVersion: {
+      type: Number,
+    },
     templateHtml: {
       type: String,
     },
@@ -55,9 +120,35 @@ const EventSchema = new Schema<IEvent>(
       type: String,
       trim: true,
     },
+    templateSlots: {
+      type: [TemplateSlotSchema],
+      default: undefined,
+    },
+    signatoryIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Signatory" }],
+      default: undefined,
+    },
+    emailTemplateId: {
+      type: Schema.Types.ObjectId,
+      ref: "EmailTemplate",
+    },
     emailTemplate: {
       subject: { type: String, trim: true },
       body: { type: String },
+      attachPdf: { type: Boolean },
+      inlineQr: { type: Boolean },
+    },
+    numberScheme: {
+      type: NumberSchemeSchema,
+      required: false,
+    },
+    privateDownloads: {
+      type: Boolean,
+      default: false,
+    },
+    verifyCustomFields: {
+      type: [String],
+      default: undefined,
     },
   },
   {
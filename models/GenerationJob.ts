@@ -0,0 +1,111 @@
+import mongoose, { Schema, model, models } from "mongoose";
+import { ACHIEVEMENT_TYPES } from "@/lib/achievements";
+import type { ImportRowData } from "@/lib/importValidation";
+
+export type GenerationJobStatus =
+  "queued" | "running" | "completed" | "cancelled";
+
+// "issue" creates new certificates from import rows; "regenerate" re-renders
+// existing certificates in place
+export type GenerationJobKind = "issue" | "regenerate";
+
+export type GenerationRowStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface IGenerationJobRow {
+  index: number;
+  data: ImportRowData;
+  status: GenerationRowStatus;
+  attempts: number;
+  claimId?: string;
+  certificateNumber?: string;
+  certificateId?: mongoose.Types.ObjectId;
+  teamId?: mongoose.Types.ObjectId;
+  /** The row issues its team's certificate rather than a member's */
+  isTeamCertificate?: boolean;
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export interface IGenerationJob {
+  _id: mongoose.Types.ObjectId;
+  eventId: mongoose.Types.ObjectId;
+  kind: GenerationJobKind;
+  status: GenerationJobStatus;
+  rows: IGenerationJobRow[];
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GenerationJobRowSchema = new Schema<IGenerationJobRow>(
+  {
+    index: { type: Number, required: true },
+    data: {
+      participantName: { type: String, required: true, trim: true },
+      participantEmail: { type: String, trim: true },
+      eventName: { type: String, trim: true },
+      eventStartDate: { type: String, trim: true },
+      eventEndDate: { type: String, trim: true },
+      certificateNumber: { type: String, trim: true, uppercase: true },
+      achievementType: { type: String, enum: ACHIEVEMENT_TYPES },
+      teamName: { type: String, trim: true },
+      // Plain object so row data keeps the ImportRowData shape
+      customFields: { type: Schema.Types.Mixed },
+    },
+    status: {
+      type: String,
+      enum: ["queued", "running", "succeeded", "failed"],
+      default: "queued",
+    },
+    attempts: { type: Number, default: 0 },
+    claimId: { type: String },
+    certificateNumber: { type: String, uppercase: true, trim: true },
+    certificateId: { type: Schema.Types.ObjectId, ref: "Certificate" },
+    teamId: { type: Schema.Types.ObjectId, ref: "Team" },
+    isTeamCertificate: { type: Boolean },
+    error: { type: String },
+    startedAt: { type: Date },
+    finishedAt: { type: Date },
+  },
+  { _id: false },
+);
+
+const GenerationJobSchema = new Schema<IGenerationJob>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+      required: [true, "Event ID is required"],
+      index: true,
+    },
+    kind: {
+      type: String,
+      enum: ["issue", "regenerate"],
+      default: "issue",
+    },
+    status: {
+      type: String,
+      enum: ["queued", "running", "completed", "cancelled"],
+      default: "queued",
+      index: true,
+    },
+    rows: {
+      type: [GenerationJobRowSchema],
+      default: [],
+    },
+    startedAt: { type: Date },
+    finishedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Prevent model recompilation in development
+const GenerationJob =
+  models.GenerationJob ||
+  model<IGenerationJob>("GenerationJob", GenerationJobSchema);
+
+export default GenerationJob;
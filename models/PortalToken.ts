@@ -0,0 +1,49 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export interface IPortalToken {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One-time magic links for the participant certificate portal. Only the
+// SHA-256 hash of the token is stored.
+const PortalTokenSchema = new Schema<IPortalToken>(
+  {
+    email: {
+      type: String,
+      required: [true, "Email is required"],
+      trim: true,
+      lowercase: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: [true, "Token hash is required"],
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, "Expiry is required"],
+    },
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// MongoDB removes links once they expire
+PortalTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Prevent model recompilation in development
+const PortalToken =
+  models.PortalToken || model<IPortalToken>("PortalToken", PortalTokenSchema);
+
+export default PortalToken;
@@ -0,0 +1,50 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export interface ISignatory {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  /** e.g. "President, E-Cell" or "Faculty Coordinator" */
+  designation: string;
+  /** Signature image uploaded through /api/admin/upload */
+  signatureUrl: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A signatory as printed on a certificate when it was issued */
+export interface ISignatorySnapshot {
+  signatoryId: mongoose.Types.ObjectId;
+  name: string;
+  designation: string;
+  signatureUrl: string;
+}
+
+// People who sign certificates; events pick theirs in order
+const SignatorySchema = new Schema<ISignatory>(
+  {
+    name: {
+      type: String,
+      required: [true, "Signatory name is required"],
+      trim: true,
+    },
+    designation: {
+      type: String,
+      required: [true, "Signatory designation is required"],
+      trim: true,
+    },
+    signatureUrl: {
+      type: String,
+      required: [true, "Signature image is required"],
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Prevent model recompilation in development
+const Signatory =
+  models.Signatory || model<ISignatory>("Signatory", SignatorySchema);
+
+export default Signatory;
@@ -0,0 +1,53 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export interface ITeamMember {
+  name: string;
+  email?: string;
+}
+
+export interface ITeam {
+  _id: mongoose.Types.ObjectId;
+  eventId: mongoose.Types.ObjectId;
+  name: string;
+  members: ITeamMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TeamMemberSchema = new Schema<ITeamMember>(
+  {
+    name: { type: String, required: true, trim: true },
+    email: { type: String, trim: true, lowercase: true },
+  },
+  { _id: false },
+);
+
+const TeamSchema = new Schema<ITeam>(
+  {
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+      required: [true, "Event ID is required"],
+    },
+    name: {
+      type: String,
+      required: [true, "Team name is required"],
+      trim: true,
+    },
+    members: {
+      type: [TeamMemberSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// Team names are unique within an event
+TeamSchema.index({ eventId: 1, name: 1 }, { unique: true });
+
+// Prevent model recompilation in development
+const Team = models.Team || model<ITeam>("Team", TeamSchema);
+
+export default Team;
@@ -7,6 +7,8 @@ export interface ITemplate {
   html: string;
   category?: string;
   backgroundUrl?: string;
+  /** Current version, see models/TemplateVersion; missing on blueprints saved before version history */
+  version?: number;
   isArchived: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -37,6 +39,10 @@ const TemplateSchema = new Schema<ITemplate>(
       type: String,
       trim: true,
     },
+    version: {
+      type: Number,
+      min: 1,
+    },
     isArchived: {
       type: Boolean,
       default: false,
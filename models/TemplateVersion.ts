@@ -0,0 +1,70 @@
+import mongoose, { Schema, model, models } from "mongoose";
+
+export interface ITemplateVersion {
+  _id: mongoose.Types.ObjectId;
+  templateId: mongoose.Types.ObjectId;
+  /** 1 for the first design, counting up with every saved change */
+  version: number;
+  html: string;
+  backgroundUrl?: string;
+  note?: string;
+  /** Admin email; missing on the design a blueprint had before version history */
+  createdBy?: string;
+  /** Version whose design this one brought back, for rollbacks */
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+// Saved designs of a blueprint. Versions are never changed once written.
+const TemplateVersionSchema = new Schema<ITemplateVersion>(
+  {
+    templateId: {
+      type: Schema.Types.ObjectId,
+      ref: "Template",
+      required: [true, "Template ID is required"],
+      immutable: true,
+    },
+    version: {
+      type: Number,
+      required: [true, "Version number is required"],
+      min: 1,
+      immutable: true,
+    },
+    html: {
+      type: String,
+      required: [true, "Template HTML content is required"],
+      immutable: true,
+    },
+    backgroundUrl: {
+      type: String,
+      trim: true,
+      immutable: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      immutable: true,
+    },
+    createdBy: {
+      type: String,
+      immutable: true,
+    },
+    restoredFrom: {
+      type: Number,
+      immutable: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  },
+);
+
+// One document per version; also stops two saves taking the same number
+TemplateVersionSchema.index({ templateId: 1, version: -1 }, { unique: true });
+
+// Prevent model recompilation in development
+const TemplateVersion =
+  models.TemplateVersion ||
+  model<ITemplateVersion>("TemplateVersion", TemplateVersionSchema);
+
+export default TemplateVersion;